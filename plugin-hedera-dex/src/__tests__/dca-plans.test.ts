@@ -0,0 +1,243 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import { PrivateKey } from '@hashgraph/sdk';
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { hederaDexPlugin, StarterService } from '../index';
+import {
+  DcaPlanStore,
+  computeFirstRun,
+  computeNextRun,
+  describeDcaTotals,
+  describeSchedule,
+  parseDcaSchedule,
+  shortPlanId,
+  type StoredDcaPlan,
+} from '../dca-plans';
+import { createMemoryRuntime, createMockRuntime, createTestMemory, createUUID, mockSaucerSwapCalls } from './test-utils';
+
+const TREASURY_ACCOUNT = '0.0.2001';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MONDAY_NOON = Date.UTC(2024, 0, 1, 12, 0);
+
+const operatorKey = PrivateKey.generateED25519();
+
+/**
+ * Mock the Mirror Node for 6 decimal tokens sharing a 0.30% pool, quoting 25 SAUCE per USDC
+ */
+function mockMirrorNode(mockAxiosGet: ReturnType<typeof spyOn>, mockAxiosPost: ReturnType<typeof spyOn>) {
+  mockAxiosGet.mockImplementation((async (url: string) => {
+    if (url.endsWith(`/accounts/${TREASURY_ACCOUNT}`)) {
+      return { data: { account: TREASURY_ACCOUNT, key: { _type: 'ED25519', key: operatorKey.publicKey.toStringRaw() } } };
+    }
+    if (url.includes('/tokens/')) {
+      return { data: { decimals: '6' } };
+    }
+    throw new Error('Not found');
+  }) as any);
+
+  mockSaucerSwapCalls(mockAxiosPost, { quoteExactInput: (amountIn) => amountIn * 25n });
+}
+
+function findAction(name: string): any {
+  return hederaDexPlugin.actions?.find((action) => action.name === name);
+}
+
+describe('DCA Plans', () => {
+  let mockAxiosGet: ReturnType<typeof spyOn>;
+  let mockAxiosPost: ReturnType<typeof spyOn>;
+  let settings: Record<string, string>;
+
+  beforeEach(() => {
+    settings = {
+      HEDERA_NETWORK: 'testnet',
+      HEDERA_ACCOUNT_ID: TREASURY_ACCOUNT,
+      HEDERA_PRIVATE_KEY: operatorKey.toStringDer(),
+    };
+    mockAxiosGet = spyOn(axios, 'get');
+    mockAxiosPost = spyOn(axios, 'post');
+    mockMirrorNode(mockAxiosGet, mockAxiosPost);
+  });
+
+  afterEach(() => {
+    mockAxiosGet.mockRestore();
+    mockAxiosPost.mockRestore();
+  });
+
+  it('should parse weekday, time of day and interval schedules', () => {
+    expect(parseDcaSchedule('buy 50 HBAR worth of SAUCE every Monday')).toEqual({ kind: 'weekly', weekday: 1, minuteOfDay: 0 });
+    expect(parseDcaSchedule('every friday at 5:30 pm')).toEqual({ kind: 'weekly', weekday: 5, minuteOfDay: 17 * 60 + 30 });
+    expect(parseDcaSchedule('daily at 9')).toEqual({ kind: 'daily', minuteOfDay: 9 * 60 });
+    expect(parseDcaSchedule('every day')).toEqual({ kind: 'interval', intervalMs: 24 * HOUR_MS });
+    expect(parseDcaSchedule('every 12 hours')).toEqual({ kind: 'interval', intervalMs: 12 * HOUR_MS });
+    expect(parseDcaSchedule('swap 10 HBAR for SAUCE')).toBeNull();
+    expect(() => parseDcaSchedule('every 5 minutes')).toThrow('at most once an hour');
+    expect(() => parseDcaSchedule('daily at 25:00')).toThrow('Invalid time of day');
+
+    expect(describeSchedule({ kind: 'weekly', weekday: 1, minuteOfDay: 0 })).toBe('every Monday at 00:00 UTC');
+    expect(describeSchedule({ kind: 'interval', intervalMs: 12 * HOUR_MS })).toBe('every 12 hours');
+  });
+
+  it('should schedule the next purchase strictly after the last one', () => {
+    expect(computeNextRun({ kind: 'weekly', weekday: 1, minuteOfDay: 0 }, MONDAY_NOON)).toBe(Date.UTC(2024, 0, 8));
+    expect(computeNextRun({ kind: 'weekly', weekday: 3, minuteOfDay: 570 }, MONDAY_NOON)).toBe(Date.UTC(2024, 0, 3, 9, 30));
+    expect(computeNextRun({ kind: 'daily', minuteOfDay: 13 * 60 }, MONDAY_NOON)).toBe(Date.UTC(2024, 0, 1, 13));
+    expect(computeNextRun({ kind: 'daily', minuteOfDay: 12 * 60 }, MONDAY_NOON)).toBe(Date.UTC(2024, 0, 2, 12));
+    expect(computeNextRun({ kind: 'interval', intervalMs: HOUR_MS }, MONDAY_NOON)).toBe(MONDAY_NOON + HOUR_MS);
+
+    // Interval plans make their first purchase right away
+    expect(computeFirstRun({ kind: 'interval', intervalMs: HOUR_MS }, MONDAY_NOON)).toBe(MONDAY_NOON);
+  });
+
+  it('should report the average cost of a plan', () => {
+    const plan = { fromToken: 'USDC', toToken: 'SAUCE', fromTokenDecimals: 6, toTokenDecimals: 6, purchases: 2 } as StoredDcaPlan;
+    expect(describeDcaTotals({ ...plan, purchases: 0, totalSpent: '0', totalReceived: '0' })).toBeNull();
+    expect(describeDcaTotals({ ...plan, totalSpent: '20000000', totalReceived: '400000000' }))
+      .toBe('2 purchases: spent 20 USDC for 400 SAUCE, an average cost of 0.05 USDC per SAUCE');
+  });
+
+  it('should recognise DCA requests without mistaking them for swaps or orders', async () => {
+    const validate = (name: string, text: string) =>
+      findAction(name).validate(createMockRuntime(), createTestMemory({ content: { text, source: 'test' } }), undefined);
+
+    expect(await validate('CREATE_DCA_PLAN', 'Buy 50 HBAR worth of SAUCE every Monday')).toBe(true);
+    expect(await validate('CREATE_DCA_PLAN', 'Swap 10 USDC for SAUCE every day at 9:00')).toBe(true);
+    expect(await validate('CREATE_DCA_PLAN', 'Swap 10 USDC for SAUCE')).toBe(false);
+    expect(await validate('PAUSE_DCA_PLAN', 'pause plan 3f9a2c1b')).toBe(true);
+    expect(await validate('RESUME_DCA_PLAN', 'pause plan 3f9a2c1b')).toBe(false);
+    expect(await validate('CANCEL_DCA_PLAN', 'stop dca plan 3f9a2c1b')).toBe(true);
+    expect(await validate('CANCEL_ORDER', 'cancel plan 3f9a2c1b')).toBe(false);
+    expect(await validate('LIST_DCA_PLANS', 'Show my DCA plans')).toBe(true);
+  });
+
+  it('should create, list, pause, resume and cancel a plan', async () => {
+    const { runtime } = createMemoryRuntime(settings);
+    const entityId = createUUID();
+    const say = (text: string) => createTestMemory({ entityId, content: { text, source: 'test' } });
+
+    const created = await findAction('CREATE_DCA_PLAN').handler(runtime, say('Buy 10 USDC worth of SAUCE every Monday at 8:00'));
+    expect(created.success).toBe(true);
+    expect(created.values).toMatchObject({ amount: '10', fromToken: 'USDC', toToken: 'SAUCE', schedule: 'every Monday at 08:00 UTC' });
+    expect(new Date(created.values.nextRunAt).getUTCDay()).toBe(1);
+    const planId = created.values.planId;
+
+    const listed = await findAction('LIST_DCA_PLANS').handler(runtime, say('Show my DCA plans'));
+    expect(listed.values).toMatchObject({ activeCount: 1, totalCount: 1 });
+
+    // Plans belong to the user who created them
+    const foreign = await findAction('PAUSE_DCA_PLAN').handler(runtime, createTestMemory({ content: { text: `pause plan ${planId}`, source: 'test' } }));
+    expect(foreign.success).toBe(false);
+
+    const paused = await findAction('PAUSE_DCA_PLAN').handler(runtime, say(`pause plan ${planId}`));
+    expect(paused.values.status).toBe('paused');
+
+    const resumed = await findAction('RESUME_DCA_PLAN').handler(runtime, say(`resume plan ${planId}`));
+    expect(resumed.values).toMatchObject({ status: 'active', nextRunAt: created.values.nextRunAt });
+
+    const cancelled = await findAction('CANCEL_DCA_PLAN').handler(runtime, say(`cancel plan ${planId}`));
+    expect(cancelled.values.status).toBe('cancelled');
+
+    const again = await findAction('RESUME_DCA_PLAN').handler(runtime, say(`resume plan ${planId}`));
+    expect(again.text).toContain('is already cancelled');
+  });
+
+  it('should refuse plans the agent cannot execute', async () => {
+    const { runtime } = createMemoryRuntime({ ...settings, HEDERA_SIGNING_MODE: 'user' });
+    const userMode = await findAction('CREATE_DCA_PLAN').handler(runtime, createTestMemory({ content: { text: 'Buy 10 USDC worth of SAUCE every Monday', source: 'test' } }));
+    expect(userMode.text).toContain('HEDERA_SIGNING_MODE=agent');
+
+    const { runtime: agentRuntime } = createMemoryRuntime(settings);
+    const tooOften = await findAction('CREATE_DCA_PLAN').handler(agentRuntime, createTestMemory({ content: { text: 'Swap 10 USDC for SAUCE every 10 minutes', source: 'test' } }));
+    expect(tooOften.values.error).toBe('CREATE_DCA_PLAN_FAILED');
+    expect(tooOften.text).toContain('at most once an hour');
+  });
+
+  describe('DCA Scheduler', () => {
+    let service: StarterService;
+
+    afterEach(async () => {
+      await service?.stop();
+    });
+
+    async function createPlan(runtime: IAgentRuntime): Promise<StoredDcaPlan> {
+      const created = await findAction('CREATE_DCA_PLAN').handler(
+        runtime,
+        createTestMemory({ content: { text: 'Swap 10 USDC for SAUCE every 2 hours', source: 'discord' } })
+      );
+      expect(created.success).toBe(true);
+      return created.data.plan;
+    }
+
+    it('should leave plans alone until they are due', async () => {
+      const { runtime, notifications } = createMemoryRuntime(settings);
+      const plan = await createPlan(runtime);
+      const store = new DcaPlanStore(runtime);
+      await store.update(plan.id, { nextRunAt: Date.now() + HOUR_MS });
+      service = (await StarterService.start(runtime)) as StarterService;
+
+      await service.checkDcaPlans();
+
+      expect((await store.find(plan.entityId, shortPlanId(plan.id)))?.lastRunAt).toBeUndefined();
+      expect(notifications).toHaveLength(0);
+    });
+
+    it('should skip a plan cancelled after the due plans were listed', async () => {
+      const { runtime, notifications } = createMemoryRuntime(settings);
+      const plan = await createPlan(runtime);
+      const store = new DcaPlanStore(runtime);
+      service = (await StarterService.start(runtime)) as StarterService;
+      mockAxiosPost.mockClear();
+
+      // The user cancels the plan while the scheduler is picking it up
+      const listMemories = runtime.getMemories;
+      runtime.getMemories = (async (params: any) => {
+        const listed = await listMemories(params);
+        runtime.getMemories = listMemories;
+        await store.update(plan.id, { status: 'cancelled' });
+        return listed;
+      }) as any;
+      await service.checkDcaPlans();
+
+      const cancelled = await store.find(plan.entityId, shortPlanId(plan.id));
+      expect(cancelled).toMatchObject({ status: 'cancelled', purchases: 0, consecutiveFailures: 0 });
+      expect(mockAxiosPost).not.toHaveBeenCalled();
+      expect(notifications).toHaveLength(0);
+    });
+
+    it('should report failed purchases and pause the plan after repeated failures', async () => {
+      const { runtime, notifications } = createMemoryRuntime(settings);
+      const plan = await createPlan(runtime);
+      const store = new DcaPlanStore(runtime);
+      service = (await StarterService.start(runtime)) as StarterService;
+
+      settings.HEDERA_TRADING_POLICY = JSON.stringify({ deniedTokens: ['SAUCE'] });
+      await service.checkDcaPlans();
+
+      const failed = await store.find(plan.entityId, shortPlanId(plan.id));
+      expect(failed).toMatchObject({ status: 'active', consecutiveFailures: 1, purchases: 0 });
+      expect(failed?.lastError).toContain('deniedTokens');
+      expect(failed!.nextRunAt - failed!.lastRunAt!).toBe(2 * HOUR_MS);
+      expect(notifications[0].target).toMatchObject({ source: 'discord', roomId: plan.roomId });
+      expect(notifications[0].content.text).toContain(`DCA Purchase ${shortPlanId(plan.id)} Failed`);
+
+      for (let run = 0; run < 2; run++) {
+        await store.update(plan.id, { nextRunAt: Date.now() - 1 });
+        await service.checkDcaPlans();
+      }
+
+      const paused = await store.find(plan.entityId, shortPlanId(plan.id));
+      expect(paused).toMatchObject({ status: 'paused', consecutiveFailures: 3 });
+      expect(notifications).toHaveLength(3);
+      expect(notifications[2].content.text).toContain(`DCA Plan ${shortPlanId(plan.id)} Paused`);
+
+      // Resuming clears the failures, and a plan paused past its next purchase makes it right away
+      await store.update(plan.id, { nextRunAt: Date.now() - HOUR_MS });
+      const resumed = await findAction('RESUME_DCA_PLAN').handler(
+        runtime,
+        createTestMemory({ entityId: plan.entityId as UUID, content: { text: `resume plan ${shortPlanId(plan.id)}`, source: 'discord' } })
+      );
+      expect(resumed.data.plan).toMatchObject({ status: 'active', consecutiveFailures: 0 });
+      expect(resumed.values.nextRunAt).toBeLessThanOrEqual(Date.now());
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it, beforeEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import {
+  FALLBACK_GAS_LIMIT,
+  MAX_GAS_LIMIT,
+  applyGasMargin,
+  estimateContractCallFee,
+} from '../gas';
+
+// Mock axios for controlled testing
+const mockAxiosGet = spyOn(axios, 'get');
+const mockAxiosPost = spyOn(axios, 'post');
+
+const MIRROR_NODE_URL = 'https://mainnet-public.mirrornode.hedera.com';
+
+const callParams = {
+  to: '0x00000000000000000000000000000000003c437a',
+  data: '0xac9650d8',
+  from: '0x00000000000000000000000000000000000003e9',
+};
+
+/**
+ * Serve the network fee and exchange rate endpoints
+ * Gas price of 71 tinybars and a rate of 12 cents per HBAR
+ */
+function mockNetworkEndpoints() {
+  mockAxiosGet.mockImplementation((async (url: string) => {
+    if (url.endsWith('/api/v1/network/fees')) {
+      return { data: { fees: [{ gas: 71, transaction_type: 'ContractCall' }] } };
+    }
+    if (url.endsWith('/api/v1/network/exchangerate')) {
+      return { data: { current_rate: { cent_equivalent: 12, hbar_equivalent: 1 } } };
+    }
+    throw new Error(`Unexpected request: ${url}`);
+  }) as any);
+}
+
+describe('Gas Estimation', () => {
+  beforeEach(() => {
+    mockAxiosGet.mockReset();
+    mockAxiosPost.mockReset();
+  });
+
+  it('should add the safety margin and cap at the network maximum', () => {
+    expect(applyGasMargin(200_000n, 2000)).toBe(240_000n);
+    expect(applyGasMargin(100_001n, 1)).toBe(100_012n);
+    expect(applyGasMargin(14_000_000n, 2000)).toBe(MAX_GAS_LIMIT);
+  });
+
+  it('should estimate the gas limit and fee in HBAR and USD', async () => {
+    mockAxiosPost.mockResolvedValueOnce({ data: { result: '0x30d40' } }); // 200000 gas
+    mockNetworkEndpoints();
+
+    const estimate = await estimateContractCallFee(MIRROR_NODE_URL, callParams, 2000);
+
+    expect(mockAxiosPost.mock.calls[0][1]).toMatchObject({ estimate: true, data: callParams.data });
+    expect(estimate.gasEstimate).toBe(200_000n);
+    expect(estimate.gasLimit).toBe(240_000n);
+    // Charged for the estimate, which exceeds 80% of the limit (192000)
+    expect(estimate.feeTinybars).toBe(14_200_000n);
+    expect(estimate.fee).toBe('0.142');
+    expect(estimate.feeUsd).toBe('0.01704');
+  });
+
+  it('should fall back to the previous fixed limit when estimation fails', async () => {
+    mockAxiosPost.mockRejectedValueOnce(new Error('CONTRACT_REVERT_EXECUTED'));
+    mockNetworkEndpoints();
+
+    const estimate = await estimateContractCallFee(MIRROR_NODE_URL, callParams);
+
+    expect(estimate.gasEstimate).toBeUndefined();
+    expect(estimate.gasLimit).toBe(FALLBACK_GAS_LIMIT);
+    // 80% of the fallback limit is charged at minimum
+    expect(estimate.feeTinybars).toBe(240_000n * 71n);
+  });
+
+  it('should leave out the fee when the gas price is unavailable', async () => {
+    mockAxiosPost.mockResolvedValueOnce({ data: { result: '0x30d40' } });
+    mockAxiosGet.mockRejectedValue(new Error('Network error'));
+
+    const estimate = await estimateContractCallFee(MIRROR_NODE_URL, callParams);
+
+    expect(estimate.gasLimit).toBe(240_000n);
+    expect(estimate.fee).toBeUndefined();
+    expect(estimate.feeUsd).toBeUndefined();
+  });
+});
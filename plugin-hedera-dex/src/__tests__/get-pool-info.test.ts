@@ -11,6 +11,8 @@ import {
   createTestMemory,
 } from './test-utils';
 import axios from 'axios';
+import { ethers } from 'ethers';
+import { SAUCERSWAP_FACTORY_ABI } from '../saucerswap-abi';
 
 // Mock axios for controlled testing
 const mockAxios = spyOn(axios, 'get');
@@ -266,4 +268,41 @@ describe('Get Pool Info Action', () => {
     expect(callbackText).toContain('0.30% fee');
     expect(callbackText).toContain('0.05% fee');
   });
+
+  it('should resolve pool contract IDs from the PoolCreated event data', async () => {
+    const factoryInterface = new ethers.Interface(SAUCERSWAP_FACTORY_ABI);
+    const create2Address = '0x9d6fd8c1a7e3b5e4ac8a0f1c8a6ed4b2b05e2a11';
+    const poolCreatedLog = (fee: number, tickSpacing: number, pool: string) => {
+      const { data, topics } = factoryInterface.encodeEventLog('PoolCreated', [
+        '0x0000000000000000000000000000000000001234',
+        '0x0000000000000000000000000000000000005678',
+        fee,
+        tickSpacing,
+        pool,
+      ]);
+      return { data, topics };
+    };
+
+    mockAxios
+      .mockResolvedValueOnce({ data: { logs: [poolCreatedLog(3000, 60, create2Address), poolCreatedLog(500, 10, '0x00000000000000000000000000000000003c4b1d')] } })
+      .mockResolvedValueOnce({ data: { decimals: 8, name: 'Token A', symbol: 'TKNA' } })
+      .mockResolvedValueOnce({ data: { decimals: 6, name: 'Token B', symbol: 'TKNB' } })
+      .mockResolvedValueOnce({ data: { contract_id: '0.0.4567890', evm_address: create2Address } })
+      .mockResolvedValueOnce({ data: { decimals: 8, name: 'Token A', symbol: 'TKNA' } })
+      .mockResolvedValueOnce({ data: { decimals: 6, name: 'Token B', symbol: 'TKNB' } });
+
+    const message = createTestMemory({
+      content: { text: 'Show TKNA/TKNB pool details', source: 'test' },
+    });
+
+    const result = await getPoolInfoAction.handler(runtime, message, undefined, undefined, undefined);
+
+    expect(result.success).toBe(true);
+    // CREATE2 pool addresses are looked up on the Mirror Node, long-zero addresses encode the ID
+    expect(mockAxios.mock.calls[3][0]).toBe(`https://mainnet-public.mirrornode.hedera.com/api/v1/contracts/${create2Address}`);
+    expect(result.data.pools.map((pool: any) => [pool.contractId, pool.evmAddress, pool.tickSpacing])).toEqual([
+      ['0.0.4567890', create2Address, 60],
+      ['0.0.3951389', '0x00000000000000000000000000000000003c4b1d', 10],
+    ]);
+  });
 });
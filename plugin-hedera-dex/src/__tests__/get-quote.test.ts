@@ -0,0 +1,156 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import { hederaDexPlugin } from '../index';
+import { type IAgentRuntime, type HandlerCallback } from '@elizaos/core';
+import { createMockRuntime, createTestMemory, mockSaucerSwapCalls } from './test-utils';
+
+const POOL_ADDRESSES: Record<number, string> = {
+  500: '0x00000000000000000000000000000000003c4b1c',
+  3000: '0x00000000000000000000000000000000003c4b1d',
+};
+
+/**
+ * Fee tier of a single-hop encoded path (token, 3 byte fee, token)
+ */
+function pathFee(path: string): number {
+  return parseInt(path.slice(42, 48), 16);
+}
+
+/**
+ * Mock the Mirror Node for 6 decimal tokens with 0.05% and 0.30% pools priced 1:1
+ * The 0.05% pool fills 100 USDC for 99.5 SAUCE and the 0.30% pool for 99 SAUCE;
+ * swaps use 100000 gas at 71 tinybars, with HBAR at 12 cents
+ */
+function mockMirrorNode(mockAxiosGet: ReturnType<typeof spyOn>, mockAxiosPost: ReturnType<typeof spyOn>) {
+  mockAxiosGet.mockImplementation((async (url: string) => {
+    if (url.endsWith('/api/v1/network/fees')) {
+      return { data: { fees: [{ gas: 71, transaction_type: 'ContractCall' }] } };
+    }
+    if (url.endsWith('/api/v1/network/exchangerate')) {
+      return { data: { current_rate: { cent_equivalent: 12, hbar_equivalent: 1 } } };
+    }
+    if (url.includes('/tokens/')) {
+      return { data: { decimals: '6' } };
+    }
+    throw new Error('Not found');
+  }) as any);
+
+  mockSaucerSwapCalls(mockAxiosPost, {
+    pools: POOL_ADDRESSES,
+    quoteExactInput: (amountIn, path) => amountIn * (pathFee(path) === 500 ? 995n : 990n) / 1000n,
+    quoteExactOutput: (amountOut, path) => amountOut * (pathFee(path) === 500 ? 1005n : 1010n) / 1000n,
+    sqrtPriceX96: () => 2n ** 96n,
+  });
+}
+
+describe('Get Quote Action', () => {
+  let runtime: IAgentRuntime;
+  let getQuoteAction: any;
+  let callbackResults: any[];
+  let mockAxiosGet: ReturnType<typeof spyOn>;
+  let mockAxiosPost: ReturnType<typeof spyOn>;
+
+  const callback: HandlerCallback = async (content) => {
+    callbackResults.push(content);
+    return [];
+  };
+
+  beforeEach(() => {
+    callbackResults = [];
+    mockAxiosGet = spyOn(axios, 'get');
+    mockAxiosPost = spyOn(axios, 'post');
+    mockMirrorNode(mockAxiosGet, mockAxiosPost);
+
+    // Testnet maps USDC to a WHBAR placeholder, so quote against the mainnet token IDs
+    const settings: Record<string, string> = {
+      HEDERA_NETWORK: 'mainnet',
+      HEDERA_MIRROR_NODE_URL: 'https://mainnet.mirrornode.hedera.com',
+    };
+    runtime = createMockRuntime({ getSetting: (key: string) => settings[key] });
+
+    getQuoteAction = hederaDexPlugin.actions?.find((action) => action.name === 'GET_QUOTE');
+  });
+
+  afterEach(() => {
+    mockAxiosGet.mockRestore();
+    mockAxiosPost.mockRestore();
+  });
+
+  it('should recognise price questions without mistaking them for swaps', async () => {
+    const swapTokensAction = hederaDexPlugin.actions?.find((action) => action.name === 'SWAP_TOKENS')!;
+    const validate = (action: any, text: string) => action.validate(runtime, createTestMemory({ content: { text, source: 'test' } }));
+
+    expect(await validate(getQuoteAction, 'How much USDC would I get for 500 HBAR?')).toBe(true);
+    expect(await validate(getQuoteAction, 'how much HBAR do I need for 100 SAUCE?')).toBe(true);
+    expect(await validate(getQuoteAction, 'How much HBAR does it cost to buy 100 SAUCE?')).toBe(true);
+    expect(await validate(getQuoteAction, 'Quote 500 HBAR to USDC')).toBe(true);
+    expect(await validate(getQuoteAction, 'Swap 500 HBAR for USDC')).toBe(false);
+    expect(await validate(swapTokensAction, 'How much HBAR do I need to buy 100 SAUCE?')).toBe(false);
+  });
+
+  it('should compare exact input quotes across fee tiers', async () => {
+    const message = createTestMemory({ content: { text: 'How much SAUCE would I get for 100 USDC?', source: 'test' } });
+
+    const result = await getQuoteAction.handler(runtime, message, undefined, undefined, callback);
+
+    expect(result.success).toBe(true);
+    expect(result.values).toMatchObject({
+      tradeType: 'exactInput',
+      amount: '100',
+      fromToken: 'USDC',
+      toToken: 'SAUCE',
+      estimatedOutput: '99.5',
+      effectivePrice: '0.995',
+      priceImpactBps: 45,
+      bestRoute: 'USDC → SAUCE (0.05%)',
+      routesCompared: 2,
+    });
+    expect(result.data.routes[1]).toMatchObject({
+      description: 'USDC → SAUCE (0.30%)',
+      amountOut: '99',
+      priceImpactBps: 70,
+      poolFee: '0.30%',
+      poolFeeAmount: '0.3',
+      networkFee: '0.071',
+      networkFeeUsd: '0.00852',
+    });
+
+    const text = callbackResults[0].text;
+    expect(text).toContain('**1. USDC → SAUCE (0.05%)** ⭐ Best');
+    expect(text).toContain('You Receive:** 99.5 SAUCE');
+    expect(text).toContain('Pool Fees:** 0.30% (0.3 USDC)');
+    expect(text).toContain('Network Fee:** ~0.071 HBAR (~$0.00852)');
+    expect(text).toContain('2 of 2 candidate routes compared');
+
+    // Quoting never reaches the router
+    expect(mockAxiosPost.mock.calls.every(([, body]: any) => !body.estimate)).toBe(true);
+  });
+
+  it('should quote what an exact output costs', async () => {
+    const message = createTestMemory({ content: { text: 'How much USDC do I need for 50 SAUCE?', source: 'test' } });
+
+    const result = await getQuoteAction.handler(runtime, message, undefined, undefined, callback);
+
+    expect(result.values).toMatchObject({
+      tradeType: 'exactOutput',
+      estimatedInput: '50.25',
+      estimatedOutput: '50',
+      effectivePrice: '1.005',
+    });
+    expect(callbackResults[0].text).toContain('You Pay:** 50.25 USDC');
+    expect(callbackResults[0].text).toContain('USDC per SAUCE');
+    expect(callbackResults[0].text).toContain('buy 50 SAUCE with USDC');
+  });
+
+  it('should report pairs without a route', async () => {
+    mockAxiosPost.mockImplementation((async () => {
+      throw new Error('CONTRACT_REVERT_EXECUTED');
+    }) as any);
+
+    const message = createTestMemory({ content: { text: 'Quote 100 USDC to SAUCE', source: 'test' } });
+    const result = await getQuoteAction.handler(runtime, message, undefined, undefined, callback);
+
+    expect(result.success).toBe(false);
+    expect(result.values.error).toBe('GET_QUOTE_FAILED');
+  });
+});
@@ -0,0 +1,301 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import { PrivateKey } from '@hashgraph/sdk';
+import type { IAgentRuntime } from '@elizaos/core';
+import { hederaDexPlugin, StarterService } from '../index';
+import {
+  OrderBook,
+  describeOrder,
+  fetchPoolPrices,
+  isPriceTriggered,
+  selectTriggerPrice,
+  shortOrderId,
+  type StoredOrder,
+} from '../limit-orders';
+import { createMemoryRuntime, createMockRuntime, createTestMemory, createUUID, mockSaucerSwapCalls } from './test-utils';
+
+const MIRROR_NODE_URL = 'https://testnet.mirrornode.hedera.com';
+const FACTORY_ID = '0.0.1197038';
+const USDC_ID = '0.0.429274'; // token0 of the pool (lower EVM address)
+const SAUCE_ID = '0.0.1183558';
+const TREASURY_ACCOUNT = '0.0.2001';
+
+// Pool prices are SAUCE per USDC: 25 SAUCE (sqrt 5) is 0.04 USDC per SAUCE, 64 SAUCE (sqrt 8) is 0.015625
+const sqrtPriceX96For = (saucePerUsdcSqrt: bigint) => saucePerUsdcSqrt * 2n ** 96n;
+
+const operatorKey = PrivateKey.generateED25519();
+
+type Market = { sqrtPriceX96: bigint; quotedAmountIn: bigint; heldSauce: bigint };
+
+/**
+ * Mock the Mirror Node for a SAUCE/USDC pair with a single 0.30% pool: 6 decimal tokens,
+ * a pool priced by sqrtPriceX96, a quoter asking quotedAmountIn USDC for any purchase
+ * (and paying 0.04 USDC per SAUCE sold) and an account holding heldSauce
+ */
+function mockMirrorNode(
+  mockAxiosGet: ReturnType<typeof spyOn>,
+  mockAxiosPost: ReturnType<typeof spyOn>,
+  market: Market
+) {
+  mockAxiosGet.mockImplementation((async (url: string) => {
+    if (url.endsWith(`/accounts/${TREASURY_ACCOUNT}`)) {
+      return {
+        data: {
+          account: TREASURY_ACCOUNT,
+          key: { _type: 'ED25519', key: operatorKey.publicKey.toStringRaw() },
+          balance: { balance: 0, tokens: [{ token_id: SAUCE_ID, balance: market.heldSauce.toString() }] },
+        },
+      };
+    }
+    if (url.includes('/tokens/')) {
+      return { data: { decimals: '6' } };
+    }
+    throw new Error('Not found');
+  }) as any);
+
+  mockSaucerSwapCalls(mockAxiosPost, {
+    sqrtPriceX96: () => market.sqrtPriceX96,
+    quoteExactOutput: () => market.quotedAmountIn,
+    quoteExactInput: (amountIn) => amountIn / 25n,
+  });
+}
+
+function findAction(name: string): any {
+  return hederaDexPlugin.actions?.find((action) => action.name === name);
+}
+
+describe('Limit Orders', () => {
+  let mockAxiosGet: ReturnType<typeof spyOn>;
+  let mockAxiosPost: ReturnType<typeof spyOn>;
+  let market: Market;
+  let settings: Record<string, string>;
+
+  beforeEach(() => {
+    market = { sqrtPriceX96: sqrtPriceX96For(5n), quotedAmountIn: 16_000_000n, heldSauce: 1_000_000_000n };
+    settings = {
+      HEDERA_NETWORK: 'testnet',
+      HEDERA_ACCOUNT_ID: TREASURY_ACCOUNT,
+      HEDERA_PRIVATE_KEY: operatorKey.toStringDer(),
+    };
+    mockAxiosGet = spyOn(axios, 'get');
+    mockAxiosPost = spyOn(axios, 'post');
+    mockMirrorNode(mockAxiosGet, mockAxiosPost, market);
+  });
+
+  afterEach(() => {
+    mockAxiosGet.mockRestore();
+    mockAxiosPost.mockRestore();
+  });
+
+  it('should trigger on the pool price that crosses the limit', () => {
+    expect(isPriceTriggered('below', 20n, 20n)).toBe(true);
+    expect(isPriceTriggered('below', 21n, 20n)).toBe(false);
+    expect(isPriceTriggered('above', 19n, 20n)).toBe(false);
+
+    expect(selectTriggerPrice('below', [30n, 10n, 20n])).toBe(10n);
+    expect(selectTriggerPrice('above', [30n, 10n, 20n])).toBe(30n);
+    expect(selectTriggerPrice('above', [])).toBeNull();
+  });
+
+  it('should read the price of a token from its pools in quote token units', async () => {
+    expect(await fetchPoolPrices(MIRROR_NODE_URL, FACTORY_ID, SAUCE_ID, USDC_ID, 6)).toEqual([40_000n]);
+    expect(await fetchPoolPrices(MIRROR_NODE_URL, FACTORY_ID, USDC_ID, SAUCE_ID, 6)).toEqual([25_000_000n]);
+  });
+
+  it('should parse limit orders without mistaking them for swaps', async () => {
+    const validate = (name: string, text: string) =>
+      findAction(name).validate(createMockRuntime(), createTestMemory({ content: { text, source: 'test' } }), undefined);
+
+    expect(await validate('PLACE_LIMIT_ORDER', 'Buy 1000 SAUCE if it drops below 0.02 USDC')).toBe(true);
+    expect(await validate('PLACE_LIMIT_ORDER', 'Sell 500 SAUCE when the price is above 0.05 USDC for 3 days')).toBe(true);
+    expect(await validate('PLACE_LIMIT_ORDER', 'Swap 10 HBAR for SAUCE')).toBe(false);
+    expect(await validate('SWAP_TOKENS', 'Buy 1000 SAUCE if it drops below 0.02 USDC')).toBe(false);
+    expect(await validate('CANCEL_ORDER', 'cancel order 3f9a2c1b')).toBe(true);
+    expect(await validate('LIST_ORDERS', 'Show my open orders')).toBe(true);
+  });
+
+  it('should place, list and cancel an order', async () => {
+    const { runtime } = createMemoryRuntime(settings);
+    const entityId = createUUID();
+    const say = (text: string) => createTestMemory({ entityId, content: { text, source: 'test' } });
+
+    const placed = await findAction('PLACE_LIMIT_ORDER').handler(runtime, say('Buy 1000 SAUCE if it drops below 0.02 USDC for 2 days'));
+    expect(placed.success).toBe(true);
+    expect(placed.values).toMatchObject({ side: 'buy', token: 'SAUCE', quoteToken: 'USDC', condition: 'below', limitPrice: '0.02', currentPrice: '0.04' });
+    expect(placed.values.expiresAt - Date.now()).toBeGreaterThan(47 * 60 * 60 * 1000);
+
+    const listed = await findAction('LIST_ORDERS').handler(runtime, say('Show my orders'));
+    expect(listed.values).toMatchObject({ openCount: 1, totalCount: 1 });
+
+    // Orders belong to the user who placed them
+    const foreign = await findAction('CANCEL_ORDER').handler(runtime, createTestMemory({ content: { text: `cancel order ${placed.values.orderId}`, source: 'test' } }));
+    expect(foreign.success).toBe(false);
+
+    const cancelled = await findAction('CANCEL_ORDER').handler(runtime, say(`cancel order ${placed.values.orderId}`));
+    expect(cancelled.success).toBe(true);
+
+    const again = await findAction('CANCEL_ORDER').handler(runtime, say(`cancel order ${placed.values.orderId}`));
+    expect(again.text).toContain('is already cancelled');
+  });
+
+  it('should refuse orders without a pool or in non-custodial mode', async () => {
+    const { runtime } = createMemoryRuntime({ ...settings, HEDERA_SIGNING_MODE: 'user' });
+    const userMode = await findAction('PLACE_LIMIT_ORDER').handler(runtime, createTestMemory({ content: { text: 'Buy 1000 SAUCE if it drops below 0.02 USDC', source: 'test' } }));
+    expect(userMode.text).toContain('HEDERA_SIGNING_MODE=agent');
+
+    market.sqrtPriceX96 = 0n;
+    const { runtime: agentRuntime } = createMemoryRuntime(settings);
+    const noPool = await findAction('PLACE_LIMIT_ORDER').handler(agentRuntime, createTestMemory({ content: { text: 'Buy 1000 SAUCE if it drops below 0.02 USDC', source: 'test' } }));
+    expect(noPool.text).toContain('No SAUCE/USDC pool exists');
+  });
+
+  it('should parse stop-loss and take-profit orders apart from limit orders', async () => {
+    const validate = (name: string, text: string) =>
+      findAction(name).validate(createMockRuntime(), createTestMemory({ content: { text, source: 'test' } }), undefined);
+
+    expect(await validate('PLACE_TRIGGER_ORDER', 'Sell all my SAUCE if it falls 15% from now')).toBe(true);
+    expect(await validate('PLACE_TRIGGER_ORDER', 'Take profit on 500 SAUCE at 0.05 USDC')).toBe(true);
+    expect(await validate('PLACE_TRIGGER_ORDER', 'Set a trailing stop of 10% on my SAUCE')).toBe(true);
+    expect(await validate('PLACE_TRIGGER_ORDER', 'Buy 1000 SAUCE if it drops below 0.02 USDC')).toBe(false);
+    expect(await validate('PLACE_LIMIT_ORDER', 'Sell all my SAUCE if it falls 15% from now')).toBe(false);
+    expect(await validate('PLACE_TRIGGER_ORDER', 'Sell 500 SAUCE for USDC if it rises above 0.05 USDC')).toBe(true);
+    expect(await validate('SWAP_TOKENS', 'Sell 500 SAUCE for USDC if it rises above 0.05 USDC')).toBe(false);
+    // Named orders are taken without a token and the user is asked for it; bare price moves are not orders
+    expect(await validate('PLACE_TRIGGER_ORDER', 'take profit at 0.05 USDC')).toBe(true);
+    expect(await validate('PLACE_TRIGGER_ORDER', 'What happens if the price falls 10%?')).toBe(false);
+  });
+
+  it('should place protective orders on the held balance from the current price', async () => {
+    const { runtime } = createMemoryRuntime(settings);
+    const say = (text: string) => createTestMemory({ content: { text, source: 'test' } });
+
+    const stopLoss = await findAction('PLACE_TRIGGER_ORDER').handler(runtime, say('Sell all my SAUCE if it falls 15% from now'));
+    expect(stopLoss.success).toBe(true);
+    expect(stopLoss.values).toMatchObject({
+      kind: 'stop-loss',
+      amount: '1000',
+      sellBalance: true,
+      token: 'SAUCE',
+      quoteToken: 'USDC',
+      condition: 'below',
+      limitPrice: '0.034',
+      currentPrice: '0.04',
+    });
+    expect(stopLoss.data.order.referencePrice).toBe('0.04');
+
+    const takeProfit = await findAction('PLACE_TRIGGER_ORDER').handler(runtime, say('Take profit on 500 SAUCE at 0.05 USDC'));
+    expect(takeProfit.values).toMatchObject({ kind: 'take-profit', amount: '500', sellBalance: false, condition: 'above', limitPrice: '0.05' });
+
+    // A take-profit under the current price would sell straight away
+    const underMarket = await findAction('PLACE_TRIGGER_ORDER').handler(runtime, say('Take profit on 500 SAUCE at 0.03 USDC'));
+    expect(underMarket.text).toContain('is already below the current price of 0.04 USDC');
+
+    const noToken = await findAction('PLACE_TRIGGER_ORDER').handler(runtime, say('take profit at 0.05 USDC'));
+    expect(noToken.success).toBe(false);
+    expect(noToken.text).toContain('Which token should this take-profit sell?');
+
+    market.heldSauce = 0n;
+    const nothingHeld = await findAction('PLACE_TRIGGER_ORDER').handler(runtime, say('Stop loss on my SAUCE at 0.03 USDC'));
+    expect(nothingHeld.text).toContain(`${TREASURY_ACCOUNT} holds no SAUCE to protect`);
+  });
+
+  describe('Order Watcher', () => {
+    let service: StarterService;
+
+    afterEach(async () => {
+      await service?.stop();
+    });
+
+    async function placeOrder(runtime: IAgentRuntime): Promise<StoredOrder> {
+      const placed = await findAction('PLACE_LIMIT_ORDER').handler(
+        runtime,
+        createTestMemory({ content: { text: 'Buy 1000 SAUCE if it drops below 0.02 USDC', source: 'discord' } })
+      );
+      expect(placed.success).toBe(true);
+      return placed.data.order;
+    }
+
+    it('should keep an order open until the price crosses its limit and the quote meets it', async () => {
+      const { runtime, notifications } = createMemoryRuntime(settings);
+      const order = await placeOrder(runtime);
+      const book = new OrderBook(runtime);
+      service = (await StarterService.start(runtime)) as StarterService;
+
+      await service.checkOrders();
+      expect((await book.find(order.entityId, shortOrderId(order.id)))?.status).toBe('open');
+
+      // The pool drops to 0.015625 USDC, but buying 1000 SAUCE costs 21 USDC, more than the 20 USDC limit
+      market.sqrtPriceX96 = sqrtPriceX96For(8n);
+      market.quotedAmountIn = 21_000_000n;
+      await service.checkOrders();
+
+      const reopened = await book.find(order.entityId, shortOrderId(order.id));
+      expect(reopened).toMatchObject({ status: 'open', triggerPrice: '0.015625', attempts: 0 });
+      expect(notifications).toHaveLength(0);
+    });
+
+    it('should re-check the trading policy when the order triggers', async () => {
+      const { runtime, notifications } = createMemoryRuntime(settings);
+      const order = await placeOrder(runtime);
+      service = (await StarterService.start(runtime)) as StarterService;
+
+      settings.HEDERA_TRADING_POLICY = JSON.stringify({ deniedTokens: ['SAUCE'] });
+      market.sqrtPriceX96 = sqrtPriceX96For(8n);
+      await service.checkOrders();
+
+      const failed = await new OrderBook(runtime).find(order.entityId, shortOrderId(order.id));
+      expect(failed?.status).toBe('failed');
+      expect(failed?.lastError).toContain('deniedTokens');
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].target).toMatchObject({ source: 'discord', roomId: order.roomId });
+      expect(notifications[0].content.text).toContain(`Order ${shortOrderId(order.id)} Not Executed`);
+    });
+
+    it('should raise a trailing stop with the price and sell on a fall from the peak', async () => {
+      const { runtime, notifications } = createMemoryRuntime(settings);
+      const placed = await findAction('PLACE_TRIGGER_ORDER').handler(
+        runtime,
+        createTestMemory({ content: { text: 'Set a trailing stop of 10% on my SAUCE', source: 'discord' } })
+      );
+      expect(placed.values).toMatchObject({ trailing: true, limitPrice: '0.036' });
+      const order: StoredOrder = placed.data.order;
+      const book = new OrderBook(runtime);
+      service = (await StarterService.start(runtime)) as StarterService;
+
+      // SAUCE rises to 0.0625 USDC (16 SAUCE per USDC)
+      market.sqrtPriceX96 = sqrtPriceX96For(4n);
+      await service.checkOrders();
+      expect(await book.find(order.entityId, shortOrderId(order.id))).toMatchObject({
+        status: 'open',
+        peakPrice: '0.0625',
+        limitPrice: '0.05625',
+      });
+      expect(describeOrder((await book.find(order.entityId, shortOrderId(order.id)))!))
+        .toBe('Sell all held SAUCE when the price is below 0.05625 USDC (stop-loss, trailing 10% below the peak of 0.0625)');
+
+      // It falls back to 0.04, under the raised stop, but the balance was moved out in the meantime
+      market.sqrtPriceX96 = sqrtPriceX96For(5n);
+      market.heldSauce = 0n;
+      await service.checkOrders();
+
+      const failed = await book.find(order.entityId, shortOrderId(order.id));
+      expect(failed).toMatchObject({ status: 'failed', triggerPrice: '0.04' });
+      expect(failed?.lastError).toContain('no longer holds any SAUCE');
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].content.text).toContain(`Order ${shortOrderId(order.id)} Not Executed`);
+    });
+
+    it('should expire orders and tell the room', async () => {
+      const { runtime, notifications } = createMemoryRuntime(settings);
+      const order = await placeOrder(runtime);
+      const book = new OrderBook(runtime);
+      await book.update(order.id, { expiresAt: Date.now() - 1 });
+      service = (await StarterService.start(runtime)) as StarterService;
+
+      await service.checkOrders();
+
+      expect((await book.find(order.entityId, shortOrderId(order.id)))?.status).toBe('expired');
+      expect(notifications[0].content.text).toContain('Expired');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  NETWORK_PROFILES,
+  resolveNetworkProfile,
+  requireContract,
+  getTransactionExplorerUrl,
+  parseConsensusNodes,
+  createHederaClient,
+} from '../network-profiles';
+import { TokenRegistry } from '../token-registry';
+import { hederaDexPlugin } from '../index';
+import { createMockRuntime, createTestMemory } from './test-utils';
+
+const settings = (values: Record<string, string>) => (key: string) => values[key];
+
+describe('Network Profiles', () => {
+  it('should use distinct SaucerSwap deployments on mainnet and testnet', () => {
+    const mainnet = resolveNetworkProfile('mainnet', settings({}));
+    const testnet = resolveNetworkProfile('testnet', settings({}));
+
+    expect(testnet.contracts.factory).toBe('0.0.1197038');
+    expect(testnet.contracts.whbar).toBe('0.0.15058');
+    for (const contract of ['router', 'factory', 'quoter', 'positionManager', 'whbar', 'whbarContract'] as const) {
+      expect(testnet.contracts[contract]).not.toBe(mainnet.contracts[contract]);
+    }
+  });
+
+  it('should select profiles by name or alias and reject unknown networks', () => {
+    expect(resolveNetworkProfile('Testnet', settings({})).name).toBe('testnet');
+    expect(resolveNetworkProfile('custom', settings({})).name).toBe('local');
+    expect(resolveNetworkProfile('previewnet', settings({})).contracts).toEqual({});
+    expect(() => resolveNetworkProfile('devnet', settings({}))).toThrow('Unsupported network: devnet');
+  });
+
+  it('should apply per-contract and endpoint overrides from settings', () => {
+    const profile = resolveNetworkProfile('local', settings({
+      HEDERA_MIRROR_NODE_URL: 'http://mirror.local:5551/',
+      HEDERA_CONSENSUS_NODES: '{"10.0.0.1:50211":"0.0.3","10.0.0.2:50211":"0.0.4"}',
+      HEDERA_SAUCERSWAP_ROUTER: '0.0.1010',
+      HEDERA_SAUCERSWAP_QUOTER: '0.0.1011',
+      HEDERA_EXPLORER_URL: 'http://localhost:8080/devnet',
+    }));
+
+    expect(profile.mirrorNodeUrl).toBe('http://mirror.local:5551');
+    expect(profile.consensusNodes).toEqual({ '10.0.0.1:50211': '0.0.3', '10.0.0.2:50211': '0.0.4' });
+    expect(profile.contracts).toEqual({ router: '0.0.1010', quoter: '0.0.1011' });
+    expect(getTransactionExplorerUrl(profile, '0.0.2@1700000000.000000001'))
+      .toBe('http://localhost:8080/devnet/transaction/0.0.2@1700000000.000000001');
+
+    // Overrides never leak into the shared profile definitions
+    expect(NETWORK_PROFILES.local.contracts).toEqual({});
+  });
+
+  it('should reject malformed overrides', () => {
+    expect(() => resolveNetworkProfile('mainnet', settings({ HEDERA_SAUCERSWAP_FACTORY: '0xabc' })))
+      .toThrow('Invalid HEDERA_SAUCERSWAP_FACTORY');
+    expect(() => parseConsensusNodes('not json')).toThrow('Invalid HEDERA_CONSENSUS_NODES');
+    expect(() => parseConsensusNodes('{"127.0.0.1:50211":"node-3"}')).toThrow('invalid account ID node-3');
+  });
+
+  it('should name the setting to configure when a contract is missing', () => {
+    const profile = resolveNetworkProfile('local', settings({}));
+    expect(() => requireContract(profile, 'quoter')).toThrow('Set HEDERA_SAUCERSWAP_QUOTER');
+    expect(getTransactionExplorerUrl(profile, '0.0.2@1700000000.000000001')).toBeUndefined();
+  });
+
+  it('should create a client for the local node', () => {
+    const client = createHederaClient(resolveNetworkProfile('local', settings({})));
+    expect(Object.keys(client.network)).toEqual(['127.0.0.1:50211']);
+    client.close();
+  });
+
+  it('should curate the WHBAR token of the profile', () => {
+    expect(new TokenRegistry('testnet').lookup('WHBAR')).toMatchObject({ status: 'found', token: { id: '0.0.15058' } });
+    expect(new TokenRegistry('local').list().map((token) => token.symbol)).toEqual(['HBAR']);
+  });
+
+  it('should report missing contracts when swapping on a network without SaucerSwap', async () => {
+    const swapTokensAction = hederaDexPlugin.actions?.find((action) => action.name === 'SWAP_TOKENS') as any;
+    const runtime = createMockRuntime({ getSetting: settings({ HEDERA_NETWORK: 'local' }) });
+    const message = createTestMemory({ content: { text: 'Swap 10 HBAR for USDC', source: 'test' } });
+
+    const result = await swapTokensAction.handler(runtime, message, undefined, undefined, async () => []);
+
+    expect(result.success).toBe(false);
+    expect(result.text).toContain('Set HEDERA_SAUCERSWAP_QUOTER');
+  });
+});
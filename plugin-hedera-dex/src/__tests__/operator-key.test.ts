@@ -0,0 +1,105 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import { Mnemonic, PrivateKey } from '@hashgraph/sdk';
+import { hederaDexPlugin } from '../index';
+import {
+  decodePrivateKey,
+  deriveMnemonicKey,
+  getKeyType,
+  parseDerivationPath,
+  readOperatorKeyConfig,
+  resolveOperatorKey,
+} from '../operator-key';
+import { createMockRuntime } from './test-utils';
+
+const MIRROR_NODE_URL = 'https://testnet.mirrornode.hedera.com';
+const RAW_KEY = '7f109a9e3b0d8ecfba9cc23a3614433ce0fa7ddcc80f2a8f10b222179a5a80d6';
+
+function mockAccountKey(mockAxiosGet: ReturnType<typeof spyOn>, key: PrivateKey) {
+  mockAxiosGet.mockImplementation((async (url: string) => {
+    if (url.endsWith('/api/v1/accounts/0.0.1001')) {
+      return {
+        data: {
+          account: '0.0.1001',
+          key: { _type: key.type === 'ED25519' ? 'ED25519' : 'ECDSA_SECP256K1', key: key.publicKey.toStringRaw() },
+        },
+      };
+    }
+    throw new Error(`Unexpected request ${url}`);
+  }) as any);
+}
+
+describe('Operator Key', () => {
+  let mockAxiosGet: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    mockAxiosGet = spyOn(axios, 'get');
+  });
+
+  afterEach(() => {
+    mockAxiosGet.mockRestore();
+  });
+
+  it('should detect the type of DER-encoded keys', () => {
+    const ed25519 = PrivateKey.generateED25519();
+    const ecdsa = PrivateKey.generateECDSA();
+
+    expect(decodePrivateKey(ed25519.toStringDer()).map(getKeyType)).toEqual(['ed25519']);
+    expect(decodePrivateKey(`0x${ecdsa.toStringDer()}`).map(getKeyType)).toEqual(['ecdsa']);
+    expect(() => decodePrivateKey(ed25519.toStringDer(), 'ecdsa')).toThrow('DER-encoded ed25519 key but HEDERA_KEY_TYPE is ecdsa');
+  });
+
+  it('should read raw hex keys as the configured type, or as both when it is unknown', () => {
+    expect(decodePrivateKey(RAW_KEY, 'ed25519').map(getKeyType)).toEqual(['ed25519']);
+    expect(decodePrivateKey(`0x${RAW_KEY}`, 'ecdsa').map(getKeyType)).toEqual(['ecdsa']);
+    expect(decodePrivateKey(RAW_KEY).map(getKeyType)).toEqual(['ed25519', 'ecdsa']);
+    expect(() => decodePrivateKey('not-a-key')).toThrow('must be a DER-encoded key or 32 bytes of hex');
+  });
+
+  it('should reject unknown key types', () => {
+    expect(readOperatorKeyConfig(() => 'secp256k1').keyType).toBe('ecdsa');
+    expect(() => readOperatorKeyConfig((key) => key === 'HEDERA_KEY_TYPE' ? 'rsa' : undefined)).toThrow('Invalid HEDERA_KEY_TYPE: rsa');
+  });
+
+  it('should derive mnemonic keys on the standard Hedera paths', async () => {
+    const mnemonic = await Mnemonic.generate12();
+    const words = mnemonic.toString();
+
+    expect((await deriveMnemonicKey(words, 'ed25519')).toStringRaw())
+      .toBe((await mnemonic.toStandardEd25519PrivateKey('', 0)).toStringRaw());
+    expect((await deriveMnemonicKey(words, 'ecdsa')).toStringRaw())
+      .toBe((await mnemonic.toStandardECDSAsecp256k1PrivateKey('', 0)).toStringRaw());
+    expect((await deriveMnemonicKey(words, 'ed25519', "m/44'/3030'/0'/0'/2'")).toStringRaw())
+      .toBe((await mnemonic.toStandardEd25519PrivateKey('', 2)).toStringRaw());
+
+    await expect(deriveMnemonicKey(words, 'ed25519', "m/44'/60'/0'/0/0")).rejects.toThrow('ED25519 keys need every segment hardened');
+    expect(() => parseDerivationPath('44/3030')).toThrow('Invalid HEDERA_DERIVATION_PATH');
+  });
+
+  it('should pick the interpretation of a raw key that matches the account', async () => {
+    mockAccountKey(mockAxiosGet, PrivateKey.fromStringECDSA(RAW_KEY));
+
+    const key = await resolveOperatorKey({ privateKey: RAW_KEY }, '0.0.1001', MIRROR_NODE_URL);
+    expect(getKeyType(key)).toBe('ecdsa');
+    expect(mockAxiosGet).toHaveBeenCalledWith(`${MIRROR_NODE_URL}/api/v1/accounts/0.0.1001`);
+  });
+
+  it('should reject keys that do not control the account', async () => {
+    mockAccountKey(mockAxiosGet, PrivateKey.generateED25519());
+
+    await expect(resolveOperatorKey({ privateKey: RAW_KEY, keyType: 'ed25519' }, '0.0.1001', MIRROR_NODE_URL))
+      .rejects.toThrow('The configured HEDERA_PRIVATE_KEY (ed25519) does not match the ED25519 key of account 0.0.1001');
+  });
+
+  it('should fail plugin init when the operator key does not match HEDERA_ACCOUNT_ID', async () => {
+    mockAccountKey(mockAxiosGet, PrivateKey.generateECDSA());
+    const settings: Record<string, string> = {
+      HEDERA_PRIVATE_KEY: PrivateKey.generateED25519().toStringDer(),
+      HEDERA_ACCOUNT_ID: '0.0.1001',
+    };
+    const runtime = createMockRuntime({ getSetting: (key: string) => settings[key] });
+
+    await expect(hederaDexPlugin.init!({ HEDERA_NETWORK: 'testnet' }, runtime))
+      .rejects.toThrow('does not match the ECDSA_SECP256K1 key of account 0.0.1001');
+  });
+});
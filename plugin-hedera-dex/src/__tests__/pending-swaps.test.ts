@@ -0,0 +1,73 @@
+import { describe, expect, it, beforeEach, afterEach, setSystemTime } from 'bun:test';
+import { PendingSwapStore } from '../pending-swaps';
+
+describe('Pending Swap Store', () => {
+  let store: PendingSwapStore<{ amount: string }>;
+
+  beforeEach(() => {
+    store = new PendingSwapStore();
+    setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  it('should store quotes with an ID and expiry', () => {
+    const pending = store.add('room-1', 'user-1', { amount: '10' }, 60);
+
+    expect(pending.id).toMatch(/^[0-9a-f]{8}$/);
+    expect(pending.expiresAt - pending.createdAt).toBe(60_000);
+    expect(store.list('room-1', 'user-1')).toHaveLength(1);
+  });
+
+  it('should only let the owning room and entity take a quote', () => {
+    const pending = store.add('room-1', 'user-1', { amount: '10' });
+
+    expect(store.take('room-1', 'user-2', pending.id).status).toBe('not_found');
+    expect(store.take('room-2', 'user-1', pending.id).status).toBe('not_found');
+
+    const lookup = store.take('room-1', 'user-1', pending.id);
+    expect(lookup.status).toBe('found');
+    // A quote can only be confirmed once
+    expect(store.take('room-1', 'user-1', pending.id).status).toBe('not_found');
+  });
+
+  it('should look up a quote without removing it until it is claimed once', () => {
+    const pending = store.add('room-1', 'user-1', { amount: '10' });
+
+    expect(store.find('room-1', 'user-2', pending.id).status).toBe('not_found');
+    expect(store.find('room-1', 'user-1', pending.id).status).toBe('found');
+    expect(store.find('room-1', 'user-1').status).toBe('found');
+
+    expect(store.remove(pending.id)).toBe(true);
+    // Only the first of several concurrent confirmations claims the quote
+    expect(store.remove(pending.id)).toBe(false);
+    expect(store.find('room-1', 'user-1', pending.id).status).toBe('not_found');
+  });
+
+  it('should take the only pending quote when no ID is given', () => {
+    store.add('room-1', 'user-1', { amount: '10' });
+    store.add('room-1', 'user-2', { amount: '20' });
+
+    const lookup = store.take('room-1', 'user-1');
+
+    expect(lookup.status).toBe('found');
+    expect(lookup.status === 'found' && lookup.swap.request.amount).toBe('10');
+  });
+
+  it('should refuse an ambiguous confirmation without an ID', () => {
+    store.add('room-1', 'user-1', { amount: '10' });
+    store.add('room-1', 'user-1', { amount: '20' });
+
+    expect(store.take('room-1', 'user-1').status).toBe('not_found');
+  });
+
+  it('should report expired quotes', () => {
+    const pending = store.add('room-1', 'user-1', { amount: '10' }, 30);
+
+    setSystemTime(new Date('2026-01-01T00:00:31Z'));
+
+    expect(store.take('room-1', 'user-1', pending.id).status).toBe('expired');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'bun:test';
+import { computePriceImpactBps, computeSpotAmountOut } from '../pool-state';
+
+const SAUCE = '0.0.731861'; // Lower EVM address than WHBAR, so token0 of the pool
+const WHBAR = '0.0.1456986';
+
+// sqrtPriceX96 for a price of 4 token1 per token0
+const SQRT_PRICE_4 = 2n * 2n ** 96n;
+
+describe('Pool State', () => {
+  it('should price token0 → token1 at the pool price after the fee', () => {
+    const amountOut = computeSpotAmountOut(1_000_000n, [
+      { tokenIn: SAUCE, tokenOut: WHBAR, fee: 3000, sqrtPriceX96: SQRT_PRICE_4 },
+    ]);
+
+    expect(amountOut).toBe(3_988_000n);
+  });
+
+  it('should invert the pool price when selling token1', () => {
+    const amountOut = computeSpotAmountOut(4_000_000n, [
+      { tokenIn: WHBAR, tokenOut: SAUCE, fee: 500, sqrtPriceX96: SQRT_PRICE_4 },
+    ]);
+
+    expect(amountOut).toBe(999_500n);
+  });
+
+  it('should chain prices across hops', () => {
+    const amountOut = computeSpotAmountOut(1_000_000n, [
+      { tokenIn: SAUCE, tokenOut: WHBAR, fee: 0, sqrtPriceX96: SQRT_PRICE_4 },
+      { tokenIn: WHBAR, tokenOut: SAUCE, fee: 0, sqrtPriceX96: SQRT_PRICE_4 },
+    ]);
+
+    expect(amountOut).toBe(1_000_000n);
+  });
+
+  it('should measure how far the quote falls short of the spot output', () => {
+    expect(computePriceImpactBps(1_000_000n, 990_000n)).toBe(100);
+    expect(computePriceImpactBps(1_000_000n, 1_000_000n)).toBe(0);
+    // A quote better than spot (e.g. a stale price) is no impact rather than negative
+    expect(computePriceImpactBps(1_000_000n, 1_010_000n)).toBe(0);
+    expect(computePriceImpactBps(0n, 1n)).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it, beforeEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import { ethers } from 'ethers';
+import {
+  DEFAULT_SLIPPAGE_BPS,
+  applySlippageToInput,
+  applySlippageToOutput,
+  extractSlippageFromText,
+  formatBps,
+  parseSlippageBps,
+  quoteExactInput,
+  quoteExactOutput,
+} from '../quoter';
+import { SAUCERSWAP_QUOTER_ABI, encodeSwapPath } from '../saucerswap-abi';
+
+// Mock axios for controlled testing
+const mockAxiosPost = spyOn(axios, 'post');
+
+const quoterInterface = new ethers.Interface(SAUCERSWAP_QUOTER_ABI);
+
+describe('Swap Quoter', () => {
+  beforeEach(() => {
+    mockAxiosPost.mockClear();
+  });
+
+  it('should apply slippage tolerance to quoted output', () => {
+    expect(applySlippageToOutput(1_000_000n, 50)).toBe(995_000n);
+    expect(applySlippageToOutput(1_000_000n, 0)).toBe(1_000_000n);
+    expect(applySlippageToOutput(1_000_000n, 100)).toBe(990_000n);
+  });
+
+  it('should apply slippage tolerance to quoted input, rounding up', () => {
+    expect(applySlippageToInput(1_000_000n, 50)).toBe(1_005_000n);
+    expect(applySlippageToInput(1_000_000n, 0)).toBe(1_000_000n);
+    expect(applySlippageToInput(999n, 50)).toBe(1_004n);
+  });
+
+  it('should format basis points as percentages', () => {
+    expect(formatBps(DEFAULT_SLIPPAGE_BPS)).toBe('0.50%');
+    expect(formatBps(125)).toBe('1.25%');
+  });
+
+  it('should validate slippage settings', () => {
+    expect(parseSlippageBps('100')).toBe(100);
+    expect(parseSlippageBps(25)).toBe(25);
+    expect(() => parseSlippageBps('abc')).toThrow('Invalid slippage tolerance');
+    expect(() => parseSlippageBps(-1)).toThrow('Invalid slippage tolerance');
+    expect(() => parseSlippageBps(9000)).toThrow('Invalid slippage tolerance');
+  });
+
+  it('should extract slippage from swap messages', () => {
+    expect(extractSlippageFromText('Swap 10 HBAR for USDC with 1% slippage')).toBe(100);
+    expect(extractSlippageFromText('swap 5 SAUCE to HBAR slippage 0.25%')).toBe(25);
+    expect(extractSlippageFromText('trade 10 HBAR for SAUCE, slippage of 2%')).toBe(200);
+    expect(extractSlippageFromText('Swap 10 HBAR for USDC')).toBeNull();
+  });
+
+  it('should quote exact input swaps through the mirror node', async () => {
+    const path = encodeSwapPath(['0.0.1456986', '0.0.456858'], [3000]);
+    const encodedResult = quoterInterface.encodeFunctionResult('quoteExactInput', [
+      123_456n,
+      [79228162514264337593543950336n],
+      [2],
+      95_000n,
+    ]);
+
+    mockAxiosPost.mockResolvedValueOnce({ data: { result: encodedResult } });
+
+    const quote = await quoteExactInput('https://mainnet-public.mirrornode.hedera.com', '0.0.3949424', path, 1_000_000n);
+
+    expect(quote.amountIn).toBe(1_000_000n);
+    expect(quote.amountOut).toBe(123_456n);
+    expect(quote.gasEstimate).toBe(95_000n);
+    expect(quote.initializedTicksCrossedList).toEqual([2]);
+
+    const [url, body] = mockAxiosPost.mock.calls[0] as [string, any];
+    expect(url).toBe('https://mainnet-public.mirrornode.hedera.com/api/v1/contracts/call');
+    expect(body.estimate).toBe(false);
+    expect(body.to).toBe('0x00000000000000000000000000000000003c4370');
+    expect(quoterInterface.decodeFunctionData('quoteExactInput', body.data)[0]).toBe(path);
+  });
+
+  it('should quote exact output swaps along a reversed path', async () => {
+    const path = encodeSwapPath(['0.0.1456986', '0.0.456858'], [3000], true);
+    const encodedResult = quoterInterface.encodeFunctionResult('quoteExactOutput', [
+      987_654n,
+      [79228162514264337593543950336n],
+      [1],
+      90_000n,
+    ]);
+
+    mockAxiosPost.mockResolvedValueOnce({ data: { result: encodedResult } });
+
+    const quote = await quoteExactOutput('https://mainnet-public.mirrornode.hedera.com', '0.0.3949424', path, 100_000_000n);
+
+    expect(quote.amountIn).toBe(987_654n);
+    expect(quote.amountOut).toBe(100_000_000n);
+
+    const [, body] = mockAxiosPost.mock.calls[0] as [string, any];
+    expect(quoterInterface.decodeFunctionData('quoteExactOutput', body.data)[0]).toBe(path);
+  });
+
+  it('should encode exact output paths from output token to input token', () => {
+    const forward = encodeSwapPath(['0.0.1456986', '0.0.731861', '0.0.456858'], [3000, 500]);
+    const reversed = encodeSwapPath(['0.0.1456986', '0.0.731861', '0.0.456858'], [3000, 500], true);
+
+    expect(reversed).toBe(encodeSwapPath(['0.0.456858', '0.0.731861', '0.0.1456986'], [500, 3000]));
+    expect(reversed).not.toBe(forward);
+    expect(reversed.slice(2, 42)).toBe('000000000000000000000000000000000006f89a');
+  });
+
+  it('should surface mirror node errors from failed quotes', async () => {
+    mockAxiosPost.mockRejectedValueOnce(new Error('Request failed with status code 400'));
+
+    await expect(
+      quoteExactInput('https://mainnet-public.mirrornode.hedera.com', '0.0.3949424', '0x', 1n)
+    ).rejects.toThrow('Request failed with status code 400');
+  });
+});
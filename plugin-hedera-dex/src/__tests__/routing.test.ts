@@ -0,0 +1,181 @@
+import { describe, expect, it, beforeEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import { ethers } from 'ethers';
+import {
+  combineRouteFees,
+  describeFeeTierSelection,
+  findBestRoute,
+  findCandidateRoutes,
+  findDirectPoolFees,
+  formatRoute,
+  quoteRoutes,
+  rankRouteQuotes,
+  type RoutablePool,
+} from '../routing';
+import {
+  FEE_TIERS,
+  SAUCERSWAP_FACTORY_ABI,
+  SAUCERSWAP_QUOTER_ABI,
+  encodeSwapPath,
+} from '../saucerswap-abi';
+
+// Mock axios for controlled testing
+const mockAxiosPost = spyOn(axios, 'post');
+
+const quoterInterface = new ethers.Interface(SAUCERSWAP_QUOTER_ABI);
+const factoryInterface = new ethers.Interface(SAUCERSWAP_FACTORY_ABI);
+
+const SAUCE = '0.0.731861';
+const WHBAR = '0.0.1456986';
+const USDC = '0.0.456858';
+const XSAUCE = '0.0.1460200';
+
+const pools: RoutablePool[] = [
+  { tokenA: { id: SAUCE, symbol: 'SAUCE' }, tokenB: { id: WHBAR, symbol: 'WHBAR' }, fee: FEE_TIERS.MEDIUM },
+  { tokenA: { id: WHBAR, symbol: 'WHBAR' }, tokenB: { id: USDC, symbol: 'USDC' }, fee: FEE_TIERS.LOW },
+  { tokenA: { id: WHBAR, symbol: 'WHBAR' }, tokenB: { id: USDC, symbol: 'USDC' }, fee: FEE_TIERS.MEDIUM },
+  { tokenA: { id: SAUCE, symbol: 'SAUCE' }, tokenB: { id: XSAUCE, symbol: 'XSAUCE' }, fee: FEE_TIERS.LOW },
+];
+
+const symbols = new Map([
+  [SAUCE, 'SAUCE'],
+  [WHBAR, 'WHBAR'],
+  [USDC, 'USDC'],
+  [XSAUCE, 'XSAUCE'],
+]);
+
+/**
+ * Mock the quoter: each encoded path maps to a fixed quoted amount,
+ * unknown paths revert like a missing pool would
+ */
+function mockQuotes(functionName: 'quoteExactInput' | 'quoteExactOutput', quotes: Map<string, bigint>) {
+  mockAxiosPost.mockImplementation((async (_url: string, body: any) => {
+    const [path] = quoterInterface.decodeFunctionData(functionName, body.data);
+    const amount = quotes.get(path);
+    if (amount === undefined) {
+      throw new Error('CONTRACT_REVERT_EXECUTED');
+    }
+    return { data: { result: quoterInterface.encodeFunctionResult(functionName, [amount, [], [], 100_000n]) } };
+  }) as any);
+}
+
+describe('Swap Routing', () => {
+  beforeEach(() => {
+    mockAxiosPost.mockReset();
+  });
+
+  it('should enumerate direct and multi-hop routes across fee tiers', () => {
+    const routes = findCandidateRoutes(pools, SAUCE, USDC, 3);
+    const descriptions = routes.map((route) => formatRoute(route, symbols));
+
+    expect(descriptions).toContain('SAUCE → USDC (0.30%)');
+    expect(descriptions).toContain('SAUCE → WHBAR → USDC (0.30% → 0.05%)');
+    expect(descriptions).toContain('SAUCE → WHBAR → USDC (0.30% → 0.30%)');
+    // Direct routes are listed first
+    expect(routes[0].tokens).toEqual([SAUCE, USDC]);
+  });
+
+  it('should respect the maximum hop count', () => {
+    const routes = findCandidateRoutes(pools, XSAUCE, USDC, 2);
+
+    expect(routes.every((route) => route.fees.length <= 2)).toBe(true);
+    expect(routes.some((route) => route.tokens.includes(WHBAR))).toBe(false);
+
+    const longerRoutes = findCandidateRoutes(pools, XSAUCE, USDC, 3);
+    expect(longerRoutes.some((route) => route.tokens.join() === [XSAUCE, SAUCE, WHBAR, USDC].join())).toBe(true);
+  });
+
+  it('should pick the route with the best exact input quote', async () => {
+    const routes = findCandidateRoutes(pools, SAUCE, USDC, 3);
+    mockQuotes('quoteExactInput', new Map([
+      [encodeSwapPath([SAUCE, WHBAR, USDC], [FEE_TIERS.MEDIUM, FEE_TIERS.MEDIUM]), 900n],
+      [encodeSwapPath([SAUCE, WHBAR, USDC], [FEE_TIERS.MEDIUM, FEE_TIERS.LOW]), 1_000n],
+    ]));
+
+    const best = await findBestRoute('https://mainnet-public.mirrornode.hedera.com', '0.0.3949424', routes, 10n, 'exactInput');
+
+    expect(best).not.toBeNull();
+    expect(formatRoute(best!.route, symbols)).toBe('SAUCE → WHBAR → USDC (0.30% → 0.05%)');
+    expect(best!.quote.amountOut).toBe(1_000n);
+    expect(best!.candidatesQuoted).toBe(routes.length);
+  });
+
+  it('should pick the route needing the least input for exact output', async () => {
+    const routes = findCandidateRoutes(pools, SAUCE, USDC, 3);
+    mockQuotes('quoteExactOutput', new Map([
+      [encodeSwapPath([SAUCE, WHBAR, USDC], [FEE_TIERS.MEDIUM, FEE_TIERS.MEDIUM], true), 500n],
+      [encodeSwapPath([SAUCE, WHBAR, USDC], [FEE_TIERS.MEDIUM, FEE_TIERS.LOW], true), 600n],
+    ]));
+
+    const best = await findBestRoute('https://mainnet-public.mirrornode.hedera.com', '0.0.3949424', routes, 10n, 'exactOutput');
+
+    expect(formatRoute(best!.route, symbols)).toBe('SAUCE → WHBAR → USDC (0.30% → 0.30%)');
+    expect(best!.quote.amountIn).toBe(500n);
+  });
+
+  it('should return null when no route can be quoted', async () => {
+    const routes = findCandidateRoutes([], SAUCE, USDC, 3);
+    mockQuotes('quoteExactInput', new Map());
+
+    const best = await findBestRoute('https://mainnet-public.mirrornode.hedera.com', '0.0.3949424', routes, 10n, 'exactInput');
+
+    expect(routes).toHaveLength(Object.values(FEE_TIERS).length);
+    expect(best).toBeNull();
+  });
+
+  it('should keep every route quote, ranked best first, and why the others failed', async () => {
+    const routes = findCandidateRoutes(pools, SAUCE, USDC, 3);
+    mockQuotes('quoteExactInput', new Map([
+      [encodeSwapPath([SAUCE, WHBAR, USDC], [FEE_TIERS.MEDIUM, FEE_TIERS.MEDIUM]), 900n],
+      [encodeSwapPath([SAUCE, WHBAR, USDC], [FEE_TIERS.MEDIUM, FEE_TIERS.LOW]), 1_000n],
+      [encodeSwapPath([SAUCE, USDC], [FEE_TIERS.LOW]), 0n],
+    ]));
+
+    const results = await quoteRoutes('https://mainnet-public.mirrornode.hedera.com', '0.0.3949424', routes, 10n, 'exactInput');
+    const ranked = rankRouteQuotes(results, 'exactInput');
+
+    expect(results).toHaveLength(routes.length);
+    expect(results.filter((result) => result.error)).toHaveLength(routes.length - 3);
+    // Routes quoted at zero are left out
+    expect(ranked.map(({ route }) => formatRoute(route, symbols))).toEqual([
+      'SAUCE → WHBAR → USDC (0.30% → 0.05%)',
+      'SAUCE → WHBAR → USDC (0.30% → 0.30%)',
+    ]);
+  });
+
+  it('should compound the pool fees along a route', () => {
+    expect(combineRouteFees([FEE_TIERS.MEDIUM])).toBe(3000);
+    expect(combineRouteFees([FEE_TIERS.MEDIUM, FEE_TIERS.LOW])).toBe(3499);
+    expect(combineRouteFees([])).toBe(0);
+  });
+
+  it('should only include direct routes for fee tiers with a pool', () => {
+    const routes = findCandidateRoutes(pools, SAUCE, USDC, 1, [FEE_TIERS.LOW]);
+
+    expect(routes.map((route) => formatRoute(route, symbols))).toEqual(['SAUCE → USDC (0.05%)']);
+    expect(findCandidateRoutes([], SAUCE, USDC, 3, [])).toHaveLength(0);
+  });
+
+  it('should look up existing pools per fee tier on the factory', async () => {
+    mockAxiosPost.mockImplementation((async (_url: string, body: any) => {
+      const [, , fee] = factoryInterface.decodeFunctionData('getPool', body.data);
+      const pool = Number(fee) === FEE_TIERS.HIGH ? '0x00000000000000000000000000000000003c3951' : ethers.ZeroAddress;
+      return { data: { result: factoryInterface.encodeFunctionResult('getPool', [pool]) } };
+    }) as any);
+
+    const fees = await findDirectPoolFees('https://mainnet-public.mirrornode.hedera.com', '0.0.3946833', SAUCE, USDC);
+
+    expect(fees).toEqual([FEE_TIERS.HIGH]);
+    expect(mockAxiosPost).toHaveBeenCalledTimes(Object.values(FEE_TIERS).length);
+  });
+
+  it('should explain why the fee tier was selected', () => {
+    const quote = { amountIn: 10n, amountOut: 20n, sqrtPriceX96AfterList: [], initializedTicksCrossedList: [], gasEstimate: 0n };
+    const direct = { route: { tokens: [SAUCE, USDC], fees: [FEE_TIERS.LOW] }, quote, candidatesQuoted: 2, successfulQuotes: 2 };
+    const multiHop = { route: { tokens: [SAUCE, WHBAR, USDC], fees: [FEE_TIERS.MEDIUM, FEE_TIERS.LOW] }, quote, candidatesQuoted: 2, successfulQuotes: 1 };
+
+    expect(describeFeeTierSelection(direct, [FEE_TIERS.LOW])).toBe('the only fee tier with a pool for this pair');
+    expect(describeFeeTierSelection(direct, [FEE_TIERS.LOW, FEE_TIERS.MEDIUM])).toBe('best quote among the pools at 0.05%, 0.30%');
+    expect(describeFeeTierSelection(multiHop, [])).toContain('no direct pool exists');
+  });
+});
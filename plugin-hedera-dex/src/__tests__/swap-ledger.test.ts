@@ -0,0 +1,114 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import { hederaDexPlugin } from '../index';
+import {
+  SwapLedger,
+  toMirrorTransactionId,
+  type SwapLedgerEntry,
+} from '../swap-ledger';
+import { createMemoryRuntime, createTestMemory } from './test-utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createEntry(overrides: Partial<SwapLedgerEntry> = {}): SwapLedgerEntry {
+  const now = Date.now();
+  return {
+    entityId: 'entity-1',
+    roomId: 'room-1',
+    network: 'testnet',
+    tradeType: 'exactInput',
+    fromToken: 'HBAR',
+    toToken: 'USDC',
+    amountIn: '10',
+    amountOut: '0.5',
+    route: 'HBAR → USDC (0.30%)',
+    transactionId: '0.0.1234@1700000000.000000001',
+    status: 'success',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe('Swap Ledger', () => {
+  let mockAxiosGet: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    mockAxiosGet = spyOn(axios, 'get');
+  });
+
+  afterEach(() => {
+    mockAxiosGet.mockRestore();
+  });
+
+  it('should convert SDK transaction IDs to the Mirror Node format', () => {
+    expect(toMirrorTransactionId('0.0.1234@1700000000.000000001')).toBe('0.0.1234-1700000000-000000001');
+  });
+
+  it('should list only the requesting user\'s swaps, newest first, filtered by token and date', async () => {
+    const ledger = new SwapLedger(createMemoryRuntime().runtime);
+    const now = Date.now();
+
+    await ledger.record(createEntry({ createdAt: now - 3 * DAY_MS, toToken: 'SAUCE' }));
+    await ledger.record(createEntry({ createdAt: now - 2 * DAY_MS }));
+    await ledger.record(createEntry({ createdAt: now - DAY_MS }));
+    await ledger.record(createEntry({ createdAt: now, entityId: 'entity-2' }));
+
+    const all = await ledger.history('entity-1');
+    expect(all.map((swap) => swap.createdAt)).toEqual([now - DAY_MS, now - 2 * DAY_MS, now - 3 * DAY_MS]);
+
+    expect(await ledger.history('entity-1', { token: 'sauce' })).toHaveLength(1);
+    expect(await ledger.history('entity-1', { since: now - 2 * DAY_MS })).toHaveLength(2);
+    expect(await ledger.history('entity-1', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('should settle pending swaps from their Mirror Node status', async () => {
+    const ledger = new SwapLedger(createMemoryRuntime().runtime);
+    await ledger.record(createEntry({ status: 'pending', transactionId: '0.0.1234@1700000000.000000001' }));
+    await ledger.record(createEntry({ status: 'pending', transactionId: '0.0.1234@1700000001.000000001' }));
+    await ledger.record(createEntry({ status: 'pending', transactionId: '0.0.1234@1700000002.000000001' }));
+
+    mockAxiosGet.mockImplementation((async (url: string) => {
+      if (url.endsWith('0.0.1234-1700000000-000000001')) {
+        return { data: { transactions: [{ result: 'SUCCESS' }] } };
+      }
+      if (url.endsWith('0.0.1234-1700000001-000000001')) {
+        return { data: { transactions: [{ result: 'CONTRACT_REVERT_EXECUTED' }] } };
+      }
+      throw Object.assign(new axios.AxiosError('Not found'), { response: { status: 404 } });
+    }) as any);
+
+    const settled = await ledger.reconcile(await ledger.history('entity-1'), 'https://testnet.mirrornode.hedera.com');
+    expect(settled).toHaveLength(2);
+
+    const byTransaction = new Map((await ledger.history('entity-1')).map((swap) => [swap.transactionId, swap]));
+    expect(byTransaction.get('0.0.1234@1700000000.000000001')?.status).toBe('success');
+    expect(byTransaction.get('0.0.1234@1700000001.000000001')?.status).toBe('failed');
+    expect(byTransaction.get('0.0.1234@1700000001.000000001')?.failureReason).toContain('CONTRACT_REVERT_EXECUTED');
+    expect(byTransaction.get('0.0.1234@1700000002.000000001')?.status).toBe('pending');
+  });
+
+  it('should show the requesting user\'s swaps with SWAP_HISTORY', async () => {
+    const swapHistoryAction = hederaDexPlugin.actions?.find((action) => action.name === 'SWAP_HISTORY') as any;
+    const { runtime } = createMemoryRuntime({ HEDERA_NETWORK: 'testnet' });
+    const message = createTestMemory({ content: { text: 'Show my last 10 USDC swaps', source: 'test' } });
+
+    const ledger = new SwapLedger(runtime);
+    await ledger.record(createEntry({ entityId: message.entityId, networkFee: '0.05' }));
+    await ledger.record(createEntry({ entityId: message.entityId, toToken: 'SAUCE' }));
+
+    expect(await swapHistoryAction.validate(runtime, message)).toBe(true);
+
+    const callbackResults: any[] = [];
+    const result = await swapHistoryAction.handler(runtime, message, undefined, undefined, async (content: any) => {
+      callbackResults.push(content);
+      return [];
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.values.count).toBe(1);
+    expect(result.values.token).toBe('USDC');
+    expect(callbackResults[0].text).toContain('10 HBAR → 0.5 USDC');
+    expect(callbackResults[0].text).toContain('network 0.05 HBAR');
+  });
+});
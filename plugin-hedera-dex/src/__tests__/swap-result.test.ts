@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'bun:test';
+import { ethers } from 'ethers';
+import { AccountId, Hbar, TokenId } from '@hashgraph/sdk';
+import { decodeMulticallSwapResult, decodeSwapRecord } from '../swap-result';
+import { SAUCERSWAP_ROUTER_ABI } from '../saucerswap-abi';
+import { formatPrice, tokenAmountFromRaw } from '../token-amount';
+
+const routerInterface = new ethers.Interface(SAUCERSWAP_ROUTER_ABI);
+
+// Stand-in for the SDK's Long values, which are only read through toString()
+const longValue = (value: number) => ({ toString: () => value.toString() });
+
+/**
+ * Encode a multicall return value whose first entry is the swap result
+ */
+function encodeMulticallResult(functionName: 'exactInput' | 'exactOutput', amount: bigint): Uint8Array {
+  const swapResult = routerInterface.encodeFunctionResult(functionName, [amount]);
+  return ethers.getBytes(routerInterface.encodeFunctionResult('multicall', [[swapResult, '0x']]));
+}
+
+function createRecord(resultBytes: Uint8Array) {
+  return {
+    contractFunctionResult: {
+      bytes: resultBytes,
+      gasUsed: longValue(123_456),
+    },
+    transactionFee: Hbar.fromTinybars(4_500_000),
+    transfers: [
+      { accountId: AccountId.fromString('0.0.1001'), amount: Hbar.fromTinybars(-1_004_500_000) },
+      { accountId: AccountId.fromString('0.0.3'), amount: Hbar.fromTinybars(4_500_000) },
+    ],
+    tokenTransfersList: [
+      { tokenId: TokenId.fromString('0.0.456858'), accountId: AccountId.fromString('0.0.1001'), amount: longValue(1_234_567) },
+      { tokenId: TokenId.fromString('0.0.456858'), accountId: AccountId.fromString('0.0.3949434'), amount: longValue(-1_234_567) },
+    ],
+  } as any;
+}
+
+describe('Swap Record Decoding', () => {
+  it('should decode the exactInput amount from the multicall result', () => {
+    expect(decodeMulticallSwapResult(encodeMulticallResult('exactInput', 42_000_000n), 'exactInput')).toBe(42_000_000n);
+  });
+
+  it('should decode amounts, fees and transfers for exact input swaps', () => {
+    const record = createRecord(encodeMulticallResult('exactInput', 1_234_567n));
+
+    const decoded = decodeSwapRecord(record, 'exactInput', 1_000_000_000n, '0.0.1001');
+
+    expect(decoded.amountIn).toBe(1_000_000_000n);
+    expect(decoded.amountOut).toBe(1_234_567n);
+    expect(decoded.transactionFeeTinybars).toBe(4_500_000n);
+    expect(decoded.gasUsed).toBe(123_456n);
+    expect(decoded.hbarChange).toBe(-1_004_500_000n);
+    expect(decoded.tokenChanges).toEqual([{ tokenId: '0.0.456858', amount: 1_234_567n }]);
+  });
+
+  it('should treat the decoded amount as the input for exact output swaps', () => {
+    const record = createRecord(encodeMulticallResult('exactOutput', 987_000_000n));
+
+    const decoded = decodeSwapRecord(record, 'exactOutput', 1_234_567n, '0.0.1001');
+
+    expect(decoded.amountIn).toBe(987_000_000n);
+    expect(decoded.amountOut).toBe(1_234_567n);
+  });
+
+  it('should fail clearly when the record has no contract result', () => {
+    expect(() => decodeSwapRecord({ contractFunctionResult: null } as any, 'exactInput', 1n, '0.0.1001'))
+      .toThrow('no contract function result');
+  });
+
+  it('should compute the effective price in human units', () => {
+    // 1.234567 USDC (6 decimals) received for 10 HBAR (8 decimals)
+    expect(formatPrice(tokenAmountFromRaw(1_234_567n, 6), tokenAmountFromRaw(1_000_000_000n, 8))).toBe('0.1234567');
+  });
+});
@@ -1,4 +1,5 @@
 import { mock, spyOn } from 'bun:test';
+import { ethers } from 'ethers';
 import {
   type IAgentRuntime,
   type Memory,
@@ -12,6 +13,7 @@ import {
   asUUID,
   logger,
 } from '@elizaos/core';
+import { SAUCERSWAP_FACTORY_ABI, SAUCERSWAP_POOL_ABI, SAUCERSWAP_QUOTER_ABI, SAUCERSWAP_ROUTER_ABI } from '../saucerswap-abi';
 
 /**
  * Creates a UUID for testing
@@ -293,6 +295,103 @@ export function createMockRuntime(overrides: Partial<IAgentRuntime> = {}): IAgen
   return mockRuntime;
 }
 
+/**
+ * A mock runtime whose memories live in in-memory tables, like plugin-sql would store them,
+ * recording the messages it sent to rooms; settings are read live so tests can change them
+ */
+export function createMemoryRuntime(
+  settings: Record<string, string> = {},
+  overrides: Partial<IAgentRuntime> = {}
+): {
+  runtime: IAgentRuntime;
+  memories: Map<UUID, Memory>;
+  notifications: { target: any; content: any }[];
+} {
+  const memories = new Map<UUID, Memory>();
+  const tables = new Map<UUID, string>();
+  const notifications: { target: any; content: any }[] = [];
+
+  const runtime = createMockRuntime({
+    getSetting: (key: string) => settings[key],
+    createMemory: (async (memory: Memory, tableName: string) => {
+      const id = createUUID();
+      memories.set(id, { ...memory, id });
+      tables.set(id, tableName);
+      return id;
+    }) as any,
+    getMemories: (async ({ tableName, entityId, start, end }: { tableName: string; entityId?: UUID; start?: number; end?: number }) =>
+      [...memories.values()].filter((memory) =>
+        tables.get(memory.id!) === tableName &&
+        (!entityId || memory.entityId === entityId) &&
+        (start === undefined || memory.createdAt! >= start) &&
+        (end === undefined || memory.createdAt! <= end)
+      )) as any,
+    getMemoryById: (async (id: UUID) => memories.get(id) || null) as any,
+    updateMemory: (async (update: Partial<Memory> & { id: UUID }) => {
+      memories.set(update.id, { ...memories.get(update.id)!, ...update });
+      return true;
+    }) as any,
+    sendMessageToTarget: (async (target: any, content: any) => {
+      notifications.push({ target, content });
+    }) as any,
+    ...overrides,
+  });
+
+  return { runtime, memories, notifications };
+}
+
+const factoryInterface = new ethers.Interface(SAUCERSWAP_FACTORY_ABI);
+const poolInterface = new ethers.Interface(SAUCERSWAP_POOL_ABI);
+const quoterInterface = new ethers.Interface(SAUCERSWAP_QUOTER_ABI);
+const routerInterface = new ethers.Interface(SAUCERSWAP_ROUTER_ABI);
+
+export const TEST_POOL_ADDRESS = '0x00000000000000000000000000000000003c4b1d';
+
+/**
+ * SaucerSwap contract state served by mockSaucerSwapCalls; functions are called on every
+ * request, so tests can move the market between calls
+ */
+export interface SaucerSwapCallsMock {
+  pools?: Record<number, string>; // Pool address per fee tier; a single 0.30% pool by default
+  quoteExactInput?: (amountIn: bigint, path: string) => bigint;
+  quoteExactOutput?: (amountOut: bigint, path: string) => bigint;
+  sqrtPriceX96?: () => bigint;
+  routerReverts?: boolean; // Router calls, such as swap simulations and gas estimates, revert
+}
+
+/**
+ * Serve SaucerSwap contract calls made through the Mirror Node (axios.post); calls the mock
+ * does not describe fail as unexpected
+ */
+export function mockSaucerSwapCalls(mockAxiosPost: ReturnType<typeof spyOn>, contracts: SaucerSwapCallsMock = {}) {
+  const pools = contracts.pools ?? { 3000: TEST_POOL_ADDRESS };
+
+  mockAxiosPost.mockImplementation((async (_url: string, body: any) => {
+    const selector = body.data.slice(0, 10);
+    if (selector === factoryInterface.getFunction('getPool')!.selector) {
+      const [, , fee] = factoryInterface.decodeFunctionData('getPool', body.data);
+      return { data: { result: factoryInterface.encodeFunctionResult('getPool', [pools[Number(fee)] ?? ethers.ZeroAddress]) } };
+    }
+    if (selector === quoterInterface.getFunction('quoteExactInput')!.selector && contracts.quoteExactInput) {
+      const [path, amountIn] = quoterInterface.decodeFunctionData('quoteExactInput', body.data);
+      const amountOut = contracts.quoteExactInput(amountIn, path);
+      return { data: { result: quoterInterface.encodeFunctionResult('quoteExactInput', [amountOut, [], [], 100_000n]) } };
+    }
+    if (selector === quoterInterface.getFunction('quoteExactOutput')!.selector && contracts.quoteExactOutput) {
+      const [path, amountOut] = quoterInterface.decodeFunctionData('quoteExactOutput', body.data);
+      const amountIn = contracts.quoteExactOutput(amountOut, path);
+      return { data: { result: quoterInterface.encodeFunctionResult('quoteExactOutput', [amountIn, [], [], 100_000n]) } };
+    }
+    if (selector === poolInterface.getFunction('slot0')!.selector && contracts.sqrtPriceX96) {
+      return { data: { result: poolInterface.encodeFunctionResult('slot0', [contracts.sqrtPriceX96(), 0, 0, 1, 1, 0, true]) } };
+    }
+    if (selector === routerInterface.getFunction('multicall')!.selector && contracts.routerReverts) {
+      throw new Error('CONTRACT_REVERT_EXECUTED');
+    }
+    throw new Error(`Unexpected contract call ${selector}`);
+  }) as any);
+}
+
 /**
  * Creates test fixtures for event payloads
  */
@@ -0,0 +1,208 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import {
+  AccountAllowanceApproveTransaction,
+  AccountId,
+  Client,
+  ContractExecuteTransaction,
+  Hbar,
+  PrivateKey,
+  Status,
+  Transaction,
+} from '@hashgraph/sdk';
+import { hederaDexPlugin } from '../index';
+import { approveTokenAllowance, getTokenAllowance, resolveAllowanceAmount } from '../token-allowance';
+import { createMemoryRuntime, createTestMemory, mockSaucerSwapCalls } from './test-utils';
+
+// Mock axios for controlled testing
+const mockAxios = spyOn(axios, 'get');
+
+const MIRROR_NODE_URL = 'https://testnet.mirrornode.hedera.com';
+
+const OWNER_ACCOUNT = '0.0.1001';
+const ROUTER = '0.0.1414040'; // Testnet SaucerSwap router
+const USDC = '0.0.429274';
+
+const operatorKey = PrivateKey.generateED25519();
+
+describe('Token Allowance', () => {
+  beforeEach(() => {
+    mockAxios.mockReset();
+  });
+
+  it('should return the remaining allowance for the router', async () => {
+    mockAxios.mockResolvedValueOnce({
+      data: {
+        allowances: [
+          { owner: '0.0.1001', spender: '0.0.3949434', token_id: '0.0.731861', amount: 250000000, amount_granted: 500000000 },
+        ],
+      },
+    });
+
+    const allowance = await getTokenAllowance(MIRROR_NODE_URL, '0.0.1001', '0.0.3949434', '0.0.731861');
+
+    expect(allowance).toBe(250_000_000n);
+    expect(mockAxios.mock.calls[0][0]).toBe(
+      `${MIRROR_NODE_URL}/api/v1/accounts/0.0.1001/allowances/tokens?spender.id=0.0.3949434&token.id=0.0.731861`
+    );
+  });
+
+  it('should return zero when no allowance was granted', async () => {
+    mockAxios.mockResolvedValueOnce({ data: { allowances: [] } });
+
+    expect(await getTokenAllowance(MIRROR_NODE_URL, '0.0.1001', '0.0.3949434', '0.0.731861')).toBe(0n);
+  });
+
+  it('should wrap mirror node failures', async () => {
+    mockAxios.mockRejectedValueOnce(new Error('Network error'));
+
+    await expect(getTokenAllowance(MIRROR_NODE_URL, '0.0.1001', '0.0.3949434', '0.0.731861'))
+      .rejects.toThrow('Could not check 0.0.731861 allowance for 0.0.3949434: Network error');
+  });
+
+  it('should approve exactly the required amount without a cap', () => {
+    expect(resolveAllowanceAmount(1_500n)).toBe(1_500n);
+  });
+
+  it('should approve the cap when it covers the swap', () => {
+    expect(resolveAllowanceAmount(1_500n, 10_000n)).toBe(10_000n);
+  });
+
+  it('should reject swaps that exceed the cap', () => {
+    expect(() => resolveAllowanceAmount(20_000n, 10_000n)).toThrow('exceeds the configured cap');
+  });
+});
+
+describe('Token Allowance Approval', () => {
+  let mockAxiosPost: ReturnType<typeof spyOn>;
+  let mockExecute: ReturnType<typeof spyOn>;
+  let executed: Transaction[];
+  let receiptStatus: Status;
+  let existingAllowance: number;
+
+  beforeEach(() => {
+    executed = [];
+    receiptStatus = Status.Success;
+    existingAllowance = 0;
+
+    mockAxios.mockReset();
+    mockAxios.mockImplementation((async (url: string) => {
+      if (url.endsWith(`/accounts/${OWNER_ACCOUNT}`)) {
+        return { data: { account: OWNER_ACCOUNT, key: { _type: 'ED25519', key: operatorKey.publicKey.toStringRaw() } } };
+      }
+      if (url.includes(`/accounts/${OWNER_ACCOUNT}/tokens?`)) {
+        return { data: { tokens: [{ token_id: url.split('token.id=')[1] }] } };
+      }
+      if (url.includes(`/accounts/${OWNER_ACCOUNT}/allowances/tokens`)) {
+        return { data: { allowances: [{ spender: ROUTER, token_id: USDC, amount: existingAllowance }] } };
+      }
+      if (url.includes('/tokens/')) {
+        return { data: { decimals: '6' } };
+      }
+      throw new Error('Not found');
+    }) as any);
+    mockAxiosPost = spyOn(axios, 'post');
+    mockSaucerSwapCalls(mockAxiosPost, { quoteExactInput: (amountIn) => amountIn * 25n });
+
+    mockExecute = spyOn(Transaction.prototype, 'execute').mockImplementation((async function (this: Transaction, client: Client) {
+      if (!this.isFrozen()) {
+        this.freezeWith(client);
+      }
+      executed.push(this);
+      return {
+        transactionId: this.transactionId,
+        getReceipt: async () => ({ status: receiptStatus }),
+        getRecord: async () => ({ transactionFee: Hbar.fromTinybars(50_000) }),
+      };
+    }) as any);
+  });
+
+  afterEach(() => {
+    mockAxiosPost.mockRestore();
+    mockExecute.mockRestore();
+  });
+
+  function approvedAmount(transaction: Transaction): string | undefined {
+    expect(transaction).toBeInstanceOf(AccountAllowanceApproveTransaction);
+    const [approval] = (transaction as AccountAllowanceApproveTransaction).tokenApprovals;
+    expect(approval.tokenId.toString()).toBe(USDC);
+    expect(approval.ownerAccountId?.toString()).toBe(OWNER_ACCOUNT);
+    expect(approval.spenderAccountId?.toString()).toBe(ROUTER);
+    return approval.amount?.toString();
+  }
+
+  it('should approve the spender and return the transaction ID and fee', async () => {
+    const client = Client.forName('testnet');
+    client.setOperator(AccountId.fromString(OWNER_ACCOUNT), operatorKey);
+    try {
+      const result = await approveTokenAllowance(client, OWNER_ACCOUNT, ROUTER, USDC, 1_500n);
+
+      expect(approvedAmount(executed[0])).toBe('1500');
+      expect(result).toEqual({ transactionId: executed[0].transactionId!.toString(), feeTinybars: 50_000n });
+
+      receiptStatus = Status.InvalidSignature;
+      await expect(approveTokenAllowance(client, OWNER_ACCOUNT, ROUTER, USDC, 1_500n))
+        .rejects.toThrow('Token allowance approval failed with status: INVALID_SIGNATURE');
+    } finally {
+      client.close();
+    }
+  });
+
+  describe('Swaps', () => {
+    async function swap(settings: Record<string, string> = {}): Promise<{ result: any; responseText: string }> {
+      const { runtime } = createMemoryRuntime({
+        HEDERA_NETWORK: 'testnet',
+        HEDERA_ACCOUNT_ID: OWNER_ACCOUNT,
+        HEDERA_PRIVATE_KEY: operatorKey.toStringDer(),
+        HEDERA_SWAP_REQUIRE_CONFIRMATION: 'false',
+        ...settings,
+      });
+      let responseText = '';
+      const result = await hederaDexPlugin.actions!.find((action) => action.name === 'SWAP_TOKENS')!.handler(
+        runtime,
+        createTestMemory({ content: { text: 'Swap 10 USDC for SAUCE', source: 'test' } }),
+        undefined,
+        undefined,
+        async (response) => {
+          responseText = response.text ?? '';
+          return [];
+        }
+      );
+      return { result, responseText };
+    }
+
+    it('should approve the router for exactly the amount swapped', async () => {
+      const { result, responseText } = await swap();
+
+      expect(result.success).toBe(true);
+      expect(executed).toHaveLength(2);
+      expect(approvedAmount(executed[0])).toBe('10000000');
+      expect(executed[1]).toBeInstanceOf(ContractExecuteTransaction);
+      expect(responseText).toContain(`Approved router ${ROUTER} to spend 10 USDC (exact) for 0.0005 HBAR`);
+    });
+
+    it('should approve the cap so later swaps can reuse the allowance', async () => {
+      const { result, responseText } = await swap({ HEDERA_SWAP_ALLOWANCE_CAP: '250' });
+
+      expect(result.success).toBe(true);
+      expect(approvedAmount(executed[0])).toBe('250000000');
+      expect(responseText).toContain(`Approved router ${ROUTER} to spend 250 USDC (capped) for 0.0005 HBAR`);
+
+      existingAllowance = 240_000_000;
+      executed = [];
+      const reused = await swap({ HEDERA_SWAP_ALLOWANCE_CAP: '250' });
+
+      expect(executed).toHaveLength(1);
+      expect(executed[0]).toBeInstanceOf(ContractExecuteTransaction);
+      expect(reused.responseText).toContain('Existing allowance of 240 USDC covers this swap');
+    });
+
+    it('should not submit anything when the swap needs more than the cap', async () => {
+      const { result } = await swap({ HEDERA_SWAP_ALLOWANCE_CAP: '5' });
+
+      expect(result.success).toBe(false);
+      expect(result.text).toContain('exceeds the configured cap of 5000000');
+      expect(executed).toHaveLength(0);
+    });
+  });
+});
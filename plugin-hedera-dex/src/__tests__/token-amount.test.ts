@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  HBAR_DECIMALS,
+  formatTokenAmount,
+  parseTokenAmount,
+  tokenAmountFromRaw,
+} from '../token-amount';
+
+describe('Token Amounts', () => {
+  it('should parse amounts using each token\'s decimals', () => {
+    expect(parseTokenAmount('10', HBAR_DECIMALS).raw).toBe(1_000_000_000n);
+    expect(parseTokenAmount('100.5', 6).raw).toBe(100_500_000n);
+    expect(parseTokenAmount('0.000001', 6).raw).toBe(1n);
+    expect(parseTokenAmount('.5', 6).raw).toBe(500_000n);
+    expect(parseTokenAmount('1,000', 6).raw).toBe(1_000_000_000n);
+  });
+
+  it('should keep full precision for large amounts', () => {
+    const amount = parseTokenAmount('123456789012345.12345678', HBAR_DECIMALS);
+    expect(amount.raw).toBe(12345678901234512345678n);
+    expect(formatTokenAmount(amount)).toBe('123456789012345.12345678');
+  });
+
+  it('should reject malformed or over-precise amounts', () => {
+    expect(() => parseTokenAmount('abc', 6)).toThrow('Invalid token amount');
+    expect(() => parseTokenAmount('', 6)).toThrow('Invalid token amount');
+    expect(() => parseTokenAmount('1.2.3', 6)).toThrow('Invalid token amount');
+    expect(() => parseTokenAmount('0.0000001', 6)).toThrow('more than 6 decimal places');
+    // Trailing zeros beyond the token precision are harmless
+    expect(parseTokenAmount('1.5000000', 6).raw).toBe(1_500_000n);
+  });
+
+  it('should format smallest units back to human units', () => {
+    expect(formatTokenAmount(tokenAmountFromRaw(1_234_500n, 6))).toBe('1.2345');
+    expect(formatTokenAmount(tokenAmountFromRaw('1', 6))).toBe('0.000001');
+    expect(formatTokenAmount(tokenAmountFromRaw(5_000_000_000n, HBAR_DECIMALS))).toBe('50');
+    expect(formatTokenAmount(tokenAmountFromRaw(42n, 0))).toBe('42');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, beforeEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import { checkTokenAssociation } from '../token-association';
+
+// Mock axios for controlled testing
+const mockAxios = spyOn(axios, 'get');
+
+const MIRROR_NODE_URL = 'https://testnet.mirrornode.hedera.com';
+
+/**
+ * Serve mirror node responses keyed by request path
+ */
+function mockMirrorNode(responses: Record<string, any>) {
+  mockAxios.mockImplementation((async (url: string) => {
+    const path = url.replace(MIRROR_NODE_URL, '');
+    if (!(path in responses)) {
+      throw new Error(`Unexpected request: ${path}`);
+    }
+    return { data: responses[path] };
+  }) as any);
+}
+
+describe('Token Association Preflight', () => {
+  beforeEach(() => {
+    mockAxios.mockReset();
+  });
+
+  it('should report existing token relationships', async () => {
+    mockMirrorNode({
+      '/api/v1/accounts/0.0.1001/tokens?token.id=0.0.456858': { tokens: [{ token_id: '0.0.456858', balance: 0 }] },
+      '/api/v1/accounts/0.0.1001': { max_automatic_token_associations: 0 },
+    });
+
+    const status = await checkTokenAssociation(MIRROR_NODE_URL, '0.0.1001', '0.0.456858');
+
+    expect(status.associated).toBe(true);
+    expect(status.autoAssociates).toBe(false);
+  });
+
+  it('should require association when no automatic slots exist', async () => {
+    mockMirrorNode({
+      '/api/v1/accounts/0.0.1001/tokens?token.id=0.0.456858': { tokens: [] },
+      '/api/v1/accounts/0.0.1001': { max_automatic_token_associations: 0 },
+    });
+
+    const status = await checkTokenAssociation(MIRROR_NODE_URL, '0.0.1001', '0.0.456858');
+
+    expect(status.associated).toBe(false);
+    expect(status.autoAssociates).toBe(false);
+  });
+
+  it('should rely on unlimited automatic associations', async () => {
+    mockMirrorNode({
+      '/api/v1/accounts/0.0.1001/tokens?token.id=0.0.456858': { tokens: [] },
+      '/api/v1/accounts/0.0.1001': { max_automatic_token_associations: -1 },
+    });
+
+    const status = await checkTokenAssociation(MIRROR_NODE_URL, '0.0.1001', '0.0.456858');
+
+    expect(status.autoAssociates).toBe(true);
+  });
+
+  it('should count used automatic association slots across pages', async () => {
+    mockMirrorNode({
+      '/api/v1/accounts/0.0.1001/tokens?token.id=0.0.456858': { tokens: [] },
+      '/api/v1/accounts/0.0.1001': { max_automatic_token_associations: 2 },
+      '/api/v1/accounts/0.0.1001/tokens?limit=100': {
+        tokens: [{ automatic_association: true }, { automatic_association: false }],
+        links: { next: '/api/v1/accounts/0.0.1001/tokens?limit=100&token.id=gt:0.0.500' },
+      },
+      '/api/v1/accounts/0.0.1001/tokens?limit=100&token.id=gt:0.0.500': {
+        tokens: [{ automatic_association: true }],
+        links: { next: null },
+      },
+    });
+
+    const status = await checkTokenAssociation(MIRROR_NODE_URL, '0.0.1001', '0.0.456858');
+
+    expect(status.usedAutomaticAssociations).toBe(2);
+    expect(status.autoAssociates).toBe(false);
+  });
+
+  it('should wrap mirror node failures', async () => {
+    mockAxios.mockRejectedValue(new Error('Network error'));
+
+    await expect(checkTokenAssociation(MIRROR_NODE_URL, '0.0.1001', '0.0.456858'))
+      .rejects.toThrow('Could not check token association for 0.0.1001: Network error');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import { TokenRegistry, evmAddressToHederaId } from '../token-registry';
+
+describe('Token Registry', () => {
+  let registry: TokenRegistry;
+  let mockAxiosGet: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    registry = new TokenRegistry('mainnet');
+    mockAxiosGet = spyOn(axios, 'get');
+  });
+
+  afterEach(() => {
+    mockAxiosGet.mockRestore();
+  });
+
+  it('should find curated tokens by symbol, token ID and EVM address', () => {
+    const bySymbol = registry.lookup('usdc');
+    const byId = registry.lookup('0.0.456858');
+    const byEvmAddress = registry.lookup('0x000000000000000000000000000000000006f89a');
+
+    expect(bySymbol).toMatchObject({ status: 'found', token: { id: '0.0.456858', verified: true } });
+    expect(byId).toMatchObject({ status: 'found', token: { symbol: 'USDC' } });
+    expect(byEvmAddress).toMatchObject({ status: 'found', token: { symbol: 'USDC' } });
+  });
+
+  it('should never map a symbol onto another token', () => {
+    const lookup = registry.lookup('USDT');
+
+    expect(lookup.status).toBe('not_found');
+    if (lookup.status === 'not_found') {
+      expect(lookup.suggestions.map((token) => token.symbol)).toEqual(['USDT[hts]']);
+    }
+  });
+
+  it('should prefer the verified token when a discovered token reuses its symbol', () => {
+    registry.addFromPools([
+      {
+        tokenA: { id: '0.0.9990001', symbol: 'USDC', name: 'Fake USD Coin', decimals: 6 },
+        tokenB: { id: '0.0.1456986', symbol: 'WHBAR', decimals: 8 },
+      },
+    ]);
+
+    expect(registry.lookup('USDC')).toMatchObject({ status: 'found', token: { id: '0.0.456858' } });
+    // The curated WHBAR entry is kept, not replaced by the discovered one
+    expect(registry.lookup('0.0.1456986')).toMatchObject({ status: 'found', token: { verified: true, source: 'curated' } });
+  });
+
+  it('should report ambiguous symbols shared by unverified tokens', async () => {
+    registry.addFromPools([
+      {
+        tokenA: { id: '0.0.9990001', symbol: 'PEPE', decimals: 8 },
+        tokenB: { id: '0.0.9990002', symbol: 'pepe', decimals: 8 },
+      },
+    ]);
+
+    const lookup = registry.lookup('PEPE');
+    expect(lookup.status).toBe('ambiguous');
+    await expect(registry.resolve('PEPE', 'https://mainnet.mirrornode.hedera.com')).rejects.toThrow(
+      /matches several tokens on mainnet: PEPE \(0\.0\.9990001, unverified\), pepe \(0\.0\.9990002, unverified\)/
+    );
+  });
+
+  it('should reject unknown symbols with suggestions instead of substituting', async () => {
+    await expect(registry.resolve('USDT', 'https://mainnet.mirrornode.hedera.com')).rejects.toThrow(
+      'Unknown token "USDT" on mainnet. Did you mean USDT[hts] (0.0.1055472, verified)?'
+    );
+  });
+
+  it('should fetch unknown token IDs from the Mirror Node as unverified tokens', async () => {
+    mockAxiosGet.mockResolvedValueOnce({ data: { symbol: 'GRELF', name: 'Grelf', decimals: '8' } });
+
+    const token = await registry.resolve('0.0.1159074', 'https://mainnet.mirrornode.hedera.com');
+
+    expect(token).toMatchObject({ id: '0.0.1159074', symbol: 'GRELF', decimals: 8, verified: false, source: 'mirror' });
+    expect(registry.lookup('grelf')).toMatchObject({ status: 'found', token: { id: '0.0.1159074' } });
+  });
+
+  it('should convert long-zero EVM addresses back to entity IDs', () => {
+    expect(evmAddressToHederaId('0x000000000000000000000000000000000006f89a')).toBe('0.0.456858');
+    expect(evmAddressToHederaId('0x1234567890abcdef1234567890abcdef12345678')).toBeNull();
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import { type Client, Hbar, PrivateKey, Status, Transaction } from '@hashgraph/sdk';
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { hederaDexPlugin } from '../index';
+import { SwapLedger, type SwapLedgerEntry } from '../swap-ledger';
+import {
+  DailyVolumeTracker,
+  evaluateTradingPolicy,
+  parseTradingPolicy,
+  resolvePolicyRules,
+  type TradeContext,
+} from '../trading-policy';
+import { tokenAmountFromRaw } from '../token-amount';
+import { createMemoryRuntime, createTestMemory, createUUID, mockSaucerSwapCalls } from './test-utils';
+
+const TREASURY_ACCOUNT = '0.0.2001';
+const HOUR_MS = 60 * 60 * 1000;
+
+const operatorKey = PrivateKey.generateED25519();
+
+/**
+ * 100 HBAR (8 decimals) sold for 12 USDC (6 decimals), worth $12
+ */
+function createTrade(overrides: Partial<TradeContext> = {}): TradeContext {
+  return {
+    entityId: 'user-1',
+    fromToken: 'HBAR',
+    toToken: 'USDC',
+    amountIn: tokenAmountFromRaw(10_000_000_000n, 8),
+    amountOut: tokenAmountFromRaw(12_000_000n, 6),
+    valueUsd: 12,
+    priceImpactBps: 15,
+    ...overrides,
+  };
+}
+
+describe('Trading Policy', () => {
+  let volumes: DailyVolumeTracker;
+
+  beforeEach(() => {
+    volumes = new DailyVolumeTracker();
+  });
+
+  it('should allow trades when no rule is broken', () => {
+    const rules = parseTradingPolicy('{"maxTradeUsd": 100, "allowedTokens": ["hbar", "USDC"]}');
+
+    expect(evaluateTradingPolicy(rules, createTrade(), volumes)).toEqual({ allowed: true });
+  });
+
+  it('should explain which rule rejected a trade', () => {
+    const denied = evaluateTradingPolicy({ deniedTokens: ['USDC'] }, createTrade(), volumes);
+    expect(denied).toEqual({ allowed: false, rule: 'deniedTokens', reason: 'USDC is on the token deny list' });
+
+    const notAllowed = evaluateTradingPolicy({ allowedTokens: ['HBAR', 'SAUCE'] }, createTrade(), volumes);
+    expect(notAllowed.allowed === false && notAllowed.rule).toBe('allowedTokens');
+
+    const tooLarge = evaluateTradingPolicy({ maxTradeAmount: { HBAR: '50' } }, createTrade(), volumes);
+    expect(tooLarge.allowed === false && tooLarge.reason).toBe('trade of 100 HBAR exceeds the 50 HBAR limit per trade');
+
+    const tooExpensive = evaluateTradingPolicy({ maxTradeUsd: 10 }, createTrade(), volumes);
+    expect(tooExpensive.allowed === false && tooExpensive.reason).toBe('trade value of $12.00 exceeds the $10.00 limit per trade');
+
+    const highImpact = evaluateTradingPolicy({ maxPriceImpactBps: 10 }, createTrade(), volumes);
+    expect(highImpact.allowed === false && highImpact.rule).toBe('maxPriceImpactBps');
+  });
+
+  it('should enforce rolling daily volume per user and globally', () => {
+    volumes.record('user-1', 40);
+    volumes.record('user-2', 40);
+
+    const perUser = evaluateTradingPolicy({ dailyVolumeUsdPerUser: 50 }, createTrade(), volumes);
+    expect(perUser.allowed === false && perUser.rule).toBe('dailyVolumeUsdPerUser');
+
+    const global = evaluateTradingPolicy({ dailyVolumeUsdGlobal: 90 }, createTrade({ entityId: 'user-3' }), volumes);
+    expect(global.allowed === false && global.rule).toBe('dailyVolumeUsdGlobal');
+
+    // Volume older than 24 hours no longer counts
+    expect(volumes.volume('user-1', Date.now() + 25 * 60 * 60 * 1000)).toBe(0);
+  });
+
+  it('should reject USD limits when the trade cannot be valued', () => {
+    const decision = evaluateTradingPolicy({ maxTradeUsd: 100 }, createTrade({ valueUsd: undefined }), volumes);
+
+    expect(decision.allowed).toBe(false);
+  });
+
+  it('should apply the stricter mainnet restrictions only on mainnet', () => {
+    const policy = parseTradingPolicy({
+      maxTradeUsd: 1000,
+      maxTradeAmount: { HBAR: '500' },
+      mainnet: { maxTradeUsd: 100, maxTradeAmount: { HBAR: '50' }, deniedTokens: ['BONZO'] },
+    });
+
+    expect(resolvePolicyRules(policy, 'testnet').maxTradeUsd).toBe(1000);
+
+    const mainnet = resolvePolicyRules(policy, 'mainnet');
+    expect(mainnet.maxTradeUsd).toBe(100);
+    expect(mainnet.maxTradeAmount).toEqual({ HBAR: '50' });
+    expect(mainnet.deniedTokens).toEqual(['BONZO']);
+  });
+
+  it('should reject malformed policies', () => {
+    expect(() => parseTradingPolicy({ maxTradeUsd: -5 })).toThrow('Invalid trading policy: maxTradeUsd');
+  });
+});
+
+describe('Daily Trading Volume', () => {
+  let mockAxiosGet: ReturnType<typeof spyOn>;
+  let mockAxiosPost: ReturnType<typeof spyOn>;
+  let mockExecute: ReturnType<typeof spyOn>;
+  let settings: Record<string, string>;
+
+  beforeEach(() => {
+    settings = {
+      HEDERA_NETWORK: 'testnet',
+      HEDERA_ACCOUNT_ID: TREASURY_ACCOUNT,
+      HEDERA_PRIVATE_KEY: operatorKey.toStringDer(),
+      HEDERA_SWAP_REQUIRE_CONFIRMATION: 'false',
+      HEDERA_TRADING_POLICY: JSON.stringify({ dailyVolumeUsdPerUser: 25 }),
+    };
+
+    // An associated account that already allows the router to spend its USDC, and 6 decimal tokens
+    mockAxiosGet = spyOn(axios, 'get').mockImplementation((async (url: string) => {
+      if (url.endsWith(`/accounts/${TREASURY_ACCOUNT}`)) {
+        return { data: { account: TREASURY_ACCOUNT, key: { _type: 'ED25519', key: operatorKey.publicKey.toStringRaw() } } };
+      }
+      if (url.includes(`/accounts/${TREASURY_ACCOUNT}/tokens?`)) {
+        return { data: { tokens: [{ token_id: url.split('token.id=')[1] }] } };
+      }
+      if (url.includes(`/accounts/${TREASURY_ACCOUNT}/allowances/tokens`)) {
+        const [, spender, tokenId] = url.match(/spender\.id=([\d.]+)&token\.id=([\d.]+)/)!;
+        return { data: { allowances: [{ spender, token_id: tokenId, amount: 1_000_000_000_000 }] } };
+      }
+      if (url.includes('/tokens/')) {
+        return { data: { decimals: '6' } };
+      }
+      throw new Error('Not found');
+    }) as any);
+    mockAxiosPost = spyOn(axios, 'post');
+    mockSaucerSwapCalls(mockAxiosPost, { quoteExactInput: (amountIn) => amountIn * 25n });
+
+    mockExecute = spyOn(Transaction.prototype, 'execute').mockImplementation((async function (this: Transaction, client: Client) {
+      if (!this.isFrozen()) {
+        this.freezeWith(client);
+      }
+      return {
+        transactionId: this.transactionId,
+        getReceipt: async () => ({ status: Status.Success }),
+        getRecord: async () => ({ transactionFee: Hbar.fromTinybars(100_000) }),
+      };
+    }) as any);
+  });
+
+  afterEach(() => {
+    mockAxiosGet.mockRestore();
+    mockAxiosPost.mockRestore();
+    mockExecute.mockRestore();
+  });
+
+  function swap(runtime: IAgentRuntime, entityId: UUID, amount: number): Promise<any> {
+    return hederaDexPlugin.actions!.find((action) => action.name === 'SWAP_TOKENS')!.handler(
+      runtime,
+      createTestMemory({ entityId, content: { text: `Swap ${amount} USDC for SAUCE`, source: 'test' } })
+    );
+  }
+
+  function recordSwap(runtime: IAgentRuntime, entry: Partial<SwapLedgerEntry>): Promise<UUID> {
+    return new SwapLedger(runtime).record({
+      entityId: createUUID(),
+      roomId: createUUID(),
+      network: 'testnet',
+      tradeType: 'exactInput',
+      fromToken: 'USDC',
+      toToken: 'SAUCE',
+      route: 'USDC → SAUCE (0.30%)',
+      transactionId: `${TREASURY_ACCOUNT}@${Date.now()}.000000000`,
+      status: 'success',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      ...entry,
+    });
+  }
+
+  it('should record the USD value of every swap in the ledger', async () => {
+    const { runtime } = createMemoryRuntime(settings);
+    const entityId = createUUID();
+
+    expect((await swap(runtime, entityId, 10)).success).toBe(true);
+
+    const [recorded] = await new SwapLedger(runtime).history(entityId);
+    expect(recorded).toMatchObject({ status: 'success', valueUsd: 10 });
+  });
+
+  it('should count the swaps in the ledger, including those of earlier runs', async () => {
+    const { runtime } = createMemoryRuntime(settings);
+    const entityId = createUUID();
+
+    // Pending swaps count from their submission; failed and day-old swaps do not count
+    await recordSwap(runtime, { entityId, status: 'pending', valueUsd: 12, createdAt: Date.now() - HOUR_MS });
+    await recordSwap(runtime, { entityId, status: 'failed', valueUsd: 100 });
+    await recordSwap(runtime, { entityId, valueUsd: 100, createdAt: Date.now() - 25 * HOUR_MS });
+
+    expect((await swap(runtime, entityId, 10)).success).toBe(true);
+
+    const rejected = await swap(runtime, entityId, 10);
+    expect(rejected.success).toBe(false);
+    expect(rejected.text).toContain('Trade rejected by trading policy (dailyVolumeUsdPerUser)');
+
+    // Other users have their own volume unless the global limit is reached
+    expect((await swap(runtime, createUUID(), 10)).success).toBe(true);
+    settings.HEDERA_TRADING_POLICY = JSON.stringify({ dailyVolumeUsdGlobal: 40 });
+    expect((await swap(runtime, createUUID(), 10)).text).toContain('(dailyVolumeUsdGlobal)');
+  });
+
+  it('should not let concurrent swaps exceed the daily volume together', async () => {
+    const { runtime } = createMemoryRuntime(settings);
+    const entityId = createUUID();
+
+    const results = await Promise.all([swap(runtime, entityId, 15), swap(runtime, entityId, 15)]);
+
+    expect(results.map((result) => result.success).sort()).toEqual([false, true]);
+    expect(results.find((result) => !result.success).text).toContain('(dailyVolumeUsdPerUser)');
+    expect(await new SwapLedger(runtime).history(entityId)).toHaveLength(1);
+  });
+
+  it('should free the reserved volume of a swap that was not submitted', async () => {
+    const { runtime } = createMemoryRuntime(settings);
+    const entityId = createUUID();
+
+    mockExecute.mockImplementationOnce((async () => {
+      throw new Error('INSUFFICIENT_PAYER_BALANCE');
+    }) as any);
+    expect((await swap(runtime, entityId, 20)).success).toBe(false);
+
+    expect((await swap(runtime, entityId, 20)).success).toBe(true);
+  });
+});
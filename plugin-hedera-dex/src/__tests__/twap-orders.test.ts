@@ -0,0 +1,288 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import { PrivateKey } from '@hashgraph/sdk';
+import type { IAgentRuntime } from '@elizaos/core';
+import { hederaDexPlugin, StarterService } from '../index';
+import {
+  TwapOrderStore,
+  describeTwapResult,
+  extractPriceBandFromText,
+  formatDuration,
+  parseTwapSlices,
+  parseTwapWindow,
+  planTwapSlices,
+  priceDeviationBps,
+  shortTwapId,
+  sliceAmountRaw,
+  type StoredTwapOrder,
+} from '../twap-orders';
+import { createMemoryRuntime, createMockRuntime, createTestMemory, createUUID, mockSaucerSwapCalls } from './test-utils';
+
+const TREASURY_ACCOUNT = '0.0.2001';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const operatorKey = PrivateKey.generateED25519();
+
+/**
+ * Mock the Mirror Node for 6 decimal tokens sharing a 0.30% pool, quoting market.rate SAUCE per USDC
+ */
+function mockMirrorNode(mockAxiosGet: ReturnType<typeof spyOn>, mockAxiosPost: ReturnType<typeof spyOn>, market: { rate: bigint }) {
+  mockAxiosGet.mockImplementation((async (url: string) => {
+    if (url.endsWith(`/accounts/${TREASURY_ACCOUNT}`)) {
+      return { data: { account: TREASURY_ACCOUNT, key: { _type: 'ED25519', key: operatorKey.publicKey.toStringRaw() } } };
+    }
+    if (url.includes('/tokens/')) {
+      return { data: { decimals: '6' } };
+    }
+    throw new Error('Not found');
+  }) as any);
+
+  mockSaucerSwapCalls(mockAxiosPost, { quoteExactInput: (amountIn) => amountIn * market.rate });
+}
+
+function findAction(name: string): any {
+  return hederaDexPlugin.actions?.find((action) => action.name === name);
+}
+
+describe('TWAP Orders', () => {
+  let mockAxiosGet: ReturnType<typeof spyOn>;
+  let mockAxiosPost: ReturnType<typeof spyOn>;
+  let settings: Record<string, string>;
+  let market: { rate: bigint };
+
+  beforeEach(() => {
+    settings = {
+      HEDERA_NETWORK: 'testnet',
+      HEDERA_ACCOUNT_ID: TREASURY_ACCOUNT,
+      HEDERA_PRIVATE_KEY: operatorKey.toStringDer(),
+    };
+    market = { rate: 25n };
+    mockAxiosGet = spyOn(axios, 'get');
+    mockAxiosPost = spyOn(axios, 'post');
+    mockMirrorNode(mockAxiosGet, mockAxiosPost, market);
+  });
+
+  afterEach(() => {
+    mockAxiosGet.mockRestore();
+    mockAxiosPost.mockRestore();
+  });
+
+  it('should parse the window, slice count and price band', () => {
+    expect(parseTwapWindow('Swap 10000 HBAR for SAUCE over 2 hours')).toBe(2 * HOUR_MS);
+    expect(parseTwapWindow('sell 5 SAUCE over the next 90 minutes')).toBe(90 * MINUTE_MS);
+    expect(parseTwapWindow('over 1.5d')).toBe(36 * HOUR_MS);
+    expect(parseTwapWindow('Swap 10 HBAR for SAUCE')).toBeNull();
+    expect(parseTwapSlices('over 2 hours in 8 slices')).toBe(8);
+    expect(parseTwapSlices('split into 12 swaps')).toBe(12);
+    expect(parseTwapSlices('over 2 hours')).toBeNull();
+    expect(extractPriceBandFromText('with a 3% band')).toBe(300);
+    expect(extractPriceBandFromText('stop if the price moves more than 2.5%')).toBe(250);
+    expect(extractPriceBandFromText('with 1% slippage')).toBeNull();
+
+    expect(formatDuration(2 * HOUR_MS)).toBe('2 hours');
+    expect(formatDuration(90 * MINUTE_MS)).toBe('90 minutes');
+  });
+
+  it('should split a window into evenly spaced slices', () => {
+    expect(planTwapSlices(2 * HOUR_MS, null)).toEqual({ slices: 10, intervalMs: 12 * MINUTE_MS });
+    expect(planTwapSlices(2 * HOUR_MS, 8)).toEqual({ slices: 8, intervalMs: 15 * MINUTE_MS });
+    expect(planTwapSlices(5 * MINUTE_MS, null)).toEqual({ slices: 5, intervalMs: MINUTE_MS });
+    expect(() => planTwapSlices(10 * MINUTE_MS, 20)).toThrow('2 to 10 slices');
+    expect(() => planTwapSlices(MINUTE_MS, null)).toThrow('at least 2 minutes');
+    expect(() => planTwapSlices(8 * 24 * HOUR_MS, null)).toThrow('at most 7 days');
+
+    // The last slice sells what the division left over
+    expect([0, 1, 2].map((index) => sliceAmountRaw(10n, 3, index))).toEqual([3n, 3n, 4n]);
+    expect(priceDeviationBps(95n, 100n)).toBe(500);
+    expect(priceDeviationBps(110n, 100n)).toBe(1000);
+  });
+
+  it('should compare the average price with the single-swap quote', () => {
+    const order = {
+      fromToken: 'USDC',
+      toToken: 'SAUCE',
+      fromTokenDecimals: 6,
+      toTokenDecimals: 6,
+      amount: '100',
+      quotedAmountOut: '2400',
+      slices: 4,
+    } as StoredTwapOrder;
+    expect(describeTwapResult({ ...order, slicesDone: 0, totalSpent: '0', totalReceived: '0' })).toBeNull();
+    expect(describeTwapResult({ ...order, slicesDone: 4, totalSpent: '100000000', totalReceived: '2500000000' }))
+      .toBe('Sold 100 USDC for 2500 SAUCE in 4 of 4 slices at an average price of 25 SAUCE per USDC, ' +
+        '4.16% better than the single-swap quote of 2400 SAUCE for 100 USDC');
+  });
+
+  it('should recognise TWAP requests without mistaking them for swaps or orders', async () => {
+    const validate = (name: string, text: string) =>
+      findAction(name).validate(createMockRuntime(), createTestMemory({ content: { text, source: 'test' } }), undefined);
+
+    expect(await validate('TWAP_SWAP', 'Swap 10000 HBAR for SAUCE over 2 hours')).toBe(true);
+    expect(await validate('TWAP_SWAP', 'Swap 10000 HBAR for SAUCE')).toBe(false);
+    expect(await validate('CANCEL_TWAP', 'cancel twap 3f9a2c1b')).toBe(true);
+    expect(await validate('CANCEL_ORDER', 'cancel twap 3f9a2c1b')).toBe(false);
+    expect(await validate('LIST_TWAP_ORDERS', 'Show my TWAP orders')).toBe(true);
+    expect(await validate('LIST_ORDERS', 'Show my TWAP orders')).toBe(false);
+  });
+
+  it('should place, list and cancel an order', async () => {
+    const { runtime } = createMemoryRuntime(settings);
+    const entityId = createUUID();
+    const say = (text: string) => createTestMemory({ entityId, content: { text, source: 'test' } });
+
+    const placed = await findAction('TWAP_SWAP').handler(runtime, say('Swap 100 USDC for SAUCE over 2 hours in 4 slices with a 3% band'));
+    expect(placed.success).toBe(true);
+    expect(placed.values).toMatchObject({
+      amount: '100',
+      fromToken: 'USDC',
+      toToken: 'SAUCE',
+      slices: 4,
+      intervalMs: 30 * MINUTE_MS,
+      priceBandBps: 300,
+      quotedAmountOut: '2500',
+      referencePrice: '25',
+    });
+    const twapId = placed.values.twapId;
+
+    const listed = await findAction('LIST_TWAP_ORDERS').handler(runtime, say('Show my TWAP orders'));
+    expect(listed.values).toMatchObject({ activeCount: 1, totalCount: 1 });
+
+    // Orders belong to the user who placed them
+    const foreign = await findAction('CANCEL_TWAP').handler(runtime, createTestMemory({ content: { text: `cancel twap ${twapId}`, source: 'test' } }));
+    expect(foreign.success).toBe(false);
+
+    const cancelled = await findAction('CANCEL_TWAP').handler(runtime, say(`cancel twap ${twapId}`));
+    expect(cancelled.values).toMatchObject({ status: 'cancelled', slicesDone: 0 });
+
+    const again = await findAction('CANCEL_TWAP').handler(runtime, say(`cancel twap ${twapId}`));
+    expect(again.text).toContain('is already cancelled');
+  });
+
+  it('should refuse orders it cannot split', async () => {
+    const { runtime } = createMemoryRuntime(settings);
+    const place = (text: string) => findAction('TWAP_SWAP').handler(runtime, createTestMemory({ content: { text, source: 'test' } }));
+
+    const exactOutput = await place('Swap USDC for exactly 1000 SAUCE over 2 hours');
+    expect(exactOutput.values.error).toBe('TWAP_SWAP_FAILED');
+    expect(exactOutput.text).toContain('split the amount sold');
+
+    const tooManySlices = await place('Swap 100 USDC for SAUCE over 5 minutes in 10 slices');
+    expect(tooManySlices.text).toContain('2 to 5 slices');
+
+    const tooSmall = await place('Swap 0.000003 USDC for SAUCE over 2 hours in 4 slices');
+    expect(tooSmall.text).toContain('too small to split into 4 slices');
+  });
+
+  describe('TWAP Scheduler', () => {
+    let service: StarterService;
+
+    afterEach(async () => {
+      await service?.stop();
+    });
+
+    async function placeOrder(runtime: IAgentRuntime): Promise<StoredTwapOrder> {
+      const placed = await findAction('TWAP_SWAP').handler(
+        runtime,
+        createTestMemory({ content: { text: 'Swap 100 USDC for SAUCE over 2 hours in 4 slices', source: 'discord' } })
+      );
+      expect(placed.success).toBe(true);
+      return placed.data.order;
+    }
+
+    it('should leave orders alone until a slice is due', async () => {
+      const { runtime, notifications } = createMemoryRuntime(settings);
+      const order = await placeOrder(runtime);
+      const store = new TwapOrderStore(runtime);
+      await store.update(order.id, { nextSliceAt: Date.now() + HOUR_MS });
+      service = (await StarterService.start(runtime)) as StarterService;
+
+      await service.checkTwapOrders();
+
+      expect(await store.find(order.entityId, shortTwapId(order.id))).toMatchObject({ status: 'active', slicesDone: 0 });
+      expect(notifications).toHaveLength(0);
+    });
+
+    it('should abort the order when a slice is quoted outside the price band', async () => {
+      const { runtime, notifications } = createMemoryRuntime(settings);
+      const order = await placeOrder(runtime);
+      const store = new TwapOrderStore(runtime);
+      service = (await StarterService.start(runtime)) as StarterService;
+
+      market.rate = 20n;
+      await service.checkTwapOrders();
+
+      const aborted = await store.find(order.entityId, shortTwapId(order.id));
+      expect(aborted).toMatchObject({ status: 'aborted', slicesDone: 0 });
+      expect(aborted?.lastError).toContain('20.00% from 25 and outside the 5.00% band');
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].target).toMatchObject({ source: 'discord', roomId: order.roomId });
+      expect(notifications[0].content.text).toContain(`TWAP ${shortTwapId(order.id)} Aborted`);
+      expect(notifications[0].content.text).toContain('No slices were sold.');
+
+      // Aborted orders are not picked up again
+      await service.checkTwapOrders();
+      expect(notifications).toHaveLength(1);
+    });
+
+    it('should skip an order cancelled after the due orders were listed', async () => {
+      const { runtime, notifications } = createMemoryRuntime(settings);
+      const order = await placeOrder(runtime);
+      const store = new TwapOrderStore(runtime);
+      service = (await StarterService.start(runtime)) as StarterService;
+      mockAxiosPost.mockClear();
+
+      // The user cancels the order while the scheduler is picking it up
+      const listMemories = runtime.getMemories;
+      runtime.getMemories = (async (params: any) => {
+        const listed = await listMemories(params);
+        runtime.getMemories = listMemories;
+        await store.update(order.id, { status: 'cancelled' });
+        return listed;
+      }) as any;
+      await service.checkTwapOrders();
+
+      expect(await store.find(order.entityId, shortTwapId(order.id))).toMatchObject({ status: 'cancelled', slicesDone: 0 });
+      expect(mockAxiosPost).not.toHaveBeenCalled();
+      expect(notifications).toHaveLength(0);
+    });
+
+    it('should leave an order cancelled during its slice cancelled', async () => {
+      const { runtime, memories, notifications } = createMemoryRuntime(settings);
+      const order = await placeOrder(runtime);
+      const store = new TwapOrderStore(runtime);
+      service = (await StarterService.start(runtime)) as StarterService;
+
+      // The user cancels the order while the slice is quoted outside the price band
+      mockSaucerSwapCalls(mockAxiosPost, {
+        quoteExactInput: (amountIn) => {
+          const memory = memories.get(order.id)!;
+          const twapOrder = { ...(memory.content.twapOrder as StoredTwapOrder), status: 'cancelled' };
+          memories.set(order.id, { ...memory, content: { ...memory.content, twapOrder } });
+          return amountIn * 20n;
+        },
+      });
+      await service.checkTwapOrders();
+
+      expect(await store.find(order.entityId, shortTwapId(order.id))).toMatchObject({ status: 'cancelled', slicesDone: 0 });
+      expect(notifications).toHaveLength(0);
+    });
+
+    it('should abort the order when a slice fails', async () => {
+      const { runtime, notifications } = createMemoryRuntime(settings);
+      const order = await placeOrder(runtime);
+      const store = new TwapOrderStore(runtime);
+      service = (await StarterService.start(runtime)) as StarterService;
+
+      settings.HEDERA_TRADING_POLICY = JSON.stringify({ deniedTokens: ['SAUCE'] });
+      await service.checkTwapOrders();
+
+      const aborted = await store.find(order.entityId, shortTwapId(order.id));
+      expect(aborted?.status).toBe('aborted');
+      expect(aborted?.lastError).toContain('slice 1 failed');
+      expect(aborted?.lastError).toContain('deniedTokens');
+      expect(notifications[0].content.text).toContain(`TWAP ${shortTwapId(order.id)} Aborted`);
+    });
+  });
+});
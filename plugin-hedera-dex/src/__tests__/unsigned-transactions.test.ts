@@ -0,0 +1,218 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import {
+  Client,
+  ContractExecuteTransaction,
+  Hbar,
+  PrivateKey,
+  Status,
+  TokenAssociateTransaction,
+  Transaction,
+} from '@hashgraph/sdk';
+import { hederaDexPlugin } from '../index';
+import {
+  decodeSignedTransaction,
+  freezeForSigning,
+  parseSigningMode,
+  selectSigningNode,
+  serializeTransaction,
+} from '../unsigned-transactions';
+import { createMemoryRuntime, createMockRuntime, createTestMemory, mockSaucerSwapCalls } from './test-utils';
+
+const USER_ACCOUNT = '0.0.1001';
+
+/**
+ * Mock the Mirror Node for an HBAR → USDC swap: a single 0.30% pool, a quoter asking
+ * 1.01 HBAR for 100 USDC and a user account that is not associated with USDC
+ */
+function mockMirrorNode(mockAxiosGet: ReturnType<typeof spyOn>, mockAxiosPost: ReturnType<typeof spyOn>) {
+  mockAxiosGet.mockImplementation((async (url: string) => {
+    if (url.includes('/tokens/')) {
+      return { data: { decimals: '6', symbol: 'USDC' } };
+    }
+    if (url.includes(`/accounts/${USER_ACCOUNT}/tokens`)) {
+      return { data: { tokens: [] } };
+    }
+    if (url.endsWith(`/accounts/${USER_ACCOUNT}`)) {
+      return { data: { account: USER_ACCOUNT, max_automatic_token_associations: 0 } };
+    }
+    throw new Error('Not found');
+  }) as any);
+
+  mockSaucerSwapCalls(mockAxiosPost, {
+    quoteExactOutput: () => 101_000_000n,
+    // Gas estimation of the router call fails until the association is on chain
+    routerReverts: true,
+  });
+}
+
+function createResponse() {
+  const response: any = { statusCode: 200 };
+  response.status = (code: number) => {
+    response.statusCode = code;
+    return response;
+  };
+  response.json = (body: unknown) => {
+    response.body = body;
+    return response;
+  };
+  return response;
+}
+
+const submitRoute = hederaDexPlugin.routes?.find((route) => route.path === '/api/transactions/submit');
+
+describe('Unsigned Transactions', () => {
+  let mockAxiosGet: ReturnType<typeof spyOn>;
+  let mockAxiosPost: ReturnType<typeof spyOn>;
+  let mockExecute: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    mockAxiosGet = spyOn(axios, 'get');
+    mockAxiosPost = spyOn(axios, 'post');
+    mockMirrorNode(mockAxiosGet, mockAxiosPost);
+    mockExecute = spyOn(Transaction.prototype, 'execute').mockImplementation((async function (this: Transaction) {
+      return { transactionId: this.transactionId, getReceipt: async () => ({ status: Status.Success }) };
+    }) as any);
+  });
+
+  afterEach(() => {
+    mockAxiosGet.mockRestore();
+    mockAxiosPost.mockRestore();
+    mockExecute.mockRestore();
+  });
+
+  it('should parse the signing mode', () => {
+    expect(parseSigningMode(undefined)).toBe('agent');
+    expect(parseSigningMode('Non-Custodial')).toBe('user');
+    expect(() => parseSigningMode('wallet')).toThrow('Invalid HEDERA_SIGNING_MODE: wallet');
+  });
+
+  it('should only accept signed transaction bytes', async () => {
+    const client = Client.forName('testnet');
+    const transaction = freezeForSigning(
+      new TokenAssociateTransaction().setAccountId(USER_ACCOUNT).setTokenIds(['0.0.456858']),
+      USER_ACCOUNT,
+      selectSigningNode(client),
+      client
+    );
+    client.close();
+
+    expect(() => decodeSignedTransaction(serializeTransaction(transaction))).toThrow('is not signed');
+    expect(() => decodeSignedTransaction('0x1234')).toThrow('Invalid transaction bytes');
+
+    await transaction.sign(PrivateKey.generateED25519());
+    const hex = `0x${Buffer.from(transaction.toBytes()).toString('hex')}`;
+    expect(decodeSignedTransaction(hex).transactionId?.toString()).toBe(transaction.transactionId?.toString());
+  });
+
+  it('should build the swap and its association for the user to sign, then submit and record it', async () => {
+    const swapTokensAction = hederaDexPlugin.actions?.find((action) => action.name === 'SWAP_TOKENS') as any;
+    const { runtime, memories } = createMemoryRuntime({ HEDERA_NETWORK: 'mainnet', HEDERA_SIGNING_MODE: 'user' });
+    const message = createTestMemory({ content: { text: `Buy 100 USDC with HBAR from account ${USER_ACCOUNT}`, source: 'test' } });
+    const callbackResults: any[] = [];
+
+    const result = await swapTokensAction.handler(runtime, message, undefined, undefined, async (content: any) => {
+      callbackResults.push(content);
+      return [];
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.values).toMatchObject({ awaitingSignature: true, accountId: USER_ACCOUNT, transactionCount: 2 });
+    expect(callbackResults[0].text).toContain('Swap Ready to Sign');
+    expect(callbackResults[0].text).toContain('1. Associate 0.0.1001 with USDC');
+
+    const [association, swap] = result.data.transactions.map((entry: any) => Transaction.fromBytes(Buffer.from(entry.bytes, 'base64'))) as any[];
+    expect(association).toBeInstanceOf(TokenAssociateTransaction);
+    expect(swap).toBeInstanceOf(ContractExecuteTransaction);
+    expect(swap.transactionId.accountId.toString()).toBe(USER_ACCOUNT);
+    expect(swap.nodeAccountIds.map(String)).toEqual([result.data.transactions[1].nodeAccountId]);
+    expect(swap.payableAmount.toTinybars().toString()).toBe(Hbar.fromString(result.values.amountInMaximum).toTinybars().toString());
+
+    const userKey = PrivateKey.generateED25519();
+    const signed = await Promise.all([association, swap].map(async (transaction) =>
+      Buffer.from((await transaction.sign(userKey)).toBytes()).toString('base64')
+    ));
+
+    const response = createResponse();
+    await submitRoute!.handler!({ body: { transactions: signed } }, response, runtime);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body.success).toBe(true);
+    expect(response.body.transactions.map((entry: any) => [entry.kind, entry.status])).toEqual([
+      ['tokenAssociation', 'SUCCESS'],
+      ['swap', 'SUCCESS'],
+    ]);
+    expect(mockExecute).toHaveBeenCalledTimes(2);
+
+    const recorded = memories.get(response.body.swapId)!.content.swap as any;
+    expect(recorded).toMatchObject({
+      entityId: message.entityId,
+      status: 'success',
+      fromToken: 'HBAR',
+      toToken: 'USDC',
+      amountOut: '100',
+      transactionId: swap.transactionId.toString(),
+    });
+
+    // Each transaction is accepted only once
+    const resubmitted = createResponse();
+    await submitRoute!.handler!({ body: { transactions: signed } }, resubmitted, runtime);
+    expect(resubmitted.statusCode).toBe(400);
+    expect(resubmitted.body.error).toContain('was not built by this agent or has expired');
+  });
+
+  it('should check the daily volumes again when a built swap is submitted', async () => {
+    const swapTokensAction = hederaDexPlugin.actions?.find((action) => action.name === 'SWAP_TOKENS') as any;
+    const { runtime } = createMemoryRuntime({
+      HEDERA_NETWORK: 'mainnet',
+      HEDERA_SIGNING_MODE: 'user',
+      HEDERA_TRADING_POLICY: JSON.stringify({ dailyVolumeUsdPerUser: 150 }),
+    });
+    const first = createTestMemory({ content: { text: `Buy 100 USDC with HBAR from account ${USER_ACCOUNT}`, source: 'test' } });
+    const second = createTestMemory({ entityId: first.entityId, roomId: first.roomId, content: first.content });
+    const userKey = PrivateKey.generateED25519();
+
+    // Neither swap is over the limit on its own, so both are built
+    const signedSwaps = [];
+    for (const message of [first, second]) {
+      const result = await swapTokensAction.handler(runtime, message, undefined, undefined, async () => []);
+      expect(result.success).toBe(true);
+      signedSwaps.push(await Promise.all(result.data.transactions.map(async (entry: any) =>
+        Buffer.from((await Transaction.fromBytes(Buffer.from(entry.bytes, 'base64')).sign(userKey)).toBytes()).toString('base64')
+      )));
+    }
+
+    const submitted = createResponse();
+    await submitRoute!.handler!({ body: { transactions: signedSwaps[0] } }, submitted, runtime);
+    expect(submitted.body.success).toBe(true);
+
+    const rejected = createResponse();
+    await submitRoute!.handler!({ body: { transactions: signedSwaps[1] } }, rejected, runtime);
+    expect(rejected.statusCode).toBe(400);
+    expect(rejected.body.error).toContain('Trade rejected by trading policy (dailyVolumeUsdPerUser)');
+    expect(mockExecute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject transactions the agent did not build', async () => {
+    const client = Client.forName('mainnet');
+    const transaction = freezeForSigning(
+      new TokenAssociateTransaction().setAccountId(USER_ACCOUNT).setTokenIds(['0.0.456858']),
+      USER_ACCOUNT,
+      selectSigningNode(client),
+      client
+    );
+    client.close();
+    await transaction.sign(PrivateKey.generateED25519());
+
+    const response = createResponse();
+    await submitRoute!.handler!({ body: { transaction: serializeTransaction(transaction) } }, response, createMockRuntime());
+
+    expect(response.statusCode).toBe(400);
+    expect(response.body.error).toContain('was not built by this agent');
+    expect(mockExecute).not.toHaveBeenCalled();
+
+    const empty = createResponse();
+    await submitRoute!.handler!({ body: {} }, empty, createMockRuntime());
+    expect(empty.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,297 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import type { Memory } from '@elizaos/core';
+import {
+  AccountCreateTransaction,
+  AccountId,
+  type Client,
+  Hbar,
+  PrivateKey,
+  ReceiptStatusError,
+  Status,
+  Transaction,
+  TransferTransaction,
+} from '@hashgraph/sdk';
+import { hederaDexPlugin } from '../index';
+import { USER_ACCOUNTS_TABLE, UserAccountStore, UserTopUpStore, decryptPrivateKey, encryptPrivateKey, parseAccountMode } from '../user-accounts';
+import { createMemoryRuntime, createTestMemory, createUUID } from './test-utils';
+
+const TREASURY_ACCOUNT = '0.0.2001';
+const USER_ACCOUNT = '0.0.3001';
+const SECRET = 'correct horse battery staple';
+
+const treasuryKey = PrivateKey.generateED25519();
+
+const perUserSettings = {
+  HEDERA_NETWORK: 'testnet',
+  HEDERA_ACCOUNT_MODE: 'per-user',
+  HEDERA_ACCOUNT_ENCRYPTION_KEY: SECRET,
+  HEDERA_USER_TOP_UP_DAILY_HBAR: '15',
+  HEDERA_ACCOUNT_ID: TREASURY_ACCOUNT,
+  HEDERA_PRIVATE_KEY: treasuryKey.toStringDer(),
+};
+
+function findAction(name: string): any {
+  return hederaDexPlugin.actions?.find((action) => action.name === name);
+}
+
+describe('User Accounts', () => {
+  let mockAxiosGet: ReturnType<typeof spyOn>;
+  let mockExecute: ReturnType<typeof spyOn>;
+  let executed: Transaction[];
+
+  beforeEach(() => {
+    executed = [];
+    mockAxiosGet = spyOn(axios, 'get').mockImplementation((async (url: string) => {
+      if (url.endsWith(`/accounts/${TREASURY_ACCOUNT}`)) {
+        return { data: { account: TREASURY_ACCOUNT, key: { _type: 'ED25519', key: treasuryKey.publicKey.toStringRaw() } } };
+      }
+      if (url.endsWith(`/accounts/${USER_ACCOUNT}`)) {
+        return {
+          data: {
+            account: USER_ACCOUNT,
+            balance: { balance: 1_250_000_000, tokens: [{ token_id: '0.0.429274', balance: 2_500_000 }] },
+          },
+        };
+      }
+      if (url.endsWith('/tokens/0.0.429274')) {
+        return { data: { decimals: '6', symbol: 'USDC' } };
+      }
+      throw new Error(`Unexpected request ${url}`);
+    }) as any);
+
+    mockExecute = spyOn(Transaction.prototype, 'execute').mockImplementation((async function (this: Transaction, client: Client) {
+      if (!this.isFrozen()) {
+        this.freezeWith(client);
+      }
+      executed.push(this);
+      return {
+        transactionId: this.transactionId,
+        getReceipt: async () => ({
+          status: Status.Success,
+          accountId: this instanceof AccountCreateTransaction ? AccountId.fromString(USER_ACCOUNT) : null,
+        }),
+        getRecord: async () => ({ transactionFee: Hbar.fromTinybars(100_000) }),
+      };
+    }) as any);
+  });
+
+  afterEach(() => {
+    mockAxiosGet.mockRestore();
+    mockExecute.mockRestore();
+  });
+
+  it('should parse the account mode', () => {
+    expect(parseAccountMode(undefined)).toBe('shared');
+    expect(parseAccountMode('Custodial')).toBe('per-user');
+    expect(() => parseAccountMode('pooled')).toThrow('Invalid HEDERA_ACCOUNT_MODE: pooled');
+  });
+
+  it('should only decrypt account keys with the secret they were encrypted with', () => {
+    const key = PrivateKey.generateECDSA();
+    const encrypted = encryptPrivateKey(key, SECRET);
+
+    expect(encrypted).not.toContain(key.toStringRaw());
+    expect(decryptPrivateKey(encrypted, SECRET).toStringRaw()).toBe(key.toStringRaw());
+    expect(() => decryptPrivateKey(encrypted, 'a different secret')).toThrow('Check HEDERA_ACCOUNT_ENCRYPTION_KEY');
+  });
+
+  it('should keep accounts apart per user and network', async () => {
+    const { runtime } = createMemoryRuntime({});
+    const store = new UserAccountStore(runtime);
+    const entityId = createUUID();
+
+    const now = Date.now();
+    await store.create({ entityId, roomId: createUUID(), network: 'testnet', accountId: USER_ACCOUNT, encryptedKey: 'v1:a:b:c:d', createdAt: now, updatedAt: now });
+
+    expect((await store.forUser(entityId, 'testnet'))?.accountId).toBe(USER_ACCOUNT);
+    expect(await store.forUser(entityId, 'mainnet')).toBeNull();
+    expect(await store.forUser(createUUID(), 'testnet')).toBeNull();
+  });
+
+  it('should create the account on the first top-up, then route balance and withdrawals to it', async () => {
+    const { runtime, memories } = createMemoryRuntime(perUserSettings);
+    const entityId = createUUID();
+    const say = (text: string) => createTestMemory({ entityId, content: { text, source: 'test' } });
+
+    const withoutAccount = await findAction('WITHDRAW_FUNDS').handler(runtime, say('Withdraw 1 HBAR to 0.0.9999'));
+    expect(withoutAccount.success).toBe(false);
+    expect(withoutAccount.text).toContain('You do not have a Hedera account on testnet yet');
+
+    const created = await findAction('TOP_UP_ACCOUNT').handler(runtime, say('Top up my account with 10 HBAR'));
+    expect(created.success).toBe(true);
+    expect(created.values).toMatchObject({ accountId: USER_ACCOUNT, created: true, remainingToday: '5' });
+
+    // The account is created empty and funded by a transfer once its key is stored
+    const creation = executed[0] as AccountCreateTransaction;
+    expect(creation).toBeInstanceOf(AccountCreateTransaction);
+    expect(creation.initialBalance).toBeNull();
+    expect(creation.transactionId?.accountId?.toString()).toBe(TREASURY_ACCOUNT);
+
+    const funding = executed[1] as TransferTransaction;
+    expect(funding).toBeInstanceOf(TransferTransaction);
+    expect(funding.hbarTransfers.get(USER_ACCOUNT)?.toString()).toBe(new Hbar(10).toString());
+    expect(created.values.transactionId).toBe(funding.transactionId?.toString());
+
+    const stored = [...memories.values()].find((memory) => memory.content.userAccount);
+    const entry = stored?.content.userAccount as any;
+    expect(entry).toMatchObject({ entityId, network: 'testnet', accountId: USER_ACCOUNT });
+    expect(decryptPrivateKey(entry.encryptedKey, SECRET).publicKey.toStringRaw())
+      .toBe((creation.key as any).toStringRaw());
+
+    // The daily limit counts the first top-up
+    const overLimit = await findAction('TOP_UP_ACCOUNT').handler(runtime, say('Top up my account with 6 HBAR'));
+    expect(overLimit.success).toBe(false);
+    expect(overLimit.text).toContain('exceeds your daily limit of 15 HBAR');
+
+    const balance = await findAction('ACCOUNT_BALANCE').handler(runtime, say('What is my balance?'));
+    expect(balance.success).toBe(true);
+    expect(balance.values).toMatchObject({ accountId: USER_ACCOUNT, hbar: '12.5', tokenCount: 1 });
+    expect(balance.data.tokens).toEqual([{ tokenId: '0.0.429274', symbol: 'USDC', balance: '2.5' }]);
+
+    const withdrawal = await findAction('WITHDRAW_FUNDS').handler(runtime, say('Withdraw 2 HBAR to 0.0.9999'));
+    expect(withdrawal.success).toBe(true);
+    expect(withdrawal.values).toMatchObject({ from: USER_ACCOUNT, to: '0.0.9999', fee: '0.001' });
+
+    const transfer = executed[2] as TransferTransaction;
+    expect(transfer).toBeInstanceOf(TransferTransaction);
+    expect(transfer.transactionId?.accountId?.toString()).toBe(USER_ACCOUNT);
+    expect(transfer.hbarTransfers.get(USER_ACCOUNT)?.toTinybars().toString()).toBe('-200000000');
+  });
+
+  it('should count top-ups of earlier runs towards the daily limit', async () => {
+    const { runtime } = createMemoryRuntime(perUserSettings);
+    const entityId = createUUID();
+    const topUps = new UserTopUpStore(runtime);
+    const topUp = (amountTinybars: string, status: 'pending' | 'success' | 'failed', createdAt: number, network = 'testnet') =>
+      topUps.create({ entityId, roomId: createUUID(), network, amountTinybars, status, createdAt, updatedAt: createdAt });
+
+    // Pending top-ups may still go through; failed, day-old and other networks' top-ups do not count
+    await topUp('600000000', 'success', Date.now() - 60 * 60 * 1000);
+    await topUp('300000000', 'pending', Date.now());
+    await topUp('1500000000', 'failed', Date.now());
+    await topUp('1500000000', 'success', Date.now() - 25 * 60 * 60 * 1000);
+    await topUp('1500000000', 'success', Date.now(), 'mainnet');
+
+    const result = await findAction('TOP_UP_ACCOUNT').handler(
+      runtime,
+      createTestMemory({ entityId, content: { text: 'Top up my account with 7 HBAR', source: 'test' } })
+    );
+    expect(result.success).toBe(false);
+    expect(result.text).toContain('exceeds your daily limit of 15 HBAR (9 HBAR received in the last 24 hours)');
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+
+  it('should not let concurrent top-ups exceed the daily limit together', async () => {
+    const { runtime } = createMemoryRuntime(perUserSettings);
+    const entityId = createUUID();
+    const say = (text: string) => createTestMemory({ entityId, content: { text, source: 'test' } });
+
+    const results = await Promise.all([
+      findAction('TOP_UP_ACCOUNT').handler(runtime, say('Top up my account with 10 HBAR')),
+      findAction('TOP_UP_ACCOUNT').handler(runtime, say('Top up my account with 10 HBAR')),
+    ]);
+
+    expect(results.map((result) => result.success).sort()).toEqual([false, true]);
+    expect(results.find((result) => !result.success).text).toContain('exceeds your daily limit of 15 HBAR');
+    expect(executed.map((transaction) => transaction.constructor)).toEqual([AccountCreateTransaction, TransferTransaction]);
+    expect(await new UserTopUpStore(runtime).list(entityId)).toMatchObject([{ status: 'success', amountTinybars: '1000000000' }]);
+  });
+
+  it('should free the limit reserved by a top-up that failed', async () => {
+    const { runtime } = createMemoryRuntime(perUserSettings);
+    const entityId = createUUID();
+    const say = (text: string) => createTestMemory({ entityId, content: { text, source: 'test' } });
+
+    mockExecute.mockImplementationOnce((async () => {
+      throw new Error('INSUFFICIENT_PAYER_BALANCE');
+    }) as any);
+    const failed = await findAction('TOP_UP_ACCOUNT').handler(runtime, say('Top up my account with 10 HBAR'));
+    expect(failed.success).toBe(false);
+
+    const [stored] = await new UserTopUpStore(runtime).list(entityId);
+    expect(stored).toMatchObject({ status: 'failed', failureReason: 'INSUFFICIENT_PAYER_BALANCE' });
+
+    const retried = await findAction('TOP_UP_ACCOUNT').handler(runtime, say('Top up my account with 10 HBAR'));
+    expect(retried.success).toBe(true);
+    expect(retried.values.remainingToday).toBe('5');
+  });
+
+  it('should not fund an account whose key could not be stored', async () => {
+    const { runtime, memories } = createMemoryRuntime(perUserSettings);
+    const entityId = createUUID();
+    const createMemory = runtime.createMemory;
+    runtime.createMemory = (async (memory: Memory, tableName: string) => {
+      if (tableName === USER_ACCOUNTS_TABLE) {
+        throw new Error('Database unavailable');
+      }
+      return createMemory(memory, tableName);
+    }) as any;
+
+    const result = await findAction('TOP_UP_ACCOUNT').handler(
+      runtime,
+      createTestMemory({ entityId, content: { text: 'Top up my account with 10 HBAR', source: 'test' } })
+    );
+    expect(result.success).toBe(false);
+    expect(executed.map((transaction) => transaction.constructor)).toEqual([AccountCreateTransaction]);
+    expect((executed[0] as AccountCreateTransaction).initialBalance).toBeNull();
+    expect([...memories.values()].some((memory) => memory.content.userAccount)).toBe(false);
+    expect(await new UserTopUpStore(runtime).list(entityId)).toMatchObject([{ status: 'failed', failureReason: 'Database unavailable' }]);
+  });
+
+  it('should keep counting a top-up that was sent until its outcome is known', async () => {
+    const { runtime } = createMemoryRuntime(perUserSettings);
+    const entityId = createUUID();
+    const say = (text: string) => createTestMemory({ entityId, content: { text, source: 'test' } });
+    const topUps = new UserTopUpStore(runtime);
+    await new UserAccountStore(runtime).create({
+      entityId,
+      roomId: createUUID(),
+      network: 'testnet',
+      accountId: USER_ACCOUNT,
+      encryptedKey: 'v1:a:b:c:d',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    const respond = (getReceipt: () => Promise<unknown>) => mockExecute.mockImplementationOnce((async function (this: Transaction, client: Client) {
+      this.freezeWith(client);
+      executed.push(this);
+      return { transactionId: this.transactionId, getReceipt };
+    }) as any);
+
+    // A transfer without a receipt may still have gone through
+    respond(async () => {
+      throw new Error('timed out waiting for the receipt');
+    });
+    const unknown = await findAction('TOP_UP_ACCOUNT').handler(runtime, say('Top up my account with 5 HBAR'));
+    expect(unknown.success).toBe(false);
+    expect(unknown.text).toContain(`Top-up ${executed[0].transactionId} was sent but its outcome is unknown`);
+    expect(await topUps.list(entityId)).toMatchObject([{ status: 'pending', transactionId: executed[0].transactionId!.toString() }]);
+
+    // A transfer the network rejected moved nothing
+    respond(async () => {
+      throw new ReceiptStatusError({
+        status: Status.InsufficientPayerBalance,
+        transactionId: executed[1].transactionId!,
+        transactionReceipt: {} as any,
+      });
+    });
+    const rejected = await findAction('TOP_UP_ACCOUNT').handler(runtime, say('Top up my account with 5 HBAR'));
+    expect(rejected.success).toBe(false);
+    expect((await topUps.list(entityId)).map((topUp) => topUp.status).sort()).toEqual(['failed', 'pending']);
+
+    const overLimit = await findAction('TOP_UP_ACCOUNT').handler(runtime, say('Top up my account with 11 HBAR'));
+    expect(overLimit.text).toContain('(5 HBAR received in the last 24 hours)');
+  });
+
+  it('should not move funds out of the shared account', async () => {
+    const { runtime } = createMemoryRuntime({ ...perUserSettings, HEDERA_ACCOUNT_MODE: 'shared' });
+    const message = createTestMemory({ content: { text: 'Top up my account with 10 HBAR', source: 'test' } });
+
+    const topUp = await findAction('TOP_UP_ACCOUNT').handler(runtime, message);
+    expect(topUp.success).toBe(false);
+    expect(topUp.text).toContain('Set HEDERA_ACCOUNT_MODE=per-user');
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test';
+import axios from 'axios';
+import { ethers } from 'ethers';
+import {
+  AccountAllowanceApproveTransaction,
+  AccountId,
+  Client,
+  ContractExecuteTransaction,
+  Hbar,
+  PrivateKey,
+  Status,
+  Transaction,
+} from '@hashgraph/sdk';
+import { hederaDexPlugin } from '../index';
+import { type IAgentRuntime } from '@elizaos/core';
+import { SAUCERSWAP_ROUTER_ABI, SAUCERSWAP_WHBAR_ABI } from '../saucerswap-abi';
+import { convertWhbar } from '../whbar';
+import {
+  createMockRuntime,
+  createTestMemory,
+} from './test-utils';
+
+const TREASURY_ACCOUNT = '0.0.2001';
+const WHBAR_TOKEN = '0.0.15058';
+const WHBAR_CONTRACT = '0.0.15057';
+
+const operatorKey = PrivateKey.generateED25519();
+const whbarInterface = new ethers.Interface(SAUCERSWAP_WHBAR_ABI);
+
+describe('WHBAR Actions', () => {
+  let runtime: IAgentRuntime;
+  let wrapAction: any;
+  let unwrapAction: any;
+
+  beforeEach(() => {
+    runtime = createMockRuntime({
+      getSetting: (key: string) => {
+        switch (key) {
+          case 'HEDERA_NETWORK':
+            return 'testnet';
+          case 'HEDERA_MIRROR_NODE_URL':
+            return 'https://testnet.mirrornode.hedera.com';
+          default:
+            return undefined;
+        }
+      },
+    });
+
+    wrapAction = hederaDexPlugin.actions?.find(action => action.name === 'WRAP_HBAR');
+    unwrapAction = hederaDexPlugin.actions?.find(action => action.name === 'UNWRAP_WHBAR');
+  });
+
+  it('should only validate matching wrap and unwrap requests', async () => {
+    const wrap = createTestMemory({ content: { text: 'Wrap 10 HBAR', source: 'test' } });
+    const unwrap = createTestMemory({ content: { text: 'Unwrap 5.5 WHBAR', source: 'test' } });
+    const swap = createTestMemory({ content: { text: 'Swap 10 SAUCE for HBAR', source: 'test' } });
+
+    expect(await wrapAction.validate(runtime, wrap)).toBe(true);
+    expect(await wrapAction.validate(runtime, unwrap)).toBe(false);
+    expect(await wrapAction.validate(runtime, swap)).toBe(false);
+    expect(await unwrapAction.validate(runtime, unwrap)).toBe(true);
+    expect(await unwrapAction.validate(runtime, wrap)).toBe(false);
+  });
+
+  it('should simulate wrapping without wallet credentials', async () => {
+    const message = createTestMemory({ content: { text: 'Wrap 10 HBAR', source: 'test' } });
+
+    const result = await wrapAction.handler(runtime, message, undefined, undefined, undefined);
+
+    expect(result.success).toBe(true);
+    expect(result.values.simulation).toBe(true);
+    expect(result.values.fromToken).toBe('HBAR');
+    expect(result.values.toToken).toBe('WHBAR');
+    expect(result.values.amount).toBe('10');
+  });
+
+  it('should fail clearly when the amount is missing', async () => {
+    const message = createTestMemory({ content: { text: 'Unwrap my WHBAR', source: 'test' } });
+
+    const result = await unwrapAction.handler(runtime, message, undefined, undefined, undefined);
+
+    expect(result.success).toBe(false);
+    expect(result.values.error).toBe('UNWRAP_WHBAR_FAILED');
+  });
+
+  it('should encode the router unwrap call for native HBAR output', () => {
+    const routerInterface = new ethers.Interface(SAUCERSWAP_ROUTER_ABI);
+    const recipient = '0x00000000000000000000000000000000000003e9';
+
+    const encoded = routerInterface.encodeFunctionData('unwrapWHBAR', [1_000n, recipient]);
+    const [amountMinimum, decodedRecipient] = routerInterface.decodeFunctionData('unwrapWHBAR', encoded);
+
+    expect(amountMinimum).toBe(1_000n);
+    expect(decodedRecipient.toLowerCase()).toBe(recipient);
+  });
+
+  describe('Conversion', () => {
+    let mockAxiosGet: ReturnType<typeof spyOn>;
+    let mockExecute: ReturnType<typeof spyOn>;
+    let executed: Transaction[];
+    let receiptStatus: Status;
+    let allowance: number;
+    let client: Client;
+
+    beforeEach(() => {
+      executed = [];
+      receiptStatus = Status.Success;
+      allowance = 0;
+      client = Client.forName('testnet');
+      client.setOperator(AccountId.fromString(TREASURY_ACCOUNT), operatorKey);
+
+      mockAxiosGet = spyOn(axios, 'get').mockImplementation((async (url: string) => {
+        if (url.endsWith(`/accounts/${TREASURY_ACCOUNT}`)) {
+          return { data: { account: TREASURY_ACCOUNT, key: { _type: 'ED25519', key: operatorKey.publicKey.toStringRaw() } } };
+        }
+        if (url.includes(`/accounts/${TREASURY_ACCOUNT}/allowances/tokens`)) {
+          return { data: { allowances: [{ spender: WHBAR_CONTRACT, token_id: WHBAR_TOKEN, amount: allowance }] } };
+        }
+        throw new Error(`Unexpected request ${url}`);
+      }) as any);
+
+      mockExecute = spyOn(Transaction.prototype, 'execute').mockImplementation((async function (this: Transaction, client: Client) {
+        if (!this.isFrozen()) {
+          this.freezeWith(client);
+        }
+        executed.push(this);
+        return {
+          transactionId: this.transactionId,
+          getReceipt: async () => ({ status: receiptStatus }),
+          getRecord: async () => ({ transactionFee: Hbar.fromTinybars(100_000) }),
+        };
+      }) as any);
+    });
+
+    afterEach(() => {
+      mockAxiosGet.mockRestore();
+      mockExecute.mockRestore();
+      client.close();
+    });
+
+    function decodeCall(transaction: Transaction): ethers.TransactionDescription | null {
+      const data = (transaction as ContractExecuteTransaction).functionParameters;
+      return whbarInterface.parseTransaction({ data: ethers.hexlify(data!) });
+    }
+
+    it('should wrap by paying the amount to the WHBAR contract deposit function', async () => {
+      const result = await convertWhbar(client, WHBAR_CONTRACT, 'wrap', 1_000_000_000n);
+
+      expect(executed).toHaveLength(1);
+      const wrap = executed[0] as ContractExecuteTransaction;
+      expect(wrap).toBeInstanceOf(ContractExecuteTransaction);
+      expect(wrap.contractId?.toString()).toBe(WHBAR_CONTRACT);
+      expect(decodeCall(wrap)?.name).toBe('deposit');
+      expect(wrap.payableAmount?.toTinybars().toString()).toBe('1000000000');
+      expect(result).toEqual({ transactionId: wrap.transactionId!.toString(), feeTinybars: 100_000n });
+    });
+
+    it('should unwrap by withdrawing the amount without paying HBAR', async () => {
+      await convertWhbar(client, WHBAR_CONTRACT, 'unwrap', 550_000_000n);
+
+      const unwrap = executed[0] as ContractExecuteTransaction;
+      const call = decodeCall(unwrap);
+      expect(call?.name).toBe('withdraw');
+      expect(call?.args[0]).toBe(550_000_000n);
+      expect(unwrap.payableAmount?.toTinybars().toString() ?? '0').toBe('0');
+    });
+
+    it('should fail when the conversion is not successful', async () => {
+      receiptStatus = Status.ContractRevertExecuted;
+
+      await expect(convertWhbar(client, WHBAR_CONTRACT, 'wrap', 1_000_000_000n))
+        .rejects.toThrow('WHBAR wrap failed with status: CONTRACT_REVERT_EXECUTED');
+      await expect(convertWhbar(client, WHBAR_CONTRACT, 'unwrap', 1_000_000_000n))
+        .rejects.toThrow('WHBAR unwrap failed with status: CONTRACT_REVERT_EXECUTED');
+    });
+
+    describe('Unwrap Allowance', () => {
+      let walletRuntime: IAgentRuntime;
+
+      beforeEach(() => {
+        walletRuntime = createMockRuntime({
+          getSetting: (key: string) => ({
+            HEDERA_NETWORK: 'testnet',
+            HEDERA_ACCOUNT_ID: TREASURY_ACCOUNT,
+            HEDERA_PRIVATE_KEY: operatorKey.toStringDer(),
+          } as Record<string, string>)[key],
+        });
+      });
+
+      async function unwrap(text: string): Promise<{ result: any; responseText: string }> {
+        let responseText = '';
+        const result = await unwrapAction.handler(
+          walletRuntime,
+          createTestMemory({ content: { text, source: 'test' } }),
+          undefined,
+          undefined,
+          async (response: { text: string }) => {
+            responseText = response.text;
+            return [];
+          }
+        );
+        return { result, responseText };
+      }
+
+      it('should approve the WHBAR contract for the amount before unwrapping', async () => {
+        allowance = 100_000_000;
+
+        const { result, responseText } = await unwrap('Unwrap 5.5 WHBAR');
+
+        expect(result.success).toBe(true);
+        expect(executed.map((transaction) => transaction.constructor)).toEqual([AccountAllowanceApproveTransaction, ContractExecuteTransaction]);
+        const [approval] = (executed[0] as AccountAllowanceApproveTransaction).tokenApprovals;
+        expect(approval.tokenId.toString()).toBe(WHBAR_TOKEN);
+        expect(approval.ownerAccountId?.toString()).toBe(TREASURY_ACCOUNT);
+        expect(approval.spenderAccountId?.toString()).toBe(WHBAR_CONTRACT);
+        expect(approval.amount?.toString()).toBe('550000000');
+        expect(decodeCall(executed[1])?.args[0]).toBe(550_000_000n);
+        expect(responseText).toContain(`Approved ${WHBAR_CONTRACT} to spend 5.5 WHBAR for 0.001 HBAR`);
+      });
+
+      it('should reuse an allowance that covers the amount', async () => {
+        allowance = 550_000_000;
+
+        const { result, responseText } = await unwrap('Unwrap 5.5 WHBAR');
+
+        expect(result.success).toBe(true);
+        expect(executed).toHaveLength(1);
+        expect(decodeCall(executed[0])?.name).toBe('withdraw');
+        expect(responseText).not.toContain('Token Allowance');
+      });
+
+      it('should not unwrap when the approval fails', async () => {
+        receiptStatus = Status.InvalidSignature;
+
+        const { result } = await unwrap('Unwrap 5.5 WHBAR');
+
+        expect(result.success).toBe(false);
+        expect(result.values.error).toBe('UNWRAP_WHBAR_FAILED');
+        expect(result.data.error).toContain('Token allowance approval failed with status: INVALID_SIGNATURE');
+        expect(executed).toHaveLength(1);
+      });
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { MemoryTableStore, shortEntryId, type StoredEntry } from './memory-store';
+import { formatPrice, formatTokenAmount, tokenAmountFromRaw } from './token-amount';
+
+// Memory table holding DCA plans in the agent's database (plugin-sql)
+export const DCA_PLANS_TABLE = 'hedera_dca_plans';
+
+// How often the scheduler looks for plans that are due
+export const DCA_CHECK_INTERVAL_SECONDS = 60;
+
+// Shortest time between two purchases of a plan
+export const MIN_DCA_INTERVAL_MS = 60 * 60 * 1000;
+
+// Purchases in a row that may fail before a plan is paused
+export const MAX_DCA_CONSECUTIVE_FAILURES = 3;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * When a plan buys: at a fixed interval from its first purchase, or at a time of day (UTC), daily or on one weekday
+ */
+export type DcaSchedule =
+  | { kind: 'interval'; intervalMs: number }
+  | { kind: 'daily'; minuteOfDay: number }
+  | { kind: 'weekly'; weekday: number; minuteOfDay: number };
+
+export type DcaPlanStatus = 'active' | 'paused' | 'cancelled';
+
+/**
+ * A recurring swap of a fixed amount of fromToken into toToken
+ * Totals are in smallest units and only count purchases whose outcome is known
+ */
+export interface DcaPlanEntry {
+  entityId: string; // Who created the plan
+  roomId: string; // Where purchases are reported
+  source?: string; // Client the plan was created from
+  network: string;
+  fromToken: string; // Registry symbol
+  fromTokenId: string; // Registry ID (HBAR for native HBAR)
+  toToken: string;
+  toTokenId: string;
+  fromTokenDecimals: number;
+  toTokenDecimals: number;
+  amount: string; // fromToken spent per purchase, in token units
+  slippageBps: number;
+  schedule: DcaSchedule;
+  status: DcaPlanStatus;
+  nextRunAt: number;
+  lastRunAt?: number;
+  purchases: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  totalSpent: string; // Smallest units of fromToken
+  totalReceived: string; // Smallest units of toToken
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A plan with the ID of the memory it is stored in
+ */
+export type StoredDcaPlan = StoredEntry<DcaPlanEntry>;
+
+/**
+ * Short ID users refer to a plan by
+ */
+export const shortPlanId = shortEntryId;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function formatMinuteOfDay(minuteOfDay: number): string {
+  return `${pad(Math.floor(minuteOfDay / 60))}:${pad(minuteOfDay % 60)} UTC`;
+}
+
+function formatInterval(intervalMs: number): string {
+  const units: [number, string][] = [[WEEK_MS, 'week'], [DAY_MS, 'day'], [HOUR_MS, 'hour'], [MINUTE_MS, 'minute']];
+  const [size, name] = units.find(([unitMs]) => intervalMs % unitMs === 0) ?? [MINUTE_MS, 'minute'];
+  const count = intervalMs / size;
+  return count === 1 ? `every ${name}` : `every ${count} ${name}s`;
+}
+
+export function describeSchedule(schedule: DcaSchedule): string {
+  switch (schedule.kind) {
+    case 'interval':
+      return formatInterval(schedule.intervalMs);
+    case 'daily':
+      return `every day at ${formatMinuteOfDay(schedule.minuteOfDay)}`;
+    case 'weekly': {
+      const weekday = WEEKDAYS[schedule.weekday];
+      return `every ${weekday[0].toUpperCase()}${weekday.slice(1)} at ${formatMinuteOfDay(schedule.minuteOfDay)}`;
+    }
+  }
+}
+
+export function describeDcaPlan(plan: DcaPlanEntry): string {
+  return `Swap ${plan.amount} ${plan.fromToken} for ${plan.toToken} ${describeSchedule(plan.schedule)}`;
+}
+
+/**
+ * What a plan has bought so far and its average cost in fromToken per toToken; null before its first purchase
+ */
+export function describeDcaTotals(plan: DcaPlanEntry): string | null {
+  const spent = tokenAmountFromRaw(plan.totalSpent, plan.fromTokenDecimals);
+  const received = tokenAmountFromRaw(plan.totalReceived, plan.toTokenDecimals);
+  if (plan.purchases === 0 || received.raw === 0n) {
+    return null;
+  }
+
+  return `${plan.purchases} purchase${plan.purchases === 1 ? '' : 's'}: spent ${formatTokenAmount(spent)} ${plan.fromToken} ` +
+    `for ${formatTokenAmount(received)} ${plan.toToken}, an average cost of ${formatPrice(spent, received)} ${plan.fromToken} per ${plan.toToken}`;
+}
+
+/**
+ * Parse a schedule ("every Monday", "every day at 9:30", "daily", "every 12 hours", "weekly")
+ * Times are UTC; returns null when the text has no schedule
+ */
+export function parseDcaSchedule(text: string): DcaSchedule | null {
+  const time = text.match(/\bat\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*(?:utc)?\b/i);
+  let minuteOfDay: number | undefined;
+  if (time) {
+    let hours = Number(time[1]);
+    const minutes = Number(time[2] ?? 0);
+    if (time[3]) {
+      hours = (hours % 12) + (time[3].toLowerCase() === 'pm' ? 12 : 0);
+    }
+    if (hours > 23 || minutes > 59) {
+      throw new Error(`Invalid time of day: ${time[0].trim()}`);
+    }
+    minuteOfDay = hours * 60 + minutes;
+  }
+
+  const weekday = text.match(/\b(?:every|each|on)\s+(sunday|monday|tuesday|wednesday|thursday|friday|saturday)s?\b/i);
+  if (weekday) {
+    return { kind: 'weekly', weekday: WEEKDAYS.indexOf(weekday[1].toLowerCase()), minuteOfDay: minuteOfDay ?? 0 };
+  }
+
+  if (/\b(?:daily|every\s+day|each\s+day)\b/i.test(text)) {
+    return minuteOfDay !== undefined ? { kind: 'daily', minuteOfDay } : { kind: 'interval', intervalMs: DAY_MS };
+  }
+
+  const interval = text.match(/\b(?:every|each)\s+(\d+)\s*(minutes?|mins?|hours?|h|days?|d|weeks?|w)\b/i);
+  if (interval) {
+    const unit = interval[2].toLowerCase();
+    const unitMs = unit.startsWith('m') ? MINUTE_MS : unit.startsWith('h') ? HOUR_MS : unit.startsWith('d') ? DAY_MS : WEEK_MS;
+    const intervalMs = Number(interval[1]) * unitMs;
+    if (intervalMs < MIN_DCA_INTERVAL_MS) {
+      throw new Error('Recurring swaps can run at most once an hour');
+    }
+    return { kind: 'interval', intervalMs };
+  }
+
+  if (/\b(?:hourly|every\s+hour)\b/i.test(text)) {
+    return { kind: 'interval', intervalMs: HOUR_MS };
+  }
+  if (/\b(?:weekly|every\s+week)\b/i.test(text)) {
+    return { kind: 'interval', intervalMs: WEEK_MS };
+  }
+
+  return null;
+}
+
+/**
+ * The first run strictly after a time: one interval later, or the next matching time of day (and weekday)
+ */
+export function computeNextRun(schedule: DcaSchedule, after: number): number {
+  if (schedule.kind === 'interval') {
+    return after + schedule.intervalMs;
+  }
+
+  const day = new Date(after);
+  let candidate = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate()) + schedule.minuteOfDay * MINUTE_MS;
+  if (schedule.kind === 'weekly') {
+    candidate += ((schedule.weekday - day.getUTCDay() + 7) % 7) * DAY_MS;
+  }
+  while (candidate <= after) {
+    candidate += schedule.kind === 'weekly' ? WEEK_MS : DAY_MS;
+  }
+  return candidate;
+}
+
+/**
+ * When a new plan first buys: interval plans right away, the others at their next scheduled time
+ */
+export function computeFirstRun(schedule: DcaSchedule, now: number): number {
+  return schedule.kind === 'interval' ? now : computeNextRun(schedule, now);
+}
+
+/**
+ * DCA plans stored as memories in the agent's database
+ */
+export class DcaPlanStore extends MemoryTableStore<DcaPlanEntry> {
+  constructor(runtime: IAgentRuntime) {
+    super(runtime, DCA_PLANS_TABLE, 'dcaPlan', describeDcaPlan, 'DCA plan');
+  }
+
+  /**
+   * Every user's active plans on a network that are due, the longest overdue first
+   */
+  async due(network: string, now: number = Date.now()): Promise<StoredDcaPlan[]> {
+    return (await this.onNetwork(network))
+      .filter((plan) => plan.status === 'active' && plan.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt - b.nextRunAt);
+  }
+}
@@ -0,0 +1,123 @@
+import axios from 'axios';
+import { logger } from '@elizaos/core';
+import { callContract, getMirrorNodeErrorMessage, type ContractCallParams } from './mirror-node';
+import { HBAR_DECIMALS, formatTokenAmount, tokenAmountFromRaw } from './token-amount';
+
+// Safety margin added on top of the estimated gas (in basis points)
+export const DEFAULT_GAS_MARGIN_BPS = 2000; // 20%
+// Gas limit used when the estimate is unavailable (the previous fixed limit)
+export const FALLBACK_GAS_LIMIT = 300000n;
+// Maximum gas a single Hedera contract transaction may use
+export const MAX_GAS_LIMIT = 15000000n;
+// Hedera charges for at least 80% of the gas limit, even if less gas is used
+const MIN_CHARGED_GAS_BPS = 8000n;
+
+const BPS_DENOMINATOR = 10_000n;
+
+/**
+ * Estimated cost of a contract call before it is executed
+ */
+export interface NetworkFeeEstimate {
+  gasEstimate?: bigint; // Undefined when the estimate failed and the fallback limit is used
+  gasLimit: bigint;
+  feeTinybars?: bigint; // Expected charge for the gas at the current gas price
+  fee?: string; // In HBAR; undefined when the gas price is unavailable
+  feeUsd?: string; // Undefined when the gas price or exchange rate is unavailable
+}
+
+/**
+ * Estimate the gas of a contract call via the Mirror Node contracts/call endpoint
+ */
+export async function estimateGas(mirrorNodeUrl: string, params: ContractCallParams): Promise<bigint> {
+  const result = await callContract(mirrorNodeUrl, { ...params, estimate: true });
+  return BigInt(result);
+}
+
+/**
+ * Add a safety margin to a gas estimate, capped at the network maximum
+ */
+export function applyGasMargin(gas: bigint, marginBps: number): bigint {
+  const withMargin = (gas * (BPS_DENOMINATOR + BigInt(marginBps)) + BPS_DENOMINATOR - 1n) / BPS_DENOMINATOR;
+  return withMargin > MAX_GAS_LIMIT ? MAX_GAS_LIMIT : withMargin;
+}
+
+/**
+ * Fetch the current contract call gas price in tinybars per unit of gas
+ */
+export async function fetchGasPriceTinybars(mirrorNodeUrl: string): Promise<bigint> {
+  try {
+    const response = await axios.get(`${mirrorNodeUrl}/api/v1/network/fees`);
+    const contractCall = (response.data.fees || []).find(
+      (fee: any) => fee.transaction_type === 'ContractCall'
+    );
+
+    if (!contractCall) {
+      throw new Error('No ContractCall gas price in network fees');
+    }
+
+    return BigInt(contractCall.gas);
+  } catch (error) {
+    throw new Error(`Could not fetch the network gas price: ${getMirrorNodeErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Convert tinybars to USD using the Mirror Node's current exchange rate
+ * Returns the USD amount formatted to 6 decimals (without trailing zeros)
+ */
+export async function convertTinybarsToUsd(mirrorNodeUrl: string, tinybars: bigint): Promise<string> {
+  try {
+    const response = await axios.get(`${mirrorNodeUrl}/api/v1/network/exchangerate`);
+    const { cent_equivalent: centEquivalent, hbar_equivalent: hbarEquivalent } = response.data.current_rate;
+
+    // USD micros = tinybars / 10^8 * (cents / hbars) / 100 * 10^6
+    const usdMicros = (tinybars * BigInt(centEquivalent) * 10_000n) / (BigInt(hbarEquivalent) * 10n ** BigInt(HBAR_DECIMALS));
+    return formatTokenAmount(tokenAmountFromRaw(usdMicros, 6));
+  } catch (error) {
+    throw new Error(`Could not fetch the HBAR exchange rate: ${getMirrorNodeErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Estimate the gas limit and network fee for a contract call
+ * Falls back to FALLBACK_GAS_LIMIT when the call cannot be estimated;
+ * the fee is left out when the gas price or exchange rate cannot be fetched
+ */
+export async function estimateContractCallFee(
+  mirrorNodeUrl: string,
+  params: ContractCallParams,
+  marginBps: number = DEFAULT_GAS_MARGIN_BPS
+): Promise<NetworkFeeEstimate> {
+  let gasEstimate: bigint | undefined;
+  let gasLimit = FALLBACK_GAS_LIMIT;
+
+  try {
+    gasEstimate = await estimateGas(mirrorNodeUrl, params);
+    gasLimit = applyGasMargin(gasEstimate, marginBps);
+  } catch (error) {
+    logger.warn(`Gas estimation failed, using the fallback limit of ${FALLBACK_GAS_LIMIT}: ${getMirrorNodeErrorMessage(error)}`);
+  }
+
+  return priceGas(mirrorNodeUrl, gasEstimate, gasLimit);
+}
+
+/**
+ * Price a gas estimate and limit at the current gas price and exchange rate
+ * Hedera charges the larger of the gas used and 80% of the limit; the fee is left out
+ * when the gas price or exchange rate cannot be fetched
+ */
+export async function priceGas(mirrorNodeUrl: string, gasEstimate: bigint | undefined, gasLimit: bigint): Promise<NetworkFeeEstimate> {
+  const estimate: NetworkFeeEstimate = { gasEstimate, gasLimit };
+  const minimumCharged = (gasLimit * MIN_CHARGED_GAS_BPS) / BPS_DENOMINATOR;
+  const chargedGas = gasEstimate !== undefined && gasEstimate > minimumCharged ? gasEstimate : minimumCharged;
+
+  try {
+    estimate.feeTinybars = chargedGas * (await fetchGasPriceTinybars(mirrorNodeUrl));
+    estimate.fee = formatTokenAmount(tokenAmountFromRaw(estimate.feeTinybars, HBAR_DECIMALS));
+    estimate.feeUsd = await convertTinybarsToUsd(mirrorNodeUrl, estimate.feeTinybars);
+  } catch (error) {
+    logger.warn(getMirrorNodeErrorMessage(error));
+  }
+
+  return estimate;
+}
@@ -1,4 +1,10 @@
 import { hederaDexPlugin } from './plugin.js';
 
 export { hederaDexPlugin, StarterService } from './plugin.js';
+export {
+  NETWORK_PROFILES,
+  resolveNetworkProfile,
+  type NetworkProfile,
+  type SaucerSwapContracts,
+} from './network-profiles.js';
 export default hederaDexPlugin;
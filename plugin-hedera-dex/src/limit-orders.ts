@@ -0,0 +1,173 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { MemoryTableStore, shortEntryId, type StoredEntry } from './memory-store';
+import { fetchSqrtPriceX96, getPoolAddress, computeSpotAmountOut } from './pool-state';
+import { FEE_TIERS } from './saucerswap-abi';
+
+// Memory table holding the order book in the agent's database (plugin-sql)
+export const LIMIT_ORDERS_TABLE = 'hedera_limit_orders';
+
+// How often the watcher checks open orders against pool prices
+export const DEFAULT_ORDER_POLL_SECONDS = 30;
+
+export const DEFAULT_ORDER_EXPIRY_HOURS = 7 * 24;
+export const MAX_ORDER_EXPIRY_HOURS = 30 * 24;
+
+// Executions that may fail before an order is given up on
+export const MAX_ORDER_ATTEMPTS = 3;
+
+// Filled, cancelled, expired and failed orders shown when listing a user's orders
+export const CLOSED_ORDERS_LISTED = 10;
+
+// An order still executing this long after it was triggered, with no swap submitted, is reopened
+export const ORDER_EXECUTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type OrderSide = 'buy' | 'sell';
+
+export type PriceCondition = 'below' | 'above';
+
+export type OrderStatus = 'open' | 'executing' | 'filled' | 'cancelled' | 'expired' | 'failed';
+
+// Protective orders sell a held token when its price falls (stop-loss) or rises (take-profit)
+export type OrderKind = 'limit' | 'stop-loss' | 'take-profit';
+
+// What protective orders sell into when no token is named
+export const DEFAULT_TRIGGER_QUOTE_TOKEN = 'USDC';
+
+/**
+ * A swap waiting for the price of a token to cross a limit
+ * Buy orders buy exactly amount of token with quoteToken, sell orders sell exactly amount of token for it
+ */
+export interface LimitOrderEntry {
+  entityId: string; // Who placed the order
+  roomId: string; // Where its result is reported
+  source?: string; // Client the order was placed from
+  network: string;
+  kind?: OrderKind; // Unset on orders placed before protective orders existed
+  side: OrderSide;
+  token: string; // Registry symbol
+  tokenId: string; // Registry ID (HBAR for native HBAR)
+  quoteToken: string;
+  quoteTokenId: string;
+  tokenDecimals: number;
+  quoteTokenDecimals: number;
+  amount: string; // In token units
+  condition: PriceCondition;
+  limitPrice: string; // quoteToken per token
+  sellBalance?: boolean; // Sell the whole balance held when the order executes; amount is the balance when placed
+  referencePrice?: string; // Pool price the threshold was measured from
+  thresholdBps?: number; // Distance of the limit from the reference (or peak) price
+  trailing?: boolean; // The limit follows the highest price seen since the order was placed
+  peakPrice?: string; // Highest pool price seen by a trailing order
+  slippageBps: number;
+  status: OrderStatus;
+  attempts: number; // Failed executions so far
+  lastError?: string;
+  triggerPrice?: string; // Pool price when the order was triggered
+  triggeredAt?: number;
+  swapTransactionId?: string;
+  expiresAt: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * An order with the ID of the memory it is stored in
+ */
+export type StoredOrder = StoredEntry<LimitOrderEntry>;
+
+/**
+ * Short ID users refer to an order by
+ */
+export const shortOrderId = shortEntryId;
+
+export function describeOrder(order: LimitOrderEntry): string {
+  const verb = order.side === 'buy' ? 'Buy' : 'Sell';
+  const amount = order.sellBalance ? 'all held' : order.amount;
+  const text = `${verb} ${amount} ${order.token} when the price is ${order.condition} ${order.limitPrice} ${order.quoteToken}`;
+  if (!order.kind || order.kind === 'limit') {
+    return text;
+  }
+
+  const percent = `${(order.thresholdBps ?? 0) / 100}%`;
+  const threshold = order.trailing
+    ? `trailing ${percent} below the peak of ${order.peakPrice}`
+    : order.thresholdBps !== undefined ? `${percent} ${order.condition} ${order.referencePrice}` : undefined;
+  return `${text} (${[order.kind, threshold].filter(Boolean).join(', ')})`;
+}
+
+/**
+ * Whether a price (smallest units of the quote token per whole token) meets an order's condition
+ */
+export function isPriceTriggered(condition: PriceCondition, price: bigint, limitPrice: bigint): boolean {
+  return condition === 'below' ? price <= limitPrice : price >= limitPrice;
+}
+
+/**
+ * A price moved a number of basis points below or above a reference price
+ */
+export function offsetPrice(price: bigint, bps: number, condition: PriceCondition): bigint {
+  return price * BigInt(condition === 'below' ? 10_000 - bps : 10_000 + bps) / 10_000n;
+}
+
+/**
+ * Spot prices of one whole token in smallest units of the quote token, one per direct pool
+ * Read from each pool's slot0 without fees; empty when the pair has no initialized direct pool
+ */
+export async function fetchPoolPrices(
+  mirrorNodeUrl: string,
+  factoryId: string,
+  tokenAddress: string,
+  quoteTokenAddress: string,
+  tokenDecimals: number
+): Promise<bigint[]> {
+  const prices = await Promise.all(
+    Object.values(FEE_TIERS).map(async (fee) => {
+      const poolAddress = await getPoolAddress(mirrorNodeUrl, factoryId, tokenAddress, quoteTokenAddress, fee);
+      if (!poolAddress) {
+        return null;
+      }
+
+      // A pool that was never initialized has no price yet
+      const sqrtPriceX96 = await fetchSqrtPriceX96(mirrorNodeUrl, poolAddress);
+      if (sqrtPriceX96 === 0n) {
+        return null;
+      }
+
+      return computeSpotAmountOut(10n ** BigInt(tokenDecimals), [
+        { tokenIn: tokenAddress, tokenOut: quoteTokenAddress, fee: 0, sqrtPriceX96 },
+      ]);
+    })
+  );
+
+  return prices.filter((price): price is bigint => price !== null && price > 0n);
+}
+
+/**
+ * The pool price an order is checked against: the lowest price for orders waiting for the
+ * price to fall, the highest for orders waiting for it to rise, so any pool crossing the limit
+ * triggers a quote
+ */
+export function selectTriggerPrice(condition: PriceCondition, prices: bigint[]): bigint | null {
+  if (prices.length === 0) {
+    return null;
+  }
+  return prices.reduce((best, price) => (condition === 'below' ? (price < best ? price : best) : (price > best ? price : best)));
+}
+
+/**
+ * Limit orders stored as memories in the agent's database
+ */
+export class OrderBook extends MemoryTableStore<LimitOrderEntry> {
+  constructor(runtime: IAgentRuntime) {
+    super(runtime, LIMIT_ORDERS_TABLE, 'order', describeOrder, 'Order');
+  }
+
+  /**
+   * Every user's open and executing orders on a network, oldest first so they execute in the order they were placed
+   */
+  async active(network: string): Promise<StoredOrder[]> {
+    return (await this.onNetwork(network))
+      .filter((order) => order.status === 'open' || order.status === 'executing')
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+}
@@ -0,0 +1,125 @@
+import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+
+/**
+ * Fields every entry kept in a memory table has: who owns it, where it is reported and on which network
+ */
+export interface MemoryTableEntry {
+  entityId: string;
+  roomId: string;
+  network: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * An entry with the ID of the memory it is stored in
+ */
+export type StoredEntry<T> = T & { id: UUID };
+
+/**
+ * Short ID users refer to a stored entry by
+ */
+export function shortEntryId(id: string): string {
+  return id.split('-')[0];
+}
+
+/**
+ * Entries of one kind stored as memories in a table of the agent's database (plugin-sql)
+ * Each memory holds its entry under contentKey, with a description of it as the memory text
+ */
+export class MemoryTableStore<T extends MemoryTableEntry> {
+  constructor(
+    protected runtime: IAgentRuntime,
+    private tableName: string,
+    private contentKey: string,
+    private describe: (entry: T) => string,
+    private label: string // How "not found" errors name an entry ("DCA plan")
+  ) {}
+
+  /**
+   * Store a new entry and return it with its ID
+   */
+  async create(entry: T): Promise<StoredEntry<T>> {
+    const id = await this.runtime.createMemory(
+      {
+        entityId: entry.entityId as UUID,
+        agentId: this.runtime.agentId,
+        roomId: entry.roomId as UUID,
+        createdAt: entry.createdAt,
+        content: { text: this.describe(entry), source: 'hedera-dex', [this.contentKey]: entry },
+      },
+      this.tableName
+    );
+    return { ...entry, id };
+  }
+
+  /**
+   * A stored entry as it is now, or null when there is none with that ID
+   */
+  async get(id: UUID): Promise<StoredEntry<T> | null> {
+    const memory = await this.runtime.getMemoryById(id);
+    return memory ? this.toStoredEntry(memory) : null;
+  }
+
+  /**
+   * Merge changes into a stored entry
+   */
+  async update(id: UUID, changes: Partial<T>): Promise<StoredEntry<T>> {
+    const memory = await this.runtime.getMemoryById(id);
+    if (!memory) {
+      throw new Error(`${this.label} ${shortEntryId(id)} not found`);
+    }
+
+    const entry: T = { ...(memory.content[this.contentKey] as T), ...changes, updatedAt: Date.now() };
+    await this.runtime.updateMemory({
+      id,
+      content: { ...memory.content, text: this.describe(entry), [this.contentKey]: entry },
+    });
+
+    return { ...entry, id };
+  }
+
+  /**
+   * A user's entries, newest first
+   */
+  async list(entityId: string): Promise<StoredEntry<T>[]> {
+    const memories = await this.runtime.getMemories({
+      tableName: this.tableName,
+      entityId: entityId as UUID,
+      agentId: this.runtime.agentId,
+    });
+
+    return memories
+      .map((memory) => this.toStoredEntry(memory))
+      .filter((entry): entry is StoredEntry<T> => entry !== null && entry.entityId === entityId)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Find one of a user's entries by its short or full ID
+   */
+  async find(entityId: string, id: string): Promise<StoredEntry<T> | null> {
+    const prefix = id.toLowerCase();
+    const matches = (await this.list(entityId)).filter((entry) => entry.id === prefix || shortEntryId(entry.id) === prefix);
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  /**
+   * Every user's entries on a network, in no particular order
+   */
+  protected async onNetwork(network: string): Promise<StoredEntry<T>[]> {
+    const memories = await this.runtime.getMemories({
+      tableName: this.tableName,
+      agentId: this.runtime.agentId,
+    });
+
+    return memories
+      .map((memory) => this.toStoredEntry(memory))
+      .filter((entry): entry is StoredEntry<T> => entry !== null && entry.network === network);
+  }
+
+  private toStoredEntry(memory: Memory): StoredEntry<T> | null {
+    const entry = memory.content[this.contentKey] as T | undefined;
+    return memory.id && entry ? { ...entry, id: memory.id } : null;
+  }
+}
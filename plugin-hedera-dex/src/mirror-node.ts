@@ -0,0 +1,71 @@
+import axios from 'axios';
+
+/**
+ * Parameters for a read-only contract call through the Mirror Node
+ * `contracts/call` endpoint (eth_call / eth_estimateGas semantics)
+ */
+export interface ContractCallParams {
+  to: string; // EVM address of the contract
+  data: string; // ABI-encoded call data
+  from?: string; // EVM address of the caller
+  value?: number; // Tinybars sent with the call
+  gas?: number;
+  estimate?: boolean;
+}
+
+/**
+ * Extract a readable message from a failed Mirror Node request
+ */
+export function getMirrorNodeErrorMessage(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const messages = error.response?.data?._status?.messages;
+    if (Array.isArray(messages) && messages.length > 0) {
+      const { message, detail } = messages[0];
+      return detail ? `${message}: ${detail}` : message;
+    }
+    return error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Look up the Hedera contract ID (0.0.x) of a contract by its EVM address
+ */
+export async function fetchContractId(mirrorNodeUrl: string, evmAddress: string): Promise<string> {
+  try {
+    const response = await axios.get(`${mirrorNodeUrl}/api/v1/contracts/${evmAddress}`);
+    if (!response.data?.contract_id) {
+      throw new Error('Mirror node returned no contract ID');
+    }
+
+    return response.data.contract_id;
+  } catch (error) {
+    throw new Error(`Could not resolve contract ${evmAddress}: ${getMirrorNodeErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Execute a contract call against the latest block via the Mirror Node
+ * Returns the raw hex result of the call
+ */
+export async function callContract(mirrorNodeUrl: string, params: ContractCallParams): Promise<string> {
+  try {
+    const response = await axios.post(`${mirrorNodeUrl}/api/v1/contracts/call`, {
+      block: 'latest',
+      to: params.to,
+      data: params.data,
+      from: params.from,
+      value: params.value,
+      gas: params.gas,
+      estimate: params.estimate ?? false,
+    });
+
+    if (!response.data || !response.data.result) {
+      throw new Error('Mirror node returned an empty contract call result');
+    }
+
+    return response.data.result;
+  } catch (error) {
+    throw new Error(`Contract call to ${params.to} failed: ${getMirrorNodeErrorMessage(error)}`);
+  }
+}
@@ -0,0 +1,187 @@
+import { AccountId, Client } from '@hashgraph/sdk';
+
+/**
+ * SaucerSwap V2 contracts used by the plugin
+ * Undefined when SaucerSwap is not deployed on the network and no override is configured
+ */
+export interface SaucerSwapContracts {
+  router?: string; // SwapRouter
+  factory?: string; // SaucerSwapV2Factory
+  quoter?: string; // QuoterV2
+  positionManager?: string; // NonfungiblePositionManager
+  whbar?: string; // Wrapped HBAR token
+  whbarContract?: string; // Contract that mints and burns WHBAR
+}
+
+/**
+ * Everything the plugin needs to know about a Hedera network
+ */
+export interface NetworkProfile {
+  name: string;
+  mirrorNodeUrl: string;
+  consensusNodes?: Record<string, string>; // Node address → node account ID; the SDK's built-in list when undefined
+  contracts: SaucerSwapContracts;
+  explorerUrl?: string; // Transaction links are omitted when undefined
+}
+
+export const NETWORK_PROFILES: Record<string, NetworkProfile> = {
+  mainnet: {
+    name: 'mainnet',
+    mirrorNodeUrl: 'https://mainnet-public.mirrornode.hedera.com',
+    contracts: {
+      router: '0.0.3949434',
+      factory: '0.0.3946833',
+      quoter: '0.0.3949424',
+      positionManager: '0.0.4053945',
+      whbar: '0.0.1456986',
+      whbarContract: '0.0.1456985',
+    },
+    explorerUrl: 'https://hashscan.io/mainnet',
+  },
+  testnet: {
+    name: 'testnet',
+    mirrorNodeUrl: 'https://testnet.mirrornode.hedera.com',
+    contracts: {
+      router: '0.0.1414040',
+      factory: '0.0.1197038',
+      quoter: '0.0.1390002',
+      positionManager: '0.0.1308184',
+      whbar: '0.0.15058',
+      whbarContract: '0.0.15057',
+    },
+    explorerUrl: 'https://hashscan.io/testnet',
+  },
+  // SaucerSwap is not deployed on previewnet; contracts must come from settings
+  previewnet: {
+    name: 'previewnet',
+    mirrorNodeUrl: 'https://previewnet.mirrornode.hedera.com',
+    contracts: {},
+    explorerUrl: 'https://hashscan.io/previewnet',
+  },
+  // Hedera local node (or any custom network); contracts must come from settings
+  local: {
+    name: 'local',
+    mirrorNodeUrl: 'http://localhost:5551',
+    consensusNodes: { '127.0.0.1:50211': '0.0.3' },
+    contracts: {},
+  },
+};
+
+// Other names accepted for HEDERA_NETWORK
+const NETWORK_ALIASES: Record<string, string> = {
+  custom: 'local',
+  'local-node': 'local',
+  localnet: 'local',
+};
+
+// Settings overriding individual profile entries
+const CONTRACT_SETTINGS: Record<keyof SaucerSwapContracts, string> = {
+  router: 'HEDERA_SAUCERSWAP_ROUTER',
+  factory: 'HEDERA_SAUCERSWAP_FACTORY',
+  quoter: 'HEDERA_SAUCERSWAP_QUOTER',
+  positionManager: 'HEDERA_SAUCERSWAP_POSITION_MANAGER',
+  whbar: 'HEDERA_WHBAR_TOKEN',
+  whbarContract: 'HEDERA_WHBAR_CONTRACT',
+};
+
+const ENTITY_ID_PATTERN = /^\d+\.\d+\.\d+$/;
+
+/**
+ * Parse HEDERA_CONSENSUS_NODES: a JSON object mapping node addresses to node account IDs,
+ * e.g. {"127.0.0.1:50211":"0.0.3"}
+ */
+export function parseConsensusNodes(source: unknown): Record<string, string> {
+  let nodes: unknown;
+  try {
+    nodes = typeof source === 'string' ? JSON.parse(source) : source;
+  } catch (error) {
+    throw new Error(`Invalid HEDERA_CONSENSUS_NODES: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!nodes || typeof nodes !== 'object' || Array.isArray(nodes) || Object.keys(nodes).length === 0) {
+    throw new Error('Invalid HEDERA_CONSENSUS_NODES: expected an object mapping node addresses to node account IDs');
+  }
+
+  for (const [address, accountId] of Object.entries(nodes)) {
+    if (typeof accountId !== 'string' || !ENTITY_ID_PATTERN.test(accountId)) {
+      throw new Error(`Invalid HEDERA_CONSENSUS_NODES: node ${address} has an invalid account ID ${String(accountId)}`);
+    }
+  }
+
+  return nodes as Record<string, string>;
+}
+
+/**
+ * Resolve the profile selected by HEDERA_NETWORK, with per-entry overrides from settings
+ * Throws for unknown networks
+ */
+export function resolveNetworkProfile(
+  network: string,
+  getSetting: (key: string) => unknown
+): NetworkProfile {
+  const name = NETWORK_ALIASES[network.trim().toLowerCase()] || network.trim().toLowerCase();
+  const base = NETWORK_PROFILES[name];
+  if (!base) {
+    throw new Error(`Unsupported network: ${network}. Use one of ${Object.keys(NETWORK_PROFILES).join(', ')}`);
+  }
+
+  const setting = (key: string): string | undefined => {
+    const value = getSetting(key);
+    return value === undefined || value === null || value === '' ? undefined : String(value);
+  };
+
+  const contracts: SaucerSwapContracts = { ...base.contracts };
+  for (const [contract, key] of Object.entries(CONTRACT_SETTINGS) as [keyof SaucerSwapContracts, string][]) {
+    const override = setting(key);
+    if (override !== undefined) {
+      if (!ENTITY_ID_PATTERN.test(override)) {
+        throw new Error(`Invalid ${key}: ${override} is not a Hedera entity ID (0.0.x)`);
+      }
+      contracts[contract] = override;
+    }
+  }
+
+  const consensusNodes = setting('HEDERA_CONSENSUS_NODES');
+
+  return {
+    name,
+    mirrorNodeUrl: (setting('HEDERA_MIRROR_NODE_URL') || base.mirrorNodeUrl).replace(/\/+$/, ''),
+    consensusNodes: consensusNodes ? parseConsensusNodes(consensusNodes) : base.consensusNodes,
+    contracts,
+    explorerUrl: setting('HEDERA_EXPLORER_URL')?.replace(/\/+$/, '') ?? base.explorerUrl,
+  };
+}
+
+/**
+ * Require a contract from the profile, pointing at the setting that configures it when missing
+ */
+export function requireContract(profile: NetworkProfile, contract: keyof SaucerSwapContracts): string {
+  const address = profile.contracts[contract];
+  if (!address) {
+    throw new Error(
+      `SaucerSwap ${contract} contract is not configured for network: ${profile.name}. Set ${CONTRACT_SETTINGS[contract]}`
+    );
+  }
+  return address;
+}
+
+/**
+ * Explorer link for a transaction, or undefined when the profile has no explorer
+ */
+export function getTransactionExplorerUrl(profile: NetworkProfile, transactionId: string): string | undefined {
+  return profile.explorerUrl ? `${profile.explorerUrl}/transaction/${transactionId}` : undefined;
+}
+
+/**
+ * Create an SDK client for the profile's consensus nodes
+ */
+export function createHederaClient(profile: NetworkProfile): Client {
+  if (profile.consensusNodes) {
+    const nodes: Record<string, AccountId> = {};
+    for (const [address, accountId] of Object.entries(profile.consensusNodes)) {
+      nodes[address] = AccountId.fromString(accountId);
+    }
+    return Client.forNetwork(nodes);
+  }
+  return Client.forName(profile.name);
+}
@@ -0,0 +1,236 @@
+import axios from 'axios';
+import { Mnemonic, PrivateKey } from '@hashgraph/sdk';
+import { getMirrorNodeErrorMessage } from './mirror-node';
+
+export type OperatorKeyType = 'ed25519' | 'ecdsa';
+
+/**
+ * Where the operator key comes from: a private key (DER or raw hex) or a BIP-39 mnemonic
+ */
+export interface OperatorKeyConfig {
+  privateKey?: string;
+  keyType?: OperatorKeyType; // Required for raw hex keys unless the account's key can be checked
+  mnemonic?: string;
+  mnemonicPassphrase?: string;
+  derivationPath?: string; // BIP-44 path; defaults to the standard Hedera path of the key type
+}
+
+// Standard paths used by Hedera wallets (index 0)
+export const DEFAULT_DERIVATION_PATHS: Record<OperatorKeyType, string> = {
+  ed25519: "m/44'/3030'/0'/0'/0'",
+  ecdsa: "m/44'/3030'/0'/0/0",
+};
+
+const HARDENED = 0x80000000;
+const RAW_KEY_PATTERN = /^[0-9a-f]{64}$/i;
+
+/**
+ * Parse HEDERA_KEY_TYPE; undefined lets the key type be detected
+ */
+export function parseKeyType(value: unknown): OperatorKeyType | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const normalized = String(value).trim().toLowerCase();
+  if (normalized === 'ed25519') {
+    return 'ed25519';
+  }
+  if (['ecdsa', 'secp256k1', 'ecdsa_secp256k1'].includes(normalized)) {
+    return 'ecdsa';
+  }
+  throw new Error(`Invalid HEDERA_KEY_TYPE: ${value} (expected ed25519 or ecdsa)`);
+}
+
+/**
+ * Read the operator key settings
+ */
+export function readOperatorKeyConfig(getSetting: (key: string) => unknown): OperatorKeyConfig {
+  const setting = (key: string): string | undefined => {
+    const value = getSetting(key);
+    return value === undefined || value === null || value === '' ? undefined : String(value);
+  };
+
+  return {
+    privateKey: setting('HEDERA_PRIVATE_KEY'),
+    keyType: parseKeyType(setting('HEDERA_KEY_TYPE')),
+    mnemonic: setting('HEDERA_MNEMONIC'),
+    mnemonicPassphrase: setting('HEDERA_MNEMONIC_PASSPHRASE'),
+    derivationPath: setting('HEDERA_DERIVATION_PATH'),
+  };
+}
+
+export function hasOperatorKey(config: OperatorKeyConfig): boolean {
+  return Boolean(config.privateKey || config.mnemonic);
+}
+
+export function getKeyType(key: PrivateKey): OperatorKeyType {
+  return key.type === 'ED25519' ? 'ed25519' : 'ecdsa';
+}
+
+/**
+ * Decode a DER or raw hex private key
+ * DER keys carry their type; a raw key without a configured type could be either,
+ * so both interpretations are returned for the caller to match against the account
+ */
+export function decodePrivateKey(text: string, keyType?: OperatorKeyType): PrivateKey[] {
+  const hex = text.trim().replace(/^0x/i, '');
+
+  if (!RAW_KEY_PATTERN.test(hex) && /^[0-9a-f]+$/i.test(hex) && PrivateKey.isDerKey(hex)) {
+    const key = PrivateKey.fromStringDer(hex);
+    if (keyType && getKeyType(key) !== keyType) {
+      throw new Error(`HEDERA_PRIVATE_KEY is a DER-encoded ${getKeyType(key)} key but HEDERA_KEY_TYPE is ${keyType}`);
+    }
+    return [key];
+  }
+
+  if (!RAW_KEY_PATTERN.test(hex)) {
+    throw new Error('HEDERA_PRIVATE_KEY must be a DER-encoded key or 32 bytes of hex');
+  }
+
+  if (keyType === 'ed25519') {
+    return [PrivateKey.fromStringED25519(hex)];
+  }
+  if (keyType === 'ecdsa') {
+    return [PrivateKey.fromStringECDSA(hex)];
+  }
+  return [PrivateKey.fromStringED25519(hex), PrivateKey.fromStringECDSA(hex)];
+}
+
+/**
+ * Parse a BIP-44 path like m/44'/3030'/0'/0'/0' into child indexes (hardened ones offset by 2^31)
+ */
+export function parseDerivationPath(path: string): number[] {
+  const match = path.trim().match(/^m((?:\/\d+'?)+)$/);
+  if (!match) {
+    throw new Error(`Invalid HEDERA_DERIVATION_PATH: ${path} (expected e.g. ${DEFAULT_DERIVATION_PATHS.ed25519})`);
+  }
+
+  return match[1].slice(1).split('/').map((segment) => {
+    const index = Number(segment.replace("'", ''));
+    if (index >= HARDENED) {
+      throw new Error(`Invalid HEDERA_DERIVATION_PATH: ${path} (index ${index} is too large)`);
+    }
+    return segment.endsWith("'") ? index + HARDENED : index;
+  });
+}
+
+/**
+ * Derive a key from a BIP-39 mnemonic
+ * ED25519 (SLIP-10) only supports hardened derivation, so every segment of its path must be hardened
+ */
+export async function deriveMnemonicKey(
+  words: string,
+  keyType: OperatorKeyType,
+  derivationPath: string = DEFAULT_DERIVATION_PATHS[keyType],
+  passphrase: string = ''
+): Promise<PrivateKey> {
+  const path = parseDerivationPath(derivationPath);
+  const mnemonic = await Mnemonic.fromString(words.trim().replace(/\s+/g, ' '));
+
+  if (keyType === 'ecdsa') {
+    return mnemonic.toStandardECDSAsecp256k1PrivateKeyCustomDerivationPath(passphrase, derivationPath.trim());
+  }
+
+  if (path.some((index) => index < HARDENED)) {
+    throw new Error(`Invalid HEDERA_DERIVATION_PATH: ${derivationPath} (ED25519 keys need every segment hardened)`);
+  }
+
+  let key = await PrivateKey.fromSeedED25519(await mnemonic.toSeed(passphrase));
+  for (const index of path) {
+    key = await key.derive(index - HARDENED);
+  }
+  return key;
+}
+
+/**
+ * Every key the configuration could stand for; several only when the key type is unknown
+ */
+export async function loadOperatorKeyCandidates(config: OperatorKeyConfig): Promise<PrivateKey[]> {
+  if (config.privateKey) {
+    return decodePrivateKey(config.privateKey, config.keyType);
+  }
+
+  if (config.mnemonic) {
+    const keyTypes: OperatorKeyType[] = config.keyType ? [config.keyType] : ['ed25519', 'ecdsa'];
+    const candidates: PrivateKey[] = [];
+    let derivationError: unknown;
+    for (const keyType of keyTypes) {
+      try {
+        candidates.push(await deriveMnemonicKey(config.mnemonic, keyType, config.derivationPath, config.mnemonicPassphrase));
+      } catch (error) {
+        // A custom path may only suit one key type; it is reported if no type fits
+        derivationError ??= error;
+      }
+    }
+    if (candidates.length === 0) {
+      throw derivationError;
+    }
+    return candidates;
+  }
+
+  throw new Error('Set HEDERA_PRIVATE_KEY or HEDERA_MNEMONIC to sign transactions');
+}
+
+/**
+ * Public key of an account as reported by the Mirror Node
+ * type is ED25519, ECDSA_SECP256K1 or ProtobufEncoded (key lists and threshold keys)
+ */
+export async function fetchAccountPublicKey(
+  mirrorNodeUrl: string,
+  accountId: string
+): Promise<{ type: string; key: string }> {
+  try {
+    const response = await axios.get(`${mirrorNodeUrl}/api/v1/accounts/${accountId}`);
+    const key = response.data.key;
+    if (!key?.key) {
+      throw new Error('the account has no key');
+    }
+    return { type: key._type, key: String(key.key).toLowerCase() };
+  } catch (error) {
+    throw new Error(`Could not fetch the key of account ${accountId}: ${getMirrorNodeErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Pick the candidate key that controls the account
+ * Throws when none matches, since signing with it would fail with INVALID_SIGNATURE
+ */
+export function matchOperatorKey(
+  candidates: PrivateKey[],
+  accountKey: { type: string; key: string },
+  accountId: string,
+  source: string
+): PrivateKey {
+  if (accountKey.type === 'ProtobufEncoded') {
+    throw new Error(`Account ${accountId} is controlled by a key list or threshold key, which cannot be used as the operator key`);
+  }
+
+  const match = candidates.find((candidate) => candidate.publicKey.toStringRaw().toLowerCase() === accountKey.key);
+  if (!match) {
+    const tried = candidates.map((candidate) => getKeyType(candidate)).join(' or ');
+    throw new Error(
+      `The configured ${source} (${tried}) does not match the ${accountKey.type} key of account ${accountId}. ` +
+      `Check the key, HEDERA_KEY_TYPE and HEDERA_DERIVATION_PATH`
+    );
+  }
+
+  return match;
+}
+
+/**
+ * Load the operator key and check that it is the key of the account
+ */
+export async function resolveOperatorKey(
+  config: OperatorKeyConfig,
+  accountId: string,
+  mirrorNodeUrl: string
+): Promise<PrivateKey> {
+  const candidates = await loadOperatorKeyCandidates(config);
+  const accountKey = await fetchAccountPublicKey(mirrorNodeUrl, accountId);
+  return matchOperatorKey(candidates, accountKey, accountId, describeKeySource(config));
+}
+
+export function describeKeySource(config: OperatorKeyConfig): string {
+  return config.privateKey ? 'HEDERA_PRIVATE_KEY' : 'HEDERA_MNEMONIC';
+}
@@ -0,0 +1,114 @@
+import { randomUUID } from 'node:crypto';
+
+// How long a swap quote can be confirmed for (in seconds)
+export const DEFAULT_QUOTE_TTL_SECONDS = 60;
+
+/**
+ * A quoted swap waiting for its owner to confirm it
+ */
+export interface PendingSwap<T> {
+  id: string;
+  roomId: string;
+  entityId: string;
+  createdAt: number;
+  expiresAt: number;
+  request: T;
+}
+
+export type PendingSwapLookup<T> =
+  | { status: 'found'; swap: PendingSwap<T> }
+  | { status: 'expired'; swap: PendingSwap<T> }
+  | { status: 'not_found' };
+
+/**
+ * In-memory store of quoted swaps awaiting confirmation
+ * Quotes are scoped to the room and entity that requested them, so a user
+ * can only ever see and confirm their own quotes
+ */
+export class PendingSwapStore<T> {
+  private swaps = new Map<string, PendingSwap<T>>();
+
+  /**
+   * Store a new quote and return it with its generated ID and expiry
+   */
+  add(roomId: string, entityId: string, request: T, ttlSeconds: number = DEFAULT_QUOTE_TTL_SECONDS): PendingSwap<T> {
+    this.prune();
+
+    const now = Date.now();
+    const swap: PendingSwap<T> = {
+      id: randomUUID().split('-')[0],
+      roomId,
+      entityId,
+      createdAt: now,
+      expiresAt: now + ttlSeconds * 1000,
+      request,
+    };
+
+    this.swaps.set(swap.id, swap);
+    return swap;
+  }
+
+  /**
+   * Look up a quote owned by the room/entity without removing it
+   * Without an ID, the owner's only pending quote is used (ambiguous when there are several)
+   */
+  find(roomId: string, entityId: string, id?: string): PendingSwapLookup<T> {
+    const owned = [...this.swaps.values()].filter(
+      (swap) => swap.roomId === roomId && swap.entityId === entityId
+    );
+
+    let swap: PendingSwap<T> | undefined;
+    if (id) {
+      swap = owned.find((candidate) => candidate.id === id.toLowerCase());
+    } else if (owned.length === 1) {
+      swap = owned[0];
+    }
+
+    if (!swap) {
+      return { status: 'not_found' };
+    }
+
+    return swap.expiresAt <= Date.now() ? { status: 'expired', swap } : { status: 'found', swap };
+  }
+
+  /**
+   * Remove and return a quote owned by the room/entity
+   */
+  take(roomId: string, entityId: string, id?: string): PendingSwapLookup<T> {
+    const lookup = this.find(roomId, entityId, id);
+    if (lookup.status !== 'not_found') {
+      this.remove(lookup.swap.id);
+    }
+    return lookup;
+  }
+
+  /**
+   * Remove a quote; returns false when it was already removed, so only one caller can claim it
+   */
+  remove(id: string): boolean {
+    return this.swaps.delete(id);
+  }
+
+  /**
+   * List the unexpired quotes owned by the room/entity
+   */
+  list(roomId: string, entityId: string): PendingSwap<T>[] {
+    this.prune();
+    return [...this.swaps.values()].filter((swap) => swap.roomId === roomId && swap.entityId === entityId);
+  }
+
+  /**
+   * Drop expired quotes
+   */
+  prune(now: number = Date.now()): void {
+    for (const [id, swap] of this.swaps) {
+      if (swap.expiresAt <= now) {
+        this.swaps.delete(id);
+      }
+    }
+  }
+
+  clear(): void {
+    this.swaps.clear();
+  }
+}
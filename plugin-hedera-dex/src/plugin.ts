@@ -7,6 +7,7 @@ import {
   type HandlerCallback,
   type IAgentRuntime,
   type Memory,
+  type UUID,
   ModelType,
   type Provider,
   type ProviderResult,
@@ -21,23 +22,182 @@ import { z } from 'zod';
 import axios from 'axios';
 import { ethers } from 'ethers';
 import {
-  Client,
   PrivateKey,
   AccountId,
   ContractExecuteTransaction,
   Hbar,
-  HbarUnit,
-  TokenAssociateTransaction
+  PrecheckStatusError,
+  ReceiptStatusError,
+  type Client,
+  type Transaction
 } from '@hashgraph/sdk';
 import {
   SAUCERSWAP_ROUTER_ABI,
-  SAUCERSWAP_CONTRACTS,
-  TOKEN_ADDRESSES,
+  SAUCERSWAP_FACTORY_ABI,
   FEE_TIERS,
   hederaIdToEvmAddress,
   hexToUint8Array,
-  encodeSwapPath
+  encodeSwapPath,
+  longZeroAddressToHederaId
 } from './saucerswap-abi';
+import {
+  DEFAULT_SLIPPAGE_BPS,
+  applySlippageToOutput,
+  formatBps,
+  parseSlippageBps,
+  extractSlippageFromText,
+  applySlippageToInput,
+  type SwapQuote,
+  type SwapTradeType
+} from './quoter';
+import {
+  HBAR_DECIMALS,
+  parseTokenAmount,
+  tokenAmountFromRaw,
+  formatTokenAmount,
+  formatPrice
+} from './token-amount';
+import { decodeSwapRecord, decodeMulticallSwapResult } from './swap-result';
+import { callContract, fetchContractId } from './mirror-node';
+import { estimateRoutePriceImpactBps } from './pool-state';
+import { checkTokenAssociation, associateToken, buildTokenAssociation } from './token-association';
+import {
+  getTokenAllowance,
+  resolveAllowanceAmount,
+  approveTokenAllowance,
+  buildTokenAllowanceApproval
+} from './token-allowance';
+import { convertWhbar, type WhbarConversion } from './whbar';
+import {
+  DEFAULT_GAS_MARGIN_BPS,
+  FALLBACK_GAS_LIMIT,
+  applyGasMargin,
+  estimateContractCallFee,
+  convertTinybarsToUsd,
+  priceGas,
+  type NetworkFeeEstimate
+} from './gas';
+import { DEFAULT_QUOTE_TTL_SECONDS, PendingSwapStore, type PendingSwap } from './pending-swaps';
+import {
+  DailyVolumeTracker,
+  loadTradingPolicy,
+  resolvePolicyRules,
+  requiresUsdValue,
+  evaluateTradingPolicy,
+  type TradeContext
+} from './trading-policy';
+import { MAX_SWAP_HISTORY_LIMIT, SwapLedger, type StoredSwap, type SwapHistoryFilter, type SwapOrigin } from './swap-ledger';
+import {
+  readOperatorKeyConfig,
+  hasOperatorKey,
+  resolveOperatorKey,
+  loadOperatorKeyCandidates,
+  fetchAccountPublicKey,
+  matchOperatorKey,
+  describeKeySource,
+  getKeyType
+} from './operator-key';
+import {
+  SIGNING_VALID_DURATION_SECONDS,
+  parseSigningMode,
+  selectSigningNode,
+  freezeForSigning,
+  serializeTransaction,
+  getSignableBody,
+  decodeSignedTransaction,
+  submitSignedTransaction,
+  type SigningMode,
+  type UnsignedTransaction,
+  type UnsignedTransactionKind
+} from './unsigned-transactions';
+import {
+  MIN_ENCRYPTION_SECRET_LENGTH,
+  UserAccountStore,
+  UserTopUpStore,
+  parseAccountMode,
+  encryptPrivateKey,
+  decryptPrivateKey,
+  createUserAccount,
+  transferFunds,
+  fetchAccountBalances,
+  type AccountMode,
+  type StoredUserAccount
+} from './user-accounts';
+import {
+  DEFAULT_ORDER_POLL_SECONDS,
+  DEFAULT_ORDER_EXPIRY_HOURS,
+  MAX_ORDER_EXPIRY_HOURS,
+  MAX_ORDER_ATTEMPTS,
+  CLOSED_ORDERS_LISTED,
+  DEFAULT_TRIGGER_QUOTE_TOKEN,
+  ORDER_EXECUTION_TIMEOUT_MS,
+  OrderBook,
+  describeOrder,
+  fetchPoolPrices,
+  isPriceTriggered,
+  offsetPrice,
+  selectTriggerPrice,
+  shortOrderId,
+  type LimitOrderEntry,
+  type OrderKind,
+  type OrderSide,
+  type PriceCondition,
+  type StoredOrder
+} from './limit-orders';
+import {
+  DCA_CHECK_INTERVAL_SECONDS,
+  MAX_DCA_CONSECUTIVE_FAILURES,
+  DcaPlanStore,
+  computeFirstRun,
+  computeNextRun,
+  describeDcaPlan,
+  describeDcaTotals,
+  describeSchedule,
+  parseDcaSchedule,
+  shortPlanId,
+  type DcaPlanEntry,
+  type DcaSchedule,
+  type StoredDcaPlan
+} from './dca-plans';
+import {
+  TWAP_CHECK_INTERVAL_SECONDS,
+  DEFAULT_TWAP_PRICE_BAND_BPS,
+  TwapOrderStore,
+  describeTwapOrder,
+  describeTwapResult,
+  extractPriceBandFromText,
+  formatDuration,
+  parseTwapSlices,
+  parseTwapWindow,
+  planTwapSlices,
+  priceDeviationBps,
+  shortTwapId,
+  sliceAmountRaw,
+  type TwapOrderEntry,
+  type StoredTwapOrder
+} from './twap-orders';
+import { HBAR_TOKEN_ID, TokenRegistry, curatedTokensFor, type RegistryToken } from './token-registry';
+import {
+  NETWORK_PROFILES,
+  resolveNetworkProfile,
+  requireContract,
+  getTransactionExplorerUrl,
+  createHederaClient,
+  type NetworkProfile
+} from './network-profiles';
+import {
+  DEFAULT_MAX_HOPS,
+  findCandidateRoutes,
+  findBestRoute,
+  findDirectPoolFees,
+  quoteRoutes,
+  rankRouteQuotes,
+  combineRouteFees,
+  formatRoute,
+  formatFeeTier,
+  describeFeeTierSelection,
+  type SwapRoute
+} from './routing';
 
 // TypeScript interfaces for SaucerSwap API responses
 interface ApiToken {
@@ -59,7 +219,9 @@ interface ApiToken {
 
 interface ApiLiquidityPoolV2 {
   id: number;
-  contractId: string;
+  contractId: string; // Hedera contract ID (0.0.x) of the pool
+  evmAddress: string; // Pool address from the PoolCreated event
+  tickSpacing: number;
   tokenA: ApiToken;
   amountA: string;
   tokenB: ApiToken;
@@ -70,18 +232,6 @@ interface ApiLiquidityPoolV2 {
   liquidity: string;
 }
 
-// Contract addresses for different networks
-const CONTRACT_ADDRESSES = {
-  mainnet: {
-    factory: '0.0.3946833',
-    mirrorNode: 'https://mainnet-public.mirrornode.hedera.com',
-  },
-  testnet: {
-    factory: '0.0.1197038',
-    mirrorNode: 'https://testnet.mirrornode.hedera.com',
-  },
-};
-
 /**
  * Convert hex string to Hedera ID format
  * For pool addresses from contract data, we need to extract the actual contract address
@@ -102,25 +252,14 @@ function hexToHederaId(hex: string): string {
   return `0.0.${entityNum}`;
 }
 
+const factoryInterface = new ethers.Interface(SAUCERSWAP_FACTORY_ABI);
+
 /**
- * Extract pool contract ID from pool creation event data
- * For testnet, we'll create a synthetic pool ID based on the token pair
+ * Resolve a pool's EVM address to its Hedera contract ID
+ * Long-zero addresses encode the ID; pools deployed with CREATE2 are looked up on the Mirror Node
  */
-function extractPoolContractId(eventData: string, token0Id: string, token1Id: string): string {
-  try {
-    // For testnet pools, create a synthetic but consistent pool ID
-    // This allows us to show pool information even if we can't extract the exact contract address
-    const token0Num = parseInt(token0Id.split('.')[2]);
-    const token1Num = parseInt(token1Id.split('.')[2]);
-
-    // Create a synthetic pool ID by combining token numbers
-    // This ensures each unique pair gets a unique pool ID
-    const syntheticPoolNum = Math.abs(token0Num + token1Num + 1000000);
-
-    return `0.0.${syntheticPoolNum}`;
-  } catch (error) {
-    return '0.0.0';
-  }
+async function resolvePoolContractId(evmAddress: string, mirrorNodeUrl: string): Promise<string> {
+  return longZeroAddressToHederaId(evmAddress) ?? fetchContractId(mirrorNodeUrl, evmAddress);
 }
 
 /**
@@ -132,7 +271,7 @@ async function fetchTokenInfo(tokenId: string, mirrorNodeUrl: string): Promise<A
     const token = response.data;
 
     return {
-      decimals: token.decimals || 8,
+      decimals: token.decimals !== undefined && token.decimals !== null ? Number(token.decimals) : 8,
       id: tokenId,
       name: token.name || 'Unknown Token',
       price: '0',
@@ -152,6 +291,18 @@ async function fetchTokenInfo(tokenId: string, mirrorNodeUrl: string): Promise<A
   }
 }
 
+/**
+ * Resolve the number of decimals of an HTS token from Mirror Node metadata
+ * Throws instead of guessing, since a wrong value would mis-scale swap amounts
+ */
+async function fetchTokenDecimals(tokenId: string, mirrorNodeUrl: string): Promise<number> {
+  const tokenInfo = await fetchTokenInfo(tokenId, mirrorNodeUrl);
+  if (!tokenInfo) {
+    throw new Error(`Could not resolve decimals for token ${tokenId}`);
+  }
+  return tokenInfo.decimals;
+}
+
 /**
  * Fetch pool liquidity by calling the contract's liquidity() function
  */
@@ -223,31 +374,36 @@ async function parsePoolCreationEvents(logs: any[], mirrorNodeUrl: string): Prom
 
         logger.debug(`Parsed token IDs: ${token0Id}, ${token1Id}, fee: ${fee}`);
 
-        // Extract pool contract ID from event data
-        const poolId = extractPoolContractId(log.data, token0Id, token1Id);
-
         // Skip invalid IDs (0.0.0 means parsing failed)
-        if (token0Id === '0.0.0' || token1Id === '0.0.0' || poolId === '0.0.0') {
-          logger.warn(`Skipping pool with invalid IDs: token0=${token0Id}, token1=${token1Id}, pool=${poolId}`);
+        if (token0Id === '0.0.0' || token1Id === '0.0.0') {
+          logger.warn(`Skipping pool with invalid IDs: token0=${token0Id}, token1=${token1Id}`);
           continue;
         }
 
-        // Fetch token information
-        const [tokenA, tokenB] = await Promise.all([
+        // The event data holds the tick spacing and the pool's address
+        const event = factoryInterface.decodeEventLog('PoolCreated', log.data, log.topics);
+        const evmAddress = String(event.pool).toLowerCase();
+        const tickSpacing = Number(event.tickSpacing);
+
+        // Fetch token information and the pool's contract ID
+        const [tokenA, tokenB, contractId] = await Promise.all([
           fetchTokenInfo(token0Id, mirrorNodeUrl),
-          fetchTokenInfo(token1Id, mirrorNodeUrl)
+          fetchTokenInfo(token1Id, mirrorNodeUrl),
+          resolvePoolContractId(evmAddress, mirrorNodeUrl)
         ]);
 
         if (tokenA && tokenB) {
-          // Note: Pool contract ID conversion from hex is complex for Hedera
-          // We'll show pool info without trying to fetch balances from invalid contract IDs
+          // Balances are not fetched: no pool view shows them, and two more lookups per pool
+          // would slow down listing every pool the factory created
           pools.push({
             id: pools.length + 1,
-            contractId: poolId, // This may not be a valid Hedera contract ID
+            contractId,
+            evmAddress,
+            tickSpacing,
             tokenA,
-            amountA: '0', // Would need valid contract ID to fetch
+            amountA: '0', // Not fetched, see above
             tokenB,
-            amountB: '0', // Would need valid contract ID to fetch
+            amountB: '0', // Not fetched, see above
             fee,
             sqrtRatioX96: '79228162514264337593543950336', // Default value
             tickCurrent: 0,
@@ -269,6 +425,18 @@ async function parsePoolCreationEvents(logs: any[], mirrorNodeUrl: string): Prom
   return pools;
 }
 
+/**
+ * Fetch and parse all pools created by the SaucerSwap V2 factory
+ */
+async function fetchPoolsFromFactory(mirrorNodeUrl: string, factoryContract: string): Promise<ApiLiquidityPoolV2[]> {
+  const logsResponse = await axios.get(`${mirrorNodeUrl}/api/v1/contracts/${factoryContract}/results/logs?limit=100`);
+  const logs = logsResponse.data.logs || [];
+
+  logger.info(`Found ${logs.length} contract events`);
+
+  return parsePoolCreationEvents(logs, mirrorNodeUrl);
+}
+
 /**
  * Defines the configuration schema for a plugin, including the validation rules for the plugin name.
  */
@@ -281,12 +449,416 @@ const configSchema = z.object({
   HEDERA_MIRROR_NODE_URL: z
     .string()
     .optional(),
+  HEDERA_CONSENSUS_NODES: z
+    .string()
+    .optional(),
+  HEDERA_EXPLORER_URL: z
+    .string()
+    .optional(),
+  HEDERA_SAUCERSWAP_ROUTER: z
+    .string()
+    .optional(),
+  HEDERA_SAUCERSWAP_FACTORY: z
+    .string()
+    .optional(),
+  HEDERA_SAUCERSWAP_QUOTER: z
+    .string()
+    .optional(),
+  HEDERA_SAUCERSWAP_POSITION_MANAGER: z
+    .string()
+    .optional(),
+  HEDERA_WHBAR_TOKEN: z
+    .string()
+    .optional(),
+  HEDERA_WHBAR_CONTRACT: z
+    .string()
+    .optional(),
+  HEDERA_KEY_TYPE: z
+    .string()
+    .optional()
+    .refine((val) => val === undefined || /^(ed25519|ecdsa|secp256k1|ecdsa_secp256k1)$/i.test(val), {
+      message: 'HEDERA_KEY_TYPE must be ed25519 or ecdsa',
+    }),
+  HEDERA_DERIVATION_PATH: z
+    .string()
+    .optional()
+    .refine((val) => val === undefined || /^m(\/\d+'?)+$/.test(val), {
+      message: "HEDERA_DERIVATION_PATH must be a BIP-44 path such as m/44'/3030'/0'/0'/0'",
+    }),
+  HEDERA_SIGNING_MODE: z
+    .string()
+    .optional()
+    .refine((val) => val === undefined || /^(agent|custodial|user|non-custodial)$/i.test(val), {
+      message: 'HEDERA_SIGNING_MODE must be agent or user',
+    }),
+  HEDERA_ACCOUNT_MODE: z
+    .string()
+    .optional()
+    .refine((val) => val === undefined || /^(shared|per-user|custodial)$/i.test(val), {
+      message: 'HEDERA_ACCOUNT_MODE must be shared or per-user',
+    }),
+  HEDERA_ACCOUNT_ENCRYPTION_KEY: z
+    .string()
+    .optional()
+    .refine((val) => val === undefined || val.length >= MIN_ENCRYPTION_SECRET_LENGTH, {
+      message: `HEDERA_ACCOUNT_ENCRYPTION_KEY must be at least ${MIN_ENCRYPTION_SECRET_LENGTH} characters`,
+    }),
+  HEDERA_USER_TOP_UP_DAILY_HBAR: z
+    .string()
+    .optional()
+    .refine((val) => val === undefined || /^\d+(\.\d+)?$/.test(val), {
+      message: 'HEDERA_USER_TOP_UP_DAILY_HBAR must be a positive HBAR amount',
+    }),
   DEMO_MODE: z
     .string()
     .optional()
     .default('false'),
+  HEDERA_SWAP_SLIPPAGE_BPS: z
+    .string()
+    .optional()
+    .refine((val) => val === undefined || /^\d+$/.test(val), {
+      message: 'HEDERA_SWAP_SLIPPAGE_BPS must be a whole number of basis points',
+    }),
+  HEDERA_SWAP_MAX_HOPS: z
+    .string()
+    .optional()
+    .refine((val) => val === undefined || /^[1-9]\d*$/.test(val), {
+      message: 'HEDERA_SWAP_MAX_HOPS must be a positive whole number',
+    }),
+  HEDERA_AUTO_ASSOCIATE_TOKENS: z
+    .enum(['true', 'false'])
+    .optional(),
+  HEDERA_SWAP_GAS_MARGIN_BPS: z
+    .string()
+    .optional()
+    .refine((val) => val === undefined || /^\d+$/.test(val), {
+      message: 'HEDERA_SWAP_GAS_MARGIN_BPS must be a whole number of basis points',
+    }),
+  HEDERA_SWAP_REQUIRE_CONFIRMATION: z
+    .enum(['true', 'false'])
+    .optional(),
+  HEDERA_SWAP_QUOTE_TTL_SECONDS: z
+    .string()
+    .optional()
+    .refine((val) => val === undefined || /^[1-9]\d*$/.test(val), {
+      message: 'HEDERA_SWAP_QUOTE_TTL_SECONDS must be a positive whole number',
+    }),
+  HEDERA_TRADING_POLICY: z
+    .string()
+    .optional(),
+  HEDERA_TRADING_POLICY_FILE: z
+    .string()
+    .optional(),
+  HEDERA_SWAP_ALLOWANCE_CAP: z
+    .string()
+    .optional()
+    .refine((val) => val === undefined || /^\d+(\.\d+)?$/.test(val), {
+      message: 'HEDERA_SWAP_ALLOWANCE_CAP must be a positive token amount',
+    }),
+  HEDERA_ORDER_POLL_SECONDS: z
+    .string()
+    .optional()
+    .refine((val) => val === undefined || /^[1-9]\d*$/.test(val), {
+      message: 'HEDERA_ORDER_POLL_SECONDS must be a positive whole number',
+    }),
 });
 
+/**
+ * Resolve the slippage tolerance for a swap, in order of precedence:
+ * handler options, the message text, the HEDERA_SWAP_SLIPPAGE_BPS setting, the default
+ */
+function resolveSlippageBps(runtime: IAgentRuntime, text: string, options: any): number {
+  if (options?.slippageBps !== undefined) {
+    return parseSlippageBps(options.slippageBps);
+  }
+
+  const fromText = extractSlippageFromText(text);
+  if (fromText !== null) {
+    return fromText;
+  }
+
+  const setting = runtime.getSetting('HEDERA_SWAP_SLIPPAGE_BPS') || process.env.HEDERA_SWAP_SLIPPAGE_BPS;
+  if (setting) {
+    return parseSlippageBps(setting);
+  }
+
+  return DEFAULT_SLIPPAGE_BPS;
+}
+
+/**
+ * Decide whether a swap may associate the output token on the user's behalf
+ * Enabled unless HEDERA_AUTO_ASSOCIATE_TOKENS=false, in which case the user has to
+ * consent explicitly ("... and associate the token") or via the associateToken option
+ */
+function resolveAutoAssociate(runtime: IAgentRuntime, text: string, options: any): boolean {
+  if (options?.associateToken === true || /\bassociate\b/i.test(text)) {
+    return true;
+  }
+
+  const setting = runtime.getSetting('HEDERA_AUTO_ASSOCIATE_TOKENS') ?? process.env.HEDERA_AUTO_ASSOCIATE_TOKENS;
+  return String(setting ?? 'true').toLowerCase() !== 'false';
+}
+
+/**
+ * Resolve the router allowance cap for input tokens (HEDERA_SWAP_ALLOWANCE_CAP, in token units)
+ * Unset means every swap approves exactly the amount it needs
+ */
+function resolveAllowanceCap(runtime: IAgentRuntime): string | undefined {
+  const setting = runtime.getSetting('HEDERA_SWAP_ALLOWANCE_CAP') || process.env.HEDERA_SWAP_ALLOWANCE_CAP;
+  return setting ? String(setting) : undefined;
+}
+
+/**
+ * Resolve the safety margin added to swap gas estimates (HEDERA_SWAP_GAS_MARGIN_BPS, default 20%)
+ */
+function resolveGasMarginBps(runtime: IAgentRuntime): number {
+  const setting = runtime.getSetting('HEDERA_SWAP_GAS_MARGIN_BPS') || process.env.HEDERA_SWAP_GAS_MARGIN_BPS;
+  if (!setting) {
+    return DEFAULT_GAS_MARGIN_BPS;
+  }
+
+  const marginBps = Number(setting);
+  if (!Number.isInteger(marginBps) || marginBps < 0) {
+    throw new Error(`Invalid HEDERA_SWAP_GAS_MARGIN_BPS: ${setting} (expected a whole number of basis points)`);
+  }
+
+  return marginBps;
+}
+
+/**
+ * Whether real swaps are quoted first and only executed on "confirm <id>"
+ * (HEDERA_SWAP_REQUIRE_CONFIRMATION, enabled unless set to false)
+ */
+function resolveRequireConfirmation(runtime: IAgentRuntime): boolean {
+  const setting = runtime.getSetting('HEDERA_SWAP_REQUIRE_CONFIRMATION') ?? process.env.HEDERA_SWAP_REQUIRE_CONFIRMATION;
+  return String(setting ?? 'true').toLowerCase() !== 'false';
+}
+
+/**
+ * Resolve how long a swap quote can be confirmed for (HEDERA_SWAP_QUOTE_TTL_SECONDS, default 60)
+ */
+function resolveQuoteTtlSeconds(runtime: IAgentRuntime): number {
+  const setting = runtime.getSetting('HEDERA_SWAP_QUOTE_TTL_SECONDS') || process.env.HEDERA_SWAP_QUOTE_TTL_SECONDS;
+  if (!setting) {
+    return DEFAULT_QUOTE_TTL_SECONDS;
+  }
+
+  const ttlSeconds = Number(setting);
+  if (!Number.isInteger(ttlSeconds) || ttlSeconds < 1) {
+    throw new Error(`Invalid HEDERA_SWAP_QUOTE_TTL_SECONDS: ${setting} (expected a positive whole number)`);
+  }
+
+  return ttlSeconds;
+}
+
+/**
+ * Resolve how many pools a swap route may pass through (HEDERA_SWAP_MAX_HOPS, default 3)
+ */
+function resolveMaxHops(runtime: IAgentRuntime): number {
+  const setting = runtime.getSetting('HEDERA_SWAP_MAX_HOPS') || process.env.HEDERA_SWAP_MAX_HOPS;
+  if (!setting) {
+    return DEFAULT_MAX_HOPS;
+  }
+
+  const maxHops = Number(setting);
+  if (!Number.isInteger(maxHops) || maxHops < 1) {
+    throw new Error(`Invalid HEDERA_SWAP_MAX_HOPS: ${setting} (expected a positive whole number)`);
+  }
+
+  return maxHops;
+}
+
+/**
+ * Resolve how often open limit orders are checked (HEDERA_ORDER_POLL_SECONDS, default 30)
+ */
+function resolveOrderPollSeconds(runtime: IAgentRuntime): number {
+  const setting = runtime.getSetting('HEDERA_ORDER_POLL_SECONDS') || process.env.HEDERA_ORDER_POLL_SECONDS;
+  if (!setting) {
+    return DEFAULT_ORDER_POLL_SECONDS;
+  }
+
+  const pollSeconds = Number(setting);
+  if (!Number.isInteger(pollSeconds) || pollSeconds < 1) {
+    throw new Error(`Invalid HEDERA_ORDER_POLL_SECONDS: ${setting} (expected a positive whole number)`);
+  }
+
+  return pollSeconds;
+}
+
+/**
+ * Network profile selected by HEDERA_NETWORK, with contract and endpoint overrides from settings
+ */
+function resolveNetwork(runtime: IAgentRuntime, defaultNetwork: string): NetworkProfile {
+  const network = runtime.getSetting('HEDERA_NETWORK') || defaultNetwork;
+  return resolveNetworkProfile(String(network), (key) => runtime.getSetting(key));
+}
+
+/**
+ * Who signs swaps (HEDERA_SIGNING_MODE): the agent with its operator key (default), or the user,
+ * who gets the frozen transactions back and submits them signed through the submit route
+ */
+function resolveSigningMode(runtime: IAgentRuntime): SigningMode {
+  return parseSigningMode(runtime.getSetting('HEDERA_SIGNING_MODE') || process.env.HEDERA_SIGNING_MODE);
+}
+
+/**
+ * The account a user-signed swap is built for, in order of precedence:
+ * the accountId option, "account 0.0.x" in the message text, HEDERA_ACCOUNT_ID
+ */
+function resolveUserAccountId(runtime: IAgentRuntime, text: string, options: any): string {
+  const accountId = options?.accountId
+    ?? text.match(/\baccount\s+(?:id\s+)?(\d+\.\d+\.\d+)\b/i)?.[1]
+    ?? (runtime.getSetting('HEDERA_ACCOUNT_ID') || process.env.HEDERA_ACCOUNT_ID);
+
+  if (!accountId) {
+    throw new Error('No account to build the swap for. Add "from account 0.0.x" to the request or set HEDERA_ACCOUNT_ID');
+  }
+  if (!/^\d+\.\d+\.\d+$/.test(String(accountId))) {
+    throw new Error(`Invalid account ID: ${accountId} (expected 0.0.x)`);
+  }
+
+  return String(accountId);
+}
+
+/**
+ * Read a setting from the runtime, falling back to the environment
+ */
+function readSetting(runtime: IAgentRuntime): (key: string) => unknown {
+  return (key) => runtime.getSetting(key) || process.env[key];
+}
+
+// Operator keys already checked against their account, per agent, network and account
+const operatorKeys = new Map<string, Promise<PrivateKey>>();
+
+/**
+ * Load the operator key (HEDERA_PRIVATE_KEY or HEDERA_MNEMONIC) and check it once against
+ * the account's public key on the Mirror Node; failed checks are retried on the next call
+ */
+function getOperatorKey(runtime: IAgentRuntime, profile: NetworkProfile, accountId: string): Promise<PrivateKey> {
+  const cacheKey = `${runtime.agentId}:${profile.name}:${accountId}`;
+  let operatorKey = operatorKeys.get(cacheKey);
+  if (!operatorKey) {
+    operatorKey = resolveOperatorKey(readOperatorKeyConfig(readSetting(runtime)), accountId, profile.mirrorNodeUrl);
+    operatorKeys.set(cacheKey, operatorKey);
+    operatorKey.catch(() => operatorKeys.delete(cacheKey));
+  }
+  return operatorKey;
+}
+
+/**
+ * Check the configured operator key against HEDERA_ACCOUNT_ID at startup
+ * Malformed or mismatched keys throw; an unreachable Mirror Node only defers the check to the first transaction
+ */
+async function verifyOperatorKey(runtime: IAgentRuntime, profile: NetworkProfile): Promise<void> {
+  const keyConfig = readOperatorKeyConfig(readSetting(runtime));
+  const accountId = readSetting(runtime)('HEDERA_ACCOUNT_ID');
+  if (!hasOperatorKey(keyConfig) || !accountId) {
+    return;
+  }
+
+  const candidates = await loadOperatorKeyCandidates(keyConfig);
+
+  let accountKey: { type: string; key: string };
+  try {
+    accountKey = await fetchAccountPublicKey(profile.mirrorNodeUrl, String(accountId));
+  } catch (error) {
+    logger.warn(`Operator key not verified at startup, it will be checked before the first transaction: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+
+  const operatorKey = matchOperatorKey(candidates, accountKey, String(accountId), describeKeySource(keyConfig));
+  operatorKeys.set(`${runtime.agentId}:${profile.name}:${accountId}`, Promise.resolve(operatorKey));
+  logger.info(`Operator key verified for account ${accountId} (${getKeyType(operatorKey)})`);
+}
+
+/**
+ * Whether everyone trades from HEDERA_ACCOUNT_ID (shared, default) or each user from an account
+ * the agent created for them and funded from HEDERA_ACCOUNT_ID, the treasury (per-user)
+ */
+function resolveAccountMode(runtime: IAgentRuntime): AccountMode {
+  return parseAccountMode(runtime.getSetting('HEDERA_ACCOUNT_MODE') || process.env.HEDERA_ACCOUNT_MODE);
+}
+
+/**
+ * Secret the keys of per-user accounts are encrypted with (HEDERA_ACCOUNT_ENCRYPTION_KEY)
+ */
+function requireEncryptionSecret(runtime: IAgentRuntime): string {
+  const secret = runtime.getSetting('HEDERA_ACCOUNT_ENCRYPTION_KEY') || process.env.HEDERA_ACCOUNT_ENCRYPTION_KEY;
+  if (!secret || String(secret).length < MIN_ENCRYPTION_SECRET_LENGTH) {
+    throw new Error(`Per-user accounts need HEDERA_ACCOUNT_ENCRYPTION_KEY (at least ${MIN_ENCRYPTION_SECRET_LENGTH} characters)`);
+  }
+  return String(secret);
+}
+
+/**
+ * How much HBAR each user may receive from the treasury per 24 hours (HEDERA_USER_TOP_UP_DAILY_HBAR)
+ * Undefined disables top-ups
+ */
+function resolveTopUpDailyLimit(runtime: IAgentRuntime): bigint | undefined {
+  const setting = runtime.getSetting('HEDERA_USER_TOP_UP_DAILY_HBAR') || process.env.HEDERA_USER_TOP_UP_DAILY_HBAR;
+  return setting ? parseTokenAmount(String(setting), HBAR_DECIMALS).raw : undefined;
+}
+
+/**
+ * The account a user's swaps, transfers and conversions are made from, with the key that signs for it
+ */
+interface TradingAccount {
+  accountId: string;
+  operatorKey: PrivateKey;
+}
+
+/**
+ * The trading account of a user: HEDERA_ACCOUNT_ID in shared mode, their own account in per-user mode
+ * Returns null when there is none (no account configured, or none created for the user yet)
+ */
+async function findTradingAccountId(runtime: IAgentRuntime, profile: NetworkProfile, entityId: UUID): Promise<string | null> {
+  if (resolveAccountMode(runtime) === 'per-user') {
+    return (await new UserAccountStore(runtime).forUser(entityId, profile.name))?.accountId ?? null;
+  }
+
+  const accountId = runtime.getSetting('HEDERA_ACCOUNT_ID') || process.env.HEDERA_ACCOUNT_ID;
+  return accountId ? String(accountId) : null;
+}
+
+/**
+ * Load the trading account of a user and its key
+ * Throws in per-user mode when the user has no account yet
+ */
+async function getTradingAccount(runtime: IAgentRuntime, profile: NetworkProfile, entityId: UUID): Promise<TradingAccount> {
+  if (resolveAccountMode(runtime) === 'shared') {
+    const accountId = String(runtime.getSetting('HEDERA_ACCOUNT_ID') || process.env.HEDERA_ACCOUNT_ID);
+    return { accountId, operatorKey: await getOperatorKey(runtime, profile, accountId) };
+  }
+
+  const account = await new UserAccountStore(runtime).forUser(entityId, profile.name);
+  if (!account) {
+    throw missingUserAccountError(profile.name);
+  }
+  return { accountId: account.accountId, operatorKey: decryptPrivateKey(account.encryptedKey, requireEncryptionSecret(runtime)) };
+}
+
+function missingUserAccountError(network: string): Error {
+  return new Error(`You do not have a Hedera account on ${network} yet. Ask to "top up my account with 10 HBAR" to create one`);
+}
+
+// Account creations in flight, per agent, network and user, so concurrent top-ups create one account
+const userAccountCreations = new Map<string, Promise<StoredUserAccount>>();
+
+/**
+ * Run async tasks one at a time, in the order they were queued
+ */
+function createTaskQueue(): <T>(task: () => Promise<T>) => Promise<T> {
+  let last: Promise<unknown> = Promise.resolve();
+  return (task) => {
+    const run = last.then(task, task);
+    last = run.catch(() => undefined);
+    return run;
+  };
+}
+
+// Serializes checking the top-up limit with storing the top-up it allows
+const withTopUpLock = createTaskQueue();
+
 /**
  * List Pools Action
  * Fetches all liquidity pools from SaucerSwap V2 with detailed information
@@ -313,31 +885,16 @@ const listPoolsAction: Action = {
       logger.info('Handling LIST_POOLS action');
 
       // Get configuration
-      const network = runtime.getSetting('HEDERA_NETWORK') || 'mainnet';
-      const mirrorNodeUrl = runtime.getSetting('HEDERA_MIRROR_NODE_URL') ||
-        CONTRACT_ADDRESSES[network as keyof typeof CONTRACT_ADDRESSES]?.mirrorNode;
-
-      if (!mirrorNodeUrl) {
-        throw new Error(`Unsupported network: ${network}`);
-      }
-
-      const factoryContract = CONTRACT_ADDRESSES[network as keyof typeof CONTRACT_ADDRESSES]?.factory;
-      if (!factoryContract) {
-        throw new Error(`Factory contract not found for network: ${network}`);
-      }
+      const profile = resolveNetwork(runtime, 'mainnet');
+      const { name: network, mirrorNodeUrl } = profile;
+      const factoryContract = requireContract(profile, 'factory');
 
       let pools: ApiLiquidityPoolV2[];
       let dataSource: string;
 
       try {
-        // Fetch pool creation events from the factory contract
-        const logsResponse = await axios.get(`${mirrorNodeUrl}/api/v1/contracts/${factoryContract}/results/logs?limit=100`);
-        const logs = logsResponse.data.logs || [];
-
-        logger.info(`Found ${logs.length} contract events`);
-
-        // Parse pool creation events to get real pool data
-        pools = await parsePoolCreationEvents(logs, mirrorNodeUrl);
+        // Fetch and parse pool creation events from the factory contract
+        pools = await fetchPoolsFromFactory(mirrorNodeUrl, factoryContract);
 
         if (pools.length === 0) {
           throw new Error('No pools found in contract events');
@@ -360,7 +917,7 @@ const listPoolsAction: Action = {
 
         poolsText += `${index + 1}. ${symbolA}/${symbolB}\n`;
         poolsText += `   • Fee Tier: ${feeTier}%\n`;
-        poolsText += `   • Contract ID: ${pool.contractId}\n`;
+        poolsText += `   • Contract ID: ${pool.contractId} (${pool.evmAddress})\n`;
 
         // Show liquidity status if meaningful
         if (pool.liquidity === 'Available') {
@@ -525,27 +1082,13 @@ const getPoolInfoAction: Action = {
       logger.info(`Looking for pool: ${normalizedToken0}/${normalizedToken1}`);
 
       // Get configuration
-      const network = runtime.getSetting('HEDERA_NETWORK') || 'mainnet';
-      const mirrorNodeUrl = runtime.getSetting('HEDERA_MIRROR_NODE_URL') ||
-        CONTRACT_ADDRESSES[network as keyof typeof CONTRACT_ADDRESSES]?.mirrorNode;
-
-      if (!mirrorNodeUrl) {
-        throw new Error(`Unsupported network: ${network}`);
-      }
-
-      const factoryContract = CONTRACT_ADDRESSES[network as keyof typeof CONTRACT_ADDRESSES]?.factory;
-      if (!factoryContract) {
-        throw new Error(`Factory contract not found for network: ${network}`);
-      }
+      const profile = resolveNetwork(runtime, 'mainnet');
+      const { name: network, mirrorNodeUrl } = profile;
+      const factoryContract = requireContract(profile, 'factory');
 
       // Fetch all pools first (reusing the logic from LIST_POOLS)
-      const logsResponse = await axios.get(`${mirrorNodeUrl}/api/v1/contracts/${factoryContract}/results/logs?limit=100`);
-      const logs = logsResponse.data.logs || [];
-
-      logger.info(`Found ${logs.length} contract events, searching for ${normalizedToken0}/${normalizedToken1} pool`);
-
-      // Parse pool creation events to find the specific pool
-      const allPools = await parsePoolCreationEvents(logs, mirrorNodeUrl);
+      logger.info(`Searching for ${normalizedToken0}/${normalizedToken1} pool`);
+      const allPools = await fetchPoolsFromFactory(mirrorNodeUrl, factoryContract);
 
       // Find pools that match the token pair (in either order)
       const matchingPools = allPools.filter(pool => {
@@ -571,6 +1114,8 @@ const getPoolInfoAction: Action = {
         poolInfoText += `📊 **${pool.tokenA.symbol}/${pool.tokenB.symbol} Pool**\n\n`;
         poolInfoText += `• **Fee Tier:** ${feeTier}%\n`;
         poolInfoText += `• **Contract ID:** ${pool.contractId}\n`;
+        poolInfoText += `• **EVM Address:** ${pool.evmAddress}\n`;
+        poolInfoText += `• **Tick Spacing:** ${pool.tickSpacing}\n`;
 
         // Show liquidity status if meaningful
         if (pool.liquidity === 'Available') {
@@ -604,7 +1149,7 @@ const getPoolInfoAction: Action = {
         matchingPools.forEach((pool, index) => {
           const feeTier = (pool.fee / 10_000.0).toFixed(2);
           poolInfoText += `${index + 1}. **${pool.tokenA.symbol}/${pool.tokenB.symbol}** (${feeTier}% fee)\n`;
-          poolInfoText += `   • Contract ID: ${pool.contractId}\n`;
+          poolInfoText += `   • Contract ID: ${pool.contractId} (${pool.evmAddress})\n`;
 
           if (pool.liquidity !== 'N/A' && pool.liquidity !== '0') {
             try {
@@ -724,9 +1269,92 @@ const getPoolInfoAction: Action = {
   ],
 };
 
+// A token is a symbol (optionally with a bridge suffix like USDC[hts]), a token ID or an EVM address
+const TOKEN_PATTERN = String.raw`(0x[0-9a-fA-F]{40}|\d+\.\d+\.\d+|[A-Za-z]\w*(?:\[\w+\])?)`;
+const AMOUNT_PATTERN = String.raw`(\d+(?:\.\d+)?)`;
+
+/**
+ * Parse the trade direction, amount and token pair from a swap message
+ * Exact-output phrasing ("buy 100 USDC with HBAR", "swap HBAR for exactly 100 USDC")
+ * fixes the amount received; everything else fixes the amount sold
+ */
+function parseSwapRequest(text: string): {
+  tradeType: SwapTradeType;
+  amount: string;
+  fromToken: string;
+  toToken: string;
+} | null {
+  const token = TOKEN_PATTERN;
+  const amount = AMOUNT_PATTERN;
+
+  const buyMatch = text.match(new RegExp(String.raw`buy\s+(?:exactly\s+)?${amount}\s+${token}\s+(?:with|using|for)\s+${token}`, 'i'));
+  if (buyMatch) {
+    const [, amountStr, toToken, fromToken] = buyMatch;
+    return { tradeType: 'exactOutput', amount: amountStr, fromToken: normalizeTokenQuery(fromToken), toToken: normalizeTokenQuery(toToken) };
+  }
+
+  const exactlyMatch = text.match(new RegExp(String.raw`${token}\s+(?:for|to|into)\s+exactly\s+${amount}\s+${token}`, 'i'));
+  if (exactlyMatch) {
+    const [, fromToken, amountStr, toToken] = exactlyMatch;
+    return { tradeType: 'exactOutput', amount: amountStr, fromToken: normalizeTokenQuery(fromToken), toToken: normalizeTokenQuery(toToken) };
+  }
+
+  const swapMatch = text.match(new RegExp(String.raw`swap\s+${amount}\s+${token}\s+(?:for|to|into)\s+${token}`, 'i')) ||
+                   text.match(new RegExp(String.raw`${amount}\s+${token}\s+(?:for|to|into)\s+${token}`, 'i'));
+  if (swapMatch) {
+    const [, amountStr, fromToken, toToken] = swapMatch;
+    return { tradeType: 'exactInput', amount: amountStr, fromToken: normalizeTokenQuery(fromToken), toToken: normalizeTokenQuery(toToken) };
+  }
+
+  return null;
+}
+
+/**
+ * Upper-case token symbols; token IDs and EVM addresses are kept as typed (addresses lower-cased)
+ */
+function normalizeTokenQuery(token: string): string {
+  return token.startsWith('0x') || token.startsWith('0X') ? token.toLowerCase() : token.toUpperCase();
+}
+
+/**
+ * Parse a price question ("how much USDC would I get for 500 HBAR?", "how much HBAR do I need for 100 SAUCE?",
+ * "quote 500 HBAR to USDC"); asking what an amount costs fixes the amount received
+ */
+function parseQuoteRequest(text: string): {
+  tradeType: SwapTradeType;
+  amount: string;
+  fromToken: string;
+  toToken: string;
+} | null {
+  const token = TOKEN_PATTERN;
+  const amount = AMOUNT_PATTERN;
+
+  const receiveMatch = text.match(new RegExp(
+    String.raw`how\s+much\s+${token}\s+(?:would|will|do|can|could|should)\s+(?:i|we|you)\s+(?:get|receive)\s+(?:for|with|from)\s+${amount}\s+${token}`, 'i'));
+  if (receiveMatch) {
+    const [, toToken, amountStr, fromToken] = receiveMatch;
+    return { tradeType: 'exactInput', amount: amountStr, fromToken: normalizeTokenQuery(fromToken), toToken: normalizeTokenQuery(toToken) };
+  }
+
+  const costMatch = text.match(new RegExp(
+    String.raw`how\s+much\s+${token}\s+(?:would|will|do|does|should)\s+(?:i|we|you|it)\s+(?:need|cost|take)\s+(?:for|to\s+(?:buy|get))\s+${amount}\s+${token}`, 'i'));
+  if (costMatch) {
+    const [, fromToken, amountStr, toToken] = costMatch;
+    return { tradeType: 'exactOutput', amount: amountStr, fromToken: normalizeTokenQuery(fromToken), toToken: normalizeTokenQuery(toToken) };
+  }
+
+  const quoteMatch = text.match(new RegExp(String.raw`\b(?:quote|price)\s+(?:for\s+|of\s+)?${amount}\s+${token}\s+(?:for|to|into|in)\s+${token}`, 'i'));
+  if (quoteMatch) {
+    const [, amountStr, fromToken, toToken] = quoteMatch;
+    return { tradeType: 'exactInput', amount: amountStr, fromToken: normalizeTokenQuery(fromToken), toToken: normalizeTokenQuery(toToken) };
+  }
+
+  return null;
+}
+
 /**
  * Swap Tokens Action
- * Swaps tokens via SaucerSwap DEX (e.g., "Swap 10 HBAR for USDT")
+ * Swaps tokens via SaucerSwap DEX (e.g., "Swap 10 HBAR for SAUCE", "Buy 100 USDC with HBAR")
  */
 const swapTokensAction: Action = {
   name: 'SWAP_TOKENS',
@@ -740,17 +1368,21 @@ const swapTokensAction: Action = {
     // Check for swap-related keywords and token amounts
     const hasSwapKeyword = text.includes('swap') || text.includes('trade') || text.includes('exchange') ||
                           text.includes('buy') || text.includes('sell');
-    const hasAmount = /\d+(\.\d+)?\s*(hbar|whbar|usdt|usdc|sauce|bonzo|kbl)/i.test(text);
-    const hasForKeyword = text.includes(' for ') || text.includes(' to ') || text.includes(' into ');
-
-    return hasSwapKeyword && hasAmount && hasForKeyword;
+    const hasAmount = /\d+(\.\d+)?\s*(hbar|whbar|usdt|usdc|sauce|xsauce|bonzo|kbl|0\.0\.\d+|0x[0-9a-f]{40})/i.test(text);
+    const hasForKeyword = text.includes(' for ') || text.includes(' to ') || text.includes(' into ') ||
+                          text.includes(' with ') || text.includes(' using ');
+
+    // Price questions are answered by GET_QUOTE and never trade; recurring, TWAP, limit and trigger orders have their own actions
+    return hasSwapKeyword && hasAmount && hasForKeyword && parseQuoteRequest(text) === null &&
+      !isDcaRequest(text) && parseTwapRequest(text) === null && parseLimitOrderRequest(text) === null &&
+      parseTriggerOrderRequest(text) === null;
   },
 
   handler: async (
     runtime: IAgentRuntime,
     message: Memory,
     _state: State | undefined,
-    _options: any,
+    options: any,
     callback?: HandlerCallback,
     _responses?: Memory[]
   ): Promise<ActionResult> => {
@@ -764,112 +1396,5658 @@ const swapTokensAction: Action = {
       }
 
       // Parse swap parameters
-      const swapMatch = text.match(/swap\s+(\d+(?:\.\d+)?)\s+(\w+)\s+(?:for|to|into)\s+(\w+)/i) ||
-                       text.match(/(\d+(?:\.\d+)?)\s+(\w+)\s+(?:for|to|into)\s+(\w+)/i);
+      const swapRequest = parseSwapRequest(text);
 
-      if (!swapMatch) {
-        throw new Error('Could not parse swap parameters. Please use format like "Swap 10 HBAR for USDT"');
+      if (!swapRequest) {
+        throw new Error('Could not parse swap parameters. Please use format like "Swap 10 HBAR for SAUCE" or "Buy 100 USDC with HBAR"');
       }
 
-      const [, amountStr, fromToken, toToken] = swapMatch;
-      const amount = parseFloat(amountStr);
-      const fromTokenSymbol = fromToken.toUpperCase();
-      const toTokenSymbol = toToken.toUpperCase();
+      const { tradeType, amount, fromToken: fromTokenSymbol, toToken: toTokenSymbol } = swapRequest;
+      const isExactOutput = tradeType === 'exactOutput';
 
-      logger.info(`Parsed swap: ${amount} ${fromTokenSymbol} -> ${toTokenSymbol}`);
+      const slippageBps = resolveSlippageBps(runtime, text, options);
 
-      // Get configuration
-      const network = runtime.getSetting('HEDERA_NETWORK') || 'testnet'; // Default to testnet for real swaps
-      const privateKeyString = runtime.getSetting('HEDERA_PRIVATE_KEY') || process.env.HEDERA_PRIVATE_KEY;
-      const accountIdString = runtime.getSetting('HEDERA_ACCOUNT_ID') || process.env.HEDERA_ACCOUNT_ID;
+      logger.info(isExactOutput
+        ? `Parsed exact-output swap: ${fromTokenSymbol} -> ${amount} ${toTokenSymbol} (slippage ${formatBps(slippageBps)})`
+        : `Parsed swap: ${amount} ${fromTokenSymbol} -> ${toTokenSymbol} (slippage ${formatBps(slippageBps)})`);
 
-      logger.info(`Network: ${network}, HasPrivateKey: ${!!privateKeyString}, HasAccountId: ${!!accountIdString}`);
+      // Get configuration
+      const profile = resolveNetwork(runtime, 'testnet');
+      const { name: network, mirrorNodeUrl } = profile;
+
+      // Non-custodial: the user signs, so the swap is built for their account without a quote to confirm
+      if (resolveSigningMode(runtime) === 'user') {
+        const userAccountId = resolveUserAccountId(runtime, text, options);
+        logger.info(`Building swap for account ${userAccountId} to sign on ${network}`);
+        const plan = await quoteSwap(amount, fromTokenSymbol, toTokenSymbol, profile, slippageBps, tradeType, resolveMaxHops(runtime));
+        return await buildUnsignedSwap(runtime, plan, userAccountId, profile, message, callback, 'SWAP_TOKENS');
+      }
+
+      const keyConfig = readOperatorKeyConfig(readSetting(runtime));
+      const accountIdString = runtime.getSetting('HEDERA_ACCOUNT_ID') || process.env.HEDERA_ACCOUNT_ID;
+
+      logger.info(`Network: ${network}, HasOperatorKey: ${hasOperatorKey(keyConfig)}, HasAccountId: ${!!accountIdString}`);
+
+      if (!hasOperatorKey(keyConfig) || !accountIdString) {
+        logger.warn('No wallet credentials provided, using simulation mode');
+        const simulation = await simulateSwap(
+          amount,
+          fromTokenSymbol,
+          toTokenSymbol,
+          tradeType,
+          profile,
+          slippageBps,
+          resolveMaxHops(runtime),
+          (await findTradingAccountId(runtime, profile, message.entityId)) ?? undefined
+        );
+        return await handleSwapSimulation(simulation, network, message, callback);
+      }
+
+      // The requesting user's account in per-user mode; fails before quoting if they have none yet
+      const account = await getTradingAccount(runtime, profile, message.entityId);
+
+      // Real swaps are quoted first and only executed once the user confirms the quote
+      const autoAssociate = resolveAutoAssociate(runtime, text, options);
+      const maxHops = resolveMaxHops(runtime);
+      logger.info(`Quoting real swap on ${network}`);
+      const plan = await quoteSwap(amount, fromTokenSymbol, toTokenSymbol, profile, slippageBps, tradeType, maxHops);
+
+      if (!resolveRequireConfirmation(runtime)) {
+        return await executeQuotedSwap(runtime, plan, autoAssociate, account.operatorKey, account.accountId, profile, message, callback, 'SWAP_TOKENS');
+      }
+
+      // Reject trades the policy forbids before showing a quote; they are checked again on confirmation
+      await enforceTradingPolicy(runtime, plan, message.entityId, profile);
+
+      const pending = pendingSwaps.add(message.roomId, message.entityId, { plan, autoAssociate, maxHops }, resolveQuoteTtlSeconds(runtime));
+      return await handlePendingSwapQuote(pending, network, message, callback, 'SWAP_TOKENS');
+
+    } catch (error) {
+      logger.error('Error in SWAP_TOKENS action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to process token swap: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'SWAP_TOKENS_FAILED',
+        },
+        data: {
+          actionName: 'SWAP_TOKENS',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Swap 10 HBAR for SAUCE',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'I\'ll simulate swapping 10 HBAR for SAUCE on SaucerSwap testnet...',
+          actions: ['SWAP_TOKENS'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Trade 100 USDC for SAUCE',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Let me simulate trading 100 USDC for SAUCE tokens...',
+          actions: ['SWAP_TOKENS'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Exchange 5.5 WHBAR to BONZO',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'I\'ll simulate exchanging 5.5 WHBAR to BONZO tokens...',
+          actions: ['SWAP_TOKENS'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Buy 100 USDC with HBAR',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'I\'ll quote how much HBAR is needed to buy exactly 100 USDC and execute the swap...',
+          actions: ['SWAP_TOKENS'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Confirm Swap Action
+ * Executes a previously quoted swap (e.g., "confirm 3f9a2c1b"), re-quoting it if the price moved
+ */
+const confirmSwapAction: Action = {
+  name: 'CONFIRM_SWAP',
+  similes: ['EXECUTE_SWAP', 'APPROVE_SWAP', 'CONFIRM_TRADE'],
+  description: 'Confirms and executes a pending swap quote by its ID',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseConfirmRequest(text) !== null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling CONFIRM_SWAP action');
+
+      // Buttons and other integrations can pass the quote ID directly
+      const quoteId = options?.quoteId ?? parseConfirmRequest(message.content.text || '')?.quoteId;
+      const lookup = pendingSwaps.find(message.roomId, message.entityId, quoteId);
+
+      if (lookup.status === 'not_found') {
+        throw new Error(quoteId
+          ? `No pending swap quote ${quoteId} found for you. Request a new swap quote first.`
+          : 'No single pending swap quote found for you. Reply with "confirm <quote id>".');
+      }
+
+      if (lookup.status === 'expired') {
+        pendingSwaps.remove(lookup.swap.id);
+        throw new Error(`Swap quote ${lookup.swap.id} has expired. Request a new swap quote.`);
+      }
+
+      // The quote stays pending until it is used up, so failed checks below leave it confirmable;
+      // removing it is what claims it, so concurrent confirmations execute it only once
+      const claimQuote = () => {
+        if (!pendingSwaps.remove(lookup.swap.id)) {
+          throw new Error(`Swap quote ${lookup.swap.id} is already being confirmed.`);
+        }
+      };
+
+      const { plan: acceptedPlan, autoAssociate, maxHops } = lookup.swap.request;
+
+      const profile = resolveNetwork(runtime, 'testnet');
+      const { name: network, mirrorNodeUrl } = profile;
+
+      const keyConfig = readOperatorKeyConfig(readSetting(runtime));
+      const accountIdString = runtime.getSetting('HEDERA_ACCOUNT_ID') || process.env.HEDERA_ACCOUNT_ID;
+
+      if (!hasOperatorKey(keyConfig) || !accountIdString) {
+        throw new Error('Wallet credentials are required to execute swaps');
+      }
+      const account = await getTradingAccount(runtime, profile, message.entityId);
+
+      // Re-quote: the price may have moved since the quote was shown
+      const freshPlan = await quoteSwap(
+        acceptedPlan.amount,
+        acceptedPlan.fromTokenId,
+        acceptedPlan.toTokenId,
+        profile,
+        acceptedPlan.slippageBps,
+        acceptedPlan.tradeType,
+        maxHops
+      );
+
+      if (!isQuoteWithinLimit(freshPlan, acceptedPlan.amountLimit)) {
+        logger.info(`Price moved beyond tolerance for quote ${lookup.swap.id}, issuing a new quote`);
+        claimQuote();
+        const pending = pendingSwaps.add(
+          message.roomId,
+          message.entityId,
+          { plan: freshPlan, autoAssociate, maxHops },
+          resolveQuoteTtlSeconds(runtime)
+        );
+        return await handlePendingSwapQuote(
+          pending,
+          network,
+          message,
+          callback,
+          'CONFIRM_SWAP',
+          `The price moved beyond your ${formatBps(acceptedPlan.slippageBps)} tolerance since quote ${lookup.swap.id}, so it was not executed.`
+        );
+      }
+
+      // Execute at the fresh price, still bounded by the limit the user accepted
+      return await executeQuotedSwap(
+        runtime,
+        { ...freshPlan, amountLimit: acceptedPlan.amountLimit },
+        autoAssociate,
+        account.operatorKey,
+        account.accountId,
+        profile,
+        message,
+        callback,
+        'CONFIRM_SWAP',
+        { quoteId: lookup.swap.id },
+        claimQuote
+      );
+    } catch (error) {
+      logger.error('Error in CONFIRM_SWAP action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to confirm swap: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'CONFIRM_SWAP_FAILED',
+        },
+        data: {
+          actionName: 'CONFIRM_SWAP',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'confirm 3f9a2c1b',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Re-checking the price and executing swap quote 3f9a2c1b...',
+          actions: ['CONFIRM_SWAP'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Parse a swap confirmation ("confirm 3f9a2c1b", "confirm swap 3f9a2c1b", "confirm")
+ */
+function parseConfirmRequest(text: string): { quoteId?: string } | null {
+  const match = text.trim().match(/^confirm(?:\s+(?:swap|quote))?(?:\s+#?([0-9a-f]{8}))?[\s.!]*$/i);
+  if (!match) {
+    return null;
+  }
+
+  return match[1] ? { quoteId: match[1].toLowerCase() } : {};
+}
+
+/**
+ * Show a pending swap quote and how to confirm it
+ */
+async function handlePendingSwapQuote(
+  pending: PendingSwap<PendingSwapRequest>,
+  network: string,
+  message: Memory,
+  callback: HandlerCallback | undefined,
+  actionName: string,
+  notice?: string
+): Promise<ActionResult> {
+  const { plan } = pending.request;
+  const { tradeType, amount, fromToken, toToken, slippageBps } = plan;
+  const isExactOutput = tradeType === 'exactOutput';
+  const quoteDetails = formatQuoteDetails(plan);
+  const expiresInSeconds = Math.max(0, Math.round((pending.expiresAt - Date.now()) / 1000));
+
+  let quoteText = notice ? `⚠️ ${notice}\n\n` : '';
+  quoteText += `📋 **Swap Quote ${pending.id}** (${network})\n\n`;
+  if (isExactOutput) {
+    quoteText += `• **Buy:** ${amount} ${toToken} (exact output)\n`;
+    quoteText += `• **Quoted Input:** ${quoteDetails.quotedAmountIn} ${fromToken}\n`;
+    quoteText += `• **Maximum Spent:** ${quoteDetails.amountInMaximum} ${fromToken}\n`;
+  } else {
+    quoteText += `• **Sell:** ${amount} ${fromToken}\n`;
+    quoteText += `• **Quoted Output:** ${quoteDetails.quotedAmountOut} ${toToken}\n`;
+    quoteText += `• **Minimum Received:** ${quoteDetails.amountOutMinimum} ${toToken}\n`;
+  }
+  quoteText += `• **Slippage Tolerance:** ${formatBps(slippageBps)}\n`;
+  quoteText += `• **Route:** ${plan.routeDescription}\n`;
+  quoteText += `• **Fee Tier:** ${plan.route.fees.map(formatFeeTier).join(' → ')} (${plan.feeTierReason})\n`;
+  quoteText += describeUnverifiedTokens(plan);
+  quoteText += `• **Expires:** in ${expiresInSeconds} seconds\n\n`;
+  quoteText += `Reply **confirm ${pending.id}** to execute this swap. If the price moves beyond your tolerance before then, you will get a new quote instead.\n`;
+
+  if (callback) {
+    await callback({
+      text: quoteText,
+      actions: [actionName],
+      source: message.content.source,
+    });
+  }
+
+  return {
+    text: `Quoted swap ${pending.id}: awaiting confirmation`,
+    values: {
+      success: true,
+      pendingConfirmation: true,
+      quoteId: pending.id,
+      expiresAt: pending.expiresAt,
+      tradeType: tradeType,
+      amount: amount,
+      fromToken: fromToken,
+      toToken: toToken,
+      ...quoteDetails,
+      slippageBps: slippageBps,
+      route: plan.routeDescription,
+      network: network,
+      simulation: false,
+    },
+    data: {
+      actionName: actionName,
+      messageId: message.id,
+      timestamp: Date.now(),
+      quoteId: pending.id,
+      expiresAt: pending.expiresAt,
+      route: {
+        tokens: plan.route.tokens,
+        symbols: plan.routeSymbols,
+        fees: plan.route.fees,
+        description: plan.routeDescription,
+      },
+      network: network,
+    },
+    success: true,
+  };
+}
+
+/**
+ * Swap History Action
+ * Lists the requesting user's swaps from the ledger (e.g., "Show my last 10 swaps")
+ */
+const swapHistoryAction: Action = {
+  name: 'SWAP_HISTORY',
+  similes: ['SHOW_SWAPS', 'TRADE_HISTORY', 'MY_SWAPS', 'LIST_SWAPS'],
+  description: 'Lists your past swaps with their status, amounts, route and fees, optionally filtered by token and date',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseSwapHistoryRequest(text) !== null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling SWAP_HISTORY action');
+
+      const filter = parseSwapHistoryRequest(message.content.text || '') || {};
+
+      const { name: network, mirrorNodeUrl } = resolveNetwork(runtime, 'testnet');
+
+      const ledger = new SwapLedger(runtime);
+      let swaps = await ledger.history(message.entityId, filter);
+
+      // Settle swaps still pending on this network before showing them
+      try {
+        const settled = await ledger.reconcile(swaps.filter((swap) => swap.network === network), mirrorNodeUrl);
+        const settledById = new Map(settled.map((swap) => [swap.id, swap]));
+        swaps = swaps.map((swap) => settledById.get(swap.id) || swap);
+      } catch (error) {
+        logger.warn('Could not reconcile pending swaps:', error);
+      }
+
+      const responseText = formatSwapHistory(swaps, filter);
+
+      if (callback) {
+        await callback({
+          text: responseText,
+          actions: ['SWAP_HISTORY'],
+          source: message.content.source,
+        });
+      }
+
+      return {
+        text: `Found ${swaps.length} swap${swaps.length === 1 ? '' : 's'}`,
+        values: {
+          success: true,
+          count: swaps.length,
+          token: filter.token,
+          since: filter.since,
+          until: filter.until,
+          pending: swaps.filter((swap) => swap.status === 'pending').length,
+        },
+        data: {
+          actionName: 'SWAP_HISTORY',
+          messageId: message.id,
+          timestamp: Date.now(),
+          swaps: swaps,
+        },
+        success: true,
+      };
+    } catch (error) {
+      logger.error('Error in SWAP_HISTORY action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to load swap history: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'SWAP_HISTORY_FAILED',
+        },
+        data: {
+          actionName: 'SWAP_HISTORY',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Show my last 10 swaps',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Here are your last 10 swaps...',
+          actions: ['SWAP_HISTORY'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Swap history for USDC since 2026-01-01',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Here are your USDC swaps since 2026-01-01...',
+          actions: ['SWAP_HISTORY'],
+        },
+      },
+    ],
+  ],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a swap history request ("show my last 10 swaps", "swap history for USDC since 2026-01-01",
+ * "my SAUCE trades in the last 7 days")
+ */
+function parseSwapHistoryRequest(text: string, now: number = Date.now()): SwapHistoryFilter | null {
+  if (!/\b(?:swap|trade|transaction)\s+history\b|\b(?:my|last|latest|recent|past)\b.*\b(?:swaps|trades)\b/i.test(text)) {
+    return null;
+  }
+
+  const filter: SwapHistoryFilter = {};
+
+  const limitMatch = text.match(/\b(?:last|latest|recent)\s+(\d+)\b(?!\s*(?:days?|weeks?|hours?)\b)/i);
+  if (limitMatch) {
+    filter.limit = Number(limitMatch[1]);
+  }
+
+  const knownTokens = new Set(Object.keys(NETWORK_PROFILES).flatMap((network) => curatedTokensFor(network)).map((token) => token.symbol.toUpperCase()));
+  const token = (text.match(/\b[A-Za-z]\w*(?:\[\w+\])?/g) || []).find((word) => knownTokens.has(word.toUpperCase()));
+  if (token) {
+    filter.token = token.toUpperCase();
+  }
+
+  const sinceMatch = text.match(/\b(?:since|after|from)\s+(\d{4}-\d{2}-\d{2})\b/i);
+  if (sinceMatch) {
+    filter.since = Date.parse(`${sinceMatch[1]}T00:00:00Z`);
+  }
+  const untilMatch = text.match(/\b(?:until|before|to)\s+(\d{4}-\d{2}-\d{2})\b/i);
+  if (untilMatch) {
+    filter.until = Date.parse(`${untilMatch[1]}T23:59:59.999Z`);
+  }
+
+  const daysMatch = text.match(/\b(?:last|past)\s+(\d+)\s+(day|week)s?\b/i);
+  if (daysMatch) {
+    filter.since = now - Number(daysMatch[1]) * (daysMatch[2].toLowerCase() === 'week' ? 7 : 1) * DAY_MS;
+  } else if (/\btoday\b/i.test(text)) {
+    filter.since = now - (now % DAY_MS);
+  } else if (/\bthis week\b/i.test(text)) {
+    filter.since = now - 7 * DAY_MS;
+  }
+
+  if (Number.isNaN(filter.since) || Number.isNaN(filter.until)) {
+    return null;
+  }
+
+  return filter;
+}
+
+const SWAP_STATUS_ICONS = { success: '✅', pending: '⏳', failed: '❌' };
+
+/**
+ * Format ledger entries for chat, newest first
+ */
+function formatSwapHistory(swaps: StoredSwap[], filter: SwapHistoryFilter): string {
+  const scope = [
+    filter.token ? `${filter.token} ` : '',
+    'swaps',
+    filter.since !== undefined ? ` since ${new Date(filter.since).toISOString().slice(0, 10)}` : '',
+    filter.until !== undefined ? ` until ${new Date(filter.until).toISOString().slice(0, 10)}` : '',
+  ].join('');
+
+  if (swaps.length === 0) {
+    return `📒 **Swap History**\n\nNo ${scope} found.`;
+  }
+
+  let text = `📒 **Swap History** (${swaps.length} ${scope})\n\n`;
+  swaps.forEach((swap, i) => {
+    const fees = [
+      swap.networkFee && `network ${swap.networkFee} HBAR`,
+      swap.associationFee && `association ${swap.associationFee} HBAR`,
+      swap.allowanceFee && `allowance ${swap.allowanceFee} HBAR`,
+    ].filter(Boolean).join(', ');
+
+    text += `${i + 1}. ${SWAP_STATUS_ICONS[swap.status]} **${swap.amountIn ?? '?'} ${swap.fromToken} → ${swap.amountOut ?? '?'} ${swap.toToken}**`;
+    text += ` (${new Date(swap.createdAt).toISOString().replace('T', ' ').slice(0, 16)} UTC, ${swap.network})\n`;
+    text += `   • Route: ${swap.route}\n`;
+    if (fees) {
+      text += `   • Fees: ${fees}\n`;
+    }
+    if (swap.status === 'failed' && swap.failureReason) {
+      text += `   • Failed: ${swap.failureReason}\n`;
+    }
+    const origin = swap.quoteId ? ` (quote ${swap.quoteId})`
+      : swap.orderId ? ` (order ${shortOrderId(swap.orderId)})`
+      : swap.dcaPlanId ? ` (DCA plan ${shortPlanId(swap.dcaPlanId)})`
+      : swap.twapOrderId ? ` (TWAP ${shortTwapId(swap.twapOrderId)})`
+      : '';
+    text += `   • Transaction: ${swap.transactionId}${origin}\n`;
+  });
+
+  return text;
+}
+
+/**
+ * Execute a quoted swap with the configured wallet and report the result
+ * Throws when the swap fails so the calling action can report the error
+ * beforeExecute runs once the trade passed the trading policy, before anything is submitted; throwing aborts the swap
+ */
+async function executeQuotedSwap(
+  runtime: IAgentRuntime,
+  plan: SwapQuotePlan,
+  autoAssociate: boolean,
+  operatorKey: PrivateKey,
+  accountIdString: string,
+  profile: NetworkProfile,
+  message: Memory,
+  callback: HandlerCallback | undefined,
+  actionName: string,
+  origin: SwapOrigin = {},
+  beforeExecute?: () => void
+): Promise<ActionResult> {
+  const { tradeType, amount, fromToken: fromTokenSymbol, toToken: toTokenSymbol, slippageBps } = plan;
+  const isExactOutput = tradeType === 'exactOutput';
+  const network = profile.name;
+
+  const { valueUsd, releaseVolume } = await enforceTradingPolicy(runtime, plan, message.entityId, profile, true);
+
+  // The swap is stored as pending as soon as it is submitted, then settled below
+  const ledger = new SwapLedger(runtime);
+  const quoteDetails = formatQuoteDetails(plan);
+  let ledgerId: UUID | undefined;
+  const recordSubmittedSwap = async (transactionId: string) => {
+    const now = Date.now();
+    try {
+      ledgerId = await ledger.record({
+        entityId: message.entityId,
+        roomId: message.roomId,
+        ...origin,
+        network,
+        tradeType,
+        fromToken: fromTokenSymbol,
+        toToken: toTokenSymbol,
+        amountIn: isExactOutput ? quoteDetails.quotedAmountIn : amount,
+        amountOut: isExactOutput ? amount : quoteDetails.quotedAmountOut,
+        route: plan.routeDescription,
+        transactionId,
+        status: 'pending',
+        valueUsd,
+        createdAt: now,
+        updatedAt: now,
+      });
+    } catch (error) {
+      logger.warn('Could not record swap in the ledger:', error);
+    }
+  };
+  const settleRecordedSwap = async (changes: Parameters<SwapLedger['update']>[1]) => {
+    if (!ledgerId) {
+      return;
+    }
+    try {
+      await ledger.update(ledgerId, changes);
+    } catch (error) {
+      logger.warn('Could not update swap in the ledger:', error);
+    }
+  };
+
+  let swapResult: Awaited<ReturnType<typeof executeRealSwap>>;
+  try {
+    beforeExecute?.();
+    swapResult = await executeRealSwap(
+      plan,
+      operatorKey,
+      accountIdString,
+      profile,
+      autoAssociate,
+      resolveAllowanceCap(runtime),
+      resolveGasMarginBps(runtime),
+      recordSubmittedSwap
+    );
+  } finally {
+    // A submitted swap counts towards the daily volumes through its ledger entry
+    releaseVolume?.();
+  }
+
+  if (!swapResult.success) {
+    // Without a receipt status the outcome is unknown; the swap stays pending until reconciled
+    await settleRecordedSwap(swapResult.receiptStatus
+      ? { status: 'failed', failureReason: swapResult.error }
+      : { failureReason: swapResult.error });
+    throw new Error(`Swap execution failed: ${swapResult.error}`);
+  }
+
+  await settleRecordedSwap({
+    status: 'success',
+    amountIn: swapResult.amountIn ?? (isExactOutput ? swapResult.quotedAmountIn : amount),
+    amountOut: swapResult.amountOut && swapResult.amountOut !== 'Unknown'
+      ? swapResult.amountOut
+      : (isExactOutput ? amount : swapResult.quotedAmountOut),
+    networkFee: swapResult.transactionFee,
+    associationFee: swapResult.tokenAssociation?.fee,
+    allowanceFee: swapResult.tokenAllowance?.fee,
+  });
+
+  // Format successful swap response
+  let swapText = `✅ **Token Swap Executed Successfully!**\n\n`;
+  swapText += `**Transaction Details:**\n`;
+  if (isExactOutput) {
+    swapText += `• **Bought:** ${amount} ${toTokenSymbol} (exact output)\n`;
+    if (swapResult.amountIn) {
+      swapText += `• **Spent:** ${swapResult.amountIn} ${fromTokenSymbol}\n`;
+    }
+    swapText += `• **Quoted Input:** ${swapResult.quotedAmountIn} ${fromTokenSymbol}\n`;
+    swapText += `• **Maximum Spent:** ${swapResult.amountInMaximum} ${fromTokenSymbol}\n`;
+    if (fromTokenSymbol === 'HBAR') {
+      swapText += `• **Refund:** Unused HBAR is returned to your account\n`;
+    }
+  } else {
+    swapText += `• **From:** ${amount} ${fromTokenSymbol}\n`;
+    swapText += `• **To:** ${swapResult.amountOut || 'Processing...'} ${toTokenSymbol}\n`;
+    swapText += `• **Quoted Output:** ${swapResult.quotedAmountOut} ${toTokenSymbol}\n`;
+    swapText += `• **Minimum Received:** ${swapResult.amountOutMinimum} ${toTokenSymbol}\n`;
+  }
+  if (swapResult.unwrappedToHbar) {
+    swapText += `• **Delivery:** Native HBAR (WHBAR unwrapped by the router)\n`;
+  }
+  swapText += `• **Slippage Tolerance:** ${formatBps(slippageBps)}\n`;
+  if (swapResult.route) {
+    swapText += `• **Route:** ${swapResult.route.description}\n`;
+    swapText += `• **Fee Tier:** ${swapResult.route.fees.map(formatFeeTier).join(' → ')} (${swapResult.route.feeTierReason})\n`;
+  }
+  if (swapResult.effectivePrice) {
+    swapText += `• **Effective Price:** ${swapResult.effectivePrice} ${toTokenSymbol} per ${fromTokenSymbol}\n`;
+  }
+  if (swapResult.networkFeeEstimate) {
+    const estimate = swapResult.networkFeeEstimate;
+    const gasSource = estimate.gasEstimate !== undefined
+      ? `estimate ${estimate.gasEstimate} + ${formatBps(estimate.gasMarginBps)} margin`
+      : 'fallback, estimate unavailable';
+    swapText += `• **Estimated Network Fee:** ${estimate.fee ?? 'Unknown'} HBAR${estimate.feeUsd ? ` (~$${estimate.feeUsd})` : ''} for a gas limit of ${estimate.gasLimit} (${gasSource})\n`;
+  }
+  if (swapResult.transactionFee) {
+    swapText += `• **Network Fee:** ${swapResult.transactionFee} HBAR (gas used: ${swapResult.gasUsed})\n`;
+  }
+  if (swapResult.tokenAssociation) {
+    swapText += `• **Token Association:** ${toTokenSymbol} (${swapResult.tokenAssociation.tokenId}) associated for ${swapResult.tokenAssociation.fee} HBAR\n`;
+  }
+  if (swapResult.tokenAllowance) {
+    const allowance = swapResult.tokenAllowance;
+    swapText += allowance.approved
+      ? `• **Token Allowance:** Approved router ${allowance.spender} to spend ${allowance.amount} ${fromTokenSymbol} (${allowance.mode}) for ${allowance.fee} HBAR\n`
+      : `• **Token Allowance:** Existing allowance of ${allowance.previousAmount} ${fromTokenSymbol} covers this swap\n`;
+  }
+  swapText += `• **Transaction ID:** ${swapResult.transactionId}\n`;
+  swapText += `• **Network:** ${network.toUpperCase()}\n\n`;
+
+  swapText += `**🔗 View Transaction:**\n`;
+  const explorerUrl = getTransactionExplorerUrl(profile, swapResult.transactionId!);
+  if (explorerUrl) {
+    swapText += `• [Explorer](${explorerUrl})\n`;
+  }
+  swapText += `• [SaucerSwap](https://app.saucerswap.finance)\n\n`;
+
+  swapText += `**⚠️ Important Notes:**\n`;
+  swapText += `• Transaction may take a few moments to confirm\n`;
+  swapText += `• Check your wallet for updated balances\n`;
+  swapText += `• Save the transaction ID for your records\n`;
+
+  // Response content
+  const responseContent: Content = {
+    text: swapText,
+    actions: [actionName],
+    source: message.content.source,
+  };
+
+  // Call back with the swap information
+  if (callback) {
+    await callback(responseContent);
+  }
+
+  return {
+    text: isExactOutput
+      ? `Successfully executed swap: ${fromTokenSymbol} → ${amount} ${toTokenSymbol}`
+      : `Successfully executed swap: ${amount} ${fromTokenSymbol} → ${toTokenSymbol}`,
+    values: {
+      success: true,
+      tradeType: tradeType,
+      amount: amount,
+      fromToken: fromTokenSymbol,
+      toToken: toTokenSymbol,
+      transactionId: swapResult.transactionId,
+      amountIn: swapResult.amountIn,
+      amountOut: swapResult.amountOut,
+      effectivePrice: swapResult.effectivePrice,
+      transactionFee: swapResult.transactionFee,
+      quotedAmountOut: swapResult.quotedAmountOut,
+      amountOutMinimum: swapResult.amountOutMinimum,
+      quotedAmountIn: swapResult.quotedAmountIn,
+      amountInMaximum: swapResult.amountInMaximum,
+      slippageBps: slippageBps,
+      route: swapResult.route?.description,
+      allowanceApproved: swapResult.tokenAllowance?.approved,
+      network: network,
+      simulation: false,
+    },
+    data: {
+      actionName: actionName,
+      messageId: message.id,
+      timestamp: Date.now(),
+      swapResult: swapResult,
+      route: swapResult.route,
+      network: network,
+      simulation: false,
+    },
+    success: true,
+  };
+}
+
+/**
+ * A swap built for the user to sign, kept until its transactions are submitted or expire
+ */
+interface UnsignedSwap {
+  entityId: UUID;
+  roomId: UUID;
+  accountId: string;
+  profile: NetworkProfile;
+  plan: SwapQuotePlan;
+  valueUsd?: number;
+  transactions: { kind: UnsignedTransactionKind; transactionId: string; body: string }[]; // In submission order
+  expiresAt: number;
+}
+
+// Swaps awaiting the user's signature, by the ID of each of their transactions
+const unsignedSwaps = new Map<string, UnsignedSwap>();
+
+function pruneUnsignedSwaps(now: number = Date.now()): void {
+  for (const [transactionId, swap] of unsignedSwaps) {
+    if (swap.expiresAt <= now) {
+      unsignedSwaps.delete(transactionId);
+    }
+  }
+}
+
+/**
+ * Build a swap for the user's own account and freeze it for signing outside the agent:
+ * the token association and router allowance it needs (if any), then the router call
+ */
+async function buildUnsignedSwap(
+  runtime: IAgentRuntime,
+  plan: SwapQuotePlan,
+  accountIdString: string,
+  profile: NetworkProfile,
+  message: Memory,
+  callback: HandlerCallback | undefined,
+  actionName: string
+): Promise<ActionResult> {
+  const { tradeType, amount, fromToken, toToken, fromTokenAddress, toTokenAddress, fromTokenDecimals, slippageBps } = plan;
+  const isExactOutput = tradeType === 'exactOutput';
+  const { name: network, mirrorNodeUrl } = profile;
+
+  const { valueUsd } = await enforceTradingPolicy(runtime, plan, message.entityId, profile);
+
+  const routerAddress = requireContract(profile, 'router');
+  const { encodedData, maxAmountIn } = encodeSwapMulticall(plan, accountIdString, routerAddress);
+  const quoteDetails = formatQuoteDetails(plan);
+  const formatHbar = (tinybars: bigint) => formatTokenAmount(tokenAmountFromRaw(tinybars, HBAR_DECIMALS));
+
+  // Native HBAR output is unwrapped by the router and needs no association
+  const association = toToken === 'HBAR' ? null : await checkTokenAssociation(mirrorNodeUrl, accountIdString, toTokenAddress);
+  const needsAssociation = association !== null && !association.associated && !association.autoAssociates;
+
+  let allowanceAmount: bigint | undefined;
+  if (fromToken !== 'HBAR') {
+    const previous = await getTokenAllowance(mirrorNodeUrl, accountIdString, routerAddress, fromTokenAddress);
+    if (previous < maxAmountIn) {
+      const allowanceCap = resolveAllowanceCap(runtime);
+      allowanceAmount = resolveAllowanceAmount(
+        maxAmountIn,
+        allowanceCap !== undefined ? parseTokenAmount(allowanceCap, fromTokenDecimals).raw : undefined
+      );
+    }
+  }
+
+  // Falls back to the default gas limit while the prerequisites are not yet on chain
+  const payableTinybars = fromToken === 'HBAR' ? maxAmountIn : 0n;
+  const gasMarginBps = resolveGasMarginBps(runtime);
+  const feeEstimate = await estimateContractCallFee(mirrorNodeUrl, {
+    to: hederaIdToEvmAddress(routerAddress),
+    data: encodedData,
+    from: hederaIdToEvmAddress(accountIdString),
+    value: Number(payableTinybars),
+  }, gasMarginBps);
+
+  const steps: { kind: UnsignedTransactionKind; description: string; transaction: Transaction }[] = [];
+  if (needsAssociation) {
+    steps.push({
+      kind: 'tokenAssociation',
+      description: `Associate ${accountIdString} with ${toToken} (${toTokenAddress})`,
+      transaction: buildTokenAssociation(accountIdString, toTokenAddress),
+    });
+  }
+  if (allowanceAmount !== undefined) {
+    steps.push({
+      kind: 'tokenAllowance',
+      description: `Approve router ${routerAddress} to spend ${formatTokenAmount(tokenAmountFromRaw(allowanceAmount, fromTokenDecimals))} ${fromToken}`,
+      transaction: buildTokenAllowanceApproval(accountIdString, routerAddress, fromTokenAddress, allowanceAmount),
+    });
+  }
+  steps.push({
+    kind: 'swap',
+    description: isExactOutput
+      ? `Buy ${amount} ${toToken} for at most ${quoteDetails.amountInMaximum} ${fromToken}`
+      : `Swap ${amount} ${fromToken} for at least ${quoteDetails.amountOutMinimum} ${toToken}`,
+    transaction: buildSwapTransaction(routerAddress, Number(feeEstimate.gasLimit), encodedData, payableTinybars),
+  });
+
+  const client = createHederaClient(profile);
+  const unsignedSwap: UnsignedSwap = {
+    entityId: message.entityId,
+    roomId: message.roomId,
+    accountId: accountIdString,
+    profile,
+    plan,
+    valueUsd,
+    transactions: [],
+    expiresAt: Infinity,
+  };
+  const transactions: UnsignedTransaction[] = [];
+  try {
+    const nodeAccountId = selectSigningNode(client);
+    for (const { kind, description, transaction } of steps) {
+      const frozen = freezeForSigning(transaction, accountIdString, nodeAccountId, client);
+      const transactionId = frozen.transactionId!;
+      transactions.push({
+        kind,
+        description,
+        transactionId: transactionId.toString(),
+        nodeAccountId: nodeAccountId.toString(),
+        bytes: serializeTransaction(frozen),
+      });
+      unsignedSwap.transactions.push({ kind, transactionId: transactionId.toString(), body: getSignableBody(frozen) });
+      unsignedSwap.expiresAt = Math.min(
+        unsignedSwap.expiresAt,
+        transactionId.validStart!.toDate().getTime() + SIGNING_VALID_DURATION_SECONDS * 1000
+      );
+    }
+  } finally {
+    client.close();
+  }
+
+  pruneUnsignedSwaps();
+  for (const { transactionId } of unsignedSwap.transactions) {
+    unsignedSwaps.set(transactionId, unsignedSwap);
+  }
+
+  const expiresInSeconds = Math.max(0, Math.round((unsignedSwap.expiresAt - Date.now()) / 1000));
+
+  let swapText = `✍️ **Swap Ready to Sign** (${network})\n\n`;
+  swapText += `• **Account:** ${accountIdString}\n`;
+  if (isExactOutput) {
+    swapText += `• **Buy:** ${amount} ${toToken} (exact output)\n`;
+    swapText += `• **Quoted Input:** ${quoteDetails.quotedAmountIn} ${fromToken}\n`;
+    swapText += `• **Maximum Spent:** ${quoteDetails.amountInMaximum} ${fromToken}\n`;
+  } else {
+    swapText += `• **Sell:** ${amount} ${fromToken}\n`;
+    swapText += `• **Quoted Output:** ${quoteDetails.quotedAmountOut} ${toToken}\n`;
+    swapText += `• **Minimum Received:** ${quoteDetails.amountOutMinimum} ${toToken}\n`;
+  }
+  swapText += `• **Slippage Tolerance:** ${formatBps(slippageBps)}\n`;
+  swapText += `• **Route:** ${plan.routeDescription}\n`;
+  swapText += `• **Fee Tier:** ${plan.route.fees.map(formatFeeTier).join(' → ')} (${plan.feeTierReason})\n`;
+  swapText += describeUnverifiedTokens(plan);
+  if (feeEstimate.feeTinybars !== undefined) {
+    swapText += `• **Estimated Network Fee:** ${formatHbar(feeEstimate.feeTinybars)} HBAR${feeEstimate.feeUsd ? ` (~$${feeEstimate.feeUsd})` : ''} for a gas limit of ${feeEstimate.gasLimit}\n`;
+  }
+  swapText += `\n**Transactions to sign, in order:**\n`;
+  transactions.forEach((transaction, index) => {
+    swapText += `${index + 1}. ${transaction.description} (${transaction.transactionId}, node ${transaction.nodeAccountId})\n`;
+  });
+  swapText += `\nSign them with the key of ${accountIdString} and POST the signed bytes to /api/transactions/submit within ${expiresInSeconds} seconds. `;
+  swapText += `The agent does not hold your key and cannot submit them unsigned.\n`;
+
+  if (callback) {
+    await callback({
+      text: swapText,
+      actions: [actionName],
+      source: message.content.source,
+      transactions,
+    });
+  }
+
+  const swapTransactionId = transactions[transactions.length - 1].transactionId;
+
+  return {
+    text: isExactOutput
+      ? `Built swap ${fromToken} → ${amount} ${toToken} for ${accountIdString} to sign`
+      : `Built swap ${amount} ${fromToken} → ${toToken} for ${accountIdString} to sign`,
+    values: {
+      success: true,
+      awaitingSignature: true,
+      signingMode: 'user',
+      accountId: accountIdString,
+      transactionId: swapTransactionId,
+      transactionCount: transactions.length,
+      expiresAt: unsignedSwap.expiresAt,
+      tradeType: tradeType,
+      amount: amount,
+      fromToken: fromToken,
+      toToken: toToken,
+      ...quoteDetails,
+      slippageBps: slippageBps,
+      route: plan.routeDescription,
+      network: network,
+      simulation: false,
+    },
+    data: {
+      actionName: actionName,
+      messageId: message.id,
+      timestamp: Date.now(),
+      transactions,
+      expiresAt: unsignedSwap.expiresAt,
+      networkFeeEstimate: {
+        gasEstimate: feeEstimate.gasEstimate !== undefined ? Number(feeEstimate.gasEstimate) : undefined,
+        gasLimit: Number(feeEstimate.gasLimit),
+        gasMarginBps,
+        fee: feeEstimate.fee,
+        feeUsd: feeEstimate.feeUsd,
+      },
+      route: {
+        tokens: plan.route.tokens,
+        symbols: plan.routeSymbols,
+        fees: plan.route.fees,
+        description: plan.routeDescription,
+      },
+      network: network,
+      simulation: false,
+    },
+    success: true,
+  };
+}
+
+/**
+ * Outcome of one submitted transaction
+ */
+interface SubmittedTransaction {
+  kind: UnsignedTransactionKind;
+  transactionId: string;
+  status: string; // Receipt status, or the precheck/network error when there is no receipt
+  explorerUrl?: string;
+}
+
+/**
+ * Submit transactions a user signed, in the order they were built, and track the swap in the
+ * ledger like an agent-signed one; stops at the first transaction that does not succeed
+ */
+async function submitSignedSwap(
+  runtime: IAgentRuntime,
+  signedTransactions: string[]
+): Promise<{ success: boolean; transactions: SubmittedTransaction[]; swapId?: UUID; error?: string }> {
+  pruneUnsignedSwaps();
+
+  const decoded = signedTransactions.map((bytes) => {
+    const transaction = decodeSignedTransaction(bytes);
+    const transactionId = transaction.transactionId!.toString();
+    const swap = unsignedSwaps.get(transactionId);
+    if (!swap) {
+      throw new Error(`Transaction ${transactionId} was not built by this agent or has expired. Request the swap again.`);
+    }
+
+    const built = swap.transactions.find((candidate) => candidate.transactionId === transactionId)!;
+    if (getSignableBody(transaction) !== built.body) {
+      throw new Error(`Transaction ${transactionId} was modified after it was built`);
+    }
+    return { transaction, transactionId, swap, built };
+  });
+
+  const swap = decoded[0].swap;
+  if (decoded.some((entry) => entry.swap !== swap)) {
+    throw new Error('All submitted transactions must belong to the same swap');
+  }
+
+  decoded.sort((a, b) => swap.transactions.indexOf(a.built) - swap.transactions.indexOf(b.built));
+  for (const { transactionId } of decoded) {
+    unsignedSwaps.delete(transactionId);
+  }
+
+  const { plan, profile } = swap;
+
+  // Other swaps may have used up the daily volumes since this one was built, so the policy is checked again
+  // and the trade holds its share of the volumes until its ledger entry counts it
+  const { valueUsd, releaseVolume } = decoded.some(({ built }) => built.kind === 'swap')
+    ? await enforceTradingPolicy(runtime, plan, swap.entityId, profile, true)
+    : {};
+
+  const isExactOutput = plan.tradeType === 'exactOutput';
+  const quoteDetails = formatQuoteDetails(plan);
+  const ledger = new SwapLedger(runtime);
+  const client = createHederaClient(profile);
+  const results: SubmittedTransaction[] = [];
+  let swapId: UUID | undefined;
+
+  try {
+    for (const { transaction, transactionId, built } of decoded) {
+      const explorerUrl = getTransactionExplorerUrl(profile, transactionId);
+
+      // The swap is stored as pending before it is submitted, then settled from its receipt
+      if (built.kind === 'swap') {
+        const now = Date.now();
+        try {
+          swapId = await ledger.record({
+            entityId: swap.entityId,
+            roomId: swap.roomId,
+            network: profile.name,
+            tradeType: plan.tradeType,
+            fromToken: plan.fromToken,
+            toToken: plan.toToken,
+            amountIn: isExactOutput ? quoteDetails.quotedAmountIn : plan.amount,
+            amountOut: isExactOutput ? plan.amount : quoteDetails.quotedAmountOut,
+            route: plan.routeDescription,
+            transactionId,
+            status: 'pending',
+            valueUsd: valueUsd ?? swap.valueUsd,
+            createdAt: now,
+            updatedAt: now,
+          });
+        } catch (error) {
+          logger.warn('Could not record swap in the ledger:', error);
+        }
+        releaseVolume?.();
+      }
+
+      let status: string;
+      let settled: Parameters<SwapLedger['update']>[1];
+      try {
+        ({ status } = await submitSignedTransaction(client, transaction));
+        settled = status === 'SUCCESS'
+          ? { status: 'success' }
+          : { status: 'failed', failureReason: `Transaction failed with status: ${status}` };
+      } catch (error) {
+        // Rejected at precheck means it never reached consensus; otherwise the outcome is unknown until reconciled
+        status = error instanceof PrecheckStatusError ? error.status.toString() : (error instanceof Error ? error.message : String(error));
+        settled = error instanceof PrecheckStatusError
+          ? { status: 'failed', failureReason: `Transaction rejected with status: ${status}` }
+          : { failureReason: status };
+      }
+
+      results.push({ kind: built.kind, transactionId, status, explorerUrl });
+
+      if (built.kind === 'swap') {
+        if (swapId) {
+          try {
+            await ledger.update(swapId, settled);
+          } catch (error) {
+            logger.warn('Could not update swap in the ledger:', error);
+          }
+        }
+      }
+
+      if (status !== 'SUCCESS') {
+        return {
+          success: false,
+          transactions: results,
+          swapId,
+          error: `${built.kind} transaction ${transactionId} did not succeed: ${status}`,
+        };
+      }
+    }
+  } finally {
+    releaseVolume?.();
+    client.close();
+  }
+
+  return { success: true, transactions: results, swapId };
+}
+
+/**
+ * A best-route quote for a swap request, with the slippage bound derived from it
+ */
+interface SwapQuotePlan {
+  tradeType: SwapTradeType;
+  amount: string; // The fixed side of the trade, in human units
+  fromToken: string; // Registry symbol
+  toToken: string;
+  fromTokenId: string; // Registry ID (HBAR for native HBAR); unambiguous when re-quoting
+  toTokenId: string;
+  fromTokenVerified: boolean;
+  toTokenVerified: boolean;
+  fromTokenAddress: string; // Token used for routing (WHBAR for native HBAR)
+  toTokenAddress: string;
+  fromTokenDecimals: number;
+  toTokenDecimals: number;
+  fixedAmount: bigint; // amountIn for exactInput, amountOut for exactOutput (smallest units)
+  slippageBps: number;
+  amountLimit: bigint; // amountOutMinimum for exactInput, amountInMaximum for exactOutput
+  route: SwapRoute;
+  quote: SwapQuote;
+  routeSymbols: string[];
+  routeDescription: string;
+  feeTierReason: string;
+}
+
+/**
+ * What is kept for a quote until its owner confirms it
+ */
+interface PendingSwapRequest {
+  plan: SwapQuotePlan;
+  autoAssociate: boolean;
+  maxHops: number;
+}
+
+const pendingSwaps = new PendingSwapStore<PendingSwapRequest>();
+
+// One token registry per network, augmented as pools and tokens are discovered
+const tokenRegistries = new Map<string, TokenRegistry>();
+
+function getTokenRegistry(profile: NetworkProfile): TokenRegistry {
+  // Keyed by WHBAR too, since overriding it changes the curated entries
+  const key = `${profile.name}:${profile.contracts.whbar ?? ''}`;
+  let registry = tokenRegistries.get(key);
+  if (!registry) {
+    registry = new TokenRegistry(profile.name, curatedTokensFor(profile.name, profile.contracts.whbar));
+    tokenRegistries.set(key, registry);
+  }
+  return registry;
+}
+
+// USD values of swaps that passed the trading policy and are not in the ledger yet
+const tradingVolumeReservations = new Set<{ entityId: string; valueUsd: number }>();
+
+// Serializes daily volume checks with the reservations they make
+const withTradingVolumeLock = createTaskQueue();
+
+/**
+ * USD volume of the last 24 hours: every swap in the ledger that did not fail, and the swaps about to be submitted
+ */
+async function loadTradingVolumes(runtime: IAgentRuntime): Promise<DailyVolumeTracker> {
+  // Reservations are read first, so a swap recorded while the ledger is read is counted twice rather than missed
+  const reserved = [...tradingVolumeReservations];
+  const volumes = new DailyVolumeTracker();
+
+  for (const swap of await new SwapLedger(runtime).since(Date.now() - DAY_MS)) {
+    if (swap.status !== 'failed' && swap.valueUsd !== undefined) {
+      volumes.record(swap.entityId, swap.valueUsd, swap.createdAt);
+    }
+  }
+  for (const { entityId, valueUsd } of reserved) {
+    volumes.record(entityId, valueUsd);
+  }
+
+  return volumes;
+}
+
+// Tokens valued 1:1 in USD when checking USD trading limits
+const USD_STABLECOINS = ['USDC', 'USDC[hts]', 'USDT[hts]'];
+
+/**
+ * Value a quoted trade in USD: stablecoin sides are taken at face value, HBAR sides at the
+ * Mirror Node exchange rate, anything else by quoting the input into HBAR
+ * Returns undefined when the trade cannot be valued
+ */
+async function estimateTradeValueUsd(
+  plan: SwapQuotePlan,
+  profile: NetworkProfile
+): Promise<number | undefined> {
+  const { fromToken, toToken } = plan;
+  const amountIn = plan.tradeType === 'exactOutput' ? plan.quote.amountIn : plan.fixedAmount;
+  const amountOut = plan.tradeType === 'exactOutput' ? plan.fixedAmount : plan.quote.amountOut;
+  const { mirrorNodeUrl } = profile;
+  // HBAR and WHBAR both route through the WHBAR token
+  const whbarAddress = profile.contracts.whbar;
+
+  try {
+    // Only verified stablecoins are taken at face value
+    if (plan.fromTokenVerified && USD_STABLECOINS.includes(fromToken)) {
+      return Number(formatTokenAmount(tokenAmountFromRaw(amountIn, plan.fromTokenDecimals)));
+    }
+    if (plan.toTokenVerified && USD_STABLECOINS.includes(toToken)) {
+      return Number(formatTokenAmount(tokenAmountFromRaw(amountOut, plan.toTokenDecimals)));
+    }
+    if (plan.fromTokenAddress === whbarAddress) {
+      return Number(await convertTinybarsToUsd(mirrorNodeUrl, amountIn));
+    }
+    if (plan.toTokenAddress === whbarAddress) {
+      return Number(await convertTinybarsToUsd(mirrorNodeUrl, amountOut));
+    }
+
+    const hbarPlan = await quoteSwap(
+      formatTokenAmount(tokenAmountFromRaw(amountIn, plan.fromTokenDecimals)),
+      plan.fromTokenId,
+      'HBAR',
+      profile,
+      plan.slippageBps
+    );
+    return Number(await convertTinybarsToUsd(mirrorNodeUrl, hbarPlan.quote.amountOut));
+  } catch (error) {
+    logger.warn(`Could not value ${fromToken}/${toToken} trade in USD:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Read the trading policy from the character's tradingPolicy setting, then HEDERA_TRADING_POLICY
+ * The policy is JSON text or an already parsed object; loadTradingPolicy validates either
+ */
+function readTradingPolicySetting(runtime: IAgentRuntime): unknown {
+  return runtime.character?.settings?.tradingPolicy ?? readSetting(runtime)('HEDERA_TRADING_POLICY');
+}
+
+/**
+ * Check a quoted swap against the configured trading policy (HEDERA_TRADING_POLICY,
+ * HEDERA_TRADING_POLICY_FILE or the character's tradingPolicy setting)
+ * Throws with the rule that was hit; returns the trade's USD value when it was needed
+ * With reserveVolume the trade counts towards the daily volumes until releaseVolume is called,
+ * which must happen once the swap is in the ledger or will not be submitted
+ */
+async function enforceTradingPolicy(
+  runtime: IAgentRuntime,
+  plan: SwapQuotePlan,
+  entityId: string,
+  profile: NetworkProfile,
+  reserveVolume: boolean = false
+): Promise<{ valueUsd?: number; releaseVolume?: () => void }> {
+  const policyFile = runtime.getSetting('HEDERA_TRADING_POLICY_FILE') || process.env.HEDERA_TRADING_POLICY_FILE;
+  const policy = loadTradingPolicy(readTradingPolicySetting(runtime), policyFile ? String(policyFile) : undefined);
+  if (!policy) {
+    return {};
+  }
+
+  const rules = resolvePolicyRules(policy, profile.name);
+  const isExactOutput = plan.tradeType === 'exactOutput';
+
+  const valueUsd = requiresUsdValue(rules) ? await estimateTradeValueUsd(plan, profile) : undefined;
+
+  let priceImpactBps: number | undefined;
+  if (rules.maxPriceImpactBps !== undefined) {
+    try {
+      priceImpactBps = await estimatePlanPriceImpactBps(plan, profile);
+    } catch (error) {
+      logger.warn('Could not estimate price impact:', error);
+    }
+  }
+
+  const trade: TradeContext = {
+    entityId,
+    fromToken: plan.fromToken,
+    toToken: plan.toToken,
+    amountIn: tokenAmountFromRaw(isExactOutput ? plan.quote.amountIn : plan.fixedAmount, plan.fromTokenDecimals),
+    amountOut: tokenAmountFromRaw(isExactOutput ? plan.fixedAmount : plan.quote.amountOut, plan.toTokenDecimals),
+    valueUsd,
+    priceImpactBps,
+  };
+  const limitsVolume = rules.dailyVolumeUsdPerUser !== undefined || rules.dailyVolumeUsdGlobal !== undefined;
+
+  const check = async () => {
+    const volumes = limitsVolume ? await loadTradingVolumes(runtime) : new DailyVolumeTracker();
+    const decision = evaluateTradingPolicy(rules, trade, volumes);
+    if (!decision.allowed) {
+      throw new Error(`Trade rejected by trading policy (${decision.rule}): ${decision.reason}`);
+    }
+
+    if (!reserveVolume || valueUsd === undefined) {
+      return undefined;
+    }
+    const reservation = { entityId, valueUsd };
+    tradingVolumeReservations.add(reservation);
+    return () => {
+      tradingVolumeReservations.delete(reservation);
+    };
+  };
+
+  // Concurrent swaps are checked one at a time, so none of them sees the volumes without the others
+  const releaseVolume = reserveVolume && limitsVolume ? await withTradingVolumeLock(check) : await check();
+  return { valueUsd, releaseVolume };
+}
+
+/**
+ * A swap's tokens, fixed amount and candidate routes, before any route is quoted
+ */
+interface SwapRouting {
+  fromToken: RegistryToken;
+  toToken: RegistryToken;
+  fromTokenAddress: string; // Token used for routing (WHBAR for native HBAR)
+  toTokenAddress: string;
+  fromTokenDecimals: number;
+  toTokenDecimals: number;
+  fixedAmount: bigint; // amountIn for exactInput, amountOut for exactOutput (smallest units)
+  symbols: Map<string, string>; // Symbols of the tokens routes may pass through
+  directFees?: number[]; // Tiers with a direct pool for the pair; undefined when the lookup failed
+  candidateRoutes: SwapRoute[];
+}
+
+/**
+ * Resolve token addresses and decimals, discover pools and enumerate the candidate routes for a swap
+ */
+async function resolveSwapRouting(
+  amount: string,
+  fromQuery: string,
+  toQuery: string,
+  profile: NetworkProfile,
+  tradeType: SwapTradeType,
+  maxHops: number
+): Promise<SwapRouting> {
+  const { name: network, mirrorNodeUrl } = profile;
+  const whbarAddress = requireContract(profile, 'whbar');
+
+  // Discover pools for routing; direct routes are still tried if discovery fails
+  let pools: ApiLiquidityPoolV2[] = [];
+  const factoryContract = profile.contracts.factory;
+  if (factoryContract) {
+    try {
+      pools = await fetchPoolsFromFactory(mirrorNodeUrl, factoryContract);
+    } catch (error) {
+      logger.warn('Pool discovery failed, only direct routes will be quoted:', error);
+    }
+  }
+
+  // Resolve both tokens through the registry; unknown or ambiguous tokens are reported, never substituted
+  const registry = getTokenRegistry(profile);
+  registry.addFromPools(pools);
+  const fromToken = await registry.resolve(fromQuery, mirrorNodeUrl);
+  const toToken = await registry.resolve(toQuery, mirrorNodeUrl);
+
+  // Native HBAR is routed as WHBAR
+  const fromTokenAddress = fromToken.id === HBAR_TOKEN_ID ? whbarAddress : fromToken.id;
+  const toTokenAddress = toToken.id === HBAR_TOKEN_ID ? whbarAddress : toToken.id;
+
+  if (fromTokenAddress === toTokenAddress) {
+    throw new Error(`${fromToken.symbol} and ${toToken.symbol} resolve to the same token (${fromTokenAddress}) on ${network}`);
+  }
+
+  // Resolve decimals for both sides from token metadata (native HBAR is always 8)
+  const fromTokenDecimals = fromToken.decimals ?? await fetchTokenDecimals(fromTokenAddress, mirrorNodeUrl);
+  const toTokenDecimals = toToken.decimals ?? await fetchTokenDecimals(toTokenAddress, mirrorNodeUrl);
+
+  const symbols = new Map<string, string>();
+  for (const pool of pools) {
+    symbols.set(pool.tokenA.id, pool.tokenA.symbol);
+    symbols.set(pool.tokenB.id, pool.tokenB.symbol);
+  }
+  if (!symbols.has(fromTokenAddress)) symbols.set(fromTokenAddress, fromToken.symbol);
+  if (!symbols.has(toTokenAddress)) symbols.set(toTokenAddress, toToken.symbol);
+
+  const fixedAmount = parseTokenAmount(amount, tradeType === 'exactOutput' ? toTokenDecimals : fromTokenDecimals).raw;
+
+  // Only quote direct pools that exist; every tier is quoted if the factory lookup fails
+  let directFees: number[] | undefined;
+  if (factoryContract) {
+    try {
+      directFees = await findDirectPoolFees(mirrorNodeUrl, factoryContract, fromTokenAddress, toTokenAddress);
+      logger.info(`Direct ${fromToken.symbol}/${toToken.symbol} pools exist at fee tiers: ${directFees.map(formatFeeTier).join(', ') || 'none'}`);
+    } catch (error) {
+      logger.warn('Direct pool lookup failed, quoting every fee tier:', error);
+    }
+  }
+
+  const candidateRoutes = findCandidateRoutes(pools, fromTokenAddress, toTokenAddress, maxHops, directFees);
+  if (candidateRoutes.length === 0) {
+    throw new Error(
+      `No pool exists for ${fromToken.symbol}/${toToken.symbol} at any fee tier (${Object.values(FEE_TIERS).map(formatFeeTier).join(', ')}) ` +
+      `and no route through other pools was found within ${maxHops} hops`
+    );
+  }
+
+  return {
+    fromToken,
+    toToken,
+    fromTokenAddress,
+    toTokenAddress,
+    fromTokenDecimals,
+    toTokenDecimals,
+    fixedAmount,
+    symbols,
+    directFees,
+    candidateRoutes,
+  };
+}
+
+/**
+ * Resolve token addresses and decimals, discover pools and quote the best route for a swap
+ * Read-only: nothing is signed or submitted
+ */
+async function quoteSwap(
+  amount: string,
+  fromQuery: string,
+  toQuery: string,
+  profile: NetworkProfile,
+  slippageBps: number,
+  tradeType: SwapTradeType = 'exactInput',
+  maxHops: number = DEFAULT_MAX_HOPS
+): Promise<SwapQuotePlan> {
+  const quoterAddress = requireContract(profile, 'quoter');
+  const routing = await resolveSwapRouting(amount, fromQuery, toQuery, profile, tradeType, maxHops);
+  const {
+    fromTokenAddress,
+    toTokenAddress,
+    fromTokenDecimals,
+    toTokenDecimals,
+    fixedAmount,
+    symbols,
+    directFees,
+    candidateRoutes,
+  } = routing;
+  const fromToken = routing.fromToken.symbol;
+  const toToken = routing.toToken.symbol;
+  const isExactOutput = tradeType === 'exactOutput';
+
+  // Quote every candidate route and keep the best one
+  const bestRoute = await findBestRoute(profile.mirrorNodeUrl, quoterAddress, candidateRoutes, fixedAmount, tradeType);
+
+  if (!bestRoute) {
+    throw new Error(`No route with liquidity found for ${fromToken}/${toToken} within ${maxHops} hops (${candidateRoutes.length} candidate routes quoted)`);
+  }
+
+  const { route, quote } = bestRoute;
+  const routeDescription = formatRoute(route, symbols);
+  const feeTierReason = describeFeeTierSelection(bestRoute, directFees);
+  logger.info(`Selected route ${routeDescription} out of ${bestRoute.candidatesQuoted} candidates: ${feeTierReason}`);
+
+  // Derive the most we are willing to spend (exact output) or the least we accept (exact input)
+  const amountLimit = isExactOutput
+    ? applySlippageToInput(quote.amountIn, slippageBps)
+    : applySlippageToOutput(quote.amountOut, slippageBps);
+
+  logger.info(isExactOutput
+    ? `Quoted ${quote.amountIn} (max ${amountLimit}) smallest units of ${fromToken} at ${formatBps(slippageBps)} slippage`
+    : `Quoted ${quote.amountOut} (min ${amountLimit}) smallest units of ${toToken} at ${formatBps(slippageBps)} slippage`);
+
+  return {
+    tradeType,
+    amount,
+    fromToken,
+    toToken,
+    fromTokenId: routing.fromToken.id,
+    toTokenId: routing.toToken.id,
+    fromTokenVerified: routing.fromToken.verified,
+    toTokenVerified: routing.toToken.verified,
+    fromTokenAddress,
+    toTokenAddress,
+    fromTokenDecimals,
+    toTokenDecimals,
+    fixedAmount,
+    slippageBps,
+    amountLimit,
+    route,
+    quote,
+    routeSymbols: route.tokens.map((token) => symbols.get(token) || token),
+    routeDescription,
+    feeTierReason,
+  };
+}
+
+/**
+ * Flag plan tokens that are not curated registry entries, so lookalike tokens are noticed before trading
+ */
+function describeUnverifiedTokens(plan: SwapQuotePlan): string {
+  const unverified = [
+    !plan.fromTokenVerified && `${plan.fromToken} (${plan.fromTokenId})`,
+    !plan.toTokenVerified && `${plan.toToken} (${plan.toTokenId})`,
+  ].filter(Boolean);
+
+  return unverified.length > 0
+    ? `• **⚠️ Unverified Token:** ${unverified.join(', ')} is not in the verified token registry; check the token ID\n`
+    : '';
+}
+
+/**
+ * Format the quoted amounts and slippage bound of a plan in human units
+ */
+function formatQuoteDetails(plan: SwapQuotePlan): {
+  quotedAmountOut?: string;
+  amountOutMinimum?: string;
+  quotedAmountIn?: string;
+  amountInMaximum?: string;
+} {
+  if (plan.tradeType === 'exactOutput') {
+    return {
+      quotedAmountIn: formatTokenAmount(tokenAmountFromRaw(plan.quote.amountIn, plan.fromTokenDecimals)),
+      amountInMaximum: formatTokenAmount(tokenAmountFromRaw(plan.amountLimit, plan.fromTokenDecimals)),
+    };
+  }
+
+  return {
+    quotedAmountOut: formatTokenAmount(tokenAmountFromRaw(plan.quote.amountOut, plan.toTokenDecimals)),
+    amountOutMinimum: formatTokenAmount(tokenAmountFromRaw(plan.amountLimit, plan.toTokenDecimals)),
+  };
+}
+
+/**
+ * Whether a fresh quote still satisfies the slippage bound the user accepted
+ */
+function isQuoteWithinLimit(plan: SwapQuotePlan, acceptedLimit: bigint): boolean {
+  return plan.tradeType === 'exactOutput'
+    ? plan.quote.amountIn <= acceptedLimit
+    : plan.quote.amountOut >= acceptedLimit;
+}
+
+/**
+ * Encode the router multicall for a quoted swap: the swap itself, an unwrap to native HBAR
+ * when buying HBAR, and refundETH. Returns the call data and the most input it can spend.
+ */
+function encodeSwapMulticall(
+  plan: SwapQuotePlan,
+  accountIdString: string,
+  routerAddress: string
+): { encodedData: string; maxAmountIn: bigint } {
+  const { tradeType, toToken, fixedAmount, amountLimit, route } = plan;
+  const abiInterface = new ethers.Interface(SAUCERSWAP_ROUTER_ABI);
+  const isExactOutput = tradeType === 'exactOutput';
+
+  // Native HBAR output is routed as WHBAR to the router, which unwraps it for the recipient
+  const unwrapOutput = toToken === 'HBAR';
+
+  const deadline = Math.floor(Date.now() / 1000) + 1800; // 30 minutes from now
+  const recipient = hederaIdToEvmAddress(accountIdString);
+  const swapRecipient = unwrapOutput ? hederaIdToEvmAddress(routerAddress) : recipient;
+
+  // Exact-output paths are encoded from the output token back to the input token
+  const swapPath = encodeSwapPath(route.tokens, route.fees, isExactOutput);
+
+  let swapEncoded: string;
+  let maxAmountIn: bigint; // Upper bound of the input, sent as HBAR or pulled via allowance
+  let outputMinimum: bigint; // Least output the router must deliver (used when unwrapping)
+
+  if (isExactOutput) {
+    swapEncoded = abiInterface.encodeFunctionData('exactOutput', [{
+      path: swapPath,
+      recipient: swapRecipient,
+      deadline: deadline,
+      amountOut: fixedAmount.toString(),
+      amountInMaximum: amountLimit.toString()
+    }]);
+    maxAmountIn = amountLimit;
+    outputMinimum = fixedAmount;
+  } else {
+    swapEncoded = abiInterface.encodeFunctionData('exactInput', [{
+      path: swapPath,
+      recipient: swapRecipient,
+      deadline: deadline,
+      amountIn: fixedAmount.toString(),
+      amountOutMinimum: amountLimit.toString()
+    }]);
+    maxAmountIn = fixedAmount;
+    outputMinimum = amountLimit;
+  }
+
+  // refundETH returns any HBAR the router did not spend (exact-output swaps overpay up to the slippage bound)
+  const refundEncoded = abiInterface.encodeFunctionData('refundETH');
+
+  // The swap result stays first so it can be decoded from the record
+  const multicallData = unwrapOutput
+    ? [swapEncoded, abiInterface.encodeFunctionData('unwrapWHBAR', [outputMinimum.toString(), recipient]), refundEncoded]
+    : [swapEncoded, refundEncoded];
+
+  return {
+    encodedData: abiInterface.encodeFunctionData('multicall', [multicallData]),
+    maxAmountIn,
+  };
+}
+
+/**
+ * Build (without executing) the router call for an encoded swap multicall
+ */
+function buildSwapTransaction(
+  routerAddress: string,
+  gasLimit: number,
+  encodedData: string,
+  payableTinybars: bigint
+): ContractExecuteTransaction {
+  const transaction = new ContractExecuteTransaction()
+    .setContractId(routerAddress)
+    .setGas(gasLimit)
+    .setFunctionParameters(hexToUint8Array(encodedData));
+
+  // Native HBAR is sent with the call; the router wraps it to WHBAR
+  if (payableTinybars > 0n) {
+    transaction.setPayableAmount(Hbar.fromTinybars(payableTinybars.toString()));
+  }
+
+  return transaction;
+}
+
+/**
+ * Execute a quoted swap on SaucerSwap, bounded by the plan's slippage limit
+ */
+async function executeRealSwap(
+  plan: SwapQuotePlan,
+  operatorKey: PrivateKey,
+  accountIdString: string,
+  profile: NetworkProfile,
+  autoAssociate: boolean = true,
+  allowanceCap?: string,
+  gasMarginBps: number = DEFAULT_GAS_MARGIN_BPS,
+  onSubmitted?: (transactionId: string) => Promise<void>
+): Promise<{
+  success: boolean;
+  transactionId?: string;
+  receiptStatus?: string; // Set when the submitted swap was rejected by the network
+  amountOut?: string;
+  quotedAmountOut?: string;
+  amountOutMinimum?: string;
+  quotedAmountIn?: string;
+  amountInMaximum?: string;
+  slippageBps?: number;
+  route?: {
+    tokens: string[];
+    symbols: string[];
+    fees: number[];
+    description: string;
+    feeTierReason: string;
+  };
+  amountIn?: string;
+  effectivePrice?: string;
+  transactionFee?: string;
+  gasUsed?: number;
+  tokenTransfers?: { tokenId: string; amount: string }[];
+  tokenAssociation?: {
+    tokenId: string;
+    transactionId: string;
+    fee: string;
+  };
+  tokenAllowance?: {
+    tokenId: string;
+    spender: string;
+    approved: boolean;
+    mode: 'exact' | 'capped';
+    previousAmount: string;
+    amount?: string;
+    transactionId?: string;
+    fee?: string;
+  };
+  unwrappedToHbar?: boolean;
+  networkFeeEstimate?: {
+    gasEstimate?: number;
+    gasLimit: number;
+    gasMarginBps: number;
+    fee?: string;
+    feeUsd?: string;
+  };
+  error?: string;
+}> {
+  const {
+    tradeType,
+    amount,
+    fromToken,
+    toToken,
+    fromTokenAddress,
+    toTokenAddress,
+    fromTokenDecimals,
+    toTokenDecimals,
+    fixedAmount,
+    slippageBps,
+    route,
+  } = plan;
+  const { name: network, mirrorNodeUrl } = profile;
+
+  let submittedTransactionId: string | undefined;
+  let receiptStatus: string | undefined;
+  let client: Client | undefined;
+
+  try {
+    logger.info(`Executing real ${tradeType} swap: ${amount} ${tradeType === 'exactOutput' ? toToken : fromToken} (${fromToken} -> ${toToken}) on ${network}`);
+
+    // Setup Hedera client
+    const accountId = AccountId.fromString(accountIdString);
+    client = createHederaClient(profile);
+    client.setOperator(accountId, operatorKey);
+
+    // Get contract addresses
+    const routerAddress = requireContract(profile, 'router');
+
+    const formatFrom = (raw: bigint) => formatTokenAmount(tokenAmountFromRaw(raw, fromTokenDecimals));
+    const formatTo = (raw: bigint) => formatTokenAmount(tokenAmountFromRaw(raw, toTokenDecimals));
+
+    // Native HBAR output is routed as WHBAR to the router, which unwraps it for the recipient
+    const unwrapOutput = toToken === 'HBAR';
+
+    // The account must be able to hold the output token before the router can send it
+    const association = unwrapOutput ? null : await checkTokenAssociation(mirrorNodeUrl, accountIdString, toTokenAddress);
+    const needsAssociation = association !== null && !association.associated && !association.autoAssociates;
+    if (needsAssociation && !autoAssociate) {
+      throw new Error(
+        `Account ${accountIdString} is not associated with ${toToken} (${toTokenAddress}) and automatic association is disabled. ` +
+        `Repeat the request with "and associate the token" to approve the association fee.`
+      );
+    }
+
+    const recipient = hederaIdToEvmAddress(accountIdString);
+    const { encodedData, maxAmountIn: payableAmount } = encodeSwapMulticall(plan, accountIdString, routerAddress);
+    const quoteDetails = formatQuoteDetails(plan);
+
+    // HTS input tokens (including WHBAR) are pulled by the router and need an allowance
+    const needsAllowance = fromToken !== 'HBAR';
+    let allowancePlan: { previous: bigint; approve?: bigint } | undefined;
+    if (needsAllowance) {
+      const previous = await getTokenAllowance(mirrorNodeUrl, accountIdString, routerAddress, fromTokenAddress);
+      const cap = allowanceCap !== undefined ? parseTokenAmount(allowanceCap, fromTokenDecimals).raw : undefined;
+      allowancePlan = previous >= payableAmount
+        ? { previous }
+        : { previous, approve: resolveAllowanceAmount(payableAmount, cap) };
+    }
+
+    // Associate the output token only once the swap is known to be quotable
+    let tokenAssociation: { tokenId: string; transactionId: string; fee: string } | undefined;
+    if (needsAssociation) {
+      const associationResult = await associateToken(client, accountIdString, toTokenAddress);
+      tokenAssociation = {
+        tokenId: toTokenAddress,
+        transactionId: associationResult.transactionId,
+        fee: formatTokenAmount(tokenAmountFromRaw(associationResult.feeTinybars, HBAR_DECIMALS)),
+      };
+    }
+
+    let tokenAllowance: {
+      tokenId: string;
+      spender: string;
+      approved: boolean;
+      mode: 'exact' | 'capped';
+      previousAmount: string;
+      amount?: string;
+      transactionId?: string;
+      fee?: string;
+    } | undefined;
+    if (allowancePlan) {
+      tokenAllowance = {
+        tokenId: fromTokenAddress,
+        spender: routerAddress,
+        approved: allowancePlan.approve !== undefined,
+        mode: allowanceCap !== undefined ? 'capped' : 'exact',
+        previousAmount: formatFrom(allowancePlan.previous),
+      };
+
+      if (allowancePlan.approve !== undefined) {
+        const approval = await approveTokenAllowance(
+          client,
+          accountIdString,
+          routerAddress,
+          fromTokenAddress,
+          allowancePlan.approve
+        );
+        tokenAllowance.amount = formatFrom(allowancePlan.approve);
+        tokenAllowance.transactionId = approval.transactionId;
+        tokenAllowance.fee = formatTokenAmount(tokenAmountFromRaw(approval.feeTinybars, HBAR_DECIMALS));
+      }
+    }
+
+    // Estimate gas for the exact multicall once associations and allowances are in place
+    const payableTinybars = fromToken === 'HBAR' ? payableAmount : 0n;
+    const feeEstimate = await estimateContractCallFee(mirrorNodeUrl, {
+      to: hederaIdToEvmAddress(routerAddress),
+      data: encodedData,
+      from: recipient,
+      value: Number(payableTinybars),
+    }, gasMarginBps);
+    const networkFeeEstimate = {
+      gasEstimate: feeEstimate.gasEstimate !== undefined ? Number(feeEstimate.gasEstimate) : undefined,
+      gasLimit: Number(feeEstimate.gasLimit),
+      gasMarginBps,
+      fee: feeEstimate.fee,
+      feeUsd: feeEstimate.feeUsd,
+    };
+    logger.info(`Swap gas limit ${networkFeeEstimate.gasLimit} (estimate ${networkFeeEstimate.gasEstimate ?? 'unavailable'}), estimated fee ${networkFeeEstimate.fee ?? 'unknown'} HBAR`);
+
+    // Execute the swap transaction
+    const transaction = buildSwapTransaction(routerAddress, networkFeeEstimate.gasLimit, encodedData, payableTinybars);
+    const response = await transaction.execute(client);
+    submittedTransactionId = response.transactionId.toString();
+    if (onSubmitted) {
+      await onSubmitted(submittedTransactionId);
+    }
+
+    const receipt = await response.getReceipt(client);
+
+    if (receipt.status.toString() === 'SUCCESS') {
+      const record = await response.getRecord(client);
+
+      // Decode what was actually swapped; the swap succeeded even if decoding fails
+      let executionDetails: {
+        amountIn?: string;
+        amountOut?: string;
+        effectivePrice?: string;
+        transactionFee?: string;
+        gasUsed?: number;
+        tokenTransfers?: { tokenId: string; amount: string }[];
+      } = {};
+      try {
+        const decoded = decodeSwapRecord(record, tradeType, fixedAmount, accountIdString);
+        const decimalsByToken = new Map([[fromTokenAddress, fromTokenDecimals], [toTokenAddress, toTokenDecimals]]);
+
+        executionDetails = {
+          amountIn: formatFrom(decoded.amountIn),
+          amountOut: formatTo(decoded.amountOut),
+          effectivePrice: formatPrice(
+            tokenAmountFromRaw(decoded.amountOut, toTokenDecimals),
+            tokenAmountFromRaw(decoded.amountIn, fromTokenDecimals)
+          ),
+          transactionFee: formatTokenAmount(tokenAmountFromRaw(decoded.transactionFeeTinybars, HBAR_DECIMALS)),
+          gasUsed: Number(decoded.gasUsed),
+          tokenTransfers: decoded.tokenChanges.map(({ tokenId, amount }) => ({
+            tokenId,
+            amount: decimalsByToken.has(tokenId)
+              ? formatTokenAmount(tokenAmountFromRaw(amount, decimalsByToken.get(tokenId)!))
+              : amount.toString(),
+          })),
+        };
+      } catch (error) {
+        logger.warn('Could not decode swap transaction record:', error);
+      }
+
+      return {
+        success: true,
+        transactionId: response.transactionId.toString(),
+        amountOut: 'Unknown',
+        ...executionDetails,
+        ...quoteDetails,
+        slippageBps,
+        tokenAssociation,
+        tokenAllowance,
+        unwrappedToHbar: unwrapOutput,
+        networkFeeEstimate,
+        route: {
+          tokens: route.tokens,
+          symbols: plan.routeSymbols,
+          fees: route.fees,
+          description: plan.routeDescription,
+          feeTierReason: plan.feeTierReason,
+        },
+      };
+    } else {
+      receiptStatus = receipt.status.toString();
+      throw new Error(`Transaction failed with status: ${receiptStatus}`);
+    }
+
+  } catch (error) {
+    logger.error('Error executing real swap:', error);
+    return {
+      success: false,
+      transactionId: submittedTransactionId,
+      receiptStatus: receiptStatus ?? (submittedTransactionId && error instanceof ReceiptStatusError ? error.status.toString() : undefined),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    client?.close();
+  }
+}
+
+/**
+ * A read-only simulation of a swap against current on-chain state
+ */
+interface SwapSimulation {
+  plan: SwapQuotePlan;
+  priceImpactBps?: number; // Undefined when the pool prices could not be read
+  callCheck:
+    | { status: 'ok'; amount: string } // Amount received (exact input) or spent (exact output) by the router call
+    | { status: 'reverted'; reason: string }
+    | { status: 'skipped'; reason: string };
+}
+
+/**
+ * Estimate the price impact of a quoted plan from the route's pool prices
+ */
+async function estimatePlanPriceImpactBps(plan: SwapQuotePlan, profile: NetworkProfile): Promise<number> {
+  const factoryAddress = requireContract(profile, 'factory');
+
+  const isExactOutput = plan.tradeType === 'exactOutput';
+  return estimateRoutePriceImpactBps(
+    profile.mirrorNodeUrl,
+    factoryAddress,
+    plan.route,
+    isExactOutput ? plan.quote.amountIn : plan.fixedAmount,
+    isExactOutput ? plan.fixedAmount : plan.quote.amountOut
+  );
+}
+
+/**
+ * Simulate a swap without a private key: quote the best route, estimate the price impact
+ * from the pools' sqrtPriceX96 and, when an account is known, run the exact router call
+ * through the Mirror Node (eth_call semantics) to see whether it would revert
+ */
+async function simulateSwap(
+  amount: string,
+  fromToken: string,
+  toToken: string,
+  tradeType: SwapTradeType,
+  profile: NetworkProfile,
+  slippageBps: number,
+  maxHops: number = DEFAULT_MAX_HOPS,
+  accountIdString?: string
+): Promise<SwapSimulation> {
+  const plan = await quoteSwap(amount, fromToken, toToken, profile, slippageBps, tradeType, maxHops);
+
+  let priceImpactBps: number | undefined;
+  try {
+    priceImpactBps = await estimatePlanPriceImpactBps(plan, profile);
+  } catch (error) {
+    logger.warn('Could not estimate price impact:', error);
+  }
+
+  const routerAddress = profile.contracts.router;
+  if (!accountIdString || !routerAddress) {
+    return {
+      plan,
+      priceImpactBps,
+      callCheck: {
+        status: 'skipped',
+        reason: routerAddress
+          ? 'set HEDERA_ACCOUNT_ID to check the router call against your balances and allowances'
+          : `no router is configured for ${profile.name} (set HEDERA_SAUCERSWAP_ROUTER)`,
+      },
+    };
+  }
+
+  const { encodedData, maxAmountIn } = encodeSwapMulticall(plan, accountIdString, routerAddress);
+  try {
+    const result = await callContract(profile.mirrorNodeUrl, {
+      to: hederaIdToEvmAddress(routerAddress),
+      data: encodedData,
+      from: hederaIdToEvmAddress(accountIdString),
+      value: fromToken === 'HBAR' ? Number(maxAmountIn) : 0,
+    });
+
+    const simulatedAmount = decodeMulticallSwapResult(result, tradeType);
+    return {
+      plan,
+      priceImpactBps,
+      callCheck: {
+        status: 'ok',
+        amount: formatTokenAmount(tokenAmountFromRaw(simulatedAmount, tradeType === 'exactOutput' ? plan.fromTokenDecimals : plan.toTokenDecimals)),
+      },
+    };
+  } catch (error) {
+    return {
+      plan,
+      priceImpactBps,
+      callCheck: { status: 'reverted', reason: error instanceof Error ? error.message : String(error) },
+    };
+  }
+}
+
+/**
+ * Handle swap simulation response
+ */
+async function handleSwapSimulation(
+  simulation: SwapSimulation,
+  network: string,
+  message: Memory,
+  callback?: HandlerCallback
+): Promise<ActionResult> {
+  const { plan, priceImpactBps, callCheck } = simulation;
+  const { tradeType, amount, fromToken, toToken, slippageBps } = plan;
+  const isExactOutput = tradeType === 'exactOutput';
+  const quoteDetails = formatQuoteDetails(plan);
+  const inputAmount = isExactOutput ? `~${quoteDetails.quotedAmountIn}` : `${amount}`;
+  const outputAmount = isExactOutput ? `${amount}` : `~${quoteDetails.quotedAmountOut}`;
+
+  // Format swap information for response
+  let swapText = `🔄 **Token Swap Simulation** (${network})\n\n`;
+  swapText += `**Swap Details:**\n`;
+  swapText += `• **From:** ${inputAmount} ${fromToken}\n`;
+  swapText += `• **To:** ${outputAmount} ${toToken}${isExactOutput ? ' (exact output)' : ''}\n`;
+  if (isExactOutput) {
+    swapText += `• **Maximum Spent:** ${quoteDetails.amountInMaximum} ${fromToken}\n`;
+  } else {
+    swapText += `• **Minimum Received:** ${quoteDetails.amountOutMinimum} ${toToken}\n`;
+  }
+  swapText += `• **Slippage Tolerance:** ${formatBps(slippageBps)}\n`;
+  swapText += `• **Route:** ${plan.routeDescription}\n`;
+  swapText += `• **Fee Tier:** ${plan.route.fees.map(formatFeeTier).join(' → ')} (${plan.feeTierReason})\n`;
+  swapText += `• **Price Impact:** ${priceImpactBps !== undefined ? formatBps(priceImpactBps) : 'Unknown'}\n`;
+  swapText += describeUnverifiedTokens(plan);
+  if (callCheck.status === 'ok') {
+    swapText += `• **Router Call:** ✅ Would succeed (${isExactOutput ? 'spending' : 'receiving'} ${callCheck.amount} ${isExactOutput ? fromToken : toToken})\n`;
+  } else if (callCheck.status === 'reverted') {
+    swapText += `• **Router Call:** ❌ Would revert: ${callCheck.reason}\n`;
+  } else {
+    swapText += `• **Router Call:** Not checked (${callCheck.reason})\n`;
+  }
+  swapText += `• **Network:** ${network.toUpperCase()}\n\n`;
+
+  swapText += `**⚠️ Simulation Mode**\n`;
+  swapText += `This is a read-only simulation against live pools; nothing was signed or submitted. To execute real swaps:\n`;
+  swapText += `1. Set HEDERA_PRIVATE_KEY (DER or hex, see HEDERA_KEY_TYPE) or HEDERA_MNEMONIC\n`;
+  swapText += `2. Set HEDERA_ACCOUNT_ID environment variable\n`;
+  swapText += `3. Ensure sufficient ${fromToken} balance\n`;
+
+  // Response content
+  const responseContent: Content = {
+    text: swapText,
+    actions: ['SWAP_TOKENS'],
+    source: message.content.source,
+  };
+
+  // Call back with the swap information
+  if (callback) {
+    await callback(responseContent);
+  }
+
+  return {
+    text: `Simulated swap: ${inputAmount} ${fromToken} → ${outputAmount} ${toToken}`,
+    values: {
+      success: true,
+      tradeType: tradeType,
+      amount: amount,
+      fromToken: fromToken,
+      toToken: toToken,
+      estimatedOutput: isExactOutput ? amount : quoteDetails.quotedAmountOut,
+      estimatedInput: isExactOutput ? quoteDetails.quotedAmountIn : amount,
+      ...quoteDetails,
+      slippageBps: slippageBps,
+      priceImpactBps: priceImpactBps,
+      wouldRevert: callCheck.status === 'skipped' ? undefined : callCheck.status === 'reverted',
+      route: plan.routeDescription,
+      network: network,
+      simulation: true,
+    },
+    data: {
+      actionName: 'SWAP_TOKENS',
+      messageId: message.id,
+      timestamp: Date.now(),
+      callCheck: callCheck,
+      route: {
+        tokens: plan.route.tokens,
+        symbols: plan.routeSymbols,
+        fees: plan.route.fees,
+        description: plan.routeDescription,
+      },
+      network: network,
+      simulation: true,
+    },
+    success: true,
+  };
+}
+
+// Routes compared side by side in a quote; worse routes are only counted
+const MAX_COMPARED_ROUTES = 10;
+
+/**
+ * One quoted route of a swap, with what it costs
+ */
+interface RouteComparison {
+  route: SwapRoute;
+  description: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  effectivePrice: string; // toToken per fromToken for exact input, fromToken per toToken for exact output
+  priceImpactBps?: number; // Undefined when the pool prices could not be read
+  poolFee: number; // Combined fee of the route's pools, in hundredths of a basis point
+  poolFeeAmount: bigint; // Smallest units of fromToken
+  networkFee: NetworkFeeEstimate; // From the quoter's gas estimate
+}
+
+/**
+ * Quote a swap along every candidate route and price each one: effective price, price impact,
+ * pool fees and network fee. Read-only: nothing is signed or submitted
+ */
+async function compareSwapRoutes(
+  amount: string,
+  fromQuery: string,
+  toQuery: string,
+  profile: NetworkProfile,
+  tradeType: SwapTradeType,
+  maxHops: number
+): Promise<{ routing: SwapRouting; routes: RouteComparison[]; quotedRoutes: number }> {
+  const { mirrorNodeUrl } = profile;
+  const quoterAddress = requireContract(profile, 'quoter');
+  const routing = await resolveSwapRouting(amount, fromQuery, toQuery, profile, tradeType, maxHops);
+  const { fromToken, toToken, fromTokenDecimals, toTokenDecimals, candidateRoutes } = routing;
+
+  const results = await quoteRoutes(mirrorNodeUrl, quoterAddress, candidateRoutes, routing.fixedAmount, tradeType);
+  const ranked = rankRouteQuotes(results, tradeType);
+  if (ranked.length === 0) {
+    throw new Error(`No route with liquidity found for ${fromToken.symbol}/${toToken.symbol} within ${maxHops} hops (${candidateRoutes.length} candidate routes quoted)`);
+  }
+
+  const factoryAddress = profile.contracts.factory;
+  const routes = await Promise.all(ranked.slice(0, MAX_COMPARED_ROUTES).map(async ({ route, quote }): Promise<RouteComparison> => {
+    const amountIn = tokenAmountFromRaw(quote.amountIn, fromTokenDecimals);
+    const amountOut = tokenAmountFromRaw(quote.amountOut, toTokenDecimals);
+
+    let priceImpactBps: number | undefined;
+    if (factoryAddress) {
+      try {
+        priceImpactBps = await estimateRoutePriceImpactBps(mirrorNodeUrl, factoryAddress, route, quote.amountIn, quote.amountOut);
+      } catch (error) {
+        logger.warn('Could not estimate price impact:', error);
+      }
+    }
+
+    const gasEstimate = quote.gasEstimate > 0n ? quote.gasEstimate : undefined;
+    const gasLimit = gasEstimate !== undefined ? applyGasMargin(gasEstimate, DEFAULT_GAS_MARGIN_BPS) : FALLBACK_GAS_LIMIT;
+    const poolFee = combineRouteFees(route.fees);
+
+    return {
+      route,
+      description: formatRoute(route, routing.symbols),
+      amountIn: quote.amountIn,
+      amountOut: quote.amountOut,
+      effectivePrice: tradeType === 'exactOutput' ? formatPrice(amountIn, amountOut) : formatPrice(amountOut, amountIn),
+      priceImpactBps,
+      poolFee,
+      poolFeeAmount: quote.amountIn * BigInt(poolFee) / 1_000_000n,
+      networkFee: await priceGas(mirrorNodeUrl, gasEstimate, gasLimit),
+    };
+  }));
+
+  return { routing, routes, quotedRoutes: ranked.length };
+}
+
+/**
+ * Get Quote Action
+ * Prices a swap along every fee tier and route without trading (e.g., "how much USDC would I get for 500 HBAR?")
+ */
+const getQuoteAction: Action = {
+  name: 'GET_QUOTE',
+  similes: ['QUOTE', 'PRICE_QUOTE', 'COMPARE_ROUTES', 'CHECK_PRICE'],
+  description: 'Quotes a swap across all fee tiers and routes side by side (output, effective price, price impact, pool and network fees) without executing anything',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseQuoteRequest(text) !== null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling GET_QUOTE action');
+
+      const request = parseQuoteRequest(message.content.text || '');
+      if (!request) {
+        throw new Error('Could not parse the quote. Please ask like "how much USDC would I get for 500 HBAR?"');
+      }
+
+      const profile = resolveNetwork(runtime, 'testnet');
+      const { name: network } = profile;
+      const { tradeType, amount } = request;
+      const isExactOutput = tradeType === 'exactOutput';
+
+      const { routing, routes, quotedRoutes } = await compareSwapRoutes(
+        amount,
+        request.fromToken,
+        request.toToken,
+        profile,
+        tradeType,
+        resolveMaxHops(runtime)
+      );
+      const fromToken = routing.fromToken.symbol;
+      const toToken = routing.toToken.symbol;
+      const formatIn = (raw: bigint) => formatTokenAmount(tokenAmountFromRaw(raw, routing.fromTokenDecimals));
+      const formatOut = (raw: bigint) => formatTokenAmount(tokenAmountFromRaw(raw, routing.toTokenDecimals));
+      const priceUnit = isExactOutput ? `${fromToken} per ${toToken}` : `${toToken} per ${fromToken}`;
+
+      let quoteText = `💬 **Swap Quote** (${network})\n\n`;
+      quoteText += isExactOutput
+        ? `**${fromToken} → ${amount} ${toToken}** (exact output)\n`
+        : `**${amount} ${fromToken} → ${toToken}** (exact input)\n`;
+      quoteText += `${routes.length} of ${routing.candidateRoutes.length} candidate routes compared, best first. Nothing was signed or submitted.\n\n`;
+
+      routes.forEach((comparison, i) => {
+        const { networkFee } = comparison;
+        quoteText += `**${i + 1}. ${comparison.description}**${i === 0 ? ' ⭐ Best' : ''}\n`;
+        quoteText += isExactOutput
+          ? `• **You Pay:** ${formatIn(comparison.amountIn)} ${fromToken}\n`
+          : `• **You Receive:** ${formatOut(comparison.amountOut)} ${toToken}\n`;
+        quoteText += `• **Effective Price:** ${comparison.effectivePrice} ${priceUnit}\n`;
+        quoteText += `• **Price Impact:** ${comparison.priceImpactBps !== undefined ? formatBps(comparison.priceImpactBps) : 'Unknown'}\n`;
+        quoteText += `• **Pool Fees:** ${formatFeeTier(comparison.poolFee)} (${formatIn(comparison.poolFeeAmount)} ${fromToken})\n`;
+        quoteText += `• **Network Fee:** ~${networkFee.fee ?? 'Unknown'} HBAR${networkFee.feeUsd ? ` (~$${networkFee.feeUsd})` : ''}\n\n`;
+      });
+
+      const unlisted = quotedRoutes - routes.length;
+      const unquoted = routing.candidateRoutes.length - quotedRoutes;
+      if (unlisted > 0) {
+        quoteText += `${unlisted} more route${unlisted === 1 ? '' : 's'} quoted worse and ${unlisted === 1 ? 'is' : 'are'} not shown.\n`;
+      }
+      if (unquoted > 0) {
+        quoteText += `${unquoted} route${unquoted === 1 ? '' : 's'} could not be quoted (no pool or no liquidity).\n`;
+      }
+      quoteText += `Network fees are estimated from the quoter's gas estimate. To trade, say "${isExactOutput
+        ? `buy ${amount} ${toToken} with ${fromToken}`
+        : `swap ${amount} ${fromToken} for ${toToken}`}".\n`;
+
+      if (callback) {
+        await callback({
+          text: quoteText,
+          actions: ['GET_QUOTE'],
+          source: message.content.source,
+        });
+      }
+
+      const best = routes[0];
+      return {
+        text: isExactOutput
+          ? `Quoted ${formatIn(best.amountIn)} ${fromToken} for ${amount} ${toToken} via ${best.description}`
+          : `Quoted ${amount} ${fromToken} for ${formatOut(best.amountOut)} ${toToken} via ${best.description}`,
+        values: {
+          success: true,
+          tradeType: tradeType,
+          amount: amount,
+          fromToken: fromToken,
+          toToken: toToken,
+          estimatedInput: formatIn(best.amountIn),
+          estimatedOutput: formatOut(best.amountOut),
+          effectivePrice: best.effectivePrice,
+          priceImpactBps: best.priceImpactBps,
+          bestRoute: best.description,
+          routesCompared: routes.length,
+          routesQuoted: quotedRoutes,
+          network: network,
+        },
+        data: {
+          actionName: 'GET_QUOTE',
+          messageId: message.id,
+          timestamp: Date.now(),
+          routes: routes.map((comparison) => ({
+            tokens: comparison.route.tokens,
+            fees: comparison.route.fees,
+            description: comparison.description,
+            amountIn: formatIn(comparison.amountIn),
+            amountOut: formatOut(comparison.amountOut),
+            effectivePrice: comparison.effectivePrice,
+            priceImpactBps: comparison.priceImpactBps,
+            poolFee: formatFeeTier(comparison.poolFee),
+            poolFeeAmount: formatIn(comparison.poolFeeAmount),
+            networkFee: comparison.networkFee.fee,
+            networkFeeUsd: comparison.networkFee.feeUsd,
+          })),
+          network: network,
+        },
+        success: true,
+      };
+    } catch (error) {
+      logger.error('Error in GET_QUOTE action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to get a quote: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'GET_QUOTE_FAILED',
+        },
+        data: {
+          actionName: 'GET_QUOTE',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'How much USDC would I get for 500 HBAR?',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Comparing quotes for 500 HBAR → USDC across fee tiers and routes...',
+          actions: ['GET_QUOTE'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'How much HBAR do I need for 100 SAUCE?',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Comparing what 100 SAUCE costs in HBAR across fee tiers and routes...',
+          actions: ['GET_QUOTE'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Parse the amount from a wrap/unwrap request ("Wrap 10 HBAR", "Unwrap 5.5 WHBAR")
+ */
+function parseWhbarRequest(text: string, conversion: WhbarConversion): string | null {
+  const pattern = conversion === 'wrap'
+    ? /\bwrap\s+(\d+(?:\.\d+)?)\s*hbar\b/i
+    : /\bunwrap\s+(\d+(?:\.\d+)?)\s*whbar\b/i;
+
+  const match = text.match(pattern);
+  return match ? match[1] : null;
+}
+
+/**
+ * Wrap HBAR into WHBAR or unwrap WHBAR back to HBAR for the configured account
+ * Associates WHBAR before wrapping and approves the WHBAR contract before unwrapping when needed
+ */
+async function executeWhbarConversion(
+  conversion: WhbarConversion,
+  amount: string,
+  operatorKey: PrivateKey,
+  accountIdString: string,
+  profile: NetworkProfile,
+  autoAssociate: boolean = true
+): Promise<{
+  transactionId: string;
+  fee: string;
+  tokenAssociation?: { tokenId: string; transactionId: string; fee: string };
+  tokenAllowance?: { tokenId: string; spender: string; amount: string; transactionId: string; fee: string };
+}> {
+  const { mirrorNodeUrl } = profile;
+  const contracts = {
+    whbar: requireContract(profile, 'whbar'),
+    whbarContract: requireContract(profile, 'whbarContract'),
+  };
+
+  const formatHbar = (raw: bigint) => formatTokenAmount(tokenAmountFromRaw(raw, HBAR_DECIMALS));
+  const amountTinybars = parseTokenAmount(amount, HBAR_DECIMALS).raw;
+  if (amountTinybars === 0n) {
+    throw new Error('Amount must be greater than zero');
+  }
+
+  const client = createHederaClient(profile);
+  client.setOperator(AccountId.fromString(accountIdString), operatorKey);
+  try {
+    let tokenAssociation: { tokenId: string; transactionId: string; fee: string } | undefined;
+    let tokenAllowance: { tokenId: string; spender: string; amount: string; transactionId: string; fee: string } | undefined;
+
+    if (conversion === 'wrap') {
+      // The account must be able to hold WHBAR before the contract can mint it
+      const association = await checkTokenAssociation(mirrorNodeUrl, accountIdString, contracts.whbar);
+      if (!association.associated && !association.autoAssociates) {
+        if (!autoAssociate) {
+          throw new Error(
+            `Account ${accountIdString} is not associated with WHBAR (${contracts.whbar}) and automatic association is disabled. ` +
+            `Repeat the request with "and associate the token" to approve the association fee.`
+          );
+        }
+        const associationResult = await associateToken(client, accountIdString, contracts.whbar);
+        tokenAssociation = {
+          tokenId: contracts.whbar,
+          transactionId: associationResult.transactionId,
+          fee: formatHbar(associationResult.feeTinybars),
+        };
+      }
+    } else {
+      // The WHBAR contract pulls the tokens it burns, so it needs an allowance
+      const allowance = await getTokenAllowance(mirrorNodeUrl, accountIdString, contracts.whbarContract, contracts.whbar);
+      if (allowance < amountTinybars) {
+        const approval = await approveTokenAllowance(
+          client,
+          accountIdString,
+          contracts.whbarContract,
+          contracts.whbar,
+          amountTinybars
+        );
+        tokenAllowance = {
+          tokenId: contracts.whbar,
+          spender: contracts.whbarContract,
+          amount: formatHbar(amountTinybars),
+          transactionId: approval.transactionId,
+          fee: formatHbar(approval.feeTinybars),
+        };
+      }
+    }
+
+    const result = await convertWhbar(client, contracts.whbarContract, conversion, amountTinybars);
+
+    return {
+      transactionId: result.transactionId,
+      fee: formatHbar(result.feeTinybars),
+      tokenAssociation,
+      tokenAllowance,
+    };
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Shared handler for the WRAP_HBAR and UNWRAP_WHBAR actions
+ */
+async function handleWhbarConversion(
+  conversion: WhbarConversion,
+  runtime: IAgentRuntime,
+  message: Memory,
+  options: any,
+  callback?: HandlerCallback
+): Promise<ActionResult> {
+  const actionName = conversion === 'wrap' ? 'WRAP_HBAR' : 'UNWRAP_WHBAR';
+  const [fromToken, toToken] = conversion === 'wrap' ? ['HBAR', 'WHBAR'] : ['WHBAR', 'HBAR'];
+
+  try {
+    logger.info(`Handling ${actionName} action`);
+
+    const text = message.content.text;
+    if (!text) {
+      throw new Error('No text content found in message');
+    }
+
+    const amount = parseWhbarRequest(text, conversion);
+    if (!amount) {
+      throw new Error(`Could not parse the amount. Please use format like "${conversion === 'wrap' ? 'Wrap 10 HBAR' : 'Unwrap 10 WHBAR'}"`);
+    }
+
+    const profile = resolveNetwork(runtime, 'testnet');
+    const network = profile.name;
+
+    const keyConfig = readOperatorKeyConfig(readSetting(runtime));
+    const accountIdString = runtime.getSetting('HEDERA_ACCOUNT_ID') || process.env.HEDERA_ACCOUNT_ID;
+
+    let responseText: string;
+    let transactionId: string | undefined;
+
+    if (!hasOperatorKey(keyConfig) || !accountIdString) {
+      logger.warn('No wallet credentials provided, using simulation mode');
+      responseText = `🔄 **${conversion === 'wrap' ? 'Wrap' : 'Unwrap'} Simulation** (${network})\n\n`;
+      responseText += `• **From:** ${amount} ${fromToken}\n`;
+      responseText += `• **To:** ${amount} ${toToken} (1:1)\n\n`;
+      responseText += `Set HEDERA_PRIVATE_KEY (or HEDERA_MNEMONIC) and HEDERA_ACCOUNT_ID to execute it.\n`;
+    } else {
+      const account = await getTradingAccount(runtime, profile, message.entityId);
+      const result = await executeWhbarConversion(
+        conversion,
+        amount,
+        account.operatorKey,
+        account.accountId,
+        profile,
+        resolveAutoAssociate(runtime, text, options)
+      );
+      transactionId = result.transactionId;
+
+      responseText = `✅ **${conversion === 'wrap' ? 'HBAR Wrapped' : 'WHBAR Unwrapped'} Successfully!**\n\n`;
+      responseText += `• **From:** ${amount} ${fromToken}\n`;
+      responseText += `• **To:** ${amount} ${toToken}\n`;
+      responseText += `• **Network Fee:** ${result.fee} HBAR\n`;
+      if (result.tokenAssociation) {
+        responseText += `• **Token Association:** WHBAR (${result.tokenAssociation.tokenId}) associated for ${result.tokenAssociation.fee} HBAR\n`;
+      }
+      if (result.tokenAllowance) {
+        responseText += `• **Token Allowance:** Approved ${result.tokenAllowance.spender} to spend ${result.tokenAllowance.amount} WHBAR for ${result.tokenAllowance.fee} HBAR\n`;
+      }
+      responseText += `• **Transaction ID:** ${result.transactionId}\n`;
+      const explorerUrl = getTransactionExplorerUrl(profile, result.transactionId);
+      if (explorerUrl) {
+        responseText += `• [Explorer](${explorerUrl})\n`;
+      }
+    }
+
+    if (callback) {
+      await callback({
+        text: responseText,
+        actions: [actionName],
+        source: message.content.source,
+      });
+    }
+
+    return {
+      text: `${transactionId ? 'Converted' : 'Simulated converting'} ${amount} ${fromToken} → ${toToken}`,
+      values: {
+        success: true,
+        amount: amount,
+        fromToken: fromToken,
+        toToken: toToken,
+        transactionId: transactionId,
+        network: network,
+        simulation: !transactionId,
+      },
+      data: {
+        actionName: actionName,
+        messageId: message.id,
+        timestamp: Date.now(),
+      },
+      success: true,
+    };
+  } catch (error) {
+    logger.error(`Error in ${actionName} action:`, error);
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    return {
+      text: `Failed to ${conversion} ${fromToken}: ${errorMessage}`,
+      values: {
+        success: false,
+        error: `${actionName}_FAILED`,
+      },
+      data: {
+        actionName: actionName,
+        error: errorMessage,
+        timestamp: Date.now(),
+      },
+      success: false,
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+}
+
+/**
+ * Wrap HBAR Action
+ * Converts native HBAR into WHBAR 1:1 (e.g., "Wrap 10 HBAR")
+ */
+const wrapHbarAction: Action = {
+  name: 'WRAP_HBAR',
+  similes: ['WRAP', 'HBAR_TO_WHBAR'],
+  description: 'Wraps native HBAR into WHBAR through the SaucerSwap WHBAR contract',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseWhbarRequest(text, 'wrap') !== null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => handleWhbarConversion('wrap', runtime, message, options, callback),
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Wrap 10 HBAR',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'I\'ll wrap 10 HBAR into WHBAR...',
+          actions: ['WRAP_HBAR'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Unwrap WHBAR Action
+ * Converts WHBAR back into native HBAR 1:1 (e.g., "Unwrap 10 WHBAR")
+ */
+const unwrapWhbarAction: Action = {
+  name: 'UNWRAP_WHBAR',
+  similes: ['UNWRAP', 'WHBAR_TO_HBAR'],
+  description: 'Unwraps WHBAR back into native HBAR through the SaucerSwap WHBAR contract',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseWhbarRequest(text, 'unwrap') !== null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => handleWhbarConversion('unwrap', runtime, message, options, callback),
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Unwrap 5 WHBAR',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'I\'ll unwrap 5 WHBAR back into HBAR...',
+          actions: ['UNWRAP_WHBAR'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Parse a treasury top-up ("Top up my account with 10 HBAR", "Fund my account with 5 HBAR")
+ */
+function parseTopUpRequest(text: string): string | null {
+  const match = text.match(/\b(?:top[\s-]?up|fund)\b.*?(\d+(?:\.\d+)?)\s*(?:hbar|ℏ)\b/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Parse a withdrawal ("Withdraw 5 HBAR to 0.0.1234", "Send 10 USDC to 0.0.5678")
+ */
+function parseWithdrawRequest(text: string): { amount: string; token: string; destination: string } | null {
+  const match = text.match(
+    /\b(?:withdraw|send|transfer)\s+(\d+(?:\.\d+)?)\s+(0x[0-9a-fA-F]{40}|\d+\.\d+\.\d+|[A-Za-z]\w*(?:\[\w+\])?)\s+to\s+(\d+\.\d+\.\d+)\b/i
+  );
+  return match ? { amount: match[1], token: normalizeTokenQuery(match[2]), destination: match[3] } : null;
+}
+
+/**
+ * Account Balance Action
+ * Shows the HBAR and token balances of the requesting user's trading account
+ */
+const accountBalanceAction: Action = {
+  name: 'ACCOUNT_BALANCE',
+  similes: ['GET_BALANCE', 'SHOW_BALANCE', 'MY_BALANCE', 'WALLET_BALANCE'],
+  description: 'Shows the HBAR and token balances of your Hedera trading account',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && /\bbalances?\b/i.test(text);
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling ACCOUNT_BALANCE action');
+
+      const profile = resolveNetwork(runtime, 'testnet');
+      const { name: network, mirrorNodeUrl } = profile;
+
+      const accountId = await findTradingAccountId(runtime, profile, message.entityId);
+      if (!accountId) {
+        throw resolveAccountMode(runtime) === 'per-user'
+          ? missingUserAccountError(network)
+          : new Error('Set HEDERA_ACCOUNT_ID to show its balance');
+      }
+
+      const balances = await fetchAccountBalances(mirrorNodeUrl, accountId);
+      const registry = getTokenRegistry(profile);
+
+      const tokens: { tokenId: string; symbol: string; balance: string }[] = [];
+      for (const { tokenId, balance } of balances.tokens.filter((token) => token.balance > 0n)) {
+        try {
+          const token = await registry.resolve(tokenId, mirrorNodeUrl);
+          const decimals = token.decimals ?? await fetchTokenDecimals(tokenId, mirrorNodeUrl);
+          tokens.push({ tokenId, symbol: token.symbol, balance: formatTokenAmount(tokenAmountFromRaw(balance, decimals)) });
+        } catch (error) {
+          logger.warn(`Could not read metadata of token ${tokenId}:`, error);
+          tokens.push({ tokenId, symbol: tokenId, balance: `${balance} (smallest units)` });
+        }
+      }
+
+      const hbar = formatTokenAmount(tokenAmountFromRaw(balances.hbarTinybars, HBAR_DECIMALS));
+
+      let balanceText = `💰 **Account ${accountId}** (${network})\n\n`;
+      balanceText += `• **HBAR:** ${hbar}\n`;
+      for (const token of tokens) {
+        balanceText += `• **${token.symbol}** (${token.tokenId}): ${token.balance}\n`;
+      }
+
+      if (callback) {
+        await callback({
+          text: balanceText,
+          actions: ['ACCOUNT_BALANCE'],
+          source: message.content.source,
+        });
+      }
+
+      return {
+        text: `Account ${accountId} holds ${hbar} HBAR and ${tokens.length} tokens`,
+        values: {
+          success: true,
+          accountId: accountId,
+          hbar: hbar,
+          tokenCount: tokens.length,
+          network: network,
+        },
+        data: {
+          actionName: 'ACCOUNT_BALANCE',
+          messageId: message.id,
+          timestamp: Date.now(),
+          accountId: accountId,
+          hbar: hbar,
+          tokens: tokens,
+          network: network,
+        },
+        success: true,
+      };
+    } catch (error) {
+      logger.error('Error in ACCOUNT_BALANCE action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to fetch balance: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'ACCOUNT_BALANCE_FAILED',
+        },
+        data: {
+          actionName: 'ACCOUNT_BALANCE',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'What is my balance?',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Let me look up the balances of your account...',
+          actions: ['ACCOUNT_BALANCE'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Top Up Account Action
+ * Funds the requesting user's account from the treasury (HEDERA_ACCOUNT_ID), creating it on the first top-up
+ */
+const topUpAccountAction: Action = {
+  name: 'TOP_UP_ACCOUNT',
+  similes: ['FUND_ACCOUNT', 'CREATE_ACCOUNT', 'TREASURY_TOP_UP'],
+  description: 'Funds your own Hedera account with HBAR from the treasury, creating the account on the first top-up',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseTopUpRequest(text) !== null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling TOP_UP_ACCOUNT action');
+
+      const amount = parseTopUpRequest(message.content.text || '');
+      if (!amount) {
+        throw new Error('Could not parse the amount. Please use format like "Top up my account with 10 HBAR"');
+      }
+
+      if (resolveAccountMode(runtime) !== 'per-user') {
+        throw new Error('Top-ups fund per-user accounts. Set HEDERA_ACCOUNT_MODE=per-user to give each user their own account');
+      }
+
+      const dailyLimit = resolveTopUpDailyLimit(runtime);
+      if (dailyLimit === undefined) {
+        throw new Error('Top-ups from the treasury are disabled. Set HEDERA_USER_TOP_UP_DAILY_HBAR to allow them');
+      }
+
+      const formatHbar = (tinybars: bigint) => formatTokenAmount(tokenAmountFromRaw(tinybars, HBAR_DECIMALS));
+      const amountTinybars = parseTokenAmount(amount, HBAR_DECIMALS).raw;
+      if (amountTinybars === 0n) {
+        throw new Error('Amount must be greater than zero');
+      }
+
+      const profile = resolveNetwork(runtime, 'testnet');
+      const network = profile.name;
+      const secret = requireEncryptionSecret(runtime);
+
+      const keyConfig = readOperatorKeyConfig(readSetting(runtime));
+      const treasuryId = runtime.getSetting('HEDERA_ACCOUNT_ID') || process.env.HEDERA_ACCOUNT_ID;
+      if (!hasOperatorKey(keyConfig) || !treasuryId) {
+        throw new Error('Set HEDERA_ACCOUNT_ID and HEDERA_PRIVATE_KEY (or HEDERA_MNEMONIC) of the treasury to fund user accounts');
+      }
+      const operatorKey = await getOperatorKey(runtime, profile, String(treasuryId));
+
+      // The top-up is stored before it is sent, so it counts towards the limit even if the agent stops midway
+      const topUps = new UserTopUpStore(runtime);
+      const { topUp, usedTinybars } = await withTopUpLock(async () => {
+        const usedTinybars = await topUps.received(message.entityId, network, Date.now() - DAY_MS);
+        if (usedTinybars + amountTinybars > dailyLimit) {
+          throw new Error(
+            `A top-up of ${amount} HBAR exceeds your daily limit of ${formatHbar(dailyLimit)} HBAR ` +
+            `(${formatHbar(usedTinybars)} HBAR received in the last 24 hours)`
+          );
+        }
+
+        const now = Date.now();
+        const topUp = await topUps.create({
+          entityId: message.entityId,
+          roomId: message.roomId,
+          network,
+          amountTinybars: amountTinybars.toString(),
+          status: 'pending',
+          createdAt: now,
+          updatedAt: now,
+        });
+        return { topUp, usedTinybars };
+      });
+
+      const client = createHederaClient(profile);
+      client.setOperator(AccountId.fromString(String(treasuryId)), operatorKey);
+
+      let account: StoredUserAccount | null;
+      let transactionId: string;
+      let submittedTransactionId: string | undefined;
+      let created = false;
+      try {
+        const store = new UserAccountStore(runtime);
+        account = await store.forUser(message.entityId, network);
+
+        // The first top-up creates an empty account and stores its key before any HBAR is sent to it
+        const creationKey = `${runtime.agentId}:${network}:${message.entityId}`;
+        const inFlight = userAccountCreations.get(creationKey);
+        if (!account && inFlight) {
+          account = await inFlight;
+        }
+
+        if (!account) {
+          const creation = (async () => {
+            const result = await createUserAccount(client);
+            try {
+              const now = Date.now();
+              return await store.create({
+                entityId: message.entityId,
+                roomId: message.roomId,
+                network,
+                accountId: result.accountId,
+                encryptedKey: encryptPrivateKey(result.privateKey, secret),
+                createdAt: now,
+                updatedAt: now,
+              });
+            } catch (error) {
+              logger.error(`Account ${result.accountId} was created for ${message.entityId} but could not be stored; it was not funded:`, error);
+              throw error;
+            }
+          })();
+          userAccountCreations.set(creationKey, creation);
+          try {
+            account = await creation;
+          } finally {
+            userAccountCreations.delete(creationKey);
+          }
+          created = true;
+        }
+
+        ({ transactionId } = await transferFunds(client, String(treasuryId), account.accountId, amountTinybars, undefined, async (id) => {
+          submittedTransactionId = id;
+          await topUps.update(topUp.id, { transactionId: id })
+            .catch((error) => logger.warn('Could not update the top-up:', error));
+        }));
+      } catch (error) {
+        const failureReason = error instanceof Error ? error.message : String(error);
+
+        // Only a top-up that was never sent, or that the network rejected, no longer counts towards the limit;
+        // otherwise its outcome is unknown and it stays pending
+        const failed = !submittedTransactionId || error instanceof ReceiptStatusError;
+        await topUps.update(topUp.id, failed ? { status: 'failed', failureReason } : { failureReason })
+          .catch((updateError) => logger.warn('Could not update the top-up:', updateError));
+        if (!failed) {
+          throw new Error(`Top-up ${submittedTransactionId} was sent but its outcome is unknown: ${failureReason}`);
+        }
+        throw error;
+      } finally {
+        client.close();
+      }
+
+      await topUps.update(topUp.id, { status: 'success', transactionId })
+        .catch((error) => logger.warn('Could not update the top-up:', error));
+      const remaining = formatHbar(dailyLimit - usedTinybars - amountTinybars);
+
+      let topUpText = created
+        ? `🆕 **Account Created** (${network})\n\n`
+        : `✅ **Account Topped Up** (${network})\n\n`;
+      topUpText += `• **Account:** ${account.accountId}\n`;
+      topUpText += `• **Amount:** ${amount} HBAR from the treasury (${treasuryId})\n`;
+      topUpText += `• **Remaining Today:** ${remaining} HBAR\n`;
+      topUpText += `• **Transaction ID:** ${transactionId}\n`;
+      const explorerUrl = getTransactionExplorerUrl(profile, transactionId);
+      if (explorerUrl) {
+        topUpText += `• [Explorer](${explorerUrl})\n`;
+      }
+      if (created) {
+        topUpText += `\nYour swaps, conversions and withdrawals now use this account. Its key is held encrypted by the agent.\n`;
+      }
+
+      if (callback) {
+        await callback({
+          text: topUpText,
+          actions: ['TOP_UP_ACCOUNT'],
+          source: message.content.source,
+        });
+      }
+
+      return {
+        text: `${created ? 'Created and funded' : 'Topped up'} account ${account.accountId} with ${amount} HBAR`,
+        values: {
+          success: true,
+          accountId: account.accountId,
+          created: created,
+          amount: amount,
+          transactionId: transactionId,
+          remainingToday: remaining,
+          network: network,
+        },
+        data: {
+          actionName: 'TOP_UP_ACCOUNT',
+          messageId: message.id,
+          timestamp: Date.now(),
+          accountId: account.accountId,
+          transactionId: transactionId,
+          network: network,
+        },
+        success: true,
+      };
+    } catch (error) {
+      logger.error('Error in TOP_UP_ACCOUNT action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to top up account: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'TOP_UP_ACCOUNT_FAILED',
+        },
+        data: {
+          actionName: 'TOP_UP_ACCOUNT',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Top up my account with 10 HBAR',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Funding your account with 10 HBAR from the treasury...',
+          actions: ['TOP_UP_ACCOUNT'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Withdraw Funds Action
+ * Transfers HBAR or a token from the requesting user's account to another account
+ */
+const withdrawFundsAction: Action = {
+  name: 'WITHDRAW_FUNDS',
+  similes: ['WITHDRAW', 'TRANSFER_TOKENS', 'SEND_TOKENS'],
+  description: 'Withdraws HBAR or tokens from your own Hedera account to another account',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseWithdrawRequest(text) !== null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling WITHDRAW_FUNDS action');
+
+      const request = parseWithdrawRequest(message.content.text || '');
+      if (!request) {
+        throw new Error('Could not parse the withdrawal. Please use format like "Withdraw 5 HBAR to 0.0.1234"');
+      }
+
+      // A shared account belongs to everyone, so only per-user accounts can be withdrawn from
+      if (resolveAccountMode(runtime) !== 'per-user') {
+        throw new Error('Withdrawals move funds out of per-user accounts. Set HEDERA_ACCOUNT_MODE=per-user to give each user their own account');
+      }
+
+      const profile = resolveNetwork(runtime, 'testnet');
+      const { name: network, mirrorNodeUrl } = profile;
+
+      const account = await getTradingAccount(runtime, profile, message.entityId);
+      if (request.destination === account.accountId) {
+        throw new Error(`${request.destination} is your own account`);
+      }
+
+      const token = await getTokenRegistry(profile).resolve(request.token, mirrorNodeUrl);
+      const decimals = token.decimals ?? await fetchTokenDecimals(token.id, mirrorNodeUrl);
+      const amountRaw = parseTokenAmount(request.amount, decimals).raw;
+      if (amountRaw === 0n) {
+        throw new Error('Amount must be greater than zero');
+      }
+
+      const client = createHederaClient(profile);
+      client.setOperator(AccountId.fromString(account.accountId), account.operatorKey);
+      let result: { transactionId: string; feeTinybars: bigint };
+      try {
+        result = await transferFunds(
+          client,
+          account.accountId,
+          request.destination,
+          amountRaw,
+          token.id === HBAR_TOKEN_ID ? undefined : token.id
+        );
+      } finally {
+        client.close();
+      }
+
+      const fee = formatTokenAmount(tokenAmountFromRaw(result.feeTinybars, HBAR_DECIMALS));
+
+      let withdrawText = `✅ **Withdrawal Sent** (${network})\n\n`;
+      withdrawText += `• **Amount:** ${request.amount} ${token.symbol}\n`;
+      withdrawText += `• **From:** ${account.accountId}\n`;
+      withdrawText += `• **To:** ${request.destination}\n`;
+      withdrawText += `• **Network Fee:** ${fee} HBAR\n`;
+      withdrawText += `• **Transaction ID:** ${result.transactionId}\n`;
+      const explorerUrl = getTransactionExplorerUrl(profile, result.transactionId);
+      if (explorerUrl) {
+        withdrawText += `• [Explorer](${explorerUrl})\n`;
+      }
+
+      if (callback) {
+        await callback({
+          text: withdrawText,
+          actions: ['WITHDRAW_FUNDS'],
+          source: message.content.source,
+        });
+      }
+
+      return {
+        text: `Withdrew ${request.amount} ${token.symbol} from ${account.accountId} to ${request.destination}`,
+        values: {
+          success: true,
+          amount: request.amount,
+          token: token.symbol,
+          tokenId: token.id,
+          from: account.accountId,
+          to: request.destination,
+          transactionId: result.transactionId,
+          fee: fee,
+          network: network,
+        },
+        data: {
+          actionName: 'WITHDRAW_FUNDS',
+          messageId: message.id,
+          timestamp: Date.now(),
+          transactionId: result.transactionId,
+          network: network,
+        },
+        success: true,
+      };
+    } catch (error) {
+      logger.error('Error in WITHDRAW_FUNDS action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to withdraw: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'WITHDRAW_FUNDS_FAILED',
+        },
+        data: {
+          actionName: 'WITHDRAW_FUNDS',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Withdraw 5 HBAR to 0.0.1234',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Sending 5 HBAR from your account to 0.0.1234...',
+          actions: ['WITHDRAW_FUNDS'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Parse a limit order ("Buy 1000 SAUCE if it drops below 0.02 USDC",
+ * "Sell 500 SAUCE when the price is above 0.05 USDC for 3 days")
+ */
+function parseLimitOrderRequest(text: string): {
+  side: OrderSide;
+  amount: string;
+  token: string;
+  condition: PriceCondition;
+  limitPrice: string;
+  quoteToken: string;
+  expiryHours?: number;
+} | null {
+  const token = String.raw`(0x[0-9a-fA-F]{40}|\d+\.\d+\.\d+|[A-Za-z]\w*(?:\[\w+\])?)`;
+  const amount = String.raw`(\d+(?:\.\d+)?)`;
+
+  const match = text.match(new RegExp(
+    String.raw`\b(buy|sell)\s+${amount}\s+${token}\s+(?:if|when|once)\b.*?\b(below|under|above|over)\s+${amount}\s+${token}`,
+    'i'
+  ));
+  if (!match) {
+    return null;
+  }
+
+  const [, side, amountStr, orderToken, direction, limitPrice, quoteToken] = match;
+  const expiry = text.match(/\b(?:for|within|expir(?:es|ing)?\s+in)\s+(\d+)\s*(hours?|h|days?|d)\b/i);
+
+  return {
+    side: side.toLowerCase() as OrderSide,
+    amount: amountStr,
+    token: normalizeTokenQuery(orderToken),
+    condition: /^(below|under)$/i.test(direction) ? 'below' : 'above',
+    limitPrice,
+    quoteToken: normalizeTokenQuery(quoteToken),
+    expiryHours: expiry ? Number(expiry[1]) * (/^d/i.test(expiry[2]) ? 24 : 1) : undefined,
+  };
+}
+
+/**
+ * Parse an order cancellation ("cancel order 3f9a2c1b")
+ */
+function parseCancelOrderRequest(text: string): { orderId: string } | null {
+  const match = text.match(/\bcancel\s+(?:limit\s+)?order\s+#?([0-9a-f]{8}(?:-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})?)\b/i);
+  return match ? { orderId: match[1].toLowerCase() } : null;
+}
+
+/**
+ * Parse a protective order on a held token ("Sell all my SAUCE if it falls 15% from now",
+ * "Take profit on 500 SAUCE at 0.05 USDC", "Trailing stop of 10% on my SAUCE")
+ * Thresholds are a price or a percentage of the current price; without an amount the whole balance is sold
+ * An order named outright ("take profit at 0.05 USDC") may leave out the token, which the user is then asked for
+ */
+function parseTriggerOrderRequest(text: string): {
+  kind: Exclude<OrderKind, 'limit'>;
+  amount?: string;
+  token?: string;
+  quoteToken: string;
+  price?: string;
+  thresholdBps?: number;
+  trailing: boolean;
+  expiryHours?: number;
+} | null {
+  const token = String.raw`(0x[0-9a-fA-F]{40}|\d+\.\d+\.\d+|[A-Za-z]\w*(?:\[\w+\])?)`;
+  const amount = String.raw`(\d+(?:\.\d+)?)`;
+
+  const namedKind = /\btake[- ]?profits?\b/i.test(text) ? 'take-profit'
+    : /\b(?:stop[- ]?loss|trailing\s+stop)\b/i.test(text) ? 'stop-loss'
+    : null;
+  const kind = namedKind
+    ?? (/\b(?:rises|gains|climbs|increases|goes\s+up)\b/i.test(text) ? 'take-profit'
+    : /\b(?:falls|drops|declines|decreases|goes\s+down)\b/i.test(text) ? 'stop-loss'
+    : null);
+  if (!kind) {
+    return null;
+  }
+
+  const held = text.match(new RegExp(
+    String.raw`\b(?:sell|on|for)\s+(?:all\s+(?:of\s+)?(?:my\s+)?|my\s+|${amount}\s+)?${token}(?:\s+(?:for|into)\s+${token})?`,
+    'i'
+  )) ?? (namedKind ? [] : null);
+  if (!held || (held[2] && /^(?:all|my|it)$/i.test(held[2]))) {
+    return null;
+  }
+
+  const price = text.match(new RegExp(String.raw`\b(?:at|below|under|above|over|reaches|hits)\s+${amount}\s+${token}`, 'i'));
+  const percent = text.match(/(\d+(?:\.\d+)?)\s*%/);
+  if (!price && !percent) {
+    return null;
+  }
+
+  const pricedIn = text.match(new RegExp(String.raw`\b(?:priced\s+in|against)\s+${token}`, 'i'));
+  const quoteToken = price?.[2] ?? held[3] ?? pricedIn?.[1] ?? DEFAULT_TRIGGER_QUOTE_TOKEN;
+  const expiry = text.match(/\b(?:for|within|expir(?:es|ing)?\s+in)\s+(\d+)\s*(hours?|h|days?|d)\b/i);
+
+  return {
+    kind,
+    amount: held[1],
+    token: held[2] ? normalizeTokenQuery(held[2]) : undefined,
+    quoteToken: normalizeTokenQuery(quoteToken),
+    price: price?.[1],
+    thresholdBps: !price && percent ? Math.round(Number(percent[1]) * 100) : undefined,
+    trailing: /\btrailing\b/i.test(text),
+    expiryHours: expiry ? Number(expiry[1]) * (/^d/i.test(expiry[2]) ? 24 : 1) : undefined,
+  };
+}
+
+/**
+ * Quote the swap an order makes at the current price: buying exactly its amount, or selling exactly its amount
+ */
+function quoteOrderSwap(
+  order: Pick<LimitOrderEntry, 'side' | 'amount' | 'tokenId' | 'quoteTokenId' | 'slippageBps'>,
+  profile: NetworkProfile,
+  maxHops: number
+): Promise<SwapQuotePlan> {
+  return order.side === 'buy'
+    ? quoteSwap(order.amount, order.quoteTokenId, order.tokenId, profile, order.slippageBps, 'exactOutput', maxHops)
+    : quoteSwap(order.amount, order.tokenId, order.quoteTokenId, profile, order.slippageBps, 'exactInput', maxHops);
+}
+
+/**
+ * Quote a triggered order bounded by its limit price
+ * Orders waiting for a better price (buy below, sell above) fill at the limit price or better; the others
+ * fill at the market within their slippage. Returns null when the quote, after fees and price impact, misses the limit
+ */
+async function quoteTriggeredOrder(order: StoredOrder, profile: NetworkProfile, maxHops: number): Promise<SwapQuotePlan | null> {
+  const plan = await quoteOrderSwap(order, profile, maxHops);
+
+  const isBuy = order.side === 'buy';
+  if (isBuy !== (order.condition === 'below')) {
+    return plan;
+  }
+
+  const limitTotal = parseTokenAmount(order.amount, order.tokenDecimals).raw *
+    parseTokenAmount(order.limitPrice, order.quoteTokenDecimals).raw /
+    10n ** BigInt(order.tokenDecimals);
+  const amountLimit = isBuy
+    ? (plan.amountLimit < limitTotal ? plan.amountLimit : limitTotal)
+    : (plan.amountLimit > limitTotal ? plan.amountLimit : limitTotal);
+
+  const bounded = { ...plan, amountLimit };
+  return isQuoteWithinLimit(bounded, amountLimit) ? bounded : null;
+}
+
+/**
+ * An account's balance of an HTS token in token units, or null when it holds none
+ */
+async function fetchHeldTokenAmount(mirrorNodeUrl: string, accountId: string, tokenId: string, decimals: number): Promise<string | null> {
+  const { tokens } = await fetchAccountBalances(mirrorNodeUrl, accountId);
+  const balance = tokens.find((token) => token.tokenId === tokenId)?.balance ?? 0n;
+  return balance > 0n ? formatTokenAmount(tokenAmountFromRaw(balance, decimals)) : null;
+}
+
+/**
+ * Post an order update to the room the order was placed from
+ */
+async function notifyOrderRoom(runtime: IAgentRuntime, order: StoredOrder, text: string): Promise<void> {
+  try {
+    await runtime.sendMessageToTarget(
+      { source: order.source || 'hedera-dex', roomId: order.roomId as UUID, entityId: order.entityId as UUID },
+      { text, actions: ['PLACE_LIMIT_ORDER'], source: order.source }
+    );
+  } catch (error) {
+    logger.warn(`Could not notify room ${order.roomId} about order ${shortOrderId(order.id)}:`, error);
+  }
+}
+
+/**
+ * A swap a user submitted since a time on behalf of an order or plan, if any
+ */
+async function findOriginSwap(runtime: IAgentRuntime, entityId: string, origin: SwapOrigin, since?: number): Promise<StoredSwap | null> {
+  const swaps = await new SwapLedger(runtime).history(entityId, { since, limit: MAX_SWAP_HISTORY_LIMIT });
+  const keys = Object.keys(origin) as (keyof SwapOrigin)[];
+  return swaps.find((swap) => keys.every((key) => swap[key] === origin[key])) ?? null;
+}
+
+/**
+ * Count a failed execution: the order is reopened until it has failed MAX_ORDER_ATTEMPTS times
+ */
+async function failOrderAttempt(runtime: IAgentRuntime, book: OrderBook, order: StoredOrder, reason: string): Promise<void> {
+  const attempts = order.attempts + 1;
+  if (attempts < MAX_ORDER_ATTEMPTS) {
+    logger.warn(`Limit order ${shortOrderId(order.id)} failed (attempt ${attempts} of ${MAX_ORDER_ATTEMPTS}): ${reason}`);
+    await book.update(order.id, { status: 'open', attempts, lastError: reason });
+    return;
+  }
+
+  await book.update(order.id, { status: 'failed', attempts, lastError: reason });
+  await notifyOrderRoom(
+    runtime,
+    order,
+    `❌ **Order ${shortOrderId(order.id)} Failed**\n\n${describeOrder(order)} failed ${attempts} times and was closed. Last error: ${reason}`
+  );
+}
+
+/**
+ * Execute an order whose pool price crossed its limit
+ */
+async function executeLimitOrder(
+  runtime: IAgentRuntime,
+  book: OrderBook,
+  order: StoredOrder,
+  profile: NetworkProfile,
+  triggerPrice: string
+): Promise<void> {
+  const orderId = shortOrderId(order.id);
+  logger.info(`Limit order ${orderId} triggered at ${triggerPrice} ${order.quoteToken}`);
+
+  // Claimed before anything is submitted, so a slow execution is not started twice
+  order = await book.update(order.id, { status: 'executing', triggerPrice, triggeredAt: Date.now() });
+
+  try {
+    const account = await getTradingAccount(runtime, profile, order.entityId as UUID);
+
+    // Orders on a held balance sell whatever is held now, however much that is
+    if (order.sellBalance) {
+      const heldAmount = await fetchHeldTokenAmount(profile.mirrorNodeUrl, account.accountId, order.tokenId, order.tokenDecimals);
+      if (heldAmount === null) {
+        const reason = `${account.accountId} no longer holds any ${order.token}`;
+        await book.update(order.id, { status: 'failed', lastError: reason });
+        await notifyOrderRoom(
+          runtime,
+          order,
+          `🚫 **Order ${orderId} Not Executed**\n\n${describeOrder(order)} was triggered at ${triggerPrice} ${order.quoteToken}, but ${reason}`
+        );
+        return;
+      }
+      order = { ...order, amount: heldAmount };
+    }
+
+    const plan = await quoteTriggeredOrder(order, profile, resolveMaxHops(runtime));
+    if (!plan) {
+      // The pool price crossed the limit, but not once fees and price impact are included
+      logger.info(`Quote for limit order ${orderId} misses its ${order.limitPrice} ${order.quoteToken} limit, keeping it open`);
+      await book.update(order.id, { status: 'open' });
+      return;
+    }
+
+    // The policy may have changed, or the user's volume grown, since the order was placed
+    try {
+      await enforceTradingPolicy(runtime, plan, order.entityId, profile);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await book.update(order.id, { status: 'failed', lastError: reason });
+      await notifyOrderRoom(
+        runtime,
+        order,
+        `🚫 **Order ${orderId} Not Executed**\n\n${describeOrder(order)} was triggered at ${triggerPrice} ${order.quoteToken}, but ${reason}`
+      );
+      return;
+    }
+
+    const message: Memory = {
+      entityId: order.entityId as UUID,
+      agentId: runtime.agentId,
+      roomId: order.roomId as UUID,
+      content: { text: describeOrder(order), source: order.source },
+    };
+
+    const result = await executeQuotedSwap(
+      runtime,
+      plan,
+      resolveAutoAssociate(runtime, '', undefined),
+      account.operatorKey,
+      account.accountId,
+      profile,
+      message,
+      async (content) => {
+        await notifyOrderRoom(runtime, order, `🎯 **Order ${orderId} Filled** (triggered at ${triggerPrice} ${order.quoteToken})\n\n${content.text}`);
+        return [];
+      },
+      'PLACE_LIMIT_ORDER',
+      { orderId: order.id }
+    );
+
+    await book.update(order.id, { status: 'filled', swapTransactionId: result.values?.transactionId as string | undefined });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+
+    // A swap submitted without a receipt may still succeed; it is settled from the ledger on the next check
+    const submitted = await findOriginSwap(runtime, order.entityId, { orderId: order.id }, order.triggeredAt).catch(() => null);
+    if (submitted?.status === 'pending') {
+      logger.warn(`Outcome of limit order ${orderId} is unknown, settling it later: ${reason}`);
+      await book.update(order.id, { lastError: reason, swapTransactionId: submitted.transactionId });
+      return;
+    }
+
+    await failOrderAttempt(runtime, book, order, reason);
+  }
+}
+
+/**
+ * Settle an order left executing: by a swap whose outcome was unknown, or by an agent that stopped mid-execution
+ */
+async function settleExecutingOrder(runtime: IAgentRuntime, book: OrderBook, order: StoredOrder, profile: NetworkProfile): Promise<void> {
+  const swap = await findOriginSwap(runtime, order.entityId, { orderId: order.id }, order.triggeredAt);
+  if (!swap) {
+    if (Date.now() - (order.triggeredAt ?? order.updatedAt) > ORDER_EXECUTION_TIMEOUT_MS) {
+      logger.warn(`Limit order ${shortOrderId(order.id)} never submitted its swap, reopening it`);
+      await book.update(order.id, { status: 'open' });
+    }
+    return;
+  }
+
+  const [settled] = swap.status === 'pending'
+    ? await new SwapLedger(runtime).reconcile([swap], profile.mirrorNodeUrl)
+    : [swap];
+  if (!settled) {
+    return;
+  }
+
+  if (settled.status === 'failed') {
+    await failOrderAttempt(runtime, book, order, settled.failureReason || 'The swap failed');
+    return;
+  }
+
+  await book.update(order.id, { status: 'filled', swapTransactionId: settled.transactionId });
+  await notifyOrderRoom(
+    runtime,
+    order,
+    `🎯 **Order ${shortOrderId(order.id)} Filled**\n\n${describeOrder(order)}: swapped ${settled.amountIn ?? '?'} ${settled.fromToken} for ${settled.amountOut ?? '?'} ${settled.toToken} (${settled.transactionId})`
+  );
+}
+
+/**
+ * Check every active limit order once: settle interrupted executions, expire old orders and
+ * execute those whose pool price crossed their limit
+ */
+async function checkLimitOrders(runtime: IAgentRuntime): Promise<void> {
+  const profile = resolveNetwork(runtime, 'testnet');
+  const book = new OrderBook(runtime);
+  const orders = await book.active(profile.name);
+  if (orders.length === 0) {
+    return;
+  }
+
+  const factoryId = requireContract(profile, 'factory');
+  const whbarAddress = requireContract(profile, 'whbar');
+
+  // Each pair's pools are read once per check, however many orders watch it
+  const pairPrices = new Map<string, Promise<bigint[]>>();
+
+  for (const order of orders) {
+    try {
+      if (order.status === 'executing') {
+        await settleExecutingOrder(runtime, book, order, profile);
+        continue;
+      }
+
+      if (order.expiresAt <= Date.now()) {
+        await book.update(order.id, { status: 'expired' });
+        await notifyOrderRoom(
+          runtime,
+          order,
+          `⌛ **Order ${shortOrderId(order.id)} Expired**\n\n${describeOrder(order)} was not triggered before it expired.`
+        );
+        continue;
+      }
+
+      const tokenAddress = order.tokenId === HBAR_TOKEN_ID ? whbarAddress : order.tokenId;
+      const quoteTokenAddress = order.quoteTokenId === HBAR_TOKEN_ID ? whbarAddress : order.quoteTokenId;
+      const pairKey = `${tokenAddress}/${quoteTokenAddress}`;
+      let prices = pairPrices.get(pairKey);
+      if (!prices) {
+        prices = fetchPoolPrices(profile.mirrorNodeUrl, factoryId, tokenAddress, quoteTokenAddress, order.tokenDecimals);
+        pairPrices.set(pairKey, prices);
+      }
+
+      const price = selectTriggerPrice(order.condition, await prices);
+      if (price === null) {
+        continue;
+      }
+
+      // A trailing order's limit rises with every new peak; it cannot trigger on the price that raised it
+      const formatQuotePrice = (raw: bigint) => formatTokenAmount(tokenAmountFromRaw(raw, order.quoteTokenDecimals));
+      if (order.trailing && order.peakPrice && order.thresholdBps !== undefined &&
+          price > parseTokenAmount(order.peakPrice, order.quoteTokenDecimals).raw) {
+        await book.update(order.id, {
+          peakPrice: formatQuotePrice(price),
+          limitPrice: formatQuotePrice(offsetPrice(price, order.thresholdBps, 'below')),
+        });
+        continue;
+      }
+
+      const limitPrice = parseTokenAmount(order.limitPrice, order.quoteTokenDecimals).raw;
+      if (!isPriceTriggered(order.condition, price, limitPrice)) {
+        continue;
+      }
+
+      await executeLimitOrder(runtime, book, order, profile, formatQuotePrice(price));
+    } catch (error) {
+      logger.warn(`Could not check limit order ${shortOrderId(order.id)}:`, error);
+    }
+  }
+}
+
+/**
+ * Place Limit Order Action
+ * Stores a swap that the order watcher executes once a pool price crosses the limit
+ */
+const placeLimitOrderAction: Action = {
+  name: 'PLACE_LIMIT_ORDER',
+  similes: ['LIMIT_ORDER', 'CREATE_ORDER', 'BUY_IF', 'SELL_IF'],
+  description: 'Places a limit order that buys or sells a token once its SaucerSwap price drops below or rises above a limit',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseLimitOrderRequest(text) !== null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling PLACE_LIMIT_ORDER action');
+
+      const text = message.content.text || '';
+      const request = parseLimitOrderRequest(text);
+      if (!request) {
+        throw new Error('Could not parse the order. Please use format like "Buy 1000 SAUCE if it drops below 0.02 USDC"');
+      }
+
+      // Orders execute unattended, so the agent must be able to sign them
+      if (resolveSigningMode(runtime) === 'user') {
+        throw new Error('Limit orders are executed by the agent, so they need HEDERA_SIGNING_MODE=agent');
+      }
+
+      const profile = resolveNetwork(runtime, 'testnet');
+      const { name: network, mirrorNodeUrl } = profile;
+
+      const keyConfig = readOperatorKeyConfig(readSetting(runtime));
+      const accountIdString = runtime.getSetting('HEDERA_ACCOUNT_ID') || process.env.HEDERA_ACCOUNT_ID;
+      if (!hasOperatorKey(keyConfig) || !accountIdString) {
+        throw new Error('Wallet credentials are required to place limit orders');
+      }
+      await getTradingAccount(runtime, profile, message.entityId);
+
+      const expiryHours = request.expiryHours ?? DEFAULT_ORDER_EXPIRY_HOURS;
+      if (expiryHours < 1 || expiryHours > MAX_ORDER_EXPIRY_HOURS) {
+        throw new Error(`Orders can last between 1 hour and ${MAX_ORDER_EXPIRY_HOURS / 24} days`);
+      }
+
+      const registry = getTokenRegistry(profile);
+      const token = await registry.resolve(request.token, mirrorNodeUrl);
+      const quoteToken = await registry.resolve(request.quoteToken, mirrorNodeUrl);
+      const tokenAddress = token.id === HBAR_TOKEN_ID ? requireContract(profile, 'whbar') : token.id;
+      const quoteTokenAddress = quoteToken.id === HBAR_TOKEN_ID ? requireContract(profile, 'whbar') : quoteToken.id;
+      if (tokenAddress === quoteTokenAddress) {
+        throw new Error(`${token.symbol} and ${quoteToken.symbol} resolve to the same token (${tokenAddress}) on ${network}`);
+      }
+      const tokenDecimals = token.decimals ?? await fetchTokenDecimals(tokenAddress, mirrorNodeUrl);
+      const quoteTokenDecimals = quoteToken.decimals ?? await fetchTokenDecimals(quoteTokenAddress, mirrorNodeUrl);
+
+      if (parseTokenAmount(request.limitPrice, quoteTokenDecimals).raw === 0n) {
+        throw new Error('The limit price must be greater than zero');
+      }
+
+      // The watcher reads the price from the pair's own pools
+      const prices = await fetchPoolPrices(mirrorNodeUrl, requireContract(profile, 'factory'), tokenAddress, quoteTokenAddress, tokenDecimals);
+      const currentPrice = selectTriggerPrice(request.condition, prices);
+      if (currentPrice === null) {
+        throw new Error(`No ${token.symbol}/${quoteToken.symbol} pool exists to watch the price of`);
+      }
+
+      const now = Date.now();
+      const entry: LimitOrderEntry = {
+        entityId: message.entityId,
+        roomId: message.roomId,
+        source: message.content.source,
+        network,
+        side: request.side,
+        token: token.symbol,
+        tokenId: token.id,
+        quoteToken: quoteToken.symbol,
+        quoteTokenId: quoteToken.id,
+        tokenDecimals,
+        quoteTokenDecimals,
+        amount: request.amount,
+        condition: request.condition,
+        limitPrice: request.limitPrice,
+        slippageBps: resolveSlippageBps(runtime, text, options),
+        status: 'open',
+        attempts: 0,
+        expiresAt: now + expiryHours * 60 * 60 * 1000,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      // Reject orders the policy forbids now; they are checked again when they execute
+      await enforceTradingPolicy(runtime, await quoteOrderSwap(entry, profile, resolveMaxHops(runtime)), message.entityId, profile);
+
+      const order = await new OrderBook(runtime).create(entry);
+      const orderId = shortOrderId(order.id);
+      const price = formatTokenAmount(tokenAmountFromRaw(currentPrice, quoteTokenDecimals));
+
+      let orderText = `📌 **Limit Order ${orderId}** (${network})\n\n`;
+      orderText += `• **Order:** ${describeOrder(order)}\n`;
+      orderText += `• **Current Price:** ${price} ${quoteToken.symbol} per ${token.symbol}\n`;
+      orderText += `• **Slippage Tolerance:** ${formatBps(order.slippageBps)}\n`;
+      orderText += `• **Expires:** ${new Date(order.expiresAt).toISOString()}\n\n`;
+      orderText += `The price is checked every ${resolveOrderPollSeconds(runtime)} seconds and you will be notified here when the order executes. Reply **cancel order ${orderId}** to cancel it.\n`;
+
+      if (callback) {
+        await callback({
+          text: orderText,
+          actions: ['PLACE_LIMIT_ORDER'],
+          source: message.content.source,
+        });
+      }
+
+      return {
+        text: `Placed limit order ${orderId}: ${describeOrder(order)}`,
+        values: {
+          success: true,
+          orderId: orderId,
+          side: order.side,
+          amount: order.amount,
+          token: order.token,
+          quoteToken: order.quoteToken,
+          condition: order.condition,
+          limitPrice: order.limitPrice,
+          currentPrice: price,
+          expiresAt: order.expiresAt,
+          network: network,
+        },
+        data: {
+          actionName: 'PLACE_LIMIT_ORDER',
+          messageId: message.id,
+          timestamp: Date.now(),
+          order: order,
+          network: network,
+        },
+        success: true,
+      };
+    } catch (error) {
+      logger.error('Error in PLACE_LIMIT_ORDER action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to place limit order: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'PLACE_LIMIT_ORDER_FAILED',
+        },
+        data: {
+          actionName: 'PLACE_LIMIT_ORDER',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Buy 1000 SAUCE if it drops below 0.02 USDC',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Placing a limit order to buy 1000 SAUCE once it trades below 0.02 USDC...',
+          actions: ['PLACE_LIMIT_ORDER'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Sell 500 SAUCE when the price is above 0.05 USDC for 3 days',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Placing a limit order to sell 500 SAUCE once it trades above 0.05 USDC, valid for 3 days...',
+          actions: ['PLACE_LIMIT_ORDER'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Place Trigger Order Action
+ * Protects a held token with a stop-loss, trailing stop or take-profit executed by the order watcher
+ */
+const placeTriggerOrderAction: Action = {
+  name: 'PLACE_TRIGGER_ORDER',
+  similes: ['STOP_LOSS', 'TAKE_PROFIT', 'TRAILING_STOP', 'PROTECTIVE_ORDER'],
+  description: 'Places a stop-loss, trailing stop or take-profit that sells a held token once its SaucerSwap price falls or rises past a price or percentage; asks which token when the order names none',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseTriggerOrderRequest(text) !== null && parseLimitOrderRequest(text) === null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling PLACE_TRIGGER_ORDER action');
+
+      const text = message.content.text || '';
+      const request = parseTriggerOrderRequest(text);
+      if (!request) {
+        throw new Error('Could not parse the order. Please use format like "Sell all my SAUCE if it falls 15% from now" or "Take profit on 500 SAUCE at 0.05 USDC"');
+      }
+      if (!request.token) {
+        throw new Error(
+          `Which token should this ${request.kind} sell? Name the token you hold, like ` +
+          `"${request.kind === 'take-profit' ? 'Take profit on 500 SAUCE at 0.05 USDC' : 'Stop loss on my SAUCE at 0.02 USDC'}"`
+        );
+      }
+      if (request.trailing && request.kind === 'take-profit') {
+        throw new Error('Only stop-losses can trail the price');
+      }
+      if (request.trailing && request.thresholdBps === undefined) {
+        throw new Error('A trailing stop needs a percentage, like "trailing stop of 10% on my SAUCE"');
+      }
+      if (request.thresholdBps !== undefined &&
+          (request.thresholdBps <= 0 || (request.kind === 'stop-loss' && request.thresholdBps >= 10_000))) {
+        throw new Error(`A ${request.kind} percentage must be above 0%${request.kind === 'stop-loss' ? ' and below 100%' : ''}`);
+      }
+
+      // Orders execute unattended, so the agent must be able to sign them
+      if (resolveSigningMode(runtime) === 'user') {
+        throw new Error('Trigger orders are executed by the agent, so they need HEDERA_SIGNING_MODE=agent');
+      }
+
+      const profile = resolveNetwork(runtime, 'testnet');
+      const { name: network, mirrorNodeUrl } = profile;
+
+      const keyConfig = readOperatorKeyConfig(readSetting(runtime));
+      const accountIdString = runtime.getSetting('HEDERA_ACCOUNT_ID') || process.env.HEDERA_ACCOUNT_ID;
+      if (!hasOperatorKey(keyConfig) || !accountIdString) {
+        throw new Error('Wallet credentials are required to place trigger orders');
+      }
+      const account = await getTradingAccount(runtime, profile, message.entityId);
+
+      const expiryHours = request.expiryHours ?? MAX_ORDER_EXPIRY_HOURS;
+      if (expiryHours < 1 || expiryHours > MAX_ORDER_EXPIRY_HOURS) {
+        throw new Error(`Orders can last between 1 hour and ${MAX_ORDER_EXPIRY_HOURS / 24} days`);
+      }
+
+      const registry = getTokenRegistry(profile);
+      const token = await registry.resolve(request.token, mirrorNodeUrl);
+      const quoteToken = await registry.resolve(request.quoteToken, mirrorNodeUrl);
+      const tokenAddress = token.id === HBAR_TOKEN_ID ? requireContract(profile, 'whbar') : token.id;
+      const quoteTokenAddress = quoteToken.id === HBAR_TOKEN_ID ? requireContract(profile, 'whbar') : quoteToken.id;
+      if (tokenAddress === quoteTokenAddress) {
+        throw new Error(`${token.symbol} and ${quoteToken.symbol} resolve to the same token (${tokenAddress}) on ${network}`);
+      }
+      const tokenDecimals = token.decimals ?? await fetchTokenDecimals(tokenAddress, mirrorNodeUrl);
+      const quoteTokenDecimals = quoteToken.decimals ?? await fetchTokenDecimals(quoteTokenAddress, mirrorNodeUrl);
+
+      // Without an amount the whole balance is protected; HBAR also pays the fees, so it always needs one
+      const sellBalance = request.amount === undefined;
+      let amount = request.amount;
+      if (amount === undefined) {
+        if (token.id === HBAR_TOKEN_ID) {
+          throw new Error('HBAR pays the network fees, so say how much HBAR the order should sell');
+        }
+        const heldAmount = await fetchHeldTokenAmount(mirrorNodeUrl, account.accountId, token.id, tokenDecimals);
+        if (heldAmount === null) {
+          throw new Error(`${account.accountId} holds no ${token.symbol} to protect`);
+        }
+        amount = heldAmount;
+      }
+
+      const condition: PriceCondition = request.kind === 'stop-loss' ? 'below' : 'above';
+      const prices = await fetchPoolPrices(mirrorNodeUrl, requireContract(profile, 'factory'), tokenAddress, quoteTokenAddress, tokenDecimals);
+      const currentPrice = selectTriggerPrice(condition, prices);
+      if (currentPrice === null) {
+        throw new Error(`No ${token.symbol}/${quoteToken.symbol} pool exists to watch the price of`);
+      }
+
+      const formatQuotePrice = (raw: bigint) => formatTokenAmount(tokenAmountFromRaw(raw, quoteTokenDecimals));
+      const limitPrice = request.price !== undefined
+        ? parseTokenAmount(request.price, quoteTokenDecimals).raw
+        : offsetPrice(currentPrice, request.thresholdBps!, condition);
+      if (limitPrice === 0n) {
+        throw new Error('The trigger price must be greater than zero');
+      }
+      if (isPriceTriggered(condition, currentPrice, limitPrice)) {
+        throw new Error(
+          `The ${request.kind} price of ${formatQuotePrice(limitPrice)} ${quoteToken.symbol} is already ${condition === 'below' ? 'above' : 'below'} ` +
+          `the current price of ${formatQuotePrice(currentPrice)} ${quoteToken.symbol}`
+        );
+      }
+
+      const now = Date.now();
+      const entry: LimitOrderEntry = {
+        entityId: message.entityId,
+        roomId: message.roomId,
+        source: message.content.source,
+        network,
+        kind: request.kind,
+        side: 'sell',
+        token: token.symbol,
+        tokenId: token.id,
+        quoteToken: quoteToken.symbol,
+        quoteTokenId: quoteToken.id,
+        tokenDecimals,
+        quoteTokenDecimals,
+        amount: amount,
+        condition,
+        limitPrice: formatQuotePrice(limitPrice),
+        sellBalance: sellBalance || undefined,
+        referencePrice: request.thresholdBps !== undefined ? formatQuotePrice(currentPrice) : undefined,
+        thresholdBps: request.thresholdBps,
+        trailing: request.trailing || undefined,
+        peakPrice: request.trailing ? formatQuotePrice(currentPrice) : undefined,
+        slippageBps: resolveSlippageBps(runtime, text, options),
+        status: 'open',
+        attempts: 0,
+        expiresAt: now + expiryHours * 60 * 60 * 1000,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      // Reject orders the policy forbids now; they are checked again when they execute
+      await enforceTradingPolicy(runtime, await quoteOrderSwap(entry, profile, resolveMaxHops(runtime)), message.entityId, profile);
+
+      const order = await new OrderBook(runtime).create(entry);
+      const orderId = shortOrderId(order.id);
+      const price = formatQuotePrice(currentPrice);
+      const title = request.trailing ? 'Trailing Stop' : request.kind === 'stop-loss' ? 'Stop-Loss' : 'Take-Profit';
+
+      let orderText = `🛡️ **${title} ${orderId}** (${network})\n\n`;
+      orderText += `• **Order:** ${describeOrder(order)}\n`;
+      if (order.sellBalance) {
+        orderText += `• **Held Now:** ${order.amount} ${token.symbol} (the balance held when the order triggers is sold)\n`;
+      }
+      orderText += `• **Current Price:** ${price} ${quoteToken.symbol} per ${token.symbol}\n`;
+      orderText += `• **Slippage Tolerance:** ${formatBps(order.slippageBps)}\n`;
+      orderText += `• **Expires:** ${new Date(order.expiresAt).toISOString()}\n\n`;
+      orderText += `The price is checked every ${resolveOrderPollSeconds(runtime)} seconds and you will be notified here when the order executes. Reply **cancel order ${orderId}** to cancel it.\n`;
+
+      if (callback) {
+        await callback({
+          text: orderText,
+          actions: ['PLACE_TRIGGER_ORDER'],
+          source: message.content.source,
+        });
+      }
+
+      return {
+        text: `Placed ${request.kind} order ${orderId}: ${describeOrder(order)}`,
+        values: {
+          success: true,
+          orderId: orderId,
+          kind: order.kind,
+          amount: order.amount,
+          sellBalance: !!order.sellBalance,
+          token: order.token,
+          quoteToken: order.quoteToken,
+          condition: order.condition,
+          limitPrice: order.limitPrice,
+          trailing: !!order.trailing,
+          currentPrice: price,
+          expiresAt: order.expiresAt,
+          network: network,
+        },
+        data: {
+          actionName: 'PLACE_TRIGGER_ORDER',
+          messageId: message.id,
+          timestamp: Date.now(),
+          order: order,
+          network: network,
+        },
+        success: true,
+      };
+    } catch (error) {
+      logger.error('Error in PLACE_TRIGGER_ORDER action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to place trigger order: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'PLACE_TRIGGER_ORDER_FAILED',
+        },
+        data: {
+          actionName: 'PLACE_TRIGGER_ORDER',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Sell all my SAUCE if it falls 15% from now',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Placing a stop-loss that sells your SAUCE if its price falls 15%...',
+          actions: ['PLACE_TRIGGER_ORDER'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Take profit on 500 SAUCE at 0.05 USDC',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Placing a take-profit that sells 500 SAUCE once it trades at 0.05 USDC...',
+          actions: ['PLACE_TRIGGER_ORDER'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Set a trailing stop of 10% on my SAUCE',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Placing a trailing stop that sells your SAUCE if it falls 10% from its peak...',
+          actions: ['PLACE_TRIGGER_ORDER'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Take profit at 0.05 USDC',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Which token should this take-profit sell? Name the token you hold, like "Take profit on 500 SAUCE at 0.05 USDC"',
+          actions: ['PLACE_TRIGGER_ORDER'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Cancel Order Action
+ * Cancels one of the requesting user's open limit orders
+ */
+const cancelOrderAction: Action = {
+  name: 'CANCEL_ORDER',
+  similes: ['CANCEL_LIMIT_ORDER', 'REMOVE_ORDER'],
+  description: 'Cancels one of your open limit orders by its ID',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseCancelOrderRequest(text) !== null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling CANCEL_ORDER action');
+
+      const orderId = options?.orderId ?? parseCancelOrderRequest(message.content.text || '')?.orderId;
+      if (!orderId) {
+        throw new Error('Please say which order to cancel, like "cancel order 3f9a2c1b"');
+      }
+
+      const book = new OrderBook(runtime);
+      const order = await book.find(message.entityId, orderId);
+      if (!order) {
+        throw new Error(`No order ${orderId} found for you. Ask to "list my orders" to see them.`);
+      }
+      if (order.status === 'executing') {
+        throw new Error(`Order ${shortOrderId(order.id)} is executing and can no longer be cancelled`);
+      }
+      if (order.status !== 'open') {
+        throw new Error(`Order ${shortOrderId(order.id)} is already ${order.status}`);
+      }
+
+      const cancelled = await book.update(order.id, { status: 'cancelled' });
+
+      if (callback) {
+        await callback({
+          text: `🗑️ **Order ${shortOrderId(cancelled.id)} Cancelled**\n\n${describeOrder(cancelled)}\n`,
+          actions: ['CANCEL_ORDER'],
+          source: message.content.source,
+        });
+      }
+
+      return {
+        text: `Cancelled order ${shortOrderId(cancelled.id)}`,
+        values: {
+          success: true,
+          orderId: shortOrderId(cancelled.id),
+          status: cancelled.status,
+        },
+        data: {
+          actionName: 'CANCEL_ORDER',
+          messageId: message.id,
+          timestamp: Date.now(),
+          order: cancelled,
+        },
+        success: true,
+      };
+    } catch (error) {
+      logger.error('Error in CANCEL_ORDER action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to cancel order: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'CANCEL_ORDER_FAILED',
+        },
+        data: {
+          actionName: 'CANCEL_ORDER',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'cancel order 3f9a2c1b',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Cancelling limit order 3f9a2c1b...',
+          actions: ['CANCEL_ORDER'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * List Orders Action
+ * Lists the requesting user's limit orders, open ones first
+ */
+const listOrdersAction: Action = {
+  name: 'LIST_ORDERS',
+  similes: ['SHOW_ORDERS', 'MY_ORDERS', 'OPEN_ORDERS', 'LIMIT_ORDERS'],
+  description: 'Lists your limit orders with their status, limit price and expiry',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && /\b(?:list|show|my|open)\b.*\borders\b/i.test(text) && !/\btwap\b/i.test(text) && parseCancelOrderRequest(text) === null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling LIST_ORDERS action');
+
+      const orders = await new OrderBook(runtime).list(message.entityId);
+      const active = orders.filter((order) => order.status === 'open' || order.status === 'executing');
+      const closed = orders.filter((order) => !active.includes(order)).slice(0, CLOSED_ORDERS_LISTED);
+
+      let ordersText: string;
+      if (orders.length === 0) {
+        ordersText = 'You have no limit orders. Try "Buy 1000 SAUCE if it drops below 0.02 USDC".';
+      } else {
+        const formatOrder = (order: StoredOrder, i: number) => {
+          let line = `${i + 1}. **${shortOrderId(order.id)}** ${describeOrder(order)} — ${order.status}\n`;
+          if (order.status === 'open') {
+            line += `   • Expires: ${new Date(order.expiresAt).toISOString()}\n`;
+          }
+          if (order.swapTransactionId) {
+            line += `   • Transaction: ${order.swapTransactionId}\n`;
+          }
+          if (order.lastError && order.status !== 'filled') {
+            line += `   • Last error: ${order.lastError}\n`;
+          }
+          return line;
+        };
+
+        ordersText = `📒 **Your Limit Orders**\n\n`;
+        ordersText += active.length > 0 ? `**Open:**\n${active.map(formatOrder).join('')}\n` : 'No open orders.\n\n';
+        if (closed.length > 0) {
+          ordersText += `**Recently Closed:**\n${closed.map(formatOrder).join('')}`;
+        }
+      }
+
+      if (callback) {
+        await callback({
+          text: ordersText,
+          actions: ['LIST_ORDERS'],
+          source: message.content.source,
+        });
+      }
+
+      return {
+        text: `Found ${active.length} open and ${orders.length - active.length} closed orders`,
+        values: {
+          success: true,
+          openCount: active.length,
+          totalCount: orders.length,
+        },
+        data: {
+          actionName: 'LIST_ORDERS',
+          messageId: message.id,
+          timestamp: Date.now(),
+          orders: [...active, ...closed],
+        },
+        success: true,
+      };
+    } catch (error) {
+      logger.error('Error in LIST_ORDERS action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to list orders: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'LIST_ORDERS_FAILED',
+        },
+        data: {
+          actionName: 'LIST_ORDERS',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Show my open orders',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Here are your limit orders...',
+          actions: ['LIST_ORDERS'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Whether a message asks for a recurring swap, including one whose schedule is invalid
+ */
+function isDcaRequest(text: string): boolean {
+  if (!/\b(?:every|each|daily|weekly|hourly)\b/i.test(text)) {
+    return false;
+  }
+  try {
+    return parseDcaRequest(text) !== null;
+  } catch {
+    // An invalid schedule is still a DCA request; the handler explains what is wrong with it
+    return true;
+  }
+}
+
+/**
+ * Parse a recurring swap ("buy 50 HBAR worth of SAUCE every Monday", "swap 10 USDC for SAUCE every day at 9:00")
+ * The first amount is always what each purchase spends; throws when the schedule is invalid
+ */
+function parseDcaRequest(text: string): {
+  amount: string;
+  fromToken: string;
+  toToken: string;
+  schedule: DcaSchedule;
+} | null {
+  const token = String.raw`(0x[0-9a-fA-F]{40}|\d+\.\d+\.\d+|[A-Za-z]\w*(?:\[\w+\])?)`;
+  const amount = String.raw`(\d+(?:\.\d+)?)`;
+
+  const match = text.match(new RegExp(String.raw`\bbuy\s+${amount}\s+${token}\s+(?:worth\s+)?of\s+${token}`, 'i')) ||
+                text.match(new RegExp(String.raw`\b(?:swap|convert|sell)\s+${amount}\s+${token}\s+(?:for|to|into)\s+${token}`, 'i'));
+  if (!match) {
+    return null;
+  }
+
+  const schedule = parseDcaSchedule(text);
+  if (!schedule) {
+    return null;
+  }
+
+  const [, amountStr, fromToken, toToken] = match;
+  return { amount: amountStr, fromToken: normalizeTokenQuery(fromToken), toToken: normalizeTokenQuery(toToken), schedule };
+}
+
+type DcaPlanCommand = 'pause' | 'resume' | 'cancel';
+
+/**
+ * Parse a DCA plan command ("pause plan 3f9a2c1b", "resume dca 3f9a2c1b", "stop dca plan 3f9a2c1b")
+ */
+function parseDcaPlanCommand(text: string): { command: DcaPlanCommand; planId: string } | null {
+  const match = text.match(/\b(pause|resume|unpause|cancel|stop)\s+(?:dca\s+plan|dca|plan)\s+#?([0-9a-f]{8}(?:-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})?)\b/i);
+  if (!match) {
+    return null;
+  }
+
+  const verb = match[1].toLowerCase();
+  const command: DcaPlanCommand = verb === 'stop' ? 'cancel' : verb === 'unpause' ? 'resume' : verb as DcaPlanCommand;
+  return { command, planId: match[2].toLowerCase() };
+}
+
+/**
+ * Post a plan update to the room the plan was created from
+ */
+async function notifyDcaRoom(runtime: IAgentRuntime, plan: StoredDcaPlan, text: string): Promise<void> {
+  try {
+    await runtime.sendMessageToTarget(
+      { source: plan.source || 'hedera-dex', roomId: plan.roomId as UUID, entityId: plan.entityId as UUID },
+      { text, actions: ['CREATE_DCA_PLAN'], source: plan.source }
+    );
+  } catch (error) {
+    logger.warn(`Could not notify room ${plan.roomId} about DCA plan ${shortPlanId(plan.id)}:`, error);
+  }
+}
+
+/**
+ * Count a failed purchase: the plan is paused after MAX_DCA_CONSECUTIVE_FAILURES in a row
+ */
+async function failDcaPurchase(runtime: IAgentRuntime, store: DcaPlanStore, plan: StoredDcaPlan, reason: string): Promise<void> {
+  const consecutiveFailures = plan.consecutiveFailures + 1;
+  const planId = shortPlanId(plan.id);
+
+  if (consecutiveFailures < MAX_DCA_CONSECUTIVE_FAILURES) {
+    logger.warn(`DCA plan ${planId} purchase failed (${consecutiveFailures} in a row): ${reason}`);
+    await store.update(plan.id, { consecutiveFailures, lastError: reason });
+    await notifyDcaRoom(
+      runtime,
+      plan,
+      `⚠️ **DCA Purchase ${planId} Failed**\n\n${describeDcaPlan(plan)}: ${reason}\n\nThe next purchase is scheduled for ${new Date(plan.nextRunAt).toISOString()}.`
+    );
+    return;
+  }
+
+  await store.update(plan.id, { status: 'paused', consecutiveFailures, lastError: reason });
+  await notifyDcaRoom(
+    runtime,
+    plan,
+    `⏸️ **DCA Plan ${planId} Paused**\n\n${describeDcaPlan(plan)} failed ${consecutiveFailures} times in a row and was paused. ` +
+    `Last error: ${reason}\n\nReply **resume plan ${planId}** once the problem is fixed.`
+  );
+}
+
+/**
+ * Make one scheduled purchase of a plan and report the fill with the plan's running average cost
+ */
+async function runDcaPurchase(runtime: IAgentRuntime, store: DcaPlanStore, plan: StoredDcaPlan, profile: NetworkProfile): Promise<void> {
+  const planId = shortPlanId(plan.id);
+  const startedAt = Date.now();
+  logger.info(`Running DCA plan ${planId}: ${describeDcaPlan(plan)}`);
+
+  // Rescheduled before anything is submitted, so an interrupted purchase is not repeated and missed runs are not caught up
+  plan = await store.update(plan.id, { nextRunAt: computeNextRun(plan.schedule, startedAt), lastRunAt: startedAt });
+  if (plan.status !== 'active') {
+    // Paused or cancelled since the due plans were listed
+    logger.info(`Skipping DCA plan ${planId}: it is ${plan.status}`);
+    return;
+  }
+
+  try {
+    const account = await getTradingAccount(runtime, profile, plan.entityId as UUID);
+    const quote = await quoteSwap(
+      plan.amount,
+      plan.fromTokenId,
+      plan.toTokenId,
+      profile,
+      plan.slippageBps,
+      'exactInput',
+      resolveMaxHops(runtime)
+    );
+
+    const message: Memory = {
+      entityId: plan.entityId as UUID,
+      agentId: runtime.agentId,
+      roomId: plan.roomId as UUID,
+      content: { text: describeDcaPlan(plan), source: plan.source },
+    };
+
+    // The trading policy is enforced again for every purchase
+    const result = await executeQuotedSwap(
+      runtime,
+      quote,
+      resolveAutoAssociate(runtime, '', undefined),
+      account.operatorKey,
+      account.accountId,
+      profile,
+      message,
+      undefined,
+      'CREATE_DCA_PLAN',
+      { dcaPlanId: plan.id }
+    );
+
+    const values = result.values ?? {};
+    const amountIn = String(values.amountIn ?? plan.amount);
+    const amountOut = String(values.amountOut && values.amountOut !== 'Unknown' ? values.amountOut : values.quotedAmountOut);
+    plan = await store.update(plan.id, {
+      purchases: plan.purchases + 1,
+      consecutiveFailures: 0,
+      lastError: undefined,
+      totalSpent: (BigInt(plan.totalSpent) + parseTokenAmount(amountIn, plan.fromTokenDecimals).raw).toString(),
+      totalReceived: (BigInt(plan.totalReceived) + parseTokenAmount(amountOut, plan.toTokenDecimals).raw).toString(),
+    });
+
+    let fillText = `🔁 **DCA Purchase ${planId}**\n\n`;
+    fillText += `• **Bought:** ${amountOut} ${plan.toToken} for ${amountIn} ${plan.fromToken}\n`;
+    fillText += `• **Totals:** ${describeDcaTotals(plan)}\n`;
+    fillText += `• **Transaction ID:** ${values.transactionId}\n`;
+    fillText += `• **Next Purchase:** ${new Date(plan.nextRunAt).toISOString()}\n`;
+    await notifyDcaRoom(runtime, plan, fillText);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+
+    // A swap submitted without a receipt may still have gone through; it is not counted in the totals
+    const submitted = await findOriginSwap(runtime, plan.entityId, { dcaPlanId: plan.id }, startedAt).catch(() => null);
+    if (submitted?.status === 'pending') {
+      logger.warn(`Outcome of DCA plan ${planId} purchase is unknown: ${reason}`);
+      await store.update(plan.id, { lastError: reason });
+      await notifyDcaRoom(
+        runtime,
+        plan,
+        `⏳ **DCA Purchase ${planId} Unconfirmed**\n\nSwap ${submitted.transactionId} was submitted but its outcome is unknown (${reason}). ` +
+        `Check your swap history; it is not counted in the plan's average cost.`
+      );
+      return;
+    }
+
+    await failDcaPurchase(runtime, store, plan, reason);
+  }
+}
+
+/**
+ * Make the purchases of every active DCA plan that is due, one plan at a time
+ */
+async function runDueDcaPlans(runtime: IAgentRuntime): Promise<void> {
+  const profile = resolveNetwork(runtime, 'testnet');
+  const store = new DcaPlanStore(runtime);
+
+  for (const plan of await store.due(profile.name)) {
+    try {
+      await runDcaPurchase(runtime, store, plan, profile);
+    } catch (error) {
+      logger.warn(`Could not run DCA plan ${shortPlanId(plan.id)}:`, error);
+    }
+  }
+}
+
+/**
+ * Create DCA Plan Action
+ * Stores a recurring swap that the service's scheduler makes on every scheduled run
+ */
+const createDcaPlanAction: Action = {
+  name: 'CREATE_DCA_PLAN',
+  similes: ['DCA', 'RECURRING_SWAP', 'RECURRING_BUY', 'DOLLAR_COST_AVERAGE'],
+  description: 'Creates a dollar-cost averaging plan that swaps a fixed amount of a token on a recurring schedule',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && isDcaRequest(text);
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling CREATE_DCA_PLAN action');
+
+      const text = message.content.text || '';
+      const request = parseDcaRequest(text);
+      if (!request) {
+        throw new Error('Could not parse the plan. Please use format like "Buy 50 HBAR worth of SAUCE every Monday"');
+      }
+
+      // Purchases run unattended, so the agent must be able to sign them
+      if (resolveSigningMode(runtime) === 'user') {
+        throw new Error('DCA plans are executed by the agent, so they need HEDERA_SIGNING_MODE=agent');
+      }
+
+      const profile = resolveNetwork(runtime, 'testnet');
+      const { name: network, mirrorNodeUrl } = profile;
+
+      const keyConfig = readOperatorKeyConfig(readSetting(runtime));
+      const accountIdString = runtime.getSetting('HEDERA_ACCOUNT_ID') || process.env.HEDERA_ACCOUNT_ID;
+      if (!hasOperatorKey(keyConfig) || !accountIdString) {
+        throw new Error('Wallet credentials are required to create DCA plans');
+      }
+      await getTradingAccount(runtime, profile, message.entityId);
+
+      const registry = getTokenRegistry(profile);
+      const fromToken = await registry.resolve(request.fromToken, mirrorNodeUrl);
+      const toToken = await registry.resolve(request.toToken, mirrorNodeUrl);
+      const fromTokenAddress = fromToken.id === HBAR_TOKEN_ID ? requireContract(profile, 'whbar') : fromToken.id;
+      const toTokenAddress = toToken.id === HBAR_TOKEN_ID ? requireContract(profile, 'whbar') : toToken.id;
+      if (fromTokenAddress === toTokenAddress) {
+        throw new Error(`${fromToken.symbol} and ${toToken.symbol} resolve to the same token (${fromTokenAddress}) on ${network}`);
+      }
+      const fromTokenDecimals = fromToken.decimals ?? await fetchTokenDecimals(fromTokenAddress, mirrorNodeUrl);
+      const toTokenDecimals = toToken.decimals ?? await fetchTokenDecimals(toTokenAddress, mirrorNodeUrl);
+
+      if (parseTokenAmount(request.amount, fromTokenDecimals).raw === 0n) {
+        throw new Error('The amount per purchase must be greater than zero');
+      }
+
+      const slippageBps = resolveSlippageBps(runtime, text, options);
+
+      // Reject plans the policy forbids now; every purchase is checked again when it runs
+      const quote = await quoteSwap(request.amount, fromToken.id, toToken.id, profile, slippageBps, 'exactInput', resolveMaxHops(runtime));
+      await enforceTradingPolicy(runtime, quote, message.entityId, profile);
+
+      const now = Date.now();
+      const entry: DcaPlanEntry = {
+        entityId: message.entityId,
+        roomId: message.roomId,
+        source: message.content.source,
+        network,
+        fromToken: fromToken.symbol,
+        fromTokenId: fromToken.id,
+        toToken: toToken.symbol,
+        toTokenId: toToken.id,
+        fromTokenDecimals,
+        toTokenDecimals,
+        amount: request.amount,
+        slippageBps,
+        schedule: request.schedule,
+        status: 'active',
+        nextRunAt: computeFirstRun(request.schedule, now),
+        purchases: 0,
+        consecutiveFailures: 0,
+        totalSpent: '0',
+        totalReceived: '0',
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const plan = await new DcaPlanStore(runtime).create(entry);
+      const planId = shortPlanId(plan.id);
+      const quotedAmountOut = formatQuoteDetails(quote).quotedAmountOut;
+      const firstPurchase = plan.nextRunAt <= now
+        ? `within ${DCA_CHECK_INTERVAL_SECONDS} seconds`
+        : new Date(plan.nextRunAt).toISOString();
+
+      let planText = `🔁 **DCA Plan ${planId}** (${network})\n\n`;
+      planText += `• **Plan:** ${describeDcaPlan(plan)}\n`;
+      planText += `• **Current Quote:** ${plan.amount} ${plan.fromToken} → ${quotedAmountOut} ${plan.toToken}\n`;
+      planText += `• **Slippage Tolerance:** ${formatBps(plan.slippageBps)}\n`;
+      planText += `• **First Purchase:** ${firstPurchase}\n\n`;
+      planText += `Each purchase is reported here with the plan's average cost. Reply **pause plan ${planId}**, **resume plan ${planId}** or **cancel plan ${planId}** to manage it.\n`;
+
+      if (callback) {
+        await callback({
+          text: planText,
+          actions: ['CREATE_DCA_PLAN'],
+          source: message.content.source,
+        });
+      }
+
+      return {
+        text: `Created DCA plan ${planId}: ${describeDcaPlan(plan)}`,
+        values: {
+          success: true,
+          planId: planId,
+          amount: plan.amount,
+          fromToken: plan.fromToken,
+          toToken: plan.toToken,
+          schedule: describeSchedule(plan.schedule),
+          nextRunAt: plan.nextRunAt,
+          network: network,
+        },
+        data: {
+          actionName: 'CREATE_DCA_PLAN',
+          messageId: message.id,
+          timestamp: Date.now(),
+          plan: plan,
+          network: network,
+        },
+        success: true,
+      };
+    } catch (error) {
+      logger.error('Error in CREATE_DCA_PLAN action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to create DCA plan: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'CREATE_DCA_PLAN_FAILED',
+        },
+        data: {
+          actionName: 'CREATE_DCA_PLAN',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Buy 50 HBAR worth of SAUCE every Monday',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Setting up a plan to swap 50 HBAR for SAUCE every Monday...',
+          actions: ['CREATE_DCA_PLAN'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Swap 10 USDC for SAUCE every day at 9:00',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Setting up a plan to swap 10 USDC for SAUCE every day at 09:00 UTC...',
+          actions: ['CREATE_DCA_PLAN'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Shared handler for the PAUSE_DCA_PLAN, RESUME_DCA_PLAN and CANCEL_DCA_PLAN actions
+ */
+async function handleDcaPlanCommand(
+  command: DcaPlanCommand,
+  runtime: IAgentRuntime,
+  message: Memory,
+  options: any,
+  callback?: HandlerCallback
+): Promise<ActionResult> {
+  const actionName = `${command.toUpperCase()}_DCA_PLAN`;
+
+  try {
+    logger.info(`Handling ${actionName} action`);
+
+    const planId = options?.planId ?? parseDcaPlanCommand(message.content.text || '')?.planId;
+    if (!planId) {
+      throw new Error(`Please say which plan to ${command}, like "${command} plan 3f9a2c1b"`);
+    }
+
+    const store = new DcaPlanStore(runtime);
+    const plan = await store.find(message.entityId, planId);
+    if (!plan) {
+      throw new Error(`No DCA plan ${planId} found for you. Ask to "list my DCA plans" to see them.`);
+    }
+    if (plan.status === 'cancelled') {
+      throw new Error(`DCA plan ${shortPlanId(plan.id)} is already cancelled`);
+    }
+    if (command === 'pause' && plan.status !== 'active') {
+      throw new Error(`DCA plan ${shortPlanId(plan.id)} is already paused`);
+    }
+    if (command === 'resume' && plan.status !== 'paused') {
+      throw new Error(`DCA plan ${shortPlanId(plan.id)} is already active`);
+    }
+
+    // A resumed plan keeps its schedule; runs missed while it was paused are skipped
+    const now = Date.now();
+    const updated = await store.update(plan.id, command === 'resume'
+      ? {
+          status: 'active',
+          consecutiveFailures: 0,
+          lastError: undefined,
+          nextRunAt: plan.nextRunAt > now ? plan.nextRunAt : computeFirstRun(plan.schedule, now),
+        }
+      : { status: command === 'pause' ? 'paused' : 'cancelled' });
+
+    const planTitle = `DCA Plan ${shortPlanId(updated.id)}`;
+    let commandText = command === 'pause'
+      ? `⏸️ **${planTitle} Paused**\n\n`
+      : command === 'resume' ? `▶️ **${planTitle} Resumed**\n\n` : `🗑️ **${planTitle} Cancelled**\n\n`;
+    commandText += `${describeDcaPlan(updated)}\n`;
+    if (command === 'resume') {
+      commandText += `Next purchase: ${new Date(updated.nextRunAt).toISOString()}\n`;
+    }
+
+    if (callback) {
+      await callback({
+        text: commandText,
+        actions: [actionName],
+        source: message.content.source,
+      });
+    }
+
+    return {
+      text: `${command === 'pause' ? 'Paused' : command === 'resume' ? 'Resumed' : 'Cancelled'} DCA plan ${shortPlanId(updated.id)}`,
+      values: {
+        success: true,
+        planId: shortPlanId(updated.id),
+        status: updated.status,
+        nextRunAt: updated.nextRunAt,
+      },
+      data: {
+        actionName: actionName,
+        messageId: message.id,
+        timestamp: Date.now(),
+        plan: updated,
+      },
+      success: true,
+    };
+  } catch (error) {
+    logger.error(`Error in ${actionName} action:`, error);
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    return {
+      text: `Failed to ${command} DCA plan: ${errorMessage}`,
+      values: {
+        success: false,
+        error: `${actionName}_FAILED`,
+      },
+      data: {
+        actionName: actionName,
+        error: errorMessage,
+        timestamp: Date.now(),
+      },
+      success: false,
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+}
+
+/**
+ * Pause DCA Plan Action
+ * Stops a plan's purchases until it is resumed (e.g., "pause plan 3f9a2c1b")
+ */
+const pauseDcaPlanAction: Action = {
+  name: 'PAUSE_DCA_PLAN',
+  similes: ['PAUSE_DCA', 'PAUSE_RECURRING_SWAP'],
+  description: 'Pauses one of your DCA plans by its ID',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseDcaPlanCommand(text)?.command === 'pause';
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => handleDcaPlanCommand('pause', runtime, message, options, callback),
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'pause plan 3f9a2c1b',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Pausing DCA plan 3f9a2c1b...',
+          actions: ['PAUSE_DCA_PLAN'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Resume DCA Plan Action
+ * Restarts a paused plan on its schedule (e.g., "resume plan 3f9a2c1b")
+ */
+const resumeDcaPlanAction: Action = {
+  name: 'RESUME_DCA_PLAN',
+  similes: ['RESUME_DCA', 'UNPAUSE_DCA_PLAN'],
+  description: 'Resumes one of your paused DCA plans by its ID',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseDcaPlanCommand(text)?.command === 'resume';
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => handleDcaPlanCommand('resume', runtime, message, options, callback),
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'resume plan 3f9a2c1b',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Resuming DCA plan 3f9a2c1b...',
+          actions: ['RESUME_DCA_PLAN'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Cancel DCA Plan Action
+ * Ends a plan for good (e.g., "cancel plan 3f9a2c1b")
+ */
+const cancelDcaPlanAction: Action = {
+  name: 'CANCEL_DCA_PLAN',
+  similes: ['CANCEL_DCA', 'STOP_DCA_PLAN', 'STOP_RECURRING_SWAP'],
+  description: 'Cancels one of your DCA plans by its ID',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseDcaPlanCommand(text)?.command === 'cancel';
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => handleDcaPlanCommand('cancel', runtime, message, options, callback),
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'cancel plan 3f9a2c1b',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Cancelling DCA plan 3f9a2c1b...',
+          actions: ['CANCEL_DCA_PLAN'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * List DCA Plans Action
+ * Lists the requesting user's DCA plans with their next purchase and average cost
+ */
+const listDcaPlansAction: Action = {
+  name: 'LIST_DCA_PLANS',
+  similes: ['SHOW_DCA_PLANS', 'MY_DCA_PLANS', 'RECURRING_SWAPS'],
+  description: 'Lists your DCA plans with their schedule, status, totals and average cost',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && /\b(?:list|show|my)\b.*\b(?:dca|recurring)\b/i.test(text) && parseDcaPlanCommand(text) === null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling LIST_DCA_PLANS action');
+
+      const plans = (await new DcaPlanStore(runtime).list(message.entityId)).filter((plan) => plan.status !== 'cancelled');
+      const activeCount = plans.filter((plan) => plan.status === 'active').length;
+
+      let plansText: string;
+      if (plans.length === 0) {
+        plansText = 'You have no DCA plans. Try "Buy 50 HBAR worth of SAUCE every Monday".';
+      } else {
+        plansText = `🔁 **Your DCA Plans**\n\n`;
+        plans.forEach((plan, i) => {
+          plansText += `${i + 1}. **${shortPlanId(plan.id)}** ${describeDcaPlan(plan)} — ${plan.status}\n`;
+          if (plan.status === 'active') {
+            plansText += `   • Next purchase: ${new Date(plan.nextRunAt).toISOString()}\n`;
+          }
+          plansText += `   • ${describeDcaTotals(plan) ?? 'No purchases yet'}\n`;
+          if (plan.lastError) {
+            plansText += `   • Last error: ${plan.lastError}\n`;
+          }
+        });
+      }
+
+      if (callback) {
+        await callback({
+          text: plansText,
+          actions: ['LIST_DCA_PLANS'],
+          source: message.content.source,
+        });
+      }
+
+      return {
+        text: `Found ${activeCount} active and ${plans.length - activeCount} paused DCA plans`,
+        values: {
+          success: true,
+          activeCount: activeCount,
+          totalCount: plans.length,
+        },
+        data: {
+          actionName: 'LIST_DCA_PLANS',
+          messageId: message.id,
+          timestamp: Date.now(),
+          plans: plans,
+        },
+        success: true,
+      };
+    } catch (error) {
+      logger.error('Error in LIST_DCA_PLANS action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to list DCA plans: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'LIST_DCA_PLANS_FAILED',
+        },
+        data: {
+          actionName: 'LIST_DCA_PLANS',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Show my DCA plans',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Here are your DCA plans...',
+          actions: ['LIST_DCA_PLANS'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Parse a TWAP order ("Swap 10000 HBAR for SAUCE over 2 hours in 8 slices with a 3% band")
+ */
+function parseTwapRequest(text: string): {
+  swap: NonNullable<ReturnType<typeof parseSwapRequest>>;
+  windowMs: number;
+  slices: number | null;
+  priceBandBps: number | null;
+} | null {
+  const windowMs = parseTwapWindow(text);
+  const swap = parseSwapRequest(text);
+  if (windowMs === null || !swap) {
+    return null;
+  }
+
+  return { swap, windowMs, slices: parseTwapSlices(text), priceBandBps: extractPriceBandFromText(text) };
+}
+
+/**
+ * Parse a TWAP cancellation ("cancel twap 3f9a2c1b")
+ */
+function parseCancelTwapRequest(text: string): { twapId: string } | null {
+  const match = text.match(/\bcancel\s+twap(?:\s+order)?\s+#?([0-9a-f]{8}(?:-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})?)\b/i);
+  return match ? { twapId: match[1].toLowerCase() } : null;
+}
+
+/**
+ * Quoted price of an exact-input plan in smallest units of the output token per whole input token
+ */
+function quotedPrice(plan: SwapQuotePlan): bigint {
+  return plan.quote.amountOut * 10n ** BigInt(plan.fromTokenDecimals) / plan.fixedAmount;
+}
+
+/**
+ * Quote one slice of a TWAP order
+ */
+function quoteTwapSlice(
+  order: Pick<TwapOrderEntry, 'amount' | 'slices' | 'fromTokenId' | 'toTokenId' | 'fromTokenDecimals' | 'slippageBps'>,
+  index: number,
+  profile: NetworkProfile,
+  maxHops: number
+): Promise<SwapQuotePlan> {
+  const totalRaw = parseTokenAmount(order.amount, order.fromTokenDecimals).raw;
+  const sliceAmount = formatTokenAmount(tokenAmountFromRaw(sliceAmountRaw(totalRaw, order.slices, index), order.fromTokenDecimals));
+  return quoteSwap(sliceAmount, order.fromTokenId, order.toTokenId, profile, order.slippageBps, 'exactInput', maxHops);
+}
+
+/**
+ * Post an order update to the room the TWAP order was placed from
+ */
+async function notifyTwapRoom(runtime: IAgentRuntime, order: StoredTwapOrder, text: string): Promise<void> {
+  try {
+    await runtime.sendMessageToTarget(
+      { source: order.source || 'hedera-dex', roomId: order.roomId as UUID, entityId: order.entityId as UUID },
+      { text, actions: ['TWAP_SWAP'], source: order.source }
+    );
+  } catch (error) {
+    logger.warn(`Could not notify room ${order.roomId} about TWAP order ${shortTwapId(order.id)}:`, error);
+  }
+}
+
+/**
+ * Close a TWAP order and report what it sold against the single-swap quote it was placed with
+ */
+async function closeTwapOrder(
+  runtime: IAgentRuntime,
+  store: TwapOrderStore,
+  order: StoredTwapOrder,
+  status: 'completed' | 'aborted',
+  reason?: string
+): Promise<void> {
+  // A user who cancelled the order while a slice was being sold keeps it cancelled
+  const current = await store.get(order.id);
+  if (current?.status === 'cancelled') {
+    logger.info(`TWAP order ${shortTwapId(order.id)} was cancelled, not marking it ${status}`);
+    return;
+  }
+
+  const closed = await store.update(order.id, { status, lastError: reason });
+  const twapId = shortTwapId(closed.id);
+
+  let reportText = status === 'completed' ? `✅ **TWAP ${twapId} Completed**\n\n` : `🛑 **TWAP ${twapId} Aborted**\n\n`;
+  reportText += `${describeTwapOrder(closed)}\n`;
+  if (reason) {
+    reportText += `Aborted because ${reason}\n`;
+  }
+  reportText += `\n${describeTwapResult(closed) ?? 'No slices were sold.'}\n`;
+  await notifyTwapRoom(runtime, closed, reportText);
+}
+
+/**
+ * Sell the next slice of a TWAP order at its re-quoted price, aborting the order when the price left its band
+ * or the slice failed
+ */
+async function runTwapSlice(runtime: IAgentRuntime, store: TwapOrderStore, order: StoredTwapOrder, profile: NetworkProfile): Promise<void> {
+  const index = order.slicesDone;
+  const startedAt = Date.now();
+  logger.info(`Running slice ${index + 1} of ${order.slices} of TWAP order ${shortTwapId(order.id)}`);
+
+  // Rescheduled before anything is submitted, so an interrupted slice is not sold twice
+  order = await store.update(order.id, { nextSliceAt: startedAt + order.intervalMs });
+  if (order.status !== 'active') {
+    // Cancelled since the due orders were listed
+    logger.info(`Skipping TWAP order ${shortTwapId(order.id)}: it is ${order.status}`);
+    return;
+  }
+
+  try {
+    const account = await getTradingAccount(runtime, profile, order.entityId as UUID);
+    const plan = await quoteTwapSlice(order, index, profile, resolveMaxHops(runtime));
+
+    const price = quotedPrice(plan);
+    const deviationBps = priceDeviationBps(price, parseTokenAmount(order.referencePrice, order.toTokenDecimals).raw);
+    if (deviationBps > order.priceBandBps) {
+      const slicePrice = formatTokenAmount(tokenAmountFromRaw(price, order.toTokenDecimals));
+      await closeTwapOrder(
+        runtime,
+        store,
+        order,
+        'aborted',
+        `slice ${index + 1} was quoted at ${slicePrice} ${order.toToken} per ${order.fromToken}, ${formatBps(deviationBps)} ` +
+        `from ${order.referencePrice} and outside the ${formatBps(order.priceBandBps)} band`
+      );
+      return;
+    }
+
+    const message: Memory = {
+      entityId: order.entityId as UUID,
+      agentId: runtime.agentId,
+      roomId: order.roomId as UUID,
+      content: { text: describeTwapOrder(order), source: order.source },
+    };
+
+    // The trading policy is enforced again for every slice
+    const result = await executeQuotedSwap(
+      runtime,
+      plan,
+      resolveAutoAssociate(runtime, '', undefined),
+      account.operatorKey,
+      account.accountId,
+      profile,
+      message,
+      undefined,
+      'TWAP_SWAP',
+      { twapOrderId: order.id }
+    );
+
+    const values = result.values ?? {};
+    const amountOut = values.amountOut && values.amountOut !== 'Unknown'
+      ? parseTokenAmount(String(values.amountOut), order.toTokenDecimals).raw
+      : plan.quote.amountOut;
+    order = await store.update(order.id, {
+      slicesDone: index + 1,
+      totalSpent: (BigInt(order.totalSpent) + plan.fixedAmount).toString(),
+      totalReceived: (BigInt(order.totalReceived) + amountOut).toString(),
+    });
+
+    if (order.slicesDone === order.slices) {
+      await closeTwapOrder(runtime, store, order, 'completed');
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+
+    // A slice submitted without a receipt may still have gone through; it is not counted in the totals
+    const submitted = await findOriginSwap(runtime, order.entityId, { twapOrderId: order.id }, startedAt).catch(() => null);
+    await closeTwapOrder(
+      runtime,
+      store,
+      order,
+      'aborted',
+      submitted?.status === 'pending'
+        ? `the outcome of slice ${index + 1} (${submitted.transactionId}) is unknown and it is not counted below: ${reason}`
+        : `slice ${index + 1} failed: ${reason}`
+    );
+  }
+}
+
+/**
+ * Sell the due slice of every active TWAP order, one order at a time
+ */
+async function runDueTwapSlices(runtime: IAgentRuntime): Promise<void> {
+  const profile = resolveNetwork(runtime, 'testnet');
+  const store = new TwapOrderStore(runtime);
+
+  for (const order of await store.due(profile.name)) {
+    try {
+      await runTwapSlice(runtime, store, order, profile);
+    } catch (error) {
+      logger.warn(`Could not run TWAP order ${shortTwapId(order.id)}:`, error);
+    }
+  }
+}
+
+/**
+ * TWAP Swap Action
+ * Splits a large swap into slices sold evenly over a window by the service's scheduler
+ */
+const twapSwapAction: Action = {
+  name: 'TWAP_SWAP',
+  similes: ['TWAP', 'TWAP_ORDER', 'SPLIT_SWAP', 'SWAP_OVER_TIME'],
+  description: 'Splits a large swap into equal slices sold over a time window to reduce price impact, aborting if the price leaves a band',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseTwapRequest(text) !== null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling TWAP_SWAP action');
+
+      const text = message.content.text || '';
+      const request = parseTwapRequest(text);
+      if (!request) {
+        throw new Error('Could not parse the order. Please use format like "Swap 10000 HBAR for SAUCE over 2 hours"');
+      }
+      if (request.swap.tradeType === 'exactOutput') {
+        throw new Error('TWAP orders split the amount sold; say it like "Swap 10000 HBAR for SAUCE over 2 hours"');
+      }
+
+      // Slices are sold unattended, so the agent must be able to sign them
+      if (resolveSigningMode(runtime) === 'user') {
+        throw new Error('TWAP orders are executed by the agent, so they need HEDERA_SIGNING_MODE=agent');
+      }
+
+      const profile = resolveNetwork(runtime, 'testnet');
+      const { name: network } = profile;
+
+      const keyConfig = readOperatorKeyConfig(readSetting(runtime));
+      const accountIdString = runtime.getSetting('HEDERA_ACCOUNT_ID') || process.env.HEDERA_ACCOUNT_ID;
+      if (!hasOperatorKey(keyConfig) || !accountIdString) {
+        throw new Error('Wallet credentials are required to place TWAP orders');
+      }
+      await getTradingAccount(runtime, profile, message.entityId);
+
+      const { slices, intervalMs } = planTwapSlices(request.windowMs, request.slices);
+      const priceBandBps = request.priceBandBps ?? DEFAULT_TWAP_PRICE_BAND_BPS;
+      if (priceBandBps <= 0 || priceBandBps >= 10_000) {
+        throw new Error('The price band must be above 0% and below 100%');
+      }
+
+      const slippageBps = resolveSlippageBps(runtime, text, options);
+      const maxHops = resolveMaxHops(runtime);
+
+      // The whole amount in one swap is what the order is measured against when it finishes
+      const fullPlan = await quoteSwap(
+        request.swap.amount,
+        request.swap.fromToken,
+        request.swap.toToken,
+        profile,
+        slippageBps,
+        'exactInput',
+        maxHops
+      );
+      if (sliceAmountRaw(fullPlan.fixedAmount, slices, 0) === 0n) {
+        throw new Error(`${fullPlan.amount} ${fullPlan.fromToken} is too small to split into ${slices} slices`);
+      }
+
+      const sliceOrder = {
+        amount: fullPlan.amount,
+        slices,
+        fromTokenId: fullPlan.fromTokenId,
+        toTokenId: fullPlan.toTokenId,
+        fromTokenDecimals: fullPlan.fromTokenDecimals,
+        slippageBps,
+      };
+      const slicePlan = await quoteTwapSlice(sliceOrder, 0, profile, maxHops);
+      if (quotedPrice(slicePlan) === 0n) {
+        throw new Error(`A slice of ${slicePlan.amount} ${slicePlan.fromToken} is quoted at no ${slicePlan.toToken}`);
+      }
+
+      // Reject orders the policy forbids now; every slice is checked again when it is sold
+      await enforceTradingPolicy(runtime, slicePlan, message.entityId, profile);
+
+      const formatOutput = (raw: bigint) => formatTokenAmount(tokenAmountFromRaw(raw, fullPlan.toTokenDecimals));
+      const now = Date.now();
+      const entry: TwapOrderEntry = {
+        entityId: message.entityId,
+        roomId: message.roomId,
+        source: message.content.source,
+        network,
+        fromToken: fullPlan.fromToken,
+        fromTokenId: fullPlan.fromTokenId,
+        toToken: fullPlan.toToken,
+        toTokenId: fullPlan.toTokenId,
+        fromTokenDecimals: fullPlan.fromTokenDecimals,
+        toTokenDecimals: fullPlan.toTokenDecimals,
+        amount: fullPlan.amount,
+        slices,
+        intervalMs,
+        priceBandBps,
+        slippageBps,
+        quotedAmountOut: formatOutput(fullPlan.quote.amountOut),
+        referencePrice: formatOutput(quotedPrice(slicePlan)),
+        status: 'active',
+        slicesDone: 0,
+        nextSliceAt: now,
+        totalSpent: '0',
+        totalReceived: '0',
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const order = await new TwapOrderStore(runtime).create(entry);
+      const twapId = shortTwapId(order.id);
+
+      let orderText = `⏱️ **TWAP Order ${twapId}** (${network})\n\n`;
+      orderText += `• **Order:** ${describeTwapOrder(order)}\n`;
+      orderText += `• **Slices:** ${slicePlan.amount} ${order.fromToken} every ${formatDuration(intervalMs)}\n`;
+      orderText += `• **Single-Swap Quote:** ${order.amount} ${order.fromToken} → ${order.quotedAmountOut} ${order.toToken}\n`;
+      orderText += `• **Slice Price:** ${order.referencePrice} ${order.toToken} per ${order.fromToken}\n`;
+      orderText += `• **Price Band:** ±${formatBps(priceBandBps)} (the order is aborted if a slice is quoted outside it)\n`;
+      orderText += `• **Slippage Tolerance:** ${formatBps(slippageBps)} per slice\n\n`;
+      orderText += `The first slice is sold within ${TWAP_CHECK_INTERVAL_SECONDS} seconds, and the average price is reported here when the order finishes. Reply **cancel twap ${twapId}** to stop it.\n`;
+
+      if (callback) {
+        await callback({
+          text: orderText,
+          actions: ['TWAP_SWAP'],
+          source: message.content.source,
+        });
+      }
+
+      return {
+        text: `Placed TWAP order ${twapId}: ${describeTwapOrder(order)}`,
+        values: {
+          success: true,
+          twapId: twapId,
+          amount: order.amount,
+          fromToken: order.fromToken,
+          toToken: order.toToken,
+          slices: order.slices,
+          intervalMs: order.intervalMs,
+          priceBandBps: order.priceBandBps,
+          quotedAmountOut: order.quotedAmountOut,
+          referencePrice: order.referencePrice,
+          network: network,
+        },
+        data: {
+          actionName: 'TWAP_SWAP',
+          messageId: message.id,
+          timestamp: Date.now(),
+          order: order,
+          network: network,
+        },
+        success: true,
+      };
+    } catch (error) {
+      logger.error('Error in TWAP_SWAP action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to place TWAP order: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'TWAP_SWAP_FAILED',
+        },
+        data: {
+          actionName: 'TWAP_SWAP',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Swap 10000 HBAR for SAUCE over 2 hours',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Splitting 10000 HBAR into 10 swaps for SAUCE over 2 hours...',
+          actions: ['TWAP_SWAP'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Sell 5000 SAUCE for USDC over the next 6 hours in 12 slices with a 3% band',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Selling 5000 SAUCE for USDC in 12 slices over 6 hours, stopping if the price moves more than 3%...',
+          actions: ['TWAP_SWAP'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * Cancel TWAP Action
+ * Stops one of the requesting user's active TWAP orders and reports what it sold
+ */
+const cancelTwapAction: Action = {
+  name: 'CANCEL_TWAP',
+  similes: ['CANCEL_TWAP_ORDER', 'STOP_TWAP'],
+  description: 'Cancels one of your active TWAP orders by its ID',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && parseCancelTwapRequest(text) !== null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling CANCEL_TWAP action');
+
+      const twapId = options?.twapId ?? parseCancelTwapRequest(message.content.text || '')?.twapId;
+      if (!twapId) {
+        throw new Error('Please say which TWAP order to cancel, like "cancel twap 3f9a2c1b"');
+      }
+
+      const store = new TwapOrderStore(runtime);
+      const order = await store.find(message.entityId, twapId);
+      if (!order) {
+        throw new Error(`No TWAP order ${twapId} found for you. Ask to "list my TWAP orders" to see them.`);
+      }
+      if (order.status !== 'active') {
+        throw new Error(`TWAP order ${shortTwapId(order.id)} is already ${order.status}`);
+      }
+
+      const cancelled = await store.update(order.id, { status: 'cancelled' });
+
+      if (callback) {
+        await callback({
+          text: `🗑️ **TWAP ${shortTwapId(cancelled.id)} Cancelled**\n\n${describeTwapOrder(cancelled)}\n\n${describeTwapResult(cancelled) ?? 'No slices were sold.'}\n`,
+          actions: ['CANCEL_TWAP'],
+          source: message.content.source,
+        });
+      }
+
+      return {
+        text: `Cancelled TWAP order ${shortTwapId(cancelled.id)}`,
+        values: {
+          success: true,
+          twapId: shortTwapId(cancelled.id),
+          status: cancelled.status,
+          slicesDone: cancelled.slicesDone,
+        },
+        data: {
+          actionName: 'CANCEL_TWAP',
+          messageId: message.id,
+          timestamp: Date.now(),
+          order: cancelled,
+        },
+        success: true,
+      };
+    } catch (error) {
+      logger.error('Error in CANCEL_TWAP action:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        text: `Failed to cancel TWAP order: ${errorMessage}`,
+        values: {
+          success: false,
+          error: 'CANCEL_TWAP_FAILED',
+        },
+        data: {
+          actionName: 'CANCEL_TWAP',
+          error: errorMessage,
+          timestamp: Date.now(),
+        },
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'cancel twap 3f9a2c1b',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Cancelling TWAP order 3f9a2c1b...',
+          actions: ['CANCEL_TWAP'],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * List TWAP Orders Action
+ * Lists the requesting user's TWAP orders with their progress
+ */
+const listTwapOrdersAction: Action = {
+  name: 'LIST_TWAP_ORDERS',
+  similes: ['SHOW_TWAP_ORDERS', 'MY_TWAP_ORDERS', 'TWAP_STATUS'],
+  description: 'Lists your TWAP orders with their progress and average price',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory, _state: State | undefined): Promise<boolean> => {
+    const text = message.content.text;
+    return !!text && /\b(?:list|show|my|status)\b.*\btwaps?\b|\btwaps?\b.*\bstatus\b/i.test(text) && parseCancelTwapRequest(text) === null;
+  },
 
-      if (!privateKeyString || !accountIdString) {
-        logger.warn('No wallet credentials provided, using simulation mode');
-        const swapDetails = await simulateSwap(amount, fromTokenSymbol, toTokenSymbol);
-        return await handleSwapSimulation(swapDetails, amount, fromTokenSymbol, toTokenSymbol, network, message, callback);
-      }
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback,
+    _responses?: Memory[]
+  ): Promise<ActionResult> => {
+    try {
+      logger.info('Handling LIST_TWAP_ORDERS action');
 
-      // Real swap execution (works on both mainnet and testnet)
-      logger.info(`Attempting real swap execution on ${network}`);
-      const swapResult = await executeRealSwap(
-        amount,
-        fromTokenSymbol,
-        toTokenSymbol,
-        privateKeyString,
-        accountIdString,
-        network
-      );
+      const orders = await new TwapOrderStore(runtime).list(message.entityId);
+      const activeCount = orders.filter((order) => order.status === 'active').length;
 
-        if (swapResult.success) {
-          // Format successful swap response
-          let swapText = `✅ **Token Swap Executed Successfully!**\n\n`;
-          swapText += `**Transaction Details:**\n`;
-          swapText += `• **From:** ${amount} ${fromTokenSymbol}\n`;
-          swapText += `• **To:** ${swapResult.amountOut || 'Processing...'} ${toTokenSymbol}\n`;
-          swapText += `• **Transaction ID:** ${swapResult.transactionId}\n`;
-          swapText += `• **Network:** ${network.toUpperCase()}\n\n`;
-
-          swapText += `**🔗 View Transaction:**\n`;
-          swapText += `• [HashScan](https://hashscan.io/${network}/transaction/${swapResult.transactionId})\n`;
-          swapText += `• [SaucerSwap](https://app.saucerswap.finance)\n\n`;
-
-          swapText += `**⚠️ Important Notes:**\n`;
-          swapText += `• Transaction may take a few moments to confirm\n`;
-          swapText += `• Check your wallet for updated balances\n`;
-          swapText += `• Save the transaction ID for your records\n`;
-
-          // Response content
-          const responseContent: Content = {
-            text: swapText,
-            actions: ['SWAP_TOKENS'],
-            source: message.content.source,
-          };
-
-          // Call back with the swap information
-          if (callback) {
-            await callback(responseContent);
+      let ordersText: string;
+      if (orders.length === 0) {
+        ordersText = 'You have no TWAP orders. Try "Swap 10000 HBAR for SAUCE over 2 hours".';
+      } else {
+        ordersText = `⏱️ **Your TWAP Orders**\n\n`;
+        orders.forEach((order, i) => {
+          ordersText += `${i + 1}. **${shortTwapId(order.id)}** ${describeTwapOrder(order)} — ${order.status}\n`;
+          if (order.status === 'active') {
+            ordersText += `   • Next slice: ${new Date(order.nextSliceAt).toISOString()}\n`;
+          }
+          ordersText += `   • ${describeTwapResult(order) ?? 'No slices sold yet'}\n`;
+          if (order.lastError) {
+            ordersText += `   • Aborted: ${order.lastError}\n`;
           }
+        });
+      }
 
-          return {
-            text: `Successfully executed swap: ${amount} ${fromTokenSymbol} → ${toTokenSymbol}`,
-            values: {
-              success: true,
-              amount: amount,
-              fromToken: fromTokenSymbol,
-              toToken: toTokenSymbol,
-              transactionId: swapResult.transactionId,
-              network: network,
-              simulation: false,
-            },
-            data: {
-              actionName: 'SWAP_TOKENS',
-              messageId: message.id,
-              timestamp: Date.now(),
-              swapResult: swapResult,
-              network: network,
-              simulation: false,
-            },
-            success: true,
-          };
-        } else {
-          throw new Error(`Swap execution failed: ${swapResult.error}`);
-        }
+      if (callback) {
+        await callback({
+          text: ordersText,
+          actions: ['LIST_TWAP_ORDERS'],
+          source: message.content.source,
+        });
+      }
 
+      return {
+        text: `Found ${activeCount} active and ${orders.length - activeCount} finished TWAP orders`,
+        values: {
+          success: true,
+          activeCount: activeCount,
+          totalCount: orders.length,
+        },
+        data: {
+          actionName: 'LIST_TWAP_ORDERS',
+          messageId: message.id,
+          timestamp: Date.now(),
+          orders: orders,
+        },
+        success: true,
+      };
     } catch (error) {
-      logger.error('Error in SWAP_TOKENS action:', error);
+      logger.error('Error in LIST_TWAP_ORDERS action:', error);
 
       const errorMessage = error instanceof Error ? error.message : String(error);
 
       return {
-        text: `Failed to process token swap: ${errorMessage}`,
+        text: `Failed to list TWAP orders: ${errorMessage}`,
         values: {
           success: false,
-          error: 'SWAP_TOKENS_FAILED',
+          error: 'LIST_TWAP_ORDERS_FAILED',
         },
         data: {
-          actionName: 'SWAP_TOKENS',
+          actionName: 'LIST_TWAP_ORDERS',
           error: errorMessage,
           timestamp: Date.now(),
         },
@@ -884,296 +7062,20 @@ const swapTokensAction: Action = {
       {
         name: '{{name1}}',
         content: {
-          text: 'Swap 10 HBAR for USDT',
-        },
-      },
-      {
-        name: '{{name2}}',
-        content: {
-          text: 'I\'ll simulate swapping 10 HBAR for USDT on SaucerSwap testnet...',
-          actions: ['SWAP_TOKENS'],
-        },
-      },
-    ],
-    [
-      {
-        name: '{{name1}}',
-        content: {
-          text: 'Trade 100 USDC for SAUCE',
-        },
-      },
-      {
-        name: '{{name2}}',
-        content: {
-          text: 'Let me simulate trading 100 USDC for SAUCE tokens...',
-          actions: ['SWAP_TOKENS'],
-        },
-      },
-    ],
-    [
-      {
-        name: '{{name1}}',
-        content: {
-          text: 'Exchange 5.5 WHBAR to BONZO',
+          text: 'Show my TWAP orders',
         },
       },
       {
         name: '{{name2}}',
         content: {
-          text: 'I\'ll simulate exchanging 5.5 WHBAR to BONZO tokens...',
-          actions: ['SWAP_TOKENS'],
+          text: 'Here are your TWAP orders...',
+          actions: ['LIST_TWAP_ORDERS'],
         },
       },
     ],
   ],
 };
 
-/**
- * Execute a real token swap on SaucerSwap
- */
-async function executeRealSwap(
-  amount: number,
-  fromToken: string,
-  toToken: string,
-  privateKeyString: string,
-  accountIdString: string,
-  network: string
-): Promise<{
-  success: boolean;
-  transactionId?: string;
-  amountOut?: string;
-  error?: string;
-}> {
-  try {
-    logger.info(`Executing real swap: ${amount} ${fromToken} -> ${toToken} on ${network}`);
-
-    // Setup Hedera client
-    const privateKey = PrivateKey.fromStringECDSA(privateKeyString);
-    const accountId = AccountId.fromString(accountIdString);
-    const client = network === 'mainnet' ? Client.forMainnet() : Client.forTestnet();
-    client.setOperator(accountId, privateKey);
-
-    // Get contract addresses
-    const routerAddress = SAUCERSWAP_CONTRACTS[network as keyof typeof SAUCERSWAP_CONTRACTS]?.router;
-    if (!routerAddress) {
-      throw new Error(`Router contract not found for network: ${network}`);
-    }
-
-    // Get token addresses - handle HBAR specially
-    const networkTokens = TOKEN_ADDRESSES[network as keyof typeof TOKEN_ADDRESSES];
-    if (!networkTokens) {
-      throw new Error(`Network ${network} not supported`);
-    }
-
-    let fromTokenAddress: string;
-    let toTokenAddress: string;
-
-    // Handle HBAR as native token
-    if (fromToken === 'HBAR') {
-      fromTokenAddress = networkTokens.WHBAR; // Use WHBAR for routing
-    } else {
-      fromTokenAddress = networkTokens[fromToken as keyof typeof networkTokens];
-    }
-
-    if (toToken === 'HBAR') {
-      toTokenAddress = networkTokens.WHBAR; // Use WHBAR for routing
-    } else {
-      toTokenAddress = networkTokens[toToken as keyof typeof networkTokens];
-    }
-
-    if (!fromTokenAddress || !toTokenAddress) {
-      throw new Error(`Token addresses not found for ${fromToken}/${toToken} on ${network}. Available tokens: ${Object.keys(networkTokens).join(', ')}`);
-    }
-
-    // Setup ethers interface for encoding
-    const abiInterface = new ethers.Interface(SAUCERSWAP_ROUTER_ABI);
-
-    // Calculate amounts (convert to smallest units)
-    const amountIn = ethers.parseUnits(amount.toString(), 8); // Assuming 8 decimals for HBAR
-    const amountOutMinimum = ethers.parseUnits('0', 6); // Minimum output (set to 0 for now)
-    const deadline = Math.floor(Date.now() / 1000) + 1800; // 30 minutes from now
-
-    // Encode swap path
-    const swapPath = encodeSwapPath([fromTokenAddress, toTokenAddress], [FEE_TIERS.MEDIUM]);
-
-    // Prepare swap parameters
-    const swapParams = {
-      path: swapPath,
-      recipient: hederaIdToEvmAddress(accountIdString),
-      deadline: deadline,
-      amountIn: amountIn.toString(),
-      amountOutMinimum: amountOutMinimum.toString()
-    };
-
-    // Encode function calls
-    const swapEncoded = abiInterface.encodeFunctionData('exactInput', [swapParams]);
-    const refundEncoded = abiInterface.encodeFunctionData('refundETH');
-
-    // Prepare multicall
-    const multicallData = [swapEncoded, refundEncoded];
-    const encodedData = abiInterface.encodeFunctionData('multicall', [multicallData]);
-    const encodedDataBytes = hexToUint8Array(encodedData);
-
-    // Execute the swap transaction
-    const transaction = new ContractExecuteTransaction()
-      .setContractId(routerAddress)
-      .setGas(300000) // Adjust gas limit as needed
-      .setFunctionParameters(encodedDataBytes);
-
-    // Add payable amount if swapping HBAR
-    if (fromToken === 'HBAR' || fromToken === 'WHBAR') {
-      transaction.setPayableAmount(Hbar.from(amount, HbarUnit.Hbar));
-    }
-
-    const response = await transaction.execute(client);
-    const receipt = await response.getReceipt(client);
-
-    if (receipt.status.toString() === 'SUCCESS') {
-      const record = await response.getRecord(client);
-
-      return {
-        success: true,
-        transactionId: response.transactionId.toString(),
-        amountOut: 'Unknown', // Would need to parse from contract result
-      };
-    } else {
-      throw new Error(`Transaction failed with status: ${receipt.status.toString()}`);
-    }
-
-  } catch (error) {
-    logger.error('Error executing real swap:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
-    };
-  }
-}
-
-/**
- * Handle swap simulation response
- */
-async function handleSwapSimulation(
-  swapDetails: any,
-  amount: number,
-  fromToken: string,
-  toToken: string,
-  network: string,
-  message: Memory,
-  callback?: HandlerCallback
-): Promise<ActionResult> {
-  // Format swap information for response
-  let swapText = `🔄 **Token Swap Simulation** (${network})\n\n`;
-  swapText += `**Swap Details:**\n`;
-  swapText += `• **From:** ${amount} ${fromToken}\n`;
-  swapText += `• **To:** ~${swapDetails.estimatedOutput} ${toToken}\n`;
-  swapText += `• **Fee Tier:** ${swapDetails.feeTier}%\n`;
-  swapText += `• **Price Impact:** ${swapDetails.priceImpact}%\n`;
-  swapText += `• **Network:** ${network.toUpperCase()}\n\n`;
-
-  swapText += `**⚠️ Simulation Mode**\n`;
-  swapText += `This is a simulation. To execute real swaps:\n`;
-  swapText += `1. Set HEDERA_PRIVATE_KEY environment variable\n`;
-  swapText += `2. Set HEDERA_ACCOUNT_ID environment variable\n`;
-  swapText += `3. Ensure sufficient ${fromToken} balance\n`;
-  swapText += `4. Ensure target token is associated to account\n\n`;
-
-  swapText += `**Next Steps:**\n`;
-  swapText += `• Visit [SaucerSwap](https://app.saucerswap.finance) to execute manually\n`;
-  swapText += `• Check pool liquidity for better rates\n`;
-  swapText += `• Consider slippage tolerance settings\n`;
-
-  // Response content
-  const responseContent: Content = {
-    text: swapText,
-    actions: ['SWAP_TOKENS'],
-    source: message.content.source,
-  };
-
-  // Call back with the swap information
-  if (callback) {
-    await callback(responseContent);
-  }
-
-  return {
-    text: `Simulated swap: ${amount} ${fromToken} → ${swapDetails.estimatedOutput} ${toToken}`,
-    values: {
-      success: true,
-      amount: amount,
-      fromToken: fromToken,
-      toToken: toToken,
-      estimatedOutput: swapDetails.estimatedOutput,
-      network: network,
-      simulation: true,
-    },
-    data: {
-      actionName: 'SWAP_TOKENS',
-      messageId: message.id,
-      timestamp: Date.now(),
-      swapDetails: swapDetails,
-      network: network,
-      simulation: true,
-    },
-    success: true,
-  };
-}
-
-/**
- * Simulate a token swap to provide estimates
- */
-async function simulateSwap(
-  amount: number,
-  fromToken: string,
-  toToken: string
-): Promise<{
-  estimatedOutput: string;
-  feeTier: string;
-  priceImpact: string;
-  route: string;
-}> {
-  try {
-    // For simulation, we'll use approximate rates based on common pairs
-    const mockRates: Record<string, Record<string, number>> = {
-      'HBAR': { 'USDT': 0.12, 'USDC': 0.12, 'SAUCE': 150, 'BONZO': 2000 },
-      'WHBAR': { 'USDT': 0.12, 'USDC': 0.12, 'SAUCE': 150, 'BONZO': 2000 },
-      'USDT': { 'HBAR': 8.33, 'WHBAR': 8.33, 'SAUCE': 1250, 'BONZO': 16667 },
-      'USDC': { 'HBAR': 8.33, 'WHBAR': 8.33, 'SAUCE': 1250, 'BONZO': 16667 },
-      'SAUCE': { 'HBAR': 0.0067, 'WHBAR': 0.0067, 'USDT': 0.0008, 'USDC': 0.0008 },
-      'BONZO': { 'HBAR': 0.0005, 'WHBAR': 0.0005, 'USDT': 0.00006, 'USDC': 0.00006 },
-    };
-
-    const rate = mockRates[fromToken]?.[toToken];
-    if (!rate) {
-      throw new Error(`No rate available for ${fromToken}/${toToken} pair`);
-    }
-
-    // Calculate estimated output with some slippage
-    const baseOutput = amount * rate;
-    const slippage = Math.min(amount * 0.001, 0.05); // 0.1% per unit, max 5%
-    const estimatedOutput = baseOutput * (1 - slippage);
-
-    // Determine fee tier based on pair popularity
-    const popularPairs = ['HBAR/USDT', 'HBAR/USDC', 'WHBAR/USDT', 'WHBAR/USDC'];
-    const pairKey = `${fromToken}/${toToken}`;
-    const feeTier = popularPairs.includes(pairKey) ? '0.30' : '0.15';
-
-    return {
-      estimatedOutput: estimatedOutput.toFixed(6),
-      feeTier: feeTier,
-      priceImpact: (slippage * 100).toFixed(3),
-      route: `${fromToken} → ${toToken}`,
-    };
-
-  } catch (error) {
-    logger.error('Error in swap simulation:', error);
-    return {
-      estimatedOutput: '0',
-      feeTier: '0.30',
-      priceImpact: '0.000',
-      route: `${fromToken} → ${toToken}`,
-    };
-  }
-}
-
 /**
  * Hedera DEX Provider
  * Provides information about Hedera DEX capabilities and SaucerSwap integration
@@ -1187,9 +7089,17 @@ const hederaDexProvider: Provider = {
     _message: Memory,
     _state: State | undefined
   ): Promise<ProviderResult> => {
-    const network = runtime.getSetting('HEDERA_NETWORK') || 'mainnet';
-    const mirrorNodeUrl = runtime.getSetting('HEDERA_MIRROR_NODE_URL') ||
-      CONTRACT_ADDRESSES[network as keyof typeof CONTRACT_ADDRESSES]?.mirrorNode;
+    let profile: NetworkProfile;
+    try {
+      profile = resolveNetwork(runtime, 'mainnet');
+    } catch (error) {
+      return {
+        text: `Hedera DEX integration is misconfigured: ${error instanceof Error ? error.message : String(error)}`,
+        values: {},
+        data: {},
+      };
+    }
+    const { name: network, mirrorNodeUrl } = profile;
 
     return {
       text: `Hedera DEX integration active on ${network} network using Mirror Node at ${mirrorNodeUrl}`,
@@ -1199,8 +7109,8 @@ const hederaDexProvider: Provider = {
         capabilities: ['list_pools', 'pool_information', 'liquidity_data'],
       },
       data: {
-        supportedNetworks: ['mainnet', 'testnet'],
-        contractAddresses: CONTRACT_ADDRESSES,
+        supportedNetworks: Object.keys(NETWORK_PROFILES),
+        contractAddresses: profile.contracts,
       },
     };
   },
@@ -1212,6 +7122,13 @@ export class StarterService extends Service {
   override capabilityDescription =
     'This is a starter service which is attached to the agent through the starter plugin.';
 
+  private orderWatcher?: ReturnType<typeof setInterval>;
+  private checkingOrders = false;
+  private dcaScheduler?: ReturnType<typeof setInterval>;
+  private checkingDcaPlans = false;
+  private twapScheduler?: ReturnType<typeof setInterval>;
+  private checkingTwapOrders = false;
+
   constructor(runtime: IAgentRuntime) {
     super(runtime);
   }
@@ -1219,6 +7136,9 @@ export class StarterService extends Service {
   static override async start(runtime: IAgentRuntime): Promise<Service> {
     logger.info('Starting starter service');
     const service = new StarterService(runtime);
+    service.startOrderWatcher();
+    service.startDcaScheduler();
+    service.startTwapScheduler();
     return service;
   }
 
@@ -1234,8 +7154,101 @@ export class StarterService extends Service {
   }
 
   override async stop(): Promise<void> {
+    if (this.orderWatcher) {
+      clearInterval(this.orderWatcher);
+      this.orderWatcher = undefined;
+    }
+    if (this.dcaScheduler) {
+      clearInterval(this.dcaScheduler);
+      this.dcaScheduler = undefined;
+    }
+    if (this.twapScheduler) {
+      clearInterval(this.twapScheduler);
+      this.twapScheduler = undefined;
+    }
     logger.info('Starter service stopped');
   }
+
+  /**
+   * Check limit orders against pool prices every HEDERA_ORDER_POLL_SECONDS
+   */
+  private startOrderWatcher(): void {
+    const pollSeconds = resolveOrderPollSeconds(this.runtime);
+    this.orderWatcher = setInterval(() => void this.checkOrders(), pollSeconds * 1000);
+    // The watcher runs alongside the agent; it should not keep the process alive on its own
+    this.orderWatcher.unref?.();
+    logger.info(`Watching limit orders every ${pollSeconds} seconds`);
+  }
+
+  /**
+   * Run one order check, skipping it while the previous one is still executing orders
+   */
+  async checkOrders(): Promise<void> {
+    if (this.checkingOrders) {
+      return;
+    }
+
+    this.checkingOrders = true;
+    try {
+      await checkLimitOrders(this.runtime);
+    } catch (error) {
+      logger.warn('Limit order check failed:', error);
+    } finally {
+      this.checkingOrders = false;
+    }
+  }
+
+  /**
+   * Look for DCA plans that are due every DCA_CHECK_INTERVAL_SECONDS
+   */
+  private startDcaScheduler(): void {
+    this.dcaScheduler = setInterval(() => void this.checkDcaPlans(), DCA_CHECK_INTERVAL_SECONDS * 1000);
+    this.dcaScheduler.unref?.();
+  }
+
+  /**
+   * Make the purchases of due DCA plans, skipping the run while the previous one is still purchasing
+   */
+  async checkDcaPlans(): Promise<void> {
+    if (this.checkingDcaPlans) {
+      return;
+    }
+
+    this.checkingDcaPlans = true;
+    try {
+      await runDueDcaPlans(this.runtime);
+    } catch (error) {
+      logger.warn('DCA plan check failed:', error);
+    } finally {
+      this.checkingDcaPlans = false;
+    }
+  }
+
+  /**
+   * Look for TWAP slices that are due every TWAP_CHECK_INTERVAL_SECONDS
+   */
+  private startTwapScheduler(): void {
+    this.twapScheduler = setInterval(() => void this.checkTwapOrders(), TWAP_CHECK_INTERVAL_SECONDS * 1000);
+    this.twapScheduler.unref?.();
+  }
+
+  /**
+   * Sell the due slices of TWAP orders, skipping the run while the previous one is still selling
+   */
+  async checkTwapOrders(): Promise<void> {
+    if (this.checkingTwapOrders) {
+      return;
+    }
+
+    this.checkingTwapOrders = true;
+    try {
+      await runDueTwapSlices(this.runtime);
+    } catch (error) {
+      logger.warn('TWAP order check failed:', error);
+    } finally {
+      this.checkingTwapOrders = false;
+    }
+  }
 }
 
 export const hederaDexPlugin: Plugin = {
@@ -1244,12 +7257,40 @@ export const hederaDexPlugin: Plugin = {
   config: {
     HEDERA_NETWORK: process.env.HEDERA_NETWORK,
     HEDERA_MIRROR_NODE_URL: process.env.HEDERA_MIRROR_NODE_URL,
+    HEDERA_CONSENSUS_NODES: process.env.HEDERA_CONSENSUS_NODES,
+    HEDERA_EXPLORER_URL: process.env.HEDERA_EXPLORER_URL,
+    HEDERA_SAUCERSWAP_ROUTER: process.env.HEDERA_SAUCERSWAP_ROUTER,
+    HEDERA_SAUCERSWAP_FACTORY: process.env.HEDERA_SAUCERSWAP_FACTORY,
+    HEDERA_SAUCERSWAP_QUOTER: process.env.HEDERA_SAUCERSWAP_QUOTER,
+    HEDERA_SAUCERSWAP_POSITION_MANAGER: process.env.HEDERA_SAUCERSWAP_POSITION_MANAGER,
+    HEDERA_WHBAR_TOKEN: process.env.HEDERA_WHBAR_TOKEN,
+    HEDERA_WHBAR_CONTRACT: process.env.HEDERA_WHBAR_CONTRACT,
+    HEDERA_KEY_TYPE: process.env.HEDERA_KEY_TYPE,
+    HEDERA_DERIVATION_PATH: process.env.HEDERA_DERIVATION_PATH,
+    HEDERA_SIGNING_MODE: process.env.HEDERA_SIGNING_MODE,
+    HEDERA_ACCOUNT_MODE: process.env.HEDERA_ACCOUNT_MODE,
+    HEDERA_ACCOUNT_ENCRYPTION_KEY: process.env.HEDERA_ACCOUNT_ENCRYPTION_KEY,
+    HEDERA_USER_TOP_UP_DAILY_HBAR: process.env.HEDERA_USER_TOP_UP_DAILY_HBAR,
+    HEDERA_ORDER_POLL_SECONDS: process.env.HEDERA_ORDER_POLL_SECONDS,
   },
-  async init(config: Record<string, string>) {
+  async init(config: Record<string, string>, runtime?: IAgentRuntime) {
     logger.info('Initializing plugin-hedera-dex');
     try {
       const validatedConfig = await configSchema.parseAsync(config);
 
+      // Fail early on an unknown network or malformed contract overrides
+      const profile = resolveNetworkProfile(validatedConfig.HEDERA_NETWORK, (key) => validatedConfig[key as keyof typeof validatedConfig]);
+      logger.info(`Hedera DEX network: ${profile.name} (Mirror Node ${profile.mirrorNodeUrl})`);
+
+      // Per-user account keys cannot be stored without an encryption secret
+      if (parseAccountMode(validatedConfig.HEDERA_ACCOUNT_MODE) === 'per-user' && !validatedConfig.HEDERA_ACCOUNT_ENCRYPTION_KEY) {
+        throw new Error('HEDERA_ACCOUNT_MODE=per-user requires HEDERA_ACCOUNT_ENCRYPTION_KEY');
+      }
+
+      if (runtime) {
+        await verifyOperatorKey(runtime, profile);
+      }
+
       // Set all environment variables at once
       for (const [key, value] of Object.entries(validatedConfig)) {
         if (value) process.env[key] = value;
@@ -1311,6 +7352,30 @@ export const hederaDexPlugin: Plugin = {
         });
       },
     },
+    {
+      name: 'submit-signed-transactions',
+      path: '/api/transactions/submit',
+      type: 'POST',
+      handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+        // Accepts { transactions: [...] } in the order they were returned, or a single { transaction }
+        const body = req.body ?? {};
+        const signedTransactions: unknown[] = Array.isArray(body.transactions)
+          ? body.transactions
+          : body.transaction !== undefined ? [body.transaction] : [];
+
+        if (signedTransactions.length === 0 || !signedTransactions.every((bytes) => typeof bytes === 'string')) {
+          res.status(400).json({ success: false, error: 'Expected signed transaction bytes (base64 or 0x-prefixed hex) in "transactions"' });
+          return;
+        }
+
+        try {
+          res.json(await submitSignedSwap(runtime, signedTransactions as string[]));
+        } catch (error) {
+          logger.error('Error submitting signed transactions:', error);
+          res.status(400).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+        }
+      },
+    },
   ],
   events: {
     [EventType.MESSAGE_RECEIVED]: [
@@ -1339,7 +7404,31 @@ export const hederaDexPlugin: Plugin = {
     ],
   },
   services: [StarterService],
-  actions: [listPoolsAction, getPoolInfoAction, swapTokensAction],
+  actions: [
+    listPoolsAction,
+    getPoolInfoAction,
+    swapTokensAction,
+    getQuoteAction,
+    confirmSwapAction,
+    swapHistoryAction,
+    wrapHbarAction,
+    unwrapWhbarAction,
+    accountBalanceAction,
+    topUpAccountAction,
+    withdrawFundsAction,
+    placeLimitOrderAction,
+    placeTriggerOrderAction,
+    cancelOrderAction,
+    listOrdersAction,
+    createDcaPlanAction,
+    pauseDcaPlanAction,
+    resumeDcaPlanAction,
+    cancelDcaPlanAction,
+    listDcaPlansAction,
+    twapSwapAction,
+    cancelTwapAction,
+    listTwapOrdersAction,
+  ],
   providers: [hederaDexProvider],
   // dependencies: ['@elizaos/plugin-knowledge'], <--- plugin dependencies go here (if requires another plugin)
 };
@@ -0,0 +1,111 @@
+import { ethers } from 'ethers';
+import { SAUCERSWAP_FACTORY_ABI, SAUCERSWAP_POOL_ABI, hederaIdToEvmAddress } from './saucerswap-abi';
+import { callContract } from './mirror-node';
+
+const factoryInterface = new ethers.Interface(SAUCERSWAP_FACTORY_ABI);
+const poolInterface = new ethers.Interface(SAUCERSWAP_POOL_ABI);
+
+const Q192 = 2n ** 192n;
+const FEE_DENOMINATOR = 1_000_000n; // Pool fees are in hundredths of a basis point
+
+/**
+ * One hop of a route with the pool's current price
+ */
+export interface PricedHop {
+  tokenIn: string;
+  tokenOut: string;
+  fee: number;
+  sqrtPriceX96: bigint;
+}
+
+/**
+ * Look up the pool address for a token pair and fee tier on the factory
+ * Returns null when no pool exists
+ */
+export async function getPoolAddress(
+  mirrorNodeUrl: string,
+  factoryId: string,
+  tokenA: string,
+  tokenB: string,
+  fee: number
+): Promise<string | null> {
+  const result = await callContract(mirrorNodeUrl, {
+    to: hederaIdToEvmAddress(factoryId),
+    data: factoryInterface.encodeFunctionData('getPool', [
+      hederaIdToEvmAddress(tokenA),
+      hederaIdToEvmAddress(tokenB),
+      fee,
+    ]),
+  });
+
+  const [pool] = factoryInterface.decodeFunctionResult('getPool', result);
+  return pool === ethers.ZeroAddress ? null : (pool as string);
+}
+
+/**
+ * Read the current sqrtPriceX96 (token1 per token0) from a pool's slot0
+ */
+export async function fetchSqrtPriceX96(mirrorNodeUrl: string, poolAddress: string): Promise<bigint> {
+  const result = await callContract(mirrorNodeUrl, {
+    to: poolAddress,
+    data: poolInterface.encodeFunctionData('slot0'),
+  });
+
+  const [sqrtPriceX96] = poolInterface.decodeFunctionResult('slot0', result);
+  return BigInt(sqrtPriceX96);
+}
+
+/**
+ * Output of a trade at the pools' current prices, after pool fees but without price impact
+ * Pools order their tokens by EVM address, so the price is inverted when selling token1
+ */
+export function computeSpotAmountOut(amountIn: bigint, hops: PricedHop[]): bigint {
+  let amount = amountIn;
+
+  for (const hop of hops) {
+    const priceX192 = hop.sqrtPriceX96 * hop.sqrtPriceX96;
+    const sellsToken0 = hederaIdToEvmAddress(hop.tokenIn) < hederaIdToEvmAddress(hop.tokenOut);
+
+    amount = sellsToken0 ? (amount * priceX192) / Q192 : (amount * Q192) / priceX192;
+    amount = (amount * (FEE_DENOMINATOR - BigInt(hop.fee))) / FEE_DENOMINATOR;
+  }
+
+  return amount;
+}
+
+/**
+ * Price impact in basis points: how far the quoted output falls short of the spot output
+ */
+export function computePriceImpactBps(spotAmountOut: bigint, amountOut: bigint): number {
+  if (spotAmountOut <= 0n || amountOut >= spotAmountOut) {
+    return 0;
+  }
+
+  return Number(((spotAmountOut - amountOut) * 10_000n) / spotAmountOut);
+}
+
+/**
+ * Estimate the price impact of a quoted trade along a route from the pools' sqrtPriceX96
+ */
+export async function estimateRoutePriceImpactBps(
+  mirrorNodeUrl: string,
+  factoryId: string,
+  route: { tokens: string[]; fees: number[] },
+  amountIn: bigint,
+  amountOut: bigint
+): Promise<number> {
+  const hops = await Promise.all(
+    route.fees.map(async (fee, i) => {
+      const tokenIn = route.tokens[i];
+      const tokenOut = route.tokens[i + 1];
+      const poolAddress = await getPoolAddress(mirrorNodeUrl, factoryId, tokenIn, tokenOut, fee);
+      if (!poolAddress) {
+        throw new Error(`No pool exists for ${tokenIn}/${tokenOut} at fee ${fee}`);
+      }
+
+      return { tokenIn, tokenOut, fee, sqrtPriceX96: await fetchSqrtPriceX96(mirrorNodeUrl, poolAddress) };
+    })
+  );
+
+  return computePriceImpactBps(computeSpotAmountOut(amountIn, hops), amountOut);
+}
@@ -0,0 +1,131 @@
+import { ethers } from 'ethers';
+import { SAUCERSWAP_QUOTER_ABI, hederaIdToEvmAddress } from './saucerswap-abi';
+import { callContract } from './mirror-node';
+
+// Slippage tolerance bounds (in basis points)
+export const DEFAULT_SLIPPAGE_BPS = 50; // 0.50%
+export const MAX_SLIPPAGE_BPS = 5000; // 50.00%
+
+const BPS_DENOMINATOR = 10_000n;
+
+// Which side of a swap is fixed: the amount sold (exactInput) or the amount bought (exactOutput)
+export type SwapTradeType = 'exactInput' | 'exactOutput';
+
+export interface SwapQuote {
+  amountIn: bigint;
+  amountOut: bigint;
+  sqrtPriceX96AfterList: bigint[];
+  initializedTicksCrossedList: number[];
+  gasEstimate: bigint;
+}
+
+const quoterInterface = new ethers.Interface(SAUCERSWAP_QUOTER_ABI);
+
+/**
+ * Quote the output of an exact-input swap along an encoded path
+ * using the SaucerSwap QuoterV2 contract
+ */
+export async function quoteExactInput(
+  mirrorNodeUrl: string,
+  quoterId: string,
+  path: string,
+  amountIn: bigint
+): Promise<SwapQuote> {
+  const data = quoterInterface.encodeFunctionData('quoteExactInput', [path, amountIn]);
+  const result = await callContract(mirrorNodeUrl, {
+    to: hederaIdToEvmAddress(quoterId),
+    data,
+  });
+
+  const [amountOut, sqrtPriceX96AfterList, initializedTicksCrossedList, gasEstimate] =
+    quoterInterface.decodeFunctionResult('quoteExactInput', result);
+
+  return {
+    amountIn,
+    amountOut: BigInt(amountOut),
+    sqrtPriceX96AfterList: Array.from(sqrtPriceX96AfterList as bigint[], (value) => BigInt(value)),
+    initializedTicksCrossedList: Array.from(initializedTicksCrossedList as bigint[], (value) => Number(value)),
+    gasEstimate: BigInt(gasEstimate),
+  };
+}
+
+/**
+ * Quote the input required for an exact-output swap
+ * The path must be encoded in reverse (output token first)
+ */
+export async function quoteExactOutput(
+  mirrorNodeUrl: string,
+  quoterId: string,
+  path: string,
+  amountOut: bigint
+): Promise<SwapQuote> {
+  const data = quoterInterface.encodeFunctionData('quoteExactOutput', [path, amountOut]);
+  const result = await callContract(mirrorNodeUrl, {
+    to: hederaIdToEvmAddress(quoterId),
+    data,
+  });
+
+  const [amountIn, sqrtPriceX96AfterList, initializedTicksCrossedList, gasEstimate] =
+    quoterInterface.decodeFunctionResult('quoteExactOutput', result);
+
+  return {
+    amountIn: BigInt(amountIn),
+    amountOut,
+    sqrtPriceX96AfterList: Array.from(sqrtPriceX96AfterList as bigint[], (value) => BigInt(value)),
+    initializedTicksCrossedList: Array.from(initializedTicksCrossedList as bigint[], (value) => Number(value)),
+    gasEstimate: BigInt(gasEstimate),
+  };
+}
+
+/**
+ * Lowest acceptable output for a quoted amount under the given slippage tolerance
+ */
+export function applySlippageToOutput(amountOut: bigint, slippageBps: number): bigint {
+  return (amountOut * (BPS_DENOMINATOR - BigInt(slippageBps))) / BPS_DENOMINATOR;
+}
+
+/**
+ * Highest acceptable input for a quoted amount under the given slippage tolerance
+ * Rounds up so the limit never falls below the quote
+ */
+export function applySlippageToInput(amountIn: bigint, slippageBps: number): bigint {
+  const scaled = amountIn * (BPS_DENOMINATOR + BigInt(slippageBps));
+  return (scaled + BPS_DENOMINATOR - 1n) / BPS_DENOMINATOR;
+}
+
+/**
+ * Format a basis point value as a percentage string (50 -> "0.50%")
+ */
+export function formatBps(bps: number): string {
+  return `${(bps / 100).toFixed(2)}%`;
+}
+
+/**
+ * Validate a slippage tolerance in basis points
+ * Accepts numbers or numeric strings, throws on out-of-range values
+ */
+export function parseSlippageBps(value: unknown): number {
+  const bps = typeof value === 'string' ? Number(value.trim()) : Number(value);
+
+  if (!Number.isInteger(bps) || bps < 0 || bps > MAX_SLIPPAGE_BPS) {
+    throw new Error(`Invalid slippage tolerance: ${String(value)} (expected 0-${MAX_SLIPPAGE_BPS} basis points)`);
+  }
+
+  return bps;
+}
+
+/**
+ * Extract a slippage tolerance from a message such as
+ * "swap 10 HBAR for USDC with 1% slippage" or "slippage 0.5%"
+ * Returns the tolerance in basis points, or null when none was given
+ */
+export function extractSlippageFromText(text: string): number | null {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*%\s*(?:max\s+)?slippage/i) ||
+               text.match(/slippage(?:\s+(?:of|at|tolerance))?\s*(?:of\s+)?(\d+(?:\.\d+)?)\s*%/i);
+
+  if (!match) {
+    return null;
+  }
+
+  return parseSlippageBps(Math.round(parseFloat(match[1]) * 100));
+}
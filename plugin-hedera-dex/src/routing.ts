@@ -0,0 +1,263 @@
+import { logger } from '@elizaos/core';
+import { FEE_TIERS, encodeSwapPath } from './saucerswap-abi';
+import { quoteExactInput, quoteExactOutput, type SwapQuote, type SwapTradeType } from './quoter';
+import { getPoolAddress } from './pool-state';
+
+// Routing limits
+export const DEFAULT_MAX_HOPS = 3;
+export const MAX_ROUTE_CANDIDATES = 25;
+
+// Pool fees are expressed in hundredths of a basis point
+const FEE_DENOMINATOR = 1_000_000;
+
+/**
+ * Minimal pool shape needed to build the routing graph
+ * (satisfied by the pools parsed from factory PoolCreated events)
+ */
+export interface RoutablePool {
+  tokenA: { id: string; symbol: string };
+  tokenB: { id: string; symbol: string };
+  fee: number;
+}
+
+/**
+ * A swap route in trade direction: tokens[i] -> tokens[i + 1] through a pool with fees[i]
+ */
+export interface SwapRoute {
+  tokens: string[];
+  fees: number[];
+}
+
+export interface QuotedRoute {
+  route: SwapRoute;
+  quote: SwapQuote;
+  candidatesQuoted: number;
+  successfulQuotes: number; // Candidates whose quote did not revert
+}
+
+interface PoolEdge {
+  to: string;
+  fee: number;
+}
+
+/**
+ * Build an adjacency list of token IDs connected by pools
+ */
+function buildPoolGraph(pools: RoutablePool[]): Map<string, PoolEdge[]> {
+  const graph = new Map<string, PoolEdge[]>();
+
+  const addEdge = (from: string, to: string, fee: number) => {
+    const edges = graph.get(from) || [];
+    if (!edges.some((edge) => edge.to === to && edge.fee === fee)) {
+      edges.push({ to, fee });
+    }
+    graph.set(from, edges);
+  };
+
+  for (const pool of pools) {
+    addEdge(pool.tokenA.id, pool.tokenB.id, pool.fee);
+    addEdge(pool.tokenB.id, pool.tokenA.id, pool.fee);
+  }
+
+  return graph;
+}
+
+/**
+ * Look up which standard fee tiers have a deployed pool for a token pair
+ * by calling getPool on the factory for each tier
+ */
+export async function findDirectPoolFees(
+  mirrorNodeUrl: string,
+  factoryId: string,
+  tokenA: string,
+  tokenB: string
+): Promise<number[]> {
+  const fees = Object.values(FEE_TIERS);
+  const pools = await Promise.all(
+    fees.map((fee) => getPoolAddress(mirrorNodeUrl, factoryId, tokenA, tokenB, fee))
+  );
+
+  return fees.filter((_, i) => pools[i] !== null);
+}
+
+function routeKey(route: SwapRoute): string {
+  return route.tokens.map((token, i) => (i < route.fees.length ? `${token}:${route.fees[i]}` : token)).join('>');
+}
+
+/**
+ * Enumerate candidate routes between two tokens using up to maxHops pools,
+ * one route per combination of fee tiers. Direct routes are always included for
+ * directFees (the tiers known to have a pool for the pair, every standard tier
+ * when unknown) so a pair is still quotable when pool discovery missed its pool.
+ * Shorter routes come first.
+ */
+export function findCandidateRoutes(
+  pools: RoutablePool[],
+  fromTokenId: string,
+  toTokenId: string,
+  maxHops: number = DEFAULT_MAX_HOPS,
+  directFees: number[] = Object.values(FEE_TIERS)
+): SwapRoute[] {
+  const graph = buildPoolGraph(pools);
+  const routes: SwapRoute[] = directFees.map((fee) => ({
+    tokens: [fromTokenId, toTokenId],
+    fees: [fee],
+  }));
+  const seen = new Set(routes.map(routeKey));
+
+  const visit = (tokens: string[], fees: number[]) => {
+    const current = tokens[tokens.length - 1];
+    if (current === toTokenId) {
+      const route = { tokens, fees };
+      const key = routeKey(route);
+      if (!seen.has(key)) {
+        seen.add(key);
+        routes.push(route);
+      }
+      return;
+    }
+
+    if (fees.length >= maxHops) {
+      return;
+    }
+
+    for (const edge of graph.get(current) || []) {
+      if (tokens.includes(edge.to)) {
+        continue; // Never revisit a token
+      }
+      visit([...tokens, edge.to], [...fees, edge.fee]);
+    }
+  };
+
+  visit([fromTokenId], []);
+
+  return routes
+    .sort((a, b) => a.fees.length - b.fees.length)
+    .slice(0, MAX_ROUTE_CANDIDATES);
+}
+
+/**
+ * A candidate route with its quote, or why it could not be quoted
+ */
+export interface RouteQuoteResult {
+  route: SwapRoute;
+  quote?: SwapQuote;
+  error?: string; // Set when the quote reverted (e.g. the pool does not exist)
+}
+
+/**
+ * Quote every candidate route for the same amount, in the order of the routes
+ */
+export async function quoteRoutes(
+  mirrorNodeUrl: string,
+  quoterId: string,
+  routes: SwapRoute[],
+  amount: bigint,
+  tradeType: SwapTradeType
+): Promise<RouteQuoteResult[]> {
+  const results = await Promise.allSettled(
+    routes.map((route) =>
+      tradeType === 'exactOutput'
+        ? quoteExactOutput(mirrorNodeUrl, quoterId, encodeSwapPath(route.tokens, route.fees, true), amount)
+        : quoteExactInput(mirrorNodeUrl, quoterId, encodeSwapPath(route.tokens, route.fees), amount)
+    )
+  );
+
+  return results.map((result, i) => {
+    if (result.status === 'rejected') {
+      logger.debug(`Route ${routeKey(routes[i])} could not be quoted: ${result.reason}`);
+      return { route: routes[i], error: result.reason instanceof Error ? result.reason.message : String(result.reason) };
+    }
+    return { route: routes[i], quote: result.value };
+  });
+}
+
+/**
+ * The routes that were quoted, best first: the highest output for exact-input trades,
+ * the lowest required input for exact-output trades. Routes quoted at zero are left out;
+ * equally good routes keep their candidate order.
+ */
+export function rankRouteQuotes(
+  results: RouteQuoteResult[],
+  tradeType: SwapTradeType
+): { route: SwapRoute; quote: SwapQuote }[] {
+  const isExactOutput = tradeType === 'exactOutput';
+  const compare = (a: bigint, b: bigint) => (a < b ? -1 : a > b ? 1 : 0);
+
+  return results
+    .filter((result): result is { route: SwapRoute; quote: SwapQuote } =>
+      result.quote !== undefined && (isExactOutput ? result.quote.amountIn : result.quote.amountOut) > 0n)
+    .sort((a, b) => isExactOutput
+      ? compare(a.quote.amountIn, b.quote.amountIn)
+      : compare(b.quote.amountOut, a.quote.amountOut));
+}
+
+/**
+ * Quote every candidate route and pick the best one: the highest output for
+ * exact-input trades, the lowest required input for exact-output trades.
+ * Routes whose quote reverts (e.g. the pool does not exist) are skipped.
+ */
+export async function findBestRoute(
+  mirrorNodeUrl: string,
+  quoterId: string,
+  routes: SwapRoute[],
+  amount: bigint,
+  tradeType: SwapTradeType
+): Promise<QuotedRoute | null> {
+  const results = await quoteRoutes(mirrorNodeUrl, quoterId, routes, amount, tradeType);
+  const [best] = rankRouteQuotes(results, tradeType);
+  if (!best) {
+    return null;
+  }
+
+  const successfulQuotes = results.filter((result) => result.quote !== undefined).length;
+  return { ...best, candidatesQuoted: routes.length, successfulQuotes };
+}
+
+/**
+ * Pool fee charged along a route, in hundredths of a basis point of the input
+ * (each hop's fee is taken from what the previous hops left)
+ */
+export function combineRouteFees(fees: number[]): number {
+  const kept = fees.reduce((remaining, fee) => remaining * (FEE_DENOMINATOR - fee) / FEE_DENOMINATOR, FEE_DENOMINATOR);
+  return Math.round(FEE_DENOMINATOR - kept);
+}
+
+/**
+ * Format a pool fee (in hundredths of a basis point) as a percentage, e.g. 3000 -> "0.30%"
+ */
+export function formatFeeTier(fee: number): string {
+  return `${(fee / 10_000).toFixed(2)}%`;
+}
+
+/**
+ * Describe a route with token symbols and per-hop fee tiers,
+ * e.g. "SAUCE → WHBAR → USDC (0.30% → 0.05%)"
+ */
+export function formatRoute(route: SwapRoute, symbols: Map<string, string>): string {
+  const path = route.tokens.map((token) => symbols.get(token) || token).join(' → ');
+  const fees = route.fees.map(formatFeeTier).join(' → ');
+  return `${path} (${fees})`;
+}
+
+/**
+ * Explain why the selected route's fee tier was used
+ * directFees are the tiers with a pool for the pair (undefined when the lookup failed)
+ */
+export function describeFeeTierSelection(best: QuotedRoute, directFees?: number[]): string {
+  if (best.route.fees.length > 1) {
+    return directFees && directFees.length === 0
+      ? 'no direct pool exists for this pair, so the best multi-hop route was used'
+      : 'a multi-hop route quoted better than the direct pools';
+  }
+
+  if (!directFees) {
+    return `best quote out of ${best.successfulQuotes} quotable routes across all standard fee tiers`;
+  }
+
+  if (directFees.length === 1) {
+    return 'the only fee tier with a pool for this pair';
+  }
+
+  return `best quote among the pools at ${directFees.map(formatFeeTier).join(', ')}`;
+}
@@ -68,42 +68,132 @@ export const SAUCERSWAP_ROUTER_ABI = [
     "outputs": [],
     "stateMutability": "payable",
     "type": "function"
+  },
+  // Unwrap the router's WHBAR balance and send it to the recipient as native HBAR
+  {
+    "inputs": [
+      { "internalType": "uint256", "name": "amountMinimum", "type": "uint256" },
+      { "internalType": "address", "name": "recipient", "type": "address" }
+    ],
+    "name": "unwrapWHBAR",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
   }
 ];
 
-// SaucerSwap contract addresses
-export const SAUCERSWAP_CONTRACTS = {
-  mainnet: {
-    router: '0.0.3949434',
-    factory: '0.0.3946833',
-    whbar: '0.0.1456986', // Wrapped HBAR
+/**
+ * SaucerSwap WHBAR contract ABI for wrapping and unwrapping HBAR
+ * deposit mints WHBAR for the HBAR sent; withdraw burns WHBAR (pulled via allowance) and returns HBAR
+ */
+export const SAUCERSWAP_WHBAR_ABI = [
+  {
+    "inputs": [],
+    "name": "deposit",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
   },
-  testnet: {
-    router: '0.0.3949434', // Use mainnet router for testing (SaucerSwap may not have testnet deployment)
-    factory: '0.0.3946833',
-    whbar: '0.0.1456986', // Use mainnet WHBAR for testing
+  {
+    "inputs": [
+      { "internalType": "uint256", "name": "wad", "type": "uint256" }
+    ],
+    "name": "withdraw",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
   }
-};
+];
+
+/**
+ * SaucerSwap V2 QuoterV2 ABI for off-chain price quotes
+ * Called read-only through the Mirror Node contracts/call endpoint
+ */
+export const SAUCERSWAP_QUOTER_ABI = [
+  {
+    "inputs": [
+      { "internalType": "bytes", "name": "path", "type": "bytes" },
+      { "internalType": "uint256", "name": "amountIn", "type": "uint256" }
+    ],
+    "name": "quoteExactInput",
+    "outputs": [
+      { "internalType": "uint256", "name": "amountOut", "type": "uint256" },
+      { "internalType": "uint160[]", "name": "sqrtPriceX96AfterList", "type": "uint160[]" },
+      { "internalType": "uint32[]", "name": "initializedTicksCrossedList", "type": "uint32[]" },
+      { "internalType": "uint256", "name": "gasEstimate", "type": "uint256" }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      { "internalType": "bytes", "name": "path", "type": "bytes" },
+      { "internalType": "uint256", "name": "amountOut", "type": "uint256" }
+    ],
+    "name": "quoteExactOutput",
+    "outputs": [
+      { "internalType": "uint256", "name": "amountIn", "type": "uint256" },
+      { "internalType": "uint160[]", "name": "sqrtPriceX96AfterList", "type": "uint160[]" },
+      { "internalType": "uint32[]", "name": "initializedTicksCrossedList", "type": "uint32[]" },
+      { "internalType": "uint256", "name": "gasEstimate", "type": "uint256" }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+];
 
-// Common token addresses (real mainnet addresses)
-export const TOKEN_ADDRESSES = {
-  mainnet: {
-    HBAR: 'HBAR', // Native HBAR
-    WHBAR: '0.0.1456986', // Wrapped HBAR
-    USDC: '0.0.456858', // USDC on Hedera
-    USDT: '0.0.1456986', // Using WHBAR as placeholder for USDT
-    SAUCE: '0.0.731861', // SAUCE token
-    BONZO: '0.0.1456986', // Using WHBAR as placeholder for BONZO
+/**
+ * SaucerSwap V2 Factory ABI for looking up pools by token pair and fee tier,
+ * and for decoding the PoolCreated events it emits
+ */
+export const SAUCERSWAP_FACTORY_ABI = [
+  {
+    "anonymous": false,
+    "inputs": [
+      { "indexed": true, "internalType": "address", "name": "token0", "type": "address" },
+      { "indexed": true, "internalType": "address", "name": "token1", "type": "address" },
+      { "indexed": true, "internalType": "uint24", "name": "fee", "type": "uint24" },
+      { "indexed": false, "internalType": "int24", "name": "tickSpacing", "type": "int24" },
+      { "indexed": false, "internalType": "address", "name": "pool", "type": "address" }
+    ],
+    "name": "PoolCreated",
+    "type": "event"
   },
-  testnet: {
-    HBAR: 'HBAR',
-    WHBAR: '0.0.1456986', // Use mainnet WHBAR for testing
-    USDC: '0.0.1456986',  // Use WHBAR as placeholder for testnet
-    USDT: '0.0.1456986',  // Use WHBAR as placeholder for testnet
-    SAUCE: '0.0.1456986', // Use WHBAR as placeholder for testnet
-    BONZO: '0.0.1456986', // Use WHBAR as placeholder for testnet
+  {
+    "inputs": [
+      { "internalType": "address", "name": "tokenA", "type": "address" },
+      { "internalType": "address", "name": "tokenB", "type": "address" },
+      { "internalType": "uint24", "name": "fee", "type": "uint24" }
+    ],
+    "name": "getPool",
+    "outputs": [
+      { "internalType": "address", "name": "pool", "type": "address" }
+    ],
+    "stateMutability": "view",
+    "type": "function"
   }
-};
+];
+
+/**
+ * SaucerSwap V2 Pool ABI for reading the current pool price
+ */
+export const SAUCERSWAP_POOL_ABI = [
+  {
+    "inputs": [],
+    "name": "slot0",
+    "outputs": [
+      { "internalType": "uint160", "name": "sqrtPriceX96", "type": "uint160" },
+      { "internalType": "int24", "name": "tick", "type": "int24" },
+      { "internalType": "uint16", "name": "observationIndex", "type": "uint16" },
+      { "internalType": "uint16", "name": "observationCardinality", "type": "uint16" },
+      { "internalType": "uint16", "name": "observationCardinalityNext", "type": "uint16" },
+      { "internalType": "uint8", "name": "feeProtocol", "type": "uint8" },
+      { "internalType": "bool", "name": "unlocked", "type": "bool" }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+];
 
 // Fee tiers (in basis points)
 export const FEE_TIERS = {
@@ -132,6 +222,21 @@ export function hederaIdToEvmAddress(accountId: string): string {
   return '0x' + hex;
 }
 
+/**
+ * Convert a long-zero EVM address (shard, realm and entity number) back to its Hedera ID
+ * Returns null for other addresses, such as contracts deployed with CREATE2
+ */
+export function longZeroAddressToHederaId(address: string): string | null {
+  const hex = address.toLowerCase().replace(/^0x/, '');
+  if (!/^[0-9a-f]{40}$/.test(hex) || !/^0{8}/.test(hex)) {
+    return null;
+  }
+
+  const realm = BigInt(`0x${hex.slice(8, 24)}`);
+  const num = BigInt(`0x${hex.slice(24)}`);
+  return realm === 0n && num > 0n ? `0.0.${num}` : null;
+}
+
 /**
  * Convert hex string to Uint8Array for Hedera SDK
  */
@@ -147,11 +252,18 @@ export function hexToUint8Array(hex: string): Uint8Array {
 /**
  * Encode swap path for SaucerSwap router
  * Format: [token0, fee, token1, fee, token2, ...]
+ * Tokens and fees are given in trade direction (input first). Exact-output swaps
+ * expect the path from output to input, so pass reverse=true to encode it backwards.
  */
-export function encodeSwapPath(tokens: string[], fees: number[]): string {
+export function encodeSwapPath(tokens: string[], fees: number[], reverse: boolean = false): string {
   if (tokens.length !== fees.length + 1) {
     throw new Error('Invalid path: tokens length must be fees length + 1');
   }
+
+  if (reverse) {
+    tokens = [...tokens].reverse();
+    fees = [...fees].reverse();
+  }
   
   let path = '';
   for (let i = 0; i < tokens.length; i++) {
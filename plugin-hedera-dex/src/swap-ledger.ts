@@ -0,0 +1,203 @@
+import axios from 'axios';
+import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import { getMirrorNodeErrorMessage } from './mirror-node';
+
+// Memory table holding the swap ledger in the agent's database (plugin-sql)
+export const SWAP_LEDGER_TABLE = 'hedera_swaps';
+
+export const DEFAULT_SWAP_HISTORY_LIMIT = 10;
+export const MAX_SWAP_HISTORY_LIMIT = 100;
+
+export type SwapStatus = 'pending' | 'success' | 'failed';
+
+/**
+ * One swap submitted by the agent
+ * Amounts are in human units; they are the quoted amounts until the swap settles
+ */
+export interface SwapLedgerEntry {
+  entityId: string; // Who requested the swap
+  roomId: string;
+  quoteId?: string; // Set when the swap was confirmed from a quote
+  orderId?: string; // Set when the swap filled a limit order
+  dcaPlanId?: string; // Set when the swap was a purchase of a DCA plan
+  twapOrderId?: string; // Set when the swap was a slice of a TWAP order
+  network: string;
+  tradeType: 'exactInput' | 'exactOutput';
+  fromToken: string;
+  toToken: string;
+  amountIn?: string;
+  amountOut?: string;
+  route: string;
+  transactionId: string;
+  status: SwapStatus;
+  failureReason?: string;
+  networkFee?: string; // In HBAR
+  associationFee?: string; // In HBAR
+  allowanceFee?: string; // In HBAR
+  valueUsd?: number; // Set when the trading policy valued the trade in USD
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * What led to a swap: a confirmed quote, a limit order, a DCA plan or a TWAP order
+ */
+export type SwapOrigin = Pick<SwapLedgerEntry, 'quoteId' | 'orderId' | 'dcaPlanId' | 'twapOrderId'>;
+
+/**
+ * A ledger entry with the ID of the memory it is stored in
+ */
+export interface StoredSwap extends SwapLedgerEntry {
+  id: UUID;
+}
+
+export interface SwapHistoryFilter {
+  token?: string; // Matches either side of the swap
+  since?: number; // Inclusive, ms since epoch
+  until?: number; // Inclusive, ms since epoch
+  limit?: number;
+}
+
+/**
+ * Convert an SDK transaction ID (0.0.123@1700000000.000000001) into the
+ * Mirror Node format (0.0.123-1700000000-000000001)
+ */
+export function toMirrorTransactionId(transactionId: string): string {
+  const [payer, validStart] = transactionId.split('@');
+  if (!validStart) {
+    return transactionId;
+  }
+  return `${payer}-${validStart.replace('.', '-')}`;
+}
+
+/**
+ * Look up the final status of a transaction on the Mirror Node
+ * Returns pending while the Mirror Node has not ingested the transaction yet
+ */
+export async function fetchTransactionStatus(
+  mirrorNodeUrl: string,
+  transactionId: string
+): Promise<{ status: SwapStatus; result?: string }> {
+  try {
+    const response = await axios.get(
+      `${mirrorNodeUrl}/api/v1/transactions/${toMirrorTransactionId(transactionId)}`
+    );
+    const transaction = (response.data.transactions || [])[0];
+    if (!transaction) {
+      return { status: 'pending' };
+    }
+
+    return { status: transaction.result === 'SUCCESS' ? 'success' : 'failed', result: transaction.result };
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return { status: 'pending' };
+    }
+    throw new Error(`Could not fetch transaction ${transactionId}: ${getMirrorNodeErrorMessage(error)}`);
+  }
+}
+
+function describeSwap(entry: SwapLedgerEntry): string {
+  return `${entry.status} swap ${entry.amountIn ?? '?'} ${entry.fromToken} → ${entry.amountOut ?? '?'} ${entry.toToken} (${entry.transactionId})`;
+}
+
+/**
+ * Swap history stored as memories in the agent's database
+ */
+export class SwapLedger {
+  constructor(private runtime: IAgentRuntime) {}
+
+  /**
+   * Store a new swap and return its ledger ID
+   */
+  async record(entry: SwapLedgerEntry): Promise<UUID> {
+    return this.runtime.createMemory(
+      {
+        entityId: entry.entityId as UUID,
+        agentId: this.runtime.agentId,
+        roomId: entry.roomId as UUID,
+        createdAt: entry.createdAt,
+        content: { text: describeSwap(entry), source: 'hedera-dex', swap: entry },
+      },
+      SWAP_LEDGER_TABLE
+    );
+  }
+
+  /**
+   * Merge changes into a stored swap
+   */
+  async update(id: UUID, changes: Partial<SwapLedgerEntry>): Promise<StoredSwap> {
+    const memory = await this.runtime.getMemoryById(id);
+    if (!memory) {
+      throw new Error(`Swap ${id} not found in the ledger`);
+    }
+
+    const entry: SwapLedgerEntry = { ...(memory.content.swap as SwapLedgerEntry), ...changes, updatedAt: Date.now() };
+    await this.runtime.updateMemory({
+      id,
+      content: { ...memory.content, text: describeSwap(entry), swap: entry },
+    });
+
+    return { ...entry, id };
+  }
+
+  /**
+   * A user's swaps, newest first
+   */
+  async history(entityId: string, filter: SwapHistoryFilter = {}): Promise<StoredSwap[]> {
+    const memories = await this.runtime.getMemories({
+      tableName: SWAP_LEDGER_TABLE,
+      entityId: entityId as UUID,
+      agentId: this.runtime.agentId,
+      start: filter.since,
+      end: filter.until,
+    });
+
+    const token = filter.token?.toUpperCase();
+    return memories
+      .map(toStoredSwap)
+      .filter((swap): swap is StoredSwap => swap !== null && swap.entityId === entityId)
+      .filter((swap) => !token || swap.fromToken.toUpperCase() === token || swap.toToken.toUpperCase() === token)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, Math.min(filter.limit ?? DEFAULT_SWAP_HISTORY_LIMIT, MAX_SWAP_HISTORY_LIMIT));
+  }
+
+  /**
+   * Every user's swaps submitted since a time (inclusive, ms since epoch), in no particular order
+   */
+  async since(since: number): Promise<StoredSwap[]> {
+    const memories = await this.runtime.getMemories({
+      tableName: SWAP_LEDGER_TABLE,
+      agentId: this.runtime.agentId,
+      start: since,
+    });
+
+    return memories
+      .map(toStoredSwap)
+      .filter((swap): swap is StoredSwap => swap !== null && swap.createdAt >= since);
+  }
+
+  /**
+   * Settle pending swaps from their Mirror Node status
+   * Swaps the Mirror Node has not seen yet stay pending; returns the swaps that changed
+   */
+  async reconcile(swaps: StoredSwap[], mirrorNodeUrl: string): Promise<StoredSwap[]> {
+    const settled: StoredSwap[] = [];
+
+    for (const swap of swaps.filter((candidate) => candidate.status === 'pending')) {
+      const { status, result } = await fetchTransactionStatus(mirrorNodeUrl, swap.transactionId);
+      if (status !== 'pending') {
+        settled.push(await this.update(swap.id, {
+          status,
+          failureReason: status === 'failed' ? `Transaction failed with status: ${result}` : undefined,
+        }));
+      }
+    }
+
+    return settled;
+  }
+}
+
+function toStoredSwap(memory: Memory): StoredSwap | null {
+  const swap = memory.content.swap as SwapLedgerEntry | undefined;
+  return memory.id && swap ? { ...swap, id: memory.id } : null;
+}
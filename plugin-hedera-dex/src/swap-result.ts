@@ -0,0 +1,76 @@
+import { ethers } from 'ethers';
+import type { TransactionRecord } from '@hashgraph/sdk';
+import { SAUCERSWAP_ROUTER_ABI } from './saucerswap-abi';
+import type { SwapTradeType } from './quoter';
+
+/**
+ * What a swap actually did, decoded from its transaction record
+ */
+export interface DecodedSwapRecord {
+  amountIn: bigint; // Smallest units of the input token
+  amountOut: bigint; // Smallest units of the output token
+  transactionFeeTinybars: bigint;
+  gasUsed: bigint;
+  hbarChange: bigint; // Net tinybar change of the operator account (includes the fee)
+  tokenChanges: { tokenId: string; amount: bigint }[]; // Net HTS balance changes of the operator account
+}
+
+const routerInterface = new ethers.Interface(SAUCERSWAP_ROUTER_ABI);
+
+/**
+ * Decode the router multicall return value: bytes[] with the swap call result first.
+ * exactInput returns the amount received, exactOutput the amount spent.
+ */
+export function decodeMulticallSwapResult(
+  resultBytes: Uint8Array | string,
+  tradeType: SwapTradeType
+): bigint {
+  const [results] = routerInterface.decodeFunctionResult('multicall', resultBytes);
+  if (!results || results.length === 0) {
+    throw new Error('Multicall returned no results');
+  }
+
+  const [amount] = routerInterface.decodeFunctionResult(tradeType, results[0]);
+  return BigInt(amount);
+}
+
+/**
+ * Decode amounts, fees and balance changes from a swap transaction record
+ * fixedAmount is the side of the trade that was fixed by the user
+ * (amountIn for exactInput, amountOut for exactOutput)
+ */
+export function decodeSwapRecord(
+  record: TransactionRecord,
+  tradeType: SwapTradeType,
+  fixedAmount: bigint,
+  accountId: string
+): DecodedSwapRecord {
+  const functionResult = record.contractFunctionResult;
+  if (!functionResult) {
+    throw new Error('Transaction record has no contract function result');
+  }
+
+  const decodedAmount = decodeMulticallSwapResult(functionResult.bytes, tradeType);
+
+  const hbarChange = record.transfers
+    .filter((transfer) => transfer.accountId.toString() === accountId)
+    .reduce((total, transfer) => total + BigInt(transfer.amount.toTinybars().toString()), 0n);
+
+  const tokenTotals = new Map<string, bigint>();
+  for (const transfer of record.tokenTransfersList) {
+    if (transfer.accountId.toString() !== accountId) continue;
+    const tokenId = transfer.tokenId.toString();
+    tokenTotals.set(tokenId, (tokenTotals.get(tokenId) || 0n) + BigInt(transfer.amount.toString()));
+  }
+
+  return {
+    amountIn: tradeType === 'exactOutput' ? decodedAmount : fixedAmount,
+    amountOut: tradeType === 'exactOutput' ? fixedAmount : decodedAmount,
+    transactionFeeTinybars: BigInt(record.transactionFee.toTinybars().toString()),
+    gasUsed: BigInt(functionResult.gasUsed.toString()),
+    hbarChange,
+    tokenChanges: [...tokenTotals.entries()]
+      .filter(([, amount]) => amount !== 0n)
+      .map(([tokenId, amount]) => ({ tokenId, amount })),
+  };
+}
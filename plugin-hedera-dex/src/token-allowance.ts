@@ -0,0 +1,88 @@
+import axios from 'axios';
+import { logger } from '@elizaos/core';
+import { type Client, AccountAllowanceApproveTransaction } from '@hashgraph/sdk';
+import { getMirrorNodeErrorMessage } from './mirror-node';
+
+/**
+ * Fetch the remaining amount (smallest units) a spender may transfer of an owner's token
+ * Returns 0 when no allowance has been granted
+ */
+export async function getTokenAllowance(
+  mirrorNodeUrl: string,
+  ownerId: string,
+  spenderId: string,
+  tokenId: string
+): Promise<bigint> {
+  try {
+    const response = await axios.get(
+      `${mirrorNodeUrl}/api/v1/accounts/${ownerId}/allowances/tokens?spender.id=${spenderId}&token.id=${tokenId}`
+    );
+
+    const allowance = (response.data.allowances || []).find(
+      (entry: any) => entry.spender === spenderId && entry.token_id === tokenId
+    );
+
+    return allowance ? BigInt(allowance.amount ?? 0) : 0n;
+  } catch (error) {
+    throw new Error(`Could not check ${tokenId} allowance for ${spenderId}: ${getMirrorNodeErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Decide how much allowance to grant for a swap that spends `required` smallest units
+ * Without a cap the approval is exact; with a cap the cap is approved so later swaps
+ * can reuse it, and swaps that need more than the cap are rejected
+ */
+export function resolveAllowanceAmount(required: bigint, cap?: bigint): bigint {
+  if (cap === undefined) {
+    return required;
+  }
+
+  if (required > cap) {
+    throw new Error(`Swap requires an allowance of ${required} which exceeds the configured cap of ${cap}`);
+  }
+
+  return cap;
+}
+
+/**
+ * Build (without executing) the transaction approving a spender to transfer the owner's tokens
+ */
+export function buildTokenAllowanceApproval(
+  ownerId: string,
+  spenderId: string,
+  tokenId: string,
+  amount: bigint
+): AccountAllowanceApproveTransaction {
+  return new AccountAllowanceApproveTransaction()
+    .approveTokenAllowance(tokenId, ownerId, spenderId, amount);
+}
+
+/**
+ * Approve a spender (e.g. the swap router) to transfer the owner's tokens
+ * The approval replaces any existing allowance for the same token and spender
+ * Returns the transaction ID and the fee paid in tinybars
+ */
+export async function approveTokenAllowance(
+  client: Client,
+  ownerId: string,
+  spenderId: string,
+  tokenId: string,
+  amount: bigint
+): Promise<{ transactionId: string; feeTinybars: bigint }> {
+  logger.info(`Approving ${spenderId} to spend ${amount} of token ${tokenId} for ${ownerId}`);
+
+  const response = await buildTokenAllowanceApproval(ownerId, spenderId, tokenId, amount).execute(client);
+
+  const receipt = await response.getReceipt(client);
+  if (receipt.status.toString() !== 'SUCCESS') {
+    throw new Error(`Token allowance approval failed with status: ${receipt.status.toString()}`);
+  }
+
+  const record = await response.getRecord(client);
+
+  return {
+    transactionId: response.transactionId.toString(),
+    feeTinybars: BigInt(record.transactionFee.toTinybars().toString()),
+  };
+}
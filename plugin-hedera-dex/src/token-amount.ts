@@ -0,0 +1,65 @@
+// Native HBAR is denominated in tinybars (1 HBAR = 10^8 tinybars)
+export const HBAR_DECIMALS = 8;
+
+/**
+ * An exact token amount in the token's smallest unit together with its decimals
+ */
+export interface TokenAmount {
+  raw: bigint;
+  decimals: number;
+}
+
+/**
+ * Parse a human-readable amount ("12.5") into smallest units using exact decimal math
+ * Rejects malformed input and amounts with more fraction digits than the token supports
+ */
+export function parseTokenAmount(value: string, decimals: number): TokenAmount {
+  const trimmed = value.trim().replace(/,/g, '');
+  const match = trimmed.match(/^(\d*)(?:\.(\d*))?$/);
+
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid token amount: ${value}`);
+  }
+
+  const [, whole, fraction = ''] = match;
+  const significantFraction = fraction.replace(/0+$/, '');
+
+  if (significantFraction.length > decimals) {
+    throw new Error(`Amount ${value} has more than ${decimals} decimal places`);
+  }
+
+  const raw = BigInt((whole || '0') + significantFraction.padEnd(decimals, '0'));
+  return { raw, decimals };
+}
+
+/**
+ * Wrap a smallest-unit amount (e.g. a quote or on-chain result) with its decimals
+ */
+export function tokenAmountFromRaw(raw: bigint | string, decimals: number): TokenAmount {
+  return { raw: BigInt(raw), decimals };
+}
+
+/**
+ * Format an amount back to human units, without trailing zeros ("12.5", "0.000001")
+ */
+export function formatTokenAmount(amount: TokenAmount): string {
+  const negative = amount.raw < 0n;
+  const digits = (negative ? -amount.raw : amount.raw).toString().padStart(amount.decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - amount.decimals);
+  const fraction = digits.slice(digits.length - amount.decimals).replace(/0+$/, '');
+
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Price of one unit of the base amount expressed in units of the quote amount
+ * (e.g. USDC per HBAR), computed in integer math to the given precision
+ */
+export function formatPrice(quote: TokenAmount, base: TokenAmount, precision: number = 8): string {
+  if (base.raw === 0n) {
+    throw new Error('Cannot compute a price against a zero amount');
+  }
+
+  const scaled = (quote.raw * 10n ** BigInt(base.decimals + precision)) / (base.raw * 10n ** BigInt(quote.decimals));
+  return formatTokenAmount({ raw: scaled, decimals: precision });
+}
@@ -0,0 +1,104 @@
+import axios from 'axios';
+import { logger } from '@elizaos/core';
+import { type Client, TokenAssociateTransaction } from '@hashgraph/sdk';
+import { getMirrorNodeErrorMessage } from './mirror-node';
+
+/**
+ * Whether an account can receive a token, as seen by the Mirror Node
+ */
+export interface TokenAssociationStatus {
+  associated: boolean; // An explicit or automatic relationship already exists
+  autoAssociates: boolean; // A free automatic association slot will be used on receipt
+  maxAutomaticAssociations: number; // -1 means unlimited
+  usedAutomaticAssociations: number;
+}
+
+/**
+ * Count the account's token relationships that were created by automatic association
+ */
+async function countAutomaticAssociations(mirrorNodeUrl: string, accountId: string): Promise<number> {
+  let count = 0;
+  let next: string | null = `/api/v1/accounts/${accountId}/tokens?limit=100`;
+
+  while (next) {
+    const response: { data: any } = await axios.get(`${mirrorNodeUrl}${next}`);
+    const tokens: any[] = response.data.tokens || [];
+    count += tokens.filter((token) => token.automatic_association).length;
+    next = response.data.links?.next || null;
+  }
+
+  return count;
+}
+
+/**
+ * Check whether an account is associated with a token, and if not whether
+ * its automatic association slots would cover the token on receipt
+ */
+export async function checkTokenAssociation(
+  mirrorNodeUrl: string,
+  accountId: string,
+  tokenId: string
+): Promise<TokenAssociationStatus> {
+  try {
+    const [relationshipResponse, accountResponse] = await Promise.all([
+      axios.get(`${mirrorNodeUrl}/api/v1/accounts/${accountId}/tokens?token.id=${tokenId}`),
+      axios.get(`${mirrorNodeUrl}/api/v1/accounts/${accountId}`),
+    ]);
+
+    const associated = (relationshipResponse.data.tokens || []).length > 0;
+    const maxAutomaticAssociations = Number(accountResponse.data.max_automatic_token_associations ?? 0);
+
+    if (associated || maxAutomaticAssociations === 0) {
+      return { associated, autoAssociates: false, maxAutomaticAssociations, usedAutomaticAssociations: 0 };
+    }
+
+    if (maxAutomaticAssociations === -1) {
+      return { associated, autoAssociates: true, maxAutomaticAssociations, usedAutomaticAssociations: 0 };
+    }
+
+    const usedAutomaticAssociations = await countAutomaticAssociations(mirrorNodeUrl, accountId);
+    return {
+      associated,
+      autoAssociates: usedAutomaticAssociations < maxAutomaticAssociations,
+      maxAutomaticAssociations,
+      usedAutomaticAssociations,
+    };
+  } catch (error) {
+    throw new Error(`Could not check token association for ${accountId}: ${getMirrorNodeErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Build (without executing) the transaction associating an account with a token
+ */
+export function buildTokenAssociation(accountId: string, tokenId: string): TokenAssociateTransaction {
+  return new TokenAssociateTransaction()
+    .setAccountId(accountId)
+    .setTokenIds([tokenId]);
+}
+
+/**
+ * Associate the client operator account with a token
+ * Returns the transaction ID and the fee paid in tinybars
+ */
+export async function associateToken(
+  client: Client,
+  accountId: string,
+  tokenId: string
+): Promise<{ transactionId: string; feeTinybars: bigint }> {
+  logger.info(`Associating account ${accountId} with token ${tokenId}`);
+
+  const response = await buildTokenAssociation(accountId, tokenId).execute(client);
+
+  const receipt = await response.getReceipt(client);
+  if (receipt.status.toString() !== 'SUCCESS') {
+    throw new Error(`Token association failed with status: ${receipt.status.toString()}`);
+  }
+
+  const record = await response.getRecord(client);
+
+  return {
+    transactionId: response.transactionId.toString(),
+    feeTinybars: BigInt(record.transactionFee.toTinybars().toString()),
+  };
+}
@@ -0,0 +1,239 @@
+import axios from 'axios';
+import { NETWORK_PROFILES } from './network-profiles';
+import { getMirrorNodeErrorMessage } from './mirror-node';
+
+// Registry ID of the native token; it is routed as WHBAR
+export const HBAR_TOKEN_ID = 'HBAR';
+
+export type TokenSource = 'curated' | 'pool' | 'mirror';
+
+/**
+ * A token the agent can trade
+ */
+export interface RegistryToken {
+  id: string; // Hedera token ID, or HBAR for the native token
+  symbol: string;
+  name: string;
+  decimals?: number; // Undefined until read from the token's metadata
+  verified: boolean; // Only curated entries are verified
+  source: TokenSource;
+}
+
+export type TokenLookup =
+  | { status: 'found'; token: RegistryToken }
+  | { status: 'ambiguous'; query: string; candidates: RegistryToken[] }
+  | { status: 'not_found'; query: string; suggestions: RegistryToken[] };
+
+const curated = (id: string, symbol: string, name: string, decimals?: number): RegistryToken => ({
+  id,
+  symbol,
+  name,
+  decimals,
+  verified: true,
+  source: 'curated',
+});
+
+const NATIVE_HBAR = curated(HBAR_TOKEN_ID, 'HBAR', 'HBAR', 8);
+
+/**
+ * Verified tokens per network, besides HBAR and WHBAR which come from the network profile
+ * Bridged tokens keep their on-chain symbol (e.g. USDC[hts]) so they never collide with native ones
+ */
+export const CURATED_TOKENS: Record<string, RegistryToken[]> = {
+  mainnet: [
+    curated('0.0.456858', 'USDC', 'USD Coin'),
+    curated('0.0.1055459', 'USDC[hts]', 'USD Coin (HashPort)'),
+    curated('0.0.1055472', 'USDT[hts]', 'Tether USD (HashPort)'),
+    curated('0.0.731861', 'SAUCE', 'SaucerSwap'),
+    curated('0.0.1460200', 'XSAUCE', 'xSAUCE'),
+    curated('0.0.834116', 'HBARX', 'HBARX'),
+    curated('0.0.8279134', 'BONZO', 'Bonzo'),
+  ],
+  testnet: [
+    curated('0.0.429274', 'USDC', 'USD Coin'),
+    curated('0.0.1183558', 'SAUCE', 'SaucerSwap'),
+  ],
+};
+
+/**
+ * All verified tokens of a network: native HBAR, WHBAR when the network has it, then the curated list
+ */
+export function curatedTokensFor(
+  network: string,
+  whbar: string | undefined = NETWORK_PROFILES[network]?.contracts.whbar
+): RegistryToken[] {
+  return [
+    NATIVE_HBAR,
+    ...(whbar ? [curated(whbar, 'WHBAR', 'Wrapped Hbar', 8)] : []),
+    ...(CURATED_TOKENS[network] || []),
+  ];
+}
+
+const TOKEN_ID_PATTERN = /^\d+\.\d+\.\d+$/;
+const EVM_ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/i;
+
+const normalizeSymbol = (symbol: string) => symbol.trim().toUpperCase();
+// Symbol without a bridge suffix, e.g. USDC[hts] → USDC
+const baseSymbol = (symbol: string) => normalizeSymbol(symbol).replace(/\[.*\]$/, '');
+
+/**
+ * Convert a long-zero EVM address back to a Hedera entity ID
+ * Returns null for EVM aliases, which cannot be converted locally
+ */
+export function evmAddressToHederaId(address: string): string | null {
+  const hex = address.toLowerCase().replace(/^0x/, '');
+  if (!/^0{24}[0-9a-f]{16}$/.test(hex)) {
+    return null;
+  }
+  return `0.0.${BigInt(`0x${hex}`)}`;
+}
+
+/**
+ * Describe a token for the user, e.g. "USDC (0.0.456858, verified)"
+ */
+export function describeToken(token: RegistryToken): string {
+  if (token.id === HBAR_TOKEN_ID) {
+    return 'HBAR (native)';
+  }
+  return `${token.symbol} (${token.id}, ${token.verified ? 'verified' : 'unverified'})`;
+}
+
+/**
+ * Per-network token registry: curated verified entries, augmented by tokens
+ * discovered from pool events and Mirror Node metadata
+ */
+export class TokenRegistry {
+  private tokens = new Map<string, RegistryToken>();
+
+  constructor(readonly network: string, curatedTokens: RegistryToken[] = curatedTokensFor(network)) {
+    for (const token of curatedTokens) {
+      this.tokens.set(token.id, { ...token });
+    }
+  }
+
+  /**
+   * Add a discovered token; curated entries are never overridden, only completed
+   */
+  add(token: Omit<RegistryToken, 'verified' | 'source'>, source: Exclude<TokenSource, 'curated'>): RegistryToken {
+    const existing = this.tokens.get(token.id);
+    if (existing) {
+      if (existing.decimals === undefined && token.decimals !== undefined) {
+        existing.decimals = token.decimals;
+      }
+      return existing;
+    }
+
+    const added: RegistryToken = { ...token, verified: false, source };
+    this.tokens.set(added.id, added);
+    return added;
+  }
+
+  /**
+   * Add both tokens of every discovered pool
+   */
+  addFromPools(pools: { tokenA: { id: string; symbol: string; name?: string; decimals?: number }; tokenB: { id: string; symbol: string; name?: string; decimals?: number } }[]): void {
+    for (const pool of pools) {
+      for (const token of [pool.tokenA, pool.tokenB]) {
+        this.add({ id: token.id, symbol: token.symbol, name: token.name || token.symbol, decimals: token.decimals }, 'pool');
+      }
+    }
+  }
+
+  /**
+   * Find a token by symbol (case-insensitive), token ID or EVM address
+   * A symbol shared by several tokens resolves to its only verified token; otherwise it is ambiguous
+   */
+  lookup(query: string): TokenLookup {
+    const trimmed = query.trim();
+
+    if (TOKEN_ID_PATTERN.test(trimmed) || EVM_ADDRESS_PATTERN.test(trimmed)) {
+      const id = TOKEN_ID_PATTERN.test(trimmed) ? trimmed : evmAddressToHederaId(trimmed);
+      const token = id ? this.tokens.get(id) : undefined;
+      return token ? { status: 'found', token } : { status: 'not_found', query: trimmed, suggestions: [] };
+    }
+
+    const symbol = normalizeSymbol(trimmed);
+    const candidates = this.list().filter((token) => normalizeSymbol(token.symbol) === symbol);
+    const verified = candidates.filter((token) => token.verified);
+
+    if (verified.length === 1) {
+      return { status: 'found', token: verified[0] };
+    }
+    if (verified.length === 0 && candidates.length === 1) {
+      return { status: 'found', token: candidates[0] };
+    }
+    if (candidates.length > 1) {
+      return { status: 'ambiguous', query: trimmed, candidates: verified.length > 1 ? verified : candidates };
+    }
+
+    return {
+      status: 'not_found',
+      query: trimmed,
+      suggestions: this.list().filter((token) => baseSymbol(token.symbol) === baseSymbol(symbol)),
+    };
+  }
+
+  /**
+   * Resolve a token for trading, fetching unknown token IDs and EVM addresses from the Mirror Node
+   * Throws with the candidates to choose from when the token is unknown or ambiguous
+   */
+  async resolve(query: string, mirrorNodeUrl: string): Promise<RegistryToken> {
+    const lookup = this.lookup(query);
+
+    if (lookup.status === 'found') {
+      return lookup.token;
+    }
+
+    if (lookup.status === 'ambiguous') {
+      throw new Error(
+        `"${lookup.query}" matches several tokens on ${this.network}: ${lookup.candidates.map(describeToken).join(', ')}. ` +
+        `Repeat the request with the token ID you mean.`
+      );
+    }
+
+    const trimmed = query.trim();
+    const id = TOKEN_ID_PATTERN.test(trimmed) ? trimmed : EVM_ADDRESS_PATTERN.test(trimmed) ? evmAddressToHederaId(trimmed) : null;
+    if (id) {
+      return this.add(await fetchTokenMetadata(mirrorNodeUrl, id), 'mirror');
+    }
+
+    throw new Error(
+      `Unknown token "${lookup.query}" on ${this.network}.` +
+      (lookup.suggestions.length > 0 ? ` Did you mean ${lookup.suggestions.map(describeToken).join(' or ')}?` : '') +
+      ` Use one of ${this.list().filter((token) => token.verified).map((token) => token.symbol).join(', ')} or a token ID.`
+    );
+  }
+
+  /**
+   * Whether a token ID is a verified registry entry
+   */
+  isVerified(id: string): boolean {
+    return this.tokens.get(id)?.verified ?? false;
+  }
+
+  list(): RegistryToken[] {
+    return [...this.tokens.values()];
+  }
+}
+
+/**
+ * Read a token's symbol, name and decimals from the Mirror Node
+ */
+export async function fetchTokenMetadata(
+  mirrorNodeUrl: string,
+  tokenId: string
+): Promise<Omit<RegistryToken, 'verified' | 'source'>> {
+  try {
+    const response = await axios.get(`${mirrorNodeUrl}/api/v1/tokens/${tokenId}`);
+    const token = response.data;
+
+    return {
+      id: tokenId,
+      symbol: token.symbol || tokenId,
+      name: token.name || token.symbol || tokenId,
+      decimals: token.decimals !== undefined && token.decimals !== null ? Number(token.decimals) : undefined,
+    };
+  } catch (error) {
+    throw new Error(`Token ${tokenId} not found on the Mirror Node: ${getMirrorNodeErrorMessage(error)}`);
+  }
+}
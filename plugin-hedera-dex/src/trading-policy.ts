@@ -0,0 +1,245 @@
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { type TokenAmount, parseTokenAmount, formatTokenAmount } from './token-amount';
+import { formatBps } from './quoter';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ruleSchema = z.object({
+  // Largest amount of a token (by symbol, in token units) that may be bought or sold in one trade
+  maxTradeAmount: z.record(z.string().regex(/^\d+(\.\d+)?$/)).optional(),
+  maxTradeUsd: z.number().positive().optional(),
+  dailyVolumeUsdPerUser: z.number().positive().optional(),
+  dailyVolumeUsdGlobal: z.number().positive().optional(),
+  allowedTokens: z.array(z.string()).optional(),
+  deniedTokens: z.array(z.string()).optional(),
+  maxPriceImpactBps: z.number().int().nonnegative().optional(),
+});
+
+const policySchema = ruleSchema.extend({
+  // Extra restrictions applied on top of the base rules on mainnet only
+  mainnet: ruleSchema.optional(),
+});
+
+export type TradingPolicyRules = z.infer<typeof ruleSchema>;
+export type TradingPolicy = z.infer<typeof policySchema>;
+
+/**
+ * A trade as seen by the policy engine
+ */
+export interface TradeContext {
+  entityId: string;
+  fromToken: string;
+  toToken: string;
+  amountIn: TokenAmount;
+  amountOut: TokenAmount;
+  valueUsd?: number; // Undefined when the trade could not be valued
+  priceImpactBps?: number; // Undefined when the price impact could not be estimated
+}
+
+export type PolicyDecision =
+  | { allowed: true }
+  | { allowed: false; rule: string; reason: string };
+
+/**
+ * Parse and validate a trading policy from a JSON string or an already parsed object
+ */
+export function parseTradingPolicy(source: unknown): TradingPolicy {
+  const raw = typeof source === 'string' ? JSON.parse(source) : source;
+  const result = policySchema.safeParse(raw);
+
+  if (!result.success) {
+    throw new Error(`Invalid trading policy: ${result.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Load a trading policy from inline settings or a JSON file, in that order
+ * Returns null when no policy is configured
+ */
+export function loadTradingPolicy(inline?: unknown, filePath?: string): TradingPolicy | null {
+  if (inline !== undefined && inline !== null && inline !== '') {
+    return parseTradingPolicy(inline);
+  }
+
+  if (filePath) {
+    try {
+      return parseTradingPolicy(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Could not load trading policy from ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return null;
+}
+
+const minDefined = (a?: number, b?: number) => (a === undefined ? b : b === undefined ? a : Math.min(a, b));
+
+/**
+ * Combine the base rules with the mainnet restrictions when trading on mainnet
+ * The stricter value of every rule wins
+ */
+export function resolvePolicyRules(policy: TradingPolicy, network: string): TradingPolicyRules {
+  const { mainnet, ...base } = policy;
+  if (network !== 'mainnet' || !mainnet) {
+    return base;
+  }
+
+  const maxTradeAmount = { ...(base.maxTradeAmount || {}) };
+  for (const [token, limit] of Object.entries(mainnet.maxTradeAmount || {})) {
+    const existing = maxTradeAmount[token];
+    maxTradeAmount[token] = existing === undefined || Number(limit) < Number(existing) ? limit : existing;
+  }
+
+  const allowedTokens = base.allowedTokens && mainnet.allowedTokens
+    ? base.allowedTokens.filter((token) => mainnet.allowedTokens!.map(normalizeSymbol).includes(normalizeSymbol(token)))
+    : base.allowedTokens || mainnet.allowedTokens;
+
+  return {
+    maxTradeAmount,
+    maxTradeUsd: minDefined(base.maxTradeUsd, mainnet.maxTradeUsd),
+    dailyVolumeUsdPerUser: minDefined(base.dailyVolumeUsdPerUser, mainnet.dailyVolumeUsdPerUser),
+    dailyVolumeUsdGlobal: minDefined(base.dailyVolumeUsdGlobal, mainnet.dailyVolumeUsdGlobal),
+    allowedTokens,
+    deniedTokens: [...(base.deniedTokens || []), ...(mainnet.deniedTokens || [])],
+    maxPriceImpactBps: minDefined(base.maxPriceImpactBps, mainnet.maxPriceImpactBps),
+  };
+}
+
+/**
+ * Whether the rules need the trade's USD value to be evaluated
+ */
+export function requiresUsdValue(rules: TradingPolicyRules): boolean {
+  return rules.maxTradeUsd !== undefined ||
+    rules.dailyVolumeUsdPerUser !== undefined ||
+    rules.dailyVolumeUsdGlobal !== undefined;
+}
+
+function normalizeSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase();
+}
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+/**
+ * Rolling 24 hour USD volume per user and across all users
+ */
+export class DailyVolumeTracker {
+  private trades: { entityId: string; valueUsd: number; at: number }[] = [];
+
+  record(entityId: string, valueUsd: number, at: number = Date.now()): void {
+    this.trades.push({ entityId, valueUsd, at });
+  }
+
+  /**
+   * USD volume in the last 24 hours, for one user or for everyone when entityId is omitted
+   */
+  volume(entityId?: string, now: number = Date.now()): number {
+    this.trades = this.trades.filter((trade) => trade.at > now - DAY_MS);
+    return this.trades
+      .filter((trade) => entityId === undefined || trade.entityId === entityId)
+      .reduce((total, trade) => total + trade.valueUsd, 0);
+  }
+
+  clear(): void {
+    this.trades = [];
+  }
+}
+
+/**
+ * Check a trade against the rules, returning the first rule it breaks
+ */
+export function evaluateTradingPolicy(
+  rules: TradingPolicyRules,
+  trade: TradeContext,
+  volumes: DailyVolumeTracker
+): PolicyDecision {
+  const tokens = [normalizeSymbol(trade.fromToken), normalizeSymbol(trade.toToken)];
+
+  const denied = (rules.deniedTokens || []).map(normalizeSymbol);
+  const deniedToken = tokens.find((token) => denied.includes(token));
+  if (deniedToken) {
+    return { allowed: false, rule: 'deniedTokens', reason: `${deniedToken} is on the token deny list` };
+  }
+
+  if (rules.allowedTokens) {
+    const allowed = rules.allowedTokens.map(normalizeSymbol);
+    const notAllowed = tokens.find((token) => !allowed.includes(token));
+    if (notAllowed) {
+      return {
+        allowed: false,
+        rule: 'allowedTokens',
+        reason: `${notAllowed} is not on the token allow list (${allowed.join(', ')})`,
+      };
+    }
+  }
+
+  const maxTradeAmount = Object.fromEntries(
+    Object.entries(rules.maxTradeAmount || {}).map(([token, limit]) => [normalizeSymbol(token), limit])
+  );
+  const sides: [string, TokenAmount][] = [[tokens[0], trade.amountIn], [tokens[1], trade.amountOut]];
+  for (const [token, amount] of sides) {
+    const limit = maxTradeAmount[token];
+    if (limit !== undefined && amount.raw > parseTokenAmount(limit, amount.decimals).raw) {
+      return {
+        allowed: false,
+        rule: 'maxTradeAmount',
+        reason: `trade of ${formatTokenAmount(amount)} ${token} exceeds the ${limit} ${token} limit per trade`,
+      };
+    }
+  }
+
+  if (requiresUsdValue(rules)) {
+    if (trade.valueUsd === undefined) {
+      return { allowed: false, rule: 'maxTradeUsd', reason: 'the trade could not be valued in USD to check the USD limits' };
+    }
+
+    if (rules.maxTradeUsd !== undefined && trade.valueUsd > rules.maxTradeUsd) {
+      return {
+        allowed: false,
+        rule: 'maxTradeUsd',
+        reason: `trade value of ${formatUsd(trade.valueUsd)} exceeds the ${formatUsd(rules.maxTradeUsd)} limit per trade`,
+      };
+    }
+
+    if (rules.dailyVolumeUsdPerUser !== undefined) {
+      const used = volumes.volume(trade.entityId);
+      if (used + trade.valueUsd > rules.dailyVolumeUsdPerUser) {
+        return {
+          allowed: false,
+          rule: 'dailyVolumeUsdPerUser',
+          reason: `your 24h volume would reach ${formatUsd(used + trade.valueUsd)}, above the ${formatUsd(rules.dailyVolumeUsdPerUser)} daily limit per user (${formatUsd(used)} used)`,
+        };
+      }
+    }
+
+    if (rules.dailyVolumeUsdGlobal !== undefined) {
+      const used = volumes.volume();
+      if (used + trade.valueUsd > rules.dailyVolumeUsdGlobal) {
+        return {
+          allowed: false,
+          rule: 'dailyVolumeUsdGlobal',
+          reason: `the agent's 24h volume would reach ${formatUsd(used + trade.valueUsd)}, above the ${formatUsd(rules.dailyVolumeUsdGlobal)} global daily limit`,
+        };
+      }
+    }
+  }
+
+  if (rules.maxPriceImpactBps !== undefined) {
+    if (trade.priceImpactBps === undefined) {
+      return { allowed: false, rule: 'maxPriceImpactBps', reason: 'the price impact could not be estimated' };
+    }
+
+    if (trade.priceImpactBps > rules.maxPriceImpactBps) {
+      return {
+        allowed: false,
+        rule: 'maxPriceImpactBps',
+        reason: `price impact of ${formatBps(trade.priceImpactBps)} exceeds the ${formatBps(rules.maxPriceImpactBps)} maximum`,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
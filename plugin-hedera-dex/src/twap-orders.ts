@@ -0,0 +1,195 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { MemoryTableStore, shortEntryId, type StoredEntry } from './memory-store';
+import { formatPrice, formatTokenAmount, parseTokenAmount, tokenAmountFromRaw } from './token-amount';
+
+// Memory table holding TWAP orders in the agent's database (plugin-sql)
+export const TWAP_ORDERS_TABLE = 'hedera_twap_orders';
+
+// How often the scheduler looks for slices that are due
+export const TWAP_CHECK_INTERVAL_SECONDS = 15;
+
+export const DEFAULT_TWAP_SLICES = 10;
+export const MAX_TWAP_SLICES = 100;
+
+// Shortest time between two slices, and the longest window an order may be spread over
+export const MIN_TWAP_SLICE_INTERVAL_MS = 60 * 1000;
+export const MAX_TWAP_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// How far a slice's quoted price may move from the price quoted when the order was placed
+export const DEFAULT_TWAP_PRICE_BAND_BPS = 500;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export type TwapStatus = 'active' | 'completed' | 'aborted' | 'cancelled';
+
+/**
+ * A large exact-input swap split into equal slices spread evenly over a window
+ * Totals are in smallest units and only count slices whose outcome is known
+ */
+export interface TwapOrderEntry {
+  entityId: string; // Who placed the order
+  roomId: string; // Where its result is reported
+  source?: string; // Client the order was placed from
+  network: string;
+  fromToken: string; // Registry symbol
+  fromTokenId: string; // Registry ID (HBAR for native HBAR)
+  toToken: string;
+  toTokenId: string;
+  fromTokenDecimals: number;
+  toTokenDecimals: number;
+  amount: string; // Total fromToken to sell, in token units
+  slices: number;
+  intervalMs: number; // Time between two slices
+  priceBandBps: number;
+  slippageBps: number;
+  quotedAmountOut: string; // What a single swap of the whole amount was quoted when the order was placed
+  referencePrice: string; // toToken per fromToken quoted for one slice when the order was placed
+  status: TwapStatus;
+  slicesDone: number;
+  nextSliceAt: number;
+  totalSpent: string; // Smallest units of fromToken
+  totalReceived: string; // Smallest units of toToken
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * An order with the ID of the memory it is stored in
+ */
+export type StoredTwapOrder = StoredEntry<TwapOrderEntry>;
+
+/**
+ * Short ID users refer to an order by
+ */
+export const shortTwapId = shortEntryId;
+
+/**
+ * Format a duration in its largest whole unit ("2 hours", "90 minutes")
+ */
+export function formatDuration(durationMs: number): string {
+  const units: [number, string][] = [[DAY_MS, 'day'], [HOUR_MS, 'hour'], [MINUTE_MS, 'minute']];
+  const [size, name] = units.find(([unitMs]) => durationMs % unitMs === 0) ?? [MINUTE_MS, 'minute'];
+  const count = Math.round(durationMs / size);
+  return `${count} ${name}${count === 1 ? '' : 's'}`;
+}
+
+export function describeTwapOrder(order: TwapOrderEntry): string {
+  return `Swap ${order.amount} ${order.fromToken} for ${order.toToken} in ${order.slices} slices over ${formatDuration(order.slices * order.intervalMs)}`;
+}
+
+/**
+ * Parse the window of a TWAP order ("over 2 hours", "over the next 3 days"); null when there is none
+ */
+export function parseTwapWindow(text: string): number | null {
+  const match = text.match(/\bover\s+(?:the\s+next\s+)?(\d+(?:\.\d+)?)\s*(minutes?|mins?|hours?|h|days?|d)\b/i);
+  if (!match) {
+    return null;
+  }
+
+  const unit = match[2].toLowerCase();
+  const unitMs = unit.startsWith('m') ? MINUTE_MS : unit.startsWith('h') ? HOUR_MS : DAY_MS;
+  return Math.round(Number(match[1]) * unitMs);
+}
+
+/**
+ * Parse the number of slices ("in 8 slices", "as 12 swaps"); null when not given
+ */
+export function parseTwapSlices(text: string): number | null {
+  const match = text.match(/\b(?:in|into|as)\s+(\d+)\s+(?:slices|parts|chunks|swaps|trades)\b/i);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Parse a price band ("5% band", "band of 2%", "abort if the price moves more than 3%") in basis points
+ */
+export function extractPriceBandFromText(text: string): number | null {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*%\s*(?:price\s+)?band\b/i) ||
+               text.match(/\bband\s+(?:of\s+)?(\d+(?:\.\d+)?)\s*%/i) ||
+               text.match(/\b(?:moves|deviates|changes)\s+(?:more\s+than\s+|over\s+|by\s+)?(\d+(?:\.\d+)?)\s*%/i);
+  return match ? Math.round(parseFloat(match[1]) * 100) : null;
+}
+
+/**
+ * Split a window into slices: the requested count, or DEFAULT_TWAP_SLICES, no closer together than
+ * MIN_TWAP_SLICE_INTERVAL_MS; throws when the window or count is out of range
+ */
+export function planTwapSlices(windowMs: number, requestedSlices: number | null): { slices: number; intervalMs: number } {
+  if (windowMs > MAX_TWAP_WINDOW_MS) {
+    throw new Error(`TWAP orders can be spread over at most ${formatDuration(MAX_TWAP_WINDOW_MS)}`);
+  }
+
+  const maxSlices = Math.min(MAX_TWAP_SLICES, Math.floor(windowMs / MIN_TWAP_SLICE_INTERVAL_MS));
+  if (requestedSlices !== null && (requestedSlices < 2 || requestedSlices > maxSlices)) {
+    throw new Error(`A ${formatDuration(windowMs)} window can be split into 2 to ${maxSlices} slices, at least a minute apart`);
+  }
+
+  const slices = requestedSlices ?? Math.min(DEFAULT_TWAP_SLICES, maxSlices);
+  if (slices < 2) {
+    throw new Error('TWAP orders need a window of at least 2 minutes');
+  }
+  return { slices, intervalMs: Math.floor(windowMs / slices) };
+}
+
+/**
+ * Size of a slice in smallest units; the last slice also sells what the division left over
+ */
+export function sliceAmountRaw(totalRaw: bigint, slices: number, index: number): bigint {
+  const size = totalRaw / BigInt(slices);
+  return index === slices - 1 ? totalRaw - size * BigInt(slices - 1) : size;
+}
+
+/**
+ * How far a price moved from a reference, in basis points either way
+ */
+export function priceDeviationBps(price: bigint, reference: bigint): number {
+  const difference = price > reference ? price - reference : reference - price;
+  return Number(difference * 10_000n / reference);
+}
+
+/**
+ * What an order sold so far, its average price and how that compares to the single-swap quote
+ * it was placed with; null before its first slice
+ */
+export function describeTwapResult(order: TwapOrderEntry): string | null {
+  const spent = tokenAmountFromRaw(order.totalSpent, order.fromTokenDecimals);
+  const received = tokenAmountFromRaw(order.totalReceived, order.toTokenDecimals);
+  if (order.slicesDone === 0 || spent.raw === 0n) {
+    return null;
+  }
+
+  // Both prices are in smallest units of toToken per whole fromToken
+  const scale = 10n ** BigInt(order.fromTokenDecimals);
+  const averagePrice = received.raw * scale / spent.raw;
+  const quotedPrice = parseTokenAmount(order.quotedAmountOut, order.toTokenDecimals).raw * scale /
+    parseTokenAmount(order.amount, order.fromTokenDecimals).raw;
+
+  let text = `Sold ${formatTokenAmount(spent)} ${order.fromToken} for ${formatTokenAmount(received)} ${order.toToken} in ${order.slicesDone} of ${order.slices} slices ` +
+    `at an average price of ${formatPrice(received, spent)} ${order.toToken} per ${order.fromToken}`;
+  if (quotedPrice > 0n) {
+    const differenceBps = Number((averagePrice - quotedPrice) * 10_000n / quotedPrice);
+    text += `, ${(Math.abs(differenceBps) / 100).toFixed(2)}% ${differenceBps >= 0 ? 'better' : 'worse'} than the single-swap quote of ` +
+      `${order.quotedAmountOut} ${order.toToken} for ${order.amount} ${order.fromToken}`;
+  }
+  return text;
+}
+
+/**
+ * TWAP orders stored as memories in the agent's database
+ */
+export class TwapOrderStore extends MemoryTableStore<TwapOrderEntry> {
+  constructor(runtime: IAgentRuntime) {
+    super(runtime, TWAP_ORDERS_TABLE, 'twapOrder', describeTwapOrder, 'TWAP order');
+  }
+
+  /**
+   * Every user's active orders on a network with a slice due, the longest overdue first
+   */
+  async due(network: string, now: number = Date.now()): Promise<StoredTwapOrder[]> {
+    return (await this.onNetwork(network))
+      .filter((order) => order.status === 'active' && order.nextSliceAt <= now)
+      .sort((a, b) => a.nextSliceAt - b.nextSliceAt);
+  }
+}
@@ -0,0 +1,129 @@
+import { AccountId, type Client, ReceiptStatusError, Transaction, TransactionId } from '@hashgraph/sdk';
+
+// Longest validity the network accepts; the user has this long to sign and submit
+export const SIGNING_VALID_DURATION_SECONDS = 180;
+
+export type SigningMode = 'agent' | 'user';
+
+export type UnsignedTransactionKind = 'tokenAssociation' | 'tokenAllowance' | 'swap';
+
+/**
+ * A frozen transaction returned to the user for signing
+ */
+export interface UnsignedTransaction {
+  kind: UnsignedTransactionKind;
+  description: string;
+  transactionId: string;
+  nodeAccountId: string;
+  bytes: string; // Base64 of the serialized transaction
+}
+
+/**
+ * Parse HEDERA_SIGNING_MODE: the agent signs with its operator key, or the user signs the returned bytes
+ */
+export function parseSigningMode(value: unknown): SigningMode {
+  if (value === undefined || value === null || value === '') {
+    return 'agent';
+  }
+
+  const normalized = String(value).trim().toLowerCase();
+  if (normalized === 'agent' || normalized === 'custodial') {
+    return 'agent';
+  }
+  if (normalized === 'user' || normalized === 'non-custodial') {
+    return 'user';
+  }
+  throw new Error(`Invalid HEDERA_SIGNING_MODE: ${value} (expected agent or user)`);
+}
+
+/**
+ * Pick the consensus node a transaction for external signing is frozen for
+ * A signed transaction can only be submitted to the node it names, so one node keeps the payload small
+ */
+export function selectSigningNode(client: Client): AccountId {
+  const nodes = Object.values(client.network)
+    .map((node) => (node instanceof AccountId ? node : AccountId.fromString(String(node))))
+    .sort((a, b) => a.compare(b));
+  if (nodes.length === 0) {
+    throw new Error('The network has no consensus nodes to submit transactions to');
+  }
+  return nodes[0];
+}
+
+/**
+ * Freeze a transaction paid by the user's account so it can be signed outside the agent
+ */
+export function freezeForSigning<T extends Transaction>(
+  transaction: T,
+  payerAccountId: string,
+  nodeAccountId: AccountId,
+  client: Client
+): T {
+  return transaction
+    .setTransactionId(TransactionId.generate(payerAccountId))
+    .setNodeAccountIds([nodeAccountId])
+    .setTransactionValidDuration(SIGNING_VALID_DURATION_SECONDS)
+    .freezeWith(client);
+}
+
+export function serializeTransaction(transaction: Transaction): string {
+  return Buffer.from(transaction.toBytes()).toString('base64');
+}
+
+/**
+ * Hex of the body the user signs; signatures do not change it, edits to the transaction do
+ */
+export function getSignableBody(transaction: Transaction): string {
+  const bodies = transaction.signableNodeBodyBytesList;
+  if (bodies.length !== 1) {
+    throw new Error(`Expected a transaction for a single node, got ${bodies.length}`);
+  }
+  return Buffer.from(bodies[0].signableTransactionBodyBytes).toString('hex');
+}
+
+/**
+ * Decode signed transaction bytes, sent as base64 or hex (0x-prefixed)
+ */
+export function decodeSignedTransaction(encoded: string): Transaction {
+  const text = encoded.trim();
+  const bytes = /^0x[0-9a-f]+$/i.test(text)
+    ? Buffer.from(text.slice(2), 'hex')
+    : Buffer.from(text, 'base64');
+
+  let transaction: Transaction;
+  try {
+    transaction = Transaction.fromBytes(bytes);
+  } catch (error) {
+    throw new Error(`Invalid transaction bytes: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!transaction.transactionId) {
+    throw new Error('Invalid transaction bytes: the transaction has no transaction ID');
+  }
+  if (transaction.getSignatures().getFlatSignatureList().every((signatures) => signatures.size === 0)) {
+    throw new Error(`Transaction ${transaction.transactionId.toString()} is not signed`);
+  }
+  return transaction;
+}
+
+/**
+ * Submit a transaction the user signed and wait for its receipt
+ * The receipt query is free, so the client needs no operator
+ */
+export async function submitSignedTransaction(
+  client: Client,
+  transaction: Transaction
+): Promise<{ transactionId: string; status: string }> {
+  const response = await transaction.execute(client);
+  const transactionId = response.transactionId.toString();
+
+  try {
+    const receipt = await response.getReceipt(client);
+    return { transactionId, status: receipt.status.toString() };
+  } catch (error) {
+    if (error instanceof ReceiptStatusError) {
+      return { transactionId, status: error.status.toString() };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,223 @@
+import axios from 'axios';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { type IAgentRuntime, logger } from '@elizaos/core';
+import { AccountCreateTransaction, type Client, Hbar, PrivateKey, ReceiptStatusError, TransferTransaction } from '@hashgraph/sdk';
+import { getMirrorNodeErrorMessage } from './mirror-node';
+import { MemoryTableStore, type MemoryTableEntry, type StoredEntry } from './memory-store';
+
+// Memory table holding the per-user accounts in the agent's database (plugin-sql)
+export const USER_ACCOUNTS_TABLE = 'hedera_user_accounts';
+
+// Memory table holding the treasury's top-ups of user accounts
+export const USER_TOP_UPS_TABLE = 'hedera_user_top_ups';
+
+// User accounts receive any token without an association transaction (HIP-904)
+export const USER_ACCOUNT_MAX_AUTO_ASSOCIATIONS = -1;
+
+export const MIN_ENCRYPTION_SECRET_LENGTH = 16;
+
+export type AccountMode = 'shared' | 'per-user';
+
+/**
+ * Parse HEDERA_ACCOUNT_MODE: everyone trades from HEDERA_ACCOUNT_ID, or each user from their own account
+ */
+export function parseAccountMode(value: unknown): AccountMode {
+  if (value === undefined || value === null || value === '') {
+    return 'shared';
+  }
+
+  const normalized = String(value).trim().toLowerCase();
+  if (normalized === 'shared') {
+    return 'shared';
+  }
+  if (normalized === 'per-user' || normalized === 'custodial') {
+    return 'per-user';
+  }
+  throw new Error(`Invalid HEDERA_ACCOUNT_MODE: ${value} (expected shared or per-user)`);
+}
+
+/**
+ * An account the agent created and holds the key of for one user
+ */
+export interface UserAccountEntry extends MemoryTableEntry {
+  accountId: string;
+  encryptedKey: string; // See encryptPrivateKey
+}
+
+export type StoredUserAccount = StoredEntry<UserAccountEntry>;
+
+/**
+ * Encrypt a private key with AES-256-GCM under a key derived from the secret (scrypt, random salt)
+ * Returns v1:salt:iv:authTag:ciphertext, each part base64
+ */
+export function encryptPrivateKey(key: PrivateKey, secret: string): string {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', scryptSync(secret, salt, 32), iv);
+  const ciphertext = Buffer.concat([cipher.update(key.toStringDer(), 'utf8'), cipher.final()]);
+
+  return ['v1', ...[salt, iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64'))].join(':');
+}
+
+/**
+ * Decrypt a key stored by encryptPrivateKey; a wrong secret fails authentication
+ */
+export function decryptPrivateKey(payload: string, secret: string): PrivateKey {
+  const [version, ...parts] = payload.split(':');
+  if (version !== 'v1' || parts.length !== 4) {
+    throw new Error('Unsupported encrypted key format');
+  }
+
+  const [salt, iv, tag, ciphertext] = parts.map((part) => Buffer.from(part, 'base64'));
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', scryptSync(secret, salt, 32), iv);
+    decipher.setAuthTag(tag);
+    const der = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    return PrivateKey.fromStringDer(der);
+  } catch {
+    throw new Error('Could not decrypt the account key. Check HEDERA_ACCOUNT_ENCRYPTION_KEY');
+  }
+}
+
+function describeUserAccount(entry: UserAccountEntry): string {
+  return `Hedera account ${entry.accountId} on ${entry.network}`;
+}
+
+/**
+ * Per-user accounts stored as memories in the agent's database
+ */
+export class UserAccountStore extends MemoryTableStore<UserAccountEntry> {
+  constructor(runtime: IAgentRuntime) {
+    super(runtime, USER_ACCOUNTS_TABLE, 'userAccount', describeUserAccount, 'Account');
+  }
+
+  /**
+   * The user's account on a network, or null when none was created yet
+   */
+  async forUser(entityId: string, network: string): Promise<StoredUserAccount | null> {
+    return (await this.list(entityId)).find((account) => account.network === network) ?? null;
+  }
+}
+
+export type TopUpStatus = 'pending' | 'success' | 'failed';
+
+/**
+ * HBAR the treasury sends to a user's account, stored as pending before it is sent
+ */
+export interface TopUpEntry extends MemoryTableEntry {
+  amountTinybars: string;
+  status: TopUpStatus;
+  transactionId?: string;
+  failureReason?: string;
+}
+
+export type StoredTopUp = StoredEntry<TopUpEntry>;
+
+function describeTopUp(entry: TopUpEntry): string {
+  return `${entry.status} top-up of ${Hbar.fromTinybars(entry.amountTinybars).toString()} on ${entry.network}`;
+}
+
+/**
+ * Treasury top-ups stored as memories in the agent's database
+ */
+export class UserTopUpStore extends MemoryTableStore<TopUpEntry> {
+  constructor(runtime: IAgentRuntime) {
+    super(runtime, USER_TOP_UPS_TABLE, 'topUp', describeTopUp, 'Top-up');
+  }
+
+  /**
+   * Tinybars sent to a user on a network since a time (inclusive, ms since epoch)
+   * Pending top-ups count, since they may still go through
+   */
+  async received(entityId: string, network: string, since: number): Promise<bigint> {
+    return (await this.list(entityId))
+      .filter((topUp) => topUp.network === network && topUp.status !== 'failed' && topUp.createdAt >= since)
+      .reduce((total, topUp) => total + BigInt(topUp.amountTinybars), 0n);
+  }
+}
+
+/**
+ * Create an empty account with a new ECDSA key, paid for by the client operator (the treasury)
+ * It is funded separately, once its key is stored
+ */
+export async function createUserAccount(
+  client: Client
+): Promise<{ accountId: string; privateKey: PrivateKey; transactionId: string }> {
+  const privateKey = PrivateKey.generateECDSA();
+
+  const response = await new AccountCreateTransaction()
+    .setKeyWithoutAlias(privateKey.publicKey)
+    .setMaxAutomaticTokenAssociations(USER_ACCOUNT_MAX_AUTO_ASSOCIATIONS)
+    .execute(client);
+
+  const receipt = await response.getReceipt(client);
+  if (receipt.status.toString() !== 'SUCCESS' || !receipt.accountId) {
+    throw new Error(`Account creation failed with status: ${receipt.status.toString()}`);
+  }
+
+  logger.info(`Created account ${receipt.accountId.toString()}`);
+  return { accountId: receipt.accountId.toString(), privateKey, transactionId: response.transactionId.toString() };
+}
+
+/**
+ * Transfer HBAR (tokenId undefined) or an HTS token between accounts; the client operator signs for the sender
+ * Returns the transaction ID and the fee paid in tinybars
+ */
+export async function transferFunds(
+  client: Client,
+  fromAccountId: string,
+  toAccountId: string,
+  amount: bigint,
+  tokenId?: string,
+  onSubmitted?: (transactionId: string) => Promise<void>
+): Promise<{ transactionId: string; feeTinybars: bigint }> {
+  logger.info(`Transferring ${amount} of ${tokenId ?? 'HBAR'} from ${fromAccountId} to ${toAccountId}`);
+
+  const transaction = new TransferTransaction();
+  if (tokenId) {
+    transaction
+      .addTokenTransfer(tokenId, fromAccountId, -amount)
+      .addTokenTransfer(tokenId, toAccountId, amount);
+  } else {
+    transaction
+      .addHbarTransfer(fromAccountId, Hbar.fromTinybars((-amount).toString()))
+      .addHbarTransfer(toAccountId, Hbar.fromTinybars(amount.toString()));
+  }
+
+  const response = await transaction.execute(client);
+  if (onSubmitted) {
+    await onSubmitted(response.transactionId.toString());
+  }
+
+  const receipt = await response.getReceipt(client);
+  if (receipt.status.toString() !== 'SUCCESS') {
+    throw new ReceiptStatusError({ status: receipt.status, transactionId: response.transactionId, transactionReceipt: receipt });
+  }
+
+  const record = await response.getRecord(client);
+
+  return {
+    transactionId: response.transactionId.toString(),
+    feeTinybars: BigInt(record.transactionFee.toTinybars().toString()),
+  };
+}
+
+/**
+ * HBAR and token balances of an account (smallest units), as seen by the Mirror Node
+ */
+export async function fetchAccountBalances(
+  mirrorNodeUrl: string,
+  accountId: string
+): Promise<{ hbarTinybars: bigint; tokens: { tokenId: string; balance: bigint }[] }> {
+  try {
+    const response = await axios.get(`${mirrorNodeUrl}/api/v1/accounts/${accountId}`);
+    const balance = response.data.balance || {};
+
+    return {
+      hbarTinybars: BigInt(balance.balance ?? 0),
+      tokens: (balance.tokens || []).map((token: any) => ({ tokenId: token.token_id, balance: BigInt(token.balance ?? 0) })),
+    };
+  } catch (error) {
+    throw new Error(`Could not fetch the balance of ${accountId}: ${getMirrorNodeErrorMessage(error)}`);
+  }
+}
@@ -0,0 +1,51 @@
+import { ethers } from 'ethers';
+import { logger } from '@elizaos/core';
+import { type Client, ContractExecuteTransaction, Hbar } from '@hashgraph/sdk';
+import { SAUCERSWAP_WHBAR_ABI, hexToUint8Array } from './saucerswap-abi';
+
+const whbarInterface = new ethers.Interface(SAUCERSWAP_WHBAR_ABI);
+
+// Gas limit for WHBAR deposit/withdraw calls (they mint or burn through the HTS precompile)
+const WHBAR_GAS_LIMIT = 100000;
+
+export type WhbarConversion = 'wrap' | 'unwrap';
+
+/**
+ * Wrap HBAR into WHBAR or unwrap WHBAR back to HBAR, 1:1 in tinybars
+ * Unwrapping requires the WHBAR contract to hold an allowance on the WHBAR token
+ * Returns the transaction ID and the fee paid in tinybars
+ */
+export async function convertWhbar(
+  client: Client,
+  whbarContractId: string,
+  conversion: WhbarConversion,
+  amountTinybars: bigint
+): Promise<{ transactionId: string; feeTinybars: bigint }> {
+  logger.info(`${conversion === 'wrap' ? 'Wrapping' : 'Unwrapping'} ${amountTinybars} tinybars via ${whbarContractId}`);
+
+  const encoded = conversion === 'wrap'
+    ? whbarInterface.encodeFunctionData('deposit')
+    : whbarInterface.encodeFunctionData('withdraw', [amountTinybars]);
+
+  const transaction = new ContractExecuteTransaction()
+    .setContractId(whbarContractId)
+    .setGas(WHBAR_GAS_LIMIT)
+    .setFunctionParameters(hexToUint8Array(encoded));
+
+  if (conversion === 'wrap') {
+    transaction.setPayableAmount(Hbar.fromTinybars(amountTinybars.toString()));
+  }
+
+  const response = await transaction.execute(client);
+  const receipt = await response.getReceipt(client);
+  if (receipt.status.toString() !== 'SUCCESS') {
+    throw new Error(`WHBAR ${conversion} failed with status: ${receipt.status.toString()}`);
+  }
+
+  const record = await response.getRecord(client);
+
+  return {
+    transactionId: response.transactionId.toString(),
+    feeTinybars: BigInt(record.transactionFee.toTinybars().toString()),
+  };
+}
@@ -16,6 +16,7 @@ import {
 } from '@elizaos/core';
 import { z } from 'zod';
 import axios from 'axios';
+import { resolveNetworkProfile, type NetworkProfile } from '../plugin-hedera-dex/dist/index.js';
 
 // TypeScript interfaces for SaucerSwap API responses
 interface ApiToken {
@@ -52,7 +53,7 @@ interface ApiLiquidityPoolV2 {
  * Define the configuration schema for the Hedera DEX plugin with the following properties:
  *
  * @param {string} SAUCERSWAP_API_URL - The SaucerSwap API base URL (optional, defaults to mainnet)
- * @param {string} HEDERA_NETWORK - The Hedera network to use (mainnet, testnet, previewnet)
+ * @param {string} HEDERA_NETWORK - The Hedera network to use (mainnet, testnet, previewnet, local)
  * @returns {object} - The configured schema object
  */
 const configSchema = z.object({
@@ -62,7 +63,7 @@ const configSchema = z.object({
     .optional()
     .default('https://mainnet.mirrornode.hedera.com'),
   HEDERA_NETWORK: z
-    .enum(['mainnet', 'testnet', 'previewnet'])
+    .enum(['mainnet', 'testnet', 'previewnet', 'local', 'custom'])
     .optional()
     .default('mainnet')
     .transform((val) => {
@@ -78,33 +79,18 @@ const configSchema = z.object({
     .transform((val) => val === 'true'),
 });
 
-/**
- * Helper function to get the appropriate Hedera Mirror Node URL based on network
- */
-function getHederaMirrorNodeUrl(network: string, baseUrl?: string): string {
-  if (baseUrl && baseUrl !== 'https://mainnet.mirrornode.hedera.com') {
-    return baseUrl; // Use custom URL if provided
-  }
-
-  switch (network) {
-    case 'testnet':
-      return 'https://testnet.mirrornode.hedera.com';
-    case 'previewnet':
-      return 'https://previewnet.mirrornode.hedera.com';
-    case 'mainnet':
-    default:
-      return 'https://mainnet.mirrornode.hedera.com';
-  }
-}
+// Default of HEDERA_MIRROR_NODE_URL in the config schema; the network profile's URL is used instead
+const DEFAULT_MIRROR_NODE_URL = 'https://mainnet.mirrornode.hedera.com';
 
 /**
- * SaucerSwap V2 Factory contract addresses by network
+ * Resolve the network profile shared with plugin-hedera-dex, with overrides from settings
  */
-const SAUCERSWAP_V2_FACTORY_CONTRACTS = {
-  mainnet: '0.0.3946833',
-  testnet: '0.0.1197038',
-  previewnet: null, // Not deployed on previewnet
-};
+function getNetworkProfile(network: string, getSetting: (key: string) => unknown): NetworkProfile {
+  return resolveNetworkProfile(network, (key) => {
+    const value = getSetting(key);
+    return key === 'HEDERA_MIRROR_NODE_URL' && value === DEFAULT_MIRROR_NODE_URL ? undefined : value;
+  });
+}
 
 /**
  * Helper function to convert hex string to decimal
@@ -274,7 +260,6 @@ const fetchAllPoolsAction: Action = {
 
       // Get configuration
       const network = runtime.getSetting('HEDERA_NETWORK') || 'mainnet';
-      const mirrorNodeUrl = runtime.getSetting('HEDERA_MIRROR_NODE_URL');
       const demoMode = runtime.getSetting('DEMO_MODE') === 'true';
 
       let pools: ApiLiquidityPoolV2[];
@@ -287,8 +272,9 @@ const fetchAllPoolsAction: Action = {
         dataSource = 'Demo Mode (Mock Data)';
       } else {
         // Use Hedera Mirror Node API to fetch contract data
-        const hederaApiUrl = getHederaMirrorNodeUrl(network, mirrorNodeUrl);
-        const factoryContract = SAUCERSWAP_V2_FACTORY_CONTRACTS[network as keyof typeof SAUCERSWAP_V2_FACTORY_CONTRACTS];
+        const profile = getNetworkProfile(String(network), (key) => runtime.getSetting(key));
+        const hederaApiUrl = profile.mirrorNodeUrl;
+        const factoryContract = profile.contracts.factory;
 
         if (!factoryContract) {
           logger.warn(`SaucerSwap V2 Factory not available on ${network}, using demo data`);
@@ -526,7 +512,10 @@ const plugin: Plugin = {
       logger.info(`Using Hedera Mirror Node: ${validatedConfig.HEDERA_MIRROR_NODE_URL}`);
       logger.info(`Demo mode: ${validatedConfig.DEMO_MODE ? 'enabled' : 'disabled'}`);
 
-      const factoryContract = SAUCERSWAP_V2_FACTORY_CONTRACTS[validatedConfig.HEDERA_NETWORK as keyof typeof SAUCERSWAP_V2_FACTORY_CONTRACTS];
+      const factoryContract = getNetworkProfile(
+        validatedConfig.HEDERA_NETWORK,
+        (key) => validatedConfig[key as keyof typeof validatedConfig] ?? process.env[key]
+      ).contracts.factory;
       if (factoryContract) {
         logger.info(`SaucerSwap V2 Factory contract: ${factoryContract}`);
       } else {
@@ -570,9 +559,9 @@ const plugin: Plugin = {
       handler: async (_req: any, res: any) => {
         try {
           const network = process.env.HEDERA_NETWORK || 'mainnet';
-          const mirrorNodeUrl = process.env.HEDERA_MIRROR_NODE_URL;
           const demoMode = process.env.DEMO_MODE === 'true';
-          const factoryContract = SAUCERSWAP_V2_FACTORY_CONTRACTS[network as keyof typeof SAUCERSWAP_V2_FACTORY_CONTRACTS];
+          const profile = getNetworkProfile(network, (key) => process.env[key]);
+          const factoryContract = profile.contracts.factory;
 
           let pools: ApiLiquidityPoolV2[];
           let dataSource: string;
@@ -583,7 +572,7 @@ const plugin: Plugin = {
             dataSource = 'Demo Mode (Mock Data)';
           } else {
             // Use Hedera Mirror Node API
-            const hederaApiUrl = getHederaMirrorNodeUrl(network, mirrorNodeUrl);
+            const hederaApiUrl = profile.mirrorNodeUrl;
 
             if (!factoryContract) {
               pools = mockPoolsData;
@@ -617,7 +606,7 @@ const plugin: Plugin = {
             totalPools: pools.length,
             pools: pools.slice(0, 20), // Return first 20 pools
             dataSource,
-            mirrorNodeUrl: getHederaMirrorNodeUrl(network, mirrorNodeUrl),
+            mirrorNodeUrl: profile.mirrorNodeUrl,
             factoryContract,
           });
         } catch (error) {